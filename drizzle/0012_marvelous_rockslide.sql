@@ -0,0 +1,29 @@
+CREATE TABLE IF NOT EXISTS "prompt_versions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"prompt_id" uuid NOT NULL,
+	"version" integer NOT NULL,
+	"prompt" text NOT NULL,
+	"variables" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"author_clerk_org_id" text,
+	"author_clerk_user_id" text,
+	"rolled_back_from_version" integer,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "email_generations" ADD COLUMN "prompt_version_id" uuid;--> statement-breakpoint
+ALTER TABLE "prompts" ADD COLUMN "version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "prompts" ADD COLUMN "version_id" uuid;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "prompt_versions" ADD CONSTRAINT "prompt_versions_prompt_id_prompts_id_fk" FOREIGN KEY ("prompt_id") REFERENCES "public"."prompts"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_prompt_versions_prompt_version" ON "prompt_versions" USING btree ("prompt_id","version");--> statement-breakpoint
+-- Backfill: existing prompts become version 1 of their history.
+INSERT INTO "prompt_versions" ("prompt_id", "version", "prompt", "variables", "created_at")
+SELECT "id", 1, "prompt", "variables", "updated_at" FROM "prompts";--> statement-breakpoint
+UPDATE "prompts" p
+SET "version_id" = pv."id"
+FROM "prompt_versions" pv
+WHERE pv."prompt_id" = p."id" AND pv."version" = 1;
@@ -0,0 +1,2 @@
+ALTER TABLE "prompt_versions" ADD COLUMN "variable_mode" text DEFAULT 'lenient' NOT NULL;--> statement-breakpoint
+ALTER TABLE "prompts" ADD COLUMN "variable_mode" text DEFAULT 'lenient' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,10 @@
+DROP INDEX IF EXISTS "idx_prompts_app_type";--> statement-breakpoint
+ALTER TABLE "prompts" ADD COLUMN "org_id" uuid;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "prompts" ADD CONSTRAINT "prompts_org_id_orgs_id_fk" FOREIGN KEY ("org_id") REFERENCES "public"."orgs"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_prompts_app_type_org" ON "prompts" USING btree ("app_id","type","org_id") WHERE "prompts"."org_id" IS NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_prompts_app_type" ON "prompts" USING btree ("app_id","type") WHERE "prompts"."org_id" IS NULL;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS "prompt_variants" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"prompt_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"prompt" text NOT NULL,
+	"weight" integer DEFAULT 1 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "email_generations" ADD COLUMN "prompt_variant_id" uuid;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "prompt_variants" ADD CONSTRAINT "prompt_variants_prompt_id_prompts_id_fk" FOREIGN KEY ("prompt_id") REFERENCES "public"."prompts"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_prompt_variants_prompt_name" ON "prompt_variants" USING btree ("prompt_id","name");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "prompt_versions" ADD COLUMN "system_prompt" text;--> statement-breakpoint
+ALTER TABLE "prompts" ADD COLUMN "system_prompt" text;
\ No newline at end of file
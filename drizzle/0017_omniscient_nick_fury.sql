@@ -0,0 +1,3 @@
+ALTER TABLE "email_generations" ADD COLUMN "output" jsonb;--> statement-breakpoint
+ALTER TABLE "prompt_versions" ADD COLUMN "output_schema" jsonb;--> statement-breakpoint
+ALTER TABLE "prompts" ADD COLUMN "output_schema" jsonb;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "content_generations" ADD COLUMN "settings" jsonb;--> statement-breakpoint
+ALTER TABLE "email_generations" ADD COLUMN "settings" jsonb;--> statement-breakpoint
+ALTER TABLE "prompt_versions" ADD COLUMN "settings" jsonb;--> statement-breakpoint
+ALTER TABLE "prompts" ADD COLUMN "settings" jsonb;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE IF NOT EXISTS "prompt_partials" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"app_id" text NOT NULL,
+	"name" text NOT NULL,
+	"content" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_prompt_partials_app_name" ON "prompt_partials" USING btree ("app_id","name");
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TABLE "prompt_versions" ADD COLUMN "status" text DEFAULT 'published' NOT NULL;--> statement-breakpoint
+ALTER TABLE "prompt_versions" ADD COLUMN "submitted_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "prompt_versions" ADD COLUMN "submitted_by_clerk_user_id" text;--> statement-breakpoint
+ALTER TABLE "prompt_versions" ADD COLUMN "approved_by_clerk_org_id" text;--> statement-breakpoint
+ALTER TABLE "prompt_versions" ADD COLUMN "approved_by_clerk_user_id" text;--> statement-breakpoint
+ALTER TABLE "prompt_versions" ADD COLUMN "published_at" timestamp with time zone;--> statement-breakpoint
+UPDATE "prompt_versions" SET "published_at" = "created_at";
\ No newline at end of file
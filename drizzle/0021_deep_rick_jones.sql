@@ -0,0 +1,2 @@
+ALTER TABLE "prompt_versions" ADD COLUMN "variable_schema" jsonb;--> statement-breakpoint
+ALTER TABLE "prompts" ADD COLUMN "variable_schema" jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "prompt_versions" ADD COLUMN "sequence_config" jsonb;--> statement-breakpoint
+ALTER TABLE "prompts" ADD COLUMN "sequence_config" jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "content_generations" ADD COLUMN "locale" text;--> statement-breakpoint
+ALTER TABLE "email_generations" ADD COLUMN "locale" text;
\ No newline at end of file
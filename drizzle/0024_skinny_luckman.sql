@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS "style_presets" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"app_id" text NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"tone" text,
+	"opener" text,
+	"max_words" integer,
+	"rules" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "email_generations" ADD COLUMN "style" text;--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_style_presets_app_name" ON "style_presets" USING btree ("app_id","name");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "email_generations" ADD COLUMN "candidates" jsonb;--> statement-breakpoint
+ALTER TABLE "email_generations" ADD COLUMN "ranking" jsonb;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "email_generations" ADD COLUMN "parent_generation_id" uuid;--> statement-breakpoint
+ALTER TABLE "email_generations" ADD COLUMN "feedback" text;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_emailgen_parent" ON "email_generations" USING btree ("parent_generation_id");
\ No newline at end of file
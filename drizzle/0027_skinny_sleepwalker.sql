@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS "content_policies" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"app_id" text NOT NULL,
+	"rules" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"include_defaults" boolean DEFAULT true NOT NULL,
+	"disabled_rules" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"max_attempts" integer DEFAULT 3 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "email_generations" ADD COLUMN "policy_attempts" integer;--> statement-breakpoint
+ALTER TABLE "email_generations" ADD COLUMN "policy_violations" jsonb;--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_content_policies_app" ON "content_policies" USING btree ("app_id");
\ No newline at end of file
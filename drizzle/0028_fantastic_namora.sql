@@ -0,0 +1,4 @@
+ALTER TABLE "content_generations" ADD COLUMN "deliverability_score" integer;--> statement-breakpoint
+ALTER TABLE "content_generations" ADD COLUMN "deliverability" jsonb;--> statement-breakpoint
+ALTER TABLE "email_generations" ADD COLUMN "deliverability_score" integer;--> statement-breakpoint
+ALTER TABLE "email_generations" ADD COLUMN "deliverability" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "email_generations" ADD COLUMN "readability_violations" jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "prompt_versions" ADD COLUMN "variants" jsonb;--> statement-breakpoint
+ALTER TABLE "prompts" ADD COLUMN "variants" jsonb;
\ No newline at end of file
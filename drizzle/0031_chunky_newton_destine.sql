@@ -0,0 +1,7 @@
+ALTER TABLE "prompt_partials" ALTER COLUMN "content" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "prompt_partials" ADD COLUMN "draft_content" text;--> statement-breakpoint
+ALTER TABLE "prompt_partials" ADD COLUMN "draft_status" text;--> statement-breakpoint
+ALTER TABLE "prompt_partials" ADD COLUMN "draft_author_clerk_user_id" text;--> statement-breakpoint
+ALTER TABLE "prompt_partials" ADD COLUMN "draft_submitted_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "prompt_partials" ADD COLUMN "approved_by_clerk_user_id" text;--> statement-breakpoint
+ALTER TABLE "prompt_partials" ADD COLUMN "published_at" timestamp with time zone;
\ No newline at end of file
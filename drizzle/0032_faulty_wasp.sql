@@ -0,0 +1 @@
+ALTER TABLE "email_generations" ADD COLUMN "edit_count" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "email_generations" ADD COLUMN "sequence_config" jsonb;
\ No newline at end of file
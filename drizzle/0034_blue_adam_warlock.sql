@@ -0,0 +1 @@
+ALTER TABLE "email_generations" ADD COLUMN "rejected" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -1,4 +1,13 @@
+import { sql } from "drizzle-orm";
 import { pgTable, uuid, text, timestamp, uniqueIndex, index, integer, jsonb, boolean } from "drizzle-orm/pg-core";
+import type { GenerationSettings, ResolvedSettings } from "../lib/models.js";
+import type { VariableSpec } from "../lib/variable-schema.js";
+import type { VariantSpec } from "../lib/experiments.js";
+import type { SequenceConfig } from "../lib/sequence.js";
+import type { GenerationCandidate, RankingConfig } from "../lib/candidates.js";
+import type { PolicyRule, PolicyViolation } from "../lib/content-policy.js";
+import type { DeliverabilityReport, SequenceDeliverability } from "../lib/deliverability.js";
+import type { ReadabilityViolation } from "../lib/readability.js";
 
 // Local users table (maps to Clerk)
 export const users = pgTable(
@@ -39,6 +48,8 @@ export const emailGenerations = pgTable(
     runId: text("run_id").notNull(),
     apolloEnrichmentId: text("apollo_enrichment_id"),
     promptType: text("prompt_type"), // which stored prompt was used
+    promptVersionId: uuid("prompt_version_id"), // exact prompt version used (prompt_versions.id)
+    promptVariantId: uuid("prompt_variant_id"), // A/B variant served, if an experiment was running
 
     // Lead info (for context / dashboard display)
     leadFirstName: text("lead_first_name"),
@@ -67,9 +78,53 @@ export const emailGenerations = pgTable(
     bodyHtml: text("body_html"),
     bodyText: text("body_text"),
     sequence: jsonb("sequence"),
+    // Config the sequence was written with, length and readability limits
+    // included. null = custom output, the default config, or stored before
+    sequenceConfig: jsonb("sequence_config").$type<SequenceConfig>(),
+
+    // Structured model output, validated against the prompt's output schema
+    output: jsonb("output").$type<Record<string, unknown>>(),
+
+    // BCP 47 tag the output was written in; null = not requested (English by default)
+    locale: text("locale"),
+    // Style preset name used; null = built-in style
+    style: text("style"),
+
+    // All candidates when several were requested, ranked; the selected one is
+    // also in subject/sequence/output. null = single candidate
+    candidates: jsonb("candidates").$type<GenerationCandidate[]>(),
+    ranking: jsonb("ranking").$type<RankingConfig>(),
+
+    // Revision made from reviewer feedback: the generation it revises, and the
+    // feedback. null = generated from scratch
+    parentGenerationId: uuid("parent_generation_id"),
+    feedback: text("feedback"),
+
+    // Content policy: attempts made (1 = passed first time or no retries) and
+    // violations left in the stored output (empty = passed)
+    policyAttempts: integer("policy_attempts"),
+    policyViolations: jsonb("policy_violations").$type<PolicyViolation[]>(),
+
+    // Offline deliverability analysis of the stored sequence: the weakest
+    // step's score (0-100) and every step's findings. null = custom output
+    deliverabilityScore: integer("deliverability_score"),
+    deliverability: jsonb("deliverability").$type<SequenceDeliverability>(),
+
+    // Steps outside the sequence's length and readability limits after the
+    // last attempt (empty = within them). Per-step metrics are on the steps
+    readabilityViolations: jsonb("readability_violations").$type<ReadabilityViolation[]>(),
+    // Outside its limits with onLimitViolation: reject. Kept for its output
+    // and costs; /generate failed with 422, and lookups and stats skip it
+    rejected: boolean("rejected").notNull().default(false),
+
+    // Bumped by every change to the stored content after generation (step
+    // regeneration, candidate selection), so a writer that read an older
+    // count knows its edit would overwrite another one
+    editCount: integer("edit_count").notNull().default(0),
 
     // Model info (kept for operational metadata)
     model: text("model").notNull().default("claude-sonnet-4-6"),
+    settings: jsonb("settings").$type<ResolvedSettings>(), // model, maxTokens and sampling actually used
     tokensInput: integer("tokens_input"),
     tokensOutput: integer("tokens_output"),
 
@@ -90,10 +145,16 @@ export const emailGenerations = pgTable(
     index("idx_emailgen_run").on(table.runId),
     index("idx_emailgen_enrichment").on(table.apolloEnrichmentId),
     index("idx_emailgen_campaign").on(table.campaignId),
+    index("idx_emailgen_parent").on(table.parentGenerationId),
     uniqueIndex("idx_emailgen_idempotency").on(table.orgId, table.idempotencyKey),
   ]
 );
 
+export type VariableMode = "strict" | "lenient";
+
+// Lifecycle of a prompt version: only published versions are served by /generate
+export type VersionStatus = "draft" | "in_review" | "published";
+
 // Prompt templates (registered by apps at startup)
 export const prompts = pgTable(
   "prompts",
@@ -101,13 +162,152 @@ export const prompts = pgTable(
     id: uuid("id").primaryKey().defaultRandom(),
     appId: text("app_id").notNull(),
     type: text("type").notNull(), // "email" | "calendar" | custom types
+    // null = app-level default; set = override for a single org
+    orgId: uuid("org_id").references(() => orgs.id, { onDelete: "cascade" }),
     prompt: text("prompt").notNull(), // template text with {{variables}}
     variables: jsonb("variables").$type<string[]>().notNull().default([]), // expected variable names
+    variableSchema: jsonb("variable_schema").$type<VariableSpec[]>(), // typed declarations; null = untyped names only
+    variableMode: text("variable_mode").$type<VariableMode>().notNull().default("lenient"), // "strict" rejects bad /generate input
+    systemPrompt: text("system_prompt"), // template with {{variables}}; null = built-in cold outreach persona
+    outputSchema: jsonb("output_schema").$type<Record<string, unknown>>(), // JSON Schema of the output; null = email sequence
+    settings: jsonb("settings").$type<GenerationSettings>(), // model, maxTokens, sampling; null = defaults
+    sequenceConfig: jsonb("sequence_config").$type<SequenceConfig>(), // email count and cadence; null = 3 emails at days 0, 3, 7
+    variants: jsonb("variants").$type<VariantSpec[]>(), // A/B variant set of the live version; null = not recorded
+    version: integer("version").notNull().default(1), // live version number; 0 until the first version is published
+    versionId: uuid("version_id"), // live prompt_versions.id; null until the first version is published
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("idx_prompts_app_type").on(table.appId, table.type).where(sql`${table.orgId} IS NULL`),
+    uniqueIndex("idx_prompts_app_type_org").on(table.appId, table.type, table.orgId).where(sql`${table.orgId} IS NOT NULL`),
+  ]
+);
+
+// Immutable prompt version history (one row per change to a prompt)
+export const promptVersions = pgTable(
+  "prompt_versions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    promptId: uuid("prompt_id")
+      .notNull()
+      .references(() => prompts.id, { onDelete: "cascade" }),
+    version: integer("version").notNull(),
+    prompt: text("prompt").notNull(),
+    variables: jsonb("variables").$type<string[]>().notNull().default([]),
+    variableSchema: jsonb("variable_schema").$type<VariableSpec[]>(),
+    variableMode: text("variable_mode").$type<VariableMode>().notNull().default("lenient"),
+    systemPrompt: text("system_prompt"),
+    outputSchema: jsonb("output_schema").$type<Record<string, unknown>>(),
+    settings: jsonb("settings").$type<GenerationSettings>(),
+    sequenceConfig: jsonb("sequence_config").$type<SequenceConfig>(),
+    // A/B variant set served with this version; null = versions from before
+    // variants were versioned, which leave the current set as it is
+    variants: jsonb("variants").$type<VariantSpec[]>(),
+
+    // Author
+    authorClerkOrgId: text("author_clerk_org_id"),
+    authorClerkUserId: text("author_clerk_user_id"),
+
+    // Set when this version republishes an older one
+    rolledBackFromVersion: integer("rolled_back_from_version"),
+
+    // Lifecycle: draft -> in_review -> published
+    status: text("status").$type<VersionStatus>().notNull().default("published"),
+    submittedAt: timestamp("submitted_at", { withTimezone: true }),
+    submittedByClerkUserId: text("submitted_by_clerk_user_id"),
+    approvedByClerkOrgId: text("approved_by_clerk_org_id"),
+    approvedByClerkUserId: text("approved_by_clerk_user_id"), // null for rollbacks and versions from before review
+    publishedAt: timestamp("published_at", { withTimezone: true }),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("idx_prompt_versions_prompt_version").on(table.promptId, table.version),
+  ]
+);
+
+// A/B experiment variants of the live prompt version (traffic split by
+// weight). Synced from the version's variant set when it is published; a
+// variant keeps its id as long as its name stays in the set
+export const promptVariants = pgTable(
+  "prompt_variants",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    promptId: uuid("prompt_id")
+      .notNull()
+      .references(() => prompts.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    prompt: text("prompt").notNull(), // replaces the prompt template when served
+    weight: integer("weight").notNull().default(1),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("idx_prompt_variants_prompt_name").on(table.promptId, table.name),
+  ]
+);
+
+// Shared template snippets, included in an app's prompts as {{> name}}
+export const promptPartials = pgTable(
+  "prompt_partials",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    appId: text("app_id").notNull(),
+    name: text("name").notNull(),
+    content: text("content"), // published content; null until the first draft is approved
+
+    // Pending change: draft -> in_review, then copied to content when published
+    draftContent: text("draft_content"),
+    draftStatus: text("draft_status").$type<Exclude<VersionStatus, "published">>(),
+    draftAuthorClerkUserId: text("draft_author_clerk_user_id"),
+    draftSubmittedAt: timestamp("draft_submitted_at", { withTimezone: true }),
+    approvedByClerkUserId: text("approved_by_clerk_user_id"), // approver of the published content
+    publishedAt: timestamp("published_at", { withTimezone: true }),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("idx_prompt_partials_app_name").on(table.appId, table.name),
+  ]
+);
+
+// Named tone/length/opener presets of an app, picked per request with `style`
+export const stylePresets = pgTable(
+  "style_presets",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    appId: text("app_id").notNull(),
+    name: text("name").notNull(),
+    description: text("description"),
+    tone: text("tone"), // replaces the built-in tone rules; null = built-in
+    opener: text("opener"), // replaces the built-in contrarian opener; null = built-in
+    maxWords: integer("max_words"), // length target per email; null = none
+    rules: text("rules"), // extra rules appended to the system prompt
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
   },
   (table) => [
-    uniqueIndex("idx_prompts_app_type").on(table.appId, table.type),
+    uniqueIndex("idx_style_presets_app_name").on(table.appId, table.name),
+  ]
+);
+
+// Content policy of an app: rules checked on every generated sequence, on top
+// of or instead of the built-in ones
+export const contentPolicies = pgTable(
+  "content_policies",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    appId: text("app_id").notNull(),
+    rules: jsonb("rules").$type<PolicyRule[]>().notNull().default([]),
+    includeDefaults: boolean("include_defaults").notNull().default(true),
+    disabledRules: jsonb("disabled_rules").$type<string[]>().notNull().default([]), // default rule ids to skip
+    maxAttempts: integer("max_attempts").notNull().default(3), // attempts in total; 1 = record violations only
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("idx_content_policies_app").on(table.appId),
   ]
 );
 
@@ -133,11 +333,18 @@ export const contentGenerations = pgTable(
     bodyHtml: text("body_html"),
     bodyText: text("body_text"),
 
+    // Offline deliverability analysis of the email: score (0-100) and findings
+    deliverabilityScore: integer("deliverability_score"),
+    deliverability: jsonb("deliverability").$type<DeliverabilityReport>(),
+
     // Output — calendar
     title: text("title"),
     description: text("description"),
     location: text("location"),
 
+    // BCP 47 tag the output was written in; null = not requested (English)
+    locale: text("locale"),
+
     // Cost tracking
     generationRunId: text("generation_run_id"),
     parentRunId: text("parent_run_id"),
@@ -147,6 +354,7 @@ export const contentGenerations = pgTable(
 
     // Model metadata
     model: text("model").notNull().default("claude-sonnet-4-6"),
+    settings: jsonb("settings").$type<ResolvedSettings>(), // model, maxTokens and sampling actually used
     tokensInput: integer("tokens_input"),
     tokensOutput: integer("tokens_output"),
 
@@ -172,3 +380,13 @@ export type ContentGeneration = typeof contentGenerations.$inferSelect;
 export type NewContentGeneration = typeof contentGenerations.$inferInsert;
 export type Prompt = typeof prompts.$inferSelect;
 export type NewPrompt = typeof prompts.$inferInsert;
+export type PromptVersion = typeof promptVersions.$inferSelect;
+export type NewPromptVersion = typeof promptVersions.$inferInsert;
+export type PromptVariant = typeof promptVariants.$inferSelect;
+export type NewPromptVariant = typeof promptVariants.$inferInsert;
+export type PromptPartial = typeof promptPartials.$inferSelect;
+export type NewPromptPartial = typeof promptPartials.$inferInsert;
+export type StylePreset = typeof stylePresets.$inferSelect;
+export type NewStylePreset = typeof stylePresets.$inferInsert;
+export type ContentPolicy = typeof contentPolicies.$inferSelect;
+export type NewContentPolicy = typeof contentPolicies.$inferInsert;
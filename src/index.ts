@@ -11,6 +11,14 @@ import generateRoutes from "./routes/generate.js";
 import contentRoutes from "./routes/content.js";
 import statsRoutes from "./routes/stats.js";
 import promptRoutes from "./routes/prompts.js";
+import promptVariantRoutes from "./routes/prompt-variants.js";
+import promptPartialRoutes from "./routes/prompt-partials.js";
+import promptBundleRoutes from "./routes/prompt-bundles.js";
+import stylePresetRoutes from "./routes/style-presets.js";
+import contentPolicyRoutes from "./routes/content-policies.js";
+import generationStepRoutes from "./routes/generation-steps.js";
+import generationCandidateRoutes from "./routes/generation-candidates.js";
+import generationRevisionRoutes from "./routes/generation-revisions.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -38,6 +46,14 @@ app.use(generateRoutes);
 app.use(contentRoutes);
 app.use(statsRoutes);
 app.use(promptRoutes);
+app.use(promptVariantRoutes);
+app.use(promptPartialRoutes);
+app.use(promptBundleRoutes);
+app.use(stylePresetRoutes);
+app.use(contentPolicyRoutes);
+app.use(generationStepRoutes);
+app.use(generationCandidateRoutes);
+app.use(generationRevisionRoutes);
 
 // 404 handler
 app.use((req, res) => {
@@ -1,39 +1,89 @@
 import Anthropic from "@anthropic-ai/sdk";
+import { renderTemplate, coerceToString } from "./template-engine.js";
+import { OutputValidationError, parseOutput, type OutputSchema } from "./output-schema.js";
+import {
+  costUsd,
+  resolveSettings,
+  toMessageParams,
+  type GenerationSettings,
+  type ResolvedSettings,
+} from "./models.js";
+import {
+  DEFAULT_SEQUENCE,
+  describeSequence,
+  sequenceJsonSchema,
+  stepField,
+  stepSubjectField,
+  threadModeOf,
+  type SequenceConfig,
+  type ThreadMode,
+} from "./sequence.js";
+import { localeInstructions, textToHtml } from "./locale.js";
+import { lengthRule, styleInstructions, type StyleRules } from "./style-presets.js";
+import { readabilityMetrics, type ReadabilityMetrics } from "./readability.js";
 
-const MODEL = "claude-sonnet-4-6";
+const DEFAULT_MAX_TOKENS = 3072;
 
-function buildSystemPrompt(): string {
+const DEFAULT_TONE =
+  "Greet the recipient by first name — it's a real email from a real person, not a blog post. Keep it warm, direct, conversational.";
+
+const DEFAULT_OPENER =
+  "Don't open with a compliment. \"Your work in X caught my attention\" is the fastest way to get deleted — it screams template. Instead, lead with a contrarian angle: a simple, provocative observation that challenges something people in the recipient's world take for granted, and that connects to why the client's offering exists. The best opening feels like an insight from a peer, not a pitch from a stranger.";
+
+/**
+ * The built-in cold outreach persona. A style preset replaces the tone and
+ * opener sections and adds its length target and rules.
+ */
+export function buildSystemPrompt(sequence: SequenceConfig = DEFAULT_SEQUENCE, style?: StyleRules | null): string {
   const now = new Date().toISOString().split("T")[0];
+  const contrarian = !style?.opener;
+  const length = style?.maxWords ? `\n\n## Length\n${lengthRule(style.maxWords)}` : "";
+  const rules = style?.rules ? `\n\n## House style\n${style.rules}` : "";
+  const count = sequence.steps.length;
+  const task = count === 1 ? "a single cold outreach email" : `a ${count}-email cold outreach sequence`;
+  const deliverable = count === 1 ? "the email" : `the ${count} emails`;
   return `Today is ${now}.
 
-You're writing a 3-email cold outreach sequence on behalf of a sales rep. Your job is to get a reply — nothing else matters.
+You're writing ${task} on behalf of a sales rep. Your job is to get a reply — nothing else matters.
 
 ## Output rule
-Always respond with the 3 emails ready to send. Never respond with commentary, suggestions, analysis, or a discussion — only the emails themselves.
+Always respond with ${deliverable} ready to send. Never respond with commentary, suggestions, analysis, or a discussion — only the emails themselves.
 
 ## Sequence structure
-- **Email 1 (body):** The initial cold email. Lead with a contrarian angle.
-- **Email 2 (followup1):** A short follow-up sent ~3 days after email 1. Reference the first email without repeating it. Keep it to 2-3 sentences. Same thread — no new subject line.
-- **Email 3 (followup2):** A final follow-up sent ~7 days after email 2. Take a different angle. This is the last attempt — make it count. Same thread — no new subject line.
+${describeSequence(sequence, contrarian)}
 
 ## Keep it simple
-Write like a human texting a smart friend. Short sentences. Plain words. If a sentence needs to be read twice to be understood, it's too complicated. The contrarian angle should hit instantly — not require a PhD to parse.
+Write like a human texting a smart friend. Short sentences. Plain words. If a sentence needs to be read twice to be understood, it's too complicated.${contrarian ? " The contrarian angle should hit instantly — not require a PhD to parse." : ""}
 
 ## Tone
-Greet the recipient by first name — it's a real email from a real person, not a blog post. Keep it warm, direct, conversational.
+${style?.tone ?? DEFAULT_TONE}
 
 ## Identity protection
 Keep the client anonymous. Say "a client of mine", "a company I work with", etc. Don't include their website URL. Curiosity is the goal — the recipient should want to reply to learn more.
 
 ## Opening line (Email 1 only)
-Don't open with a compliment. "Your work in X caught my attention" is the fastest way to get deleted — it screams template. Instead, lead with a contrarian angle: a simple, provocative observation that challenges something people in the recipient's world take for granted, and that connects to why the client's offering exists. The best opening feels like an insight from a peer, not a pitch from a stranger.
+${style?.opener ?? DEFAULT_OPENER}
 
 ## Scam filter
-Cold emails live or die on trust. Avoid anything that pattern-matches to scam or MLM: specific dollar amounts, crypto terminology (tokens, chains, USDT, Web3), compensation details, "passive income" language. Lead with the mission and the human impact. The money conversation happens later, on a call, once trust is established.`;
+Cold emails live or die on trust. Avoid anything that pattern-matches to scam or MLM: specific dollar amounts, crypto terminology (tokens, chains, USDT, Web3), compensation details, "passive income" language. Lead with the mission and the human impact. The money conversation happens later, on a call, once trust is established.${length}${rules}`;
 }
 
 export interface GenerateFromTemplateParams {
   promptTemplate: string;
+  /** Stored system prompt template; null or omitted uses buildSystemPrompt() */
+  systemPromptTemplate?: string | null;
+  /** Stored JSON Schema for the output; null or omitted uses the email sequence schema */
+  outputSchema?: OutputSchema | null;
+  /** Merged prompt + request settings; unset fields use the defaults */
+  settings?: GenerationSettings;
+  /** Steps of the email sequence; ignored with an output schema. Defaults to 3 emails at days 0, 3 and 7 */
+  sequence?: SequenceConfig | null;
+  /** BCP 47 tag to write in; omitted leaves the language to the prompts */
+  locale?: string | null;
+  /** Style preset; replaces parts of the built-in persona, or is appended to a stored system prompt */
+  style?: StyleRules | null;
+  /** Position among the candidates of one /generate call; omitted for a single one */
+  candidate?: { index: number; count: number };
   variables: Record<string, unknown>;
 }
 
@@ -42,58 +92,137 @@ export interface SequenceStep {
   bodyHtml: string;
   bodyText: string;
   daysSinceLastStep: number;
+  threadMode: ThreadMode;
+  /** Own subject line of a follow-up that starts a new thread */
+  subject?: string;
+  /** Current revision of the step; absent means 1, as first generated */
+  revision?: number;
+  /** Earlier revisions replaced by POST /generations/:id/steps/:step/regenerate, oldest first */
+  revisions?: StepRevision[];
+  /** Metrics of bodyText */
+  readability?: ReadabilityMetrics;
+}
+
+export interface StepRevision {
+  revision: number;
+  bodyHtml: string;
+  bodyText: string;
+  subject?: string;
+  replacedAt: string;
 }
 
 export interface GenerateResult {
-  subject: string;
-  sequence: SequenceStep[];
+  /** Email sequence fields; null when the prompt has its own output schema */
+  subject: string | null;
+  sequence: SequenceStep[] | null;
+  /** Structured output as returned by Claude */
+  output: Record<string, unknown>;
   tokensInput: number;
   tokensOutput: number;
   costUsd: number;
+  settings: ResolvedSettings;
   promptRaw: string;
   responseRaw: object;
 }
 
-/**
- * Coerce an unknown value to a string for template substitution.
- * - strings pass through
- * - arrays of strings are comma-joined
- * - everything else is JSON-stringified
- */
-export function coerceToString(value: unknown): string {
-  if (typeof value === "string") return value;
-  if (Array.isArray(value) && value.every((v) => typeof v === "string")) {
-    return value.join(", ");
-  }
-  return JSON.stringify(value);
-}
+export { coerceToString };
 
 /**
- * Substitute {{variable}} placeholders in a prompt template with values.
- * Non-string values are coerced via coerceToString.
+ * Render a prompt template with variables. Plain {{variable}} placeholders
+ * behave as before; see template-engine.ts for blocks and filters.
  */
 export function substituteVariables(
   template: string,
   variables: Record<string, unknown>
 ): string {
-  let result = template;
-  for (const [key, value] of Object.entries(variables)) {
-    result = result.replaceAll(`{{${key}}}`, coerceToString(value));
-  }
-  return result;
+  return renderTemplate(template, variables);
 }
 
-const EMAIL_SEQUENCE_JSON_SCHEMA = {
-  type: "object" as const,
-  properties: {
-    subject: { type: "string" as const },
-    body: { type: "string" as const },
-    followup1: { type: "string" as const },
-    followup2: { type: "string" as const },
-  },
-  required: ["subject", "body", "followup1", "followup2"],
-  additionalProperties: false,
-};
+/**
+ * Rough token count for text sent to Claude (~4 characters per token).
+ * Only used for previews; billed usage always comes from the API response.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * System prompt section for one of several candidates written in parallel for
+ * the same recipient, steering each toward its own angle.
+ */
+function candidateInstructions(index: number, count: number): string {
+  const angle = index === 1
+    ? "Write the version you think is most likely to get a reply."
+    : `Don't write the most obvious version: take angle number ${index} of the ${count} different angles you could ` +
+      "take, with its own opening line and subject line.";
+  return `## Candidate\nThis is candidate ${index} of ${count} written for the same recipient; a reviewer compares them side by side, so each must be clearly distinct. ${angle}`;
+}
+
+/**
+ * Build the Messages API request for a prompt template + variables, without
+ * sending it.
+ */
+export function buildGenerationRequest(params: GenerateFromTemplateParams) {
+  const sequence = params.sequence ?? DEFAULT_SEQUENCE;
+  const sections = params.systemPromptTemplate
+    ? [
+        substituteVariables(params.systemPromptTemplate, params.variables),
+        ...(params.style ? [styleInstructions(params.style)] : []),
+      ]
+    : [buildSystemPrompt(sequence, params.style)];
+  if (params.locale) sections.push(localeInstructions(params.locale));
+  if (params.candidate) sections.push(candidateInstructions(params.candidate.index, params.candidate.count));
+  return {
+    ...structuredMessageParams(resolveSettings(params.settings, DEFAULT_MAX_TOKENS)),
+    system: sections.join("\n\n"),
+    messages: [
+      {
+        role: "user" as const,
+        content: substituteVariables(params.promptTemplate, params.variables),
+      },
+    ],
+    output_config: {
+      format: {
+        type: "json_schema" as const,
+        schema: params.outputSchema ?? sequenceJsonSchema(sequence),
+      },
+    },
+  };
+}
+
+export interface GenerationPreview {
+  settings: ResolvedSettings;
+  systemPrompt: string;
+  userPrompt: string;
+  outputSchema: OutputSchema;
+  estimatedTokensInput: number;
+  maxTokensOutput: number;
+  /** Upper bound: estimated input tokens plus max_tokens of output */
+  estimatedCostUsd: number;
+}
+
+/**
+ * Render exactly what generateFromTemplate would send to Claude, with a token
+ * and cost estimate. Makes no API call.
+ */
+export function previewGeneration(params: GenerateFromTemplateParams): GenerationPreview {
+  const settings = resolveSettings(params.settings, DEFAULT_MAX_TOKENS);
+  const request = buildGenerationRequest(params);
+  const userPrompt = request.messages[0].content;
+  const estimatedTokensInput = estimateTokens(
+    request.system + userPrompt + JSON.stringify(request.output_config.format.schema)
+  );
+
+  return {
+    settings,
+    systemPrompt: request.system,
+    userPrompt,
+    outputSchema: request.output_config.format.schema,
+    estimatedTokensInput,
+    maxTokensOutput: request.max_tokens,
+    estimatedCostUsd: costUsd(settings.model, estimatedTokensInput, request.max_tokens),
+  };
+}
 
 /**
  * Generate content by substituting variables into a stored prompt template
@@ -105,78 +234,384 @@ export async function generateFromTemplate(
 ): Promise<GenerateResult> {
   const anthropic = new Anthropic({ apiKey });
 
-  const prompt = substituteVariables(params.promptTemplate, params.variables);
+  const settings = resolveSettings(params.settings, DEFAULT_MAX_TOKENS);
+  const request = buildGenerationRequest(params);
+  const response = await anthropic.messages.create(request);
+
+  const { text, json } = structuredOutput(response);
+  const output = validatedOutput(params.outputSchema, json, response.usage);
+  const parsed = params.outputSchema
+    ? { subject: null, sequence: null }
+    : parseSequenceJson(text, params.sequence ?? DEFAULT_SEQUENCE, params.locale);
+
+  const tokensInput = response.usage.input_tokens;
+  const tokensOutput = response.usage.output_tokens;
+
+  return {
+    ...parsed,
+    output,
+    tokensInput,
+    tokensOutput,
+    costUsd: costUsd(settings.model, tokensInput, tokensOutput),
+    settings,
+    promptRaw: formatPromptRaw(request.system, request.messages[0].content),
+    responseRaw: response,
+  };
+}
+
+/**
+ * Messages API parameters for a structured-output call. Stop sequences are
+ * left out: stopping early would cut the JSON short.
+ */
+function structuredMessageParams(settings: ResolvedSettings) {
+  return toMessageParams({ ...settings, stopSequences: undefined });
+}
+
+/**
+ * The JSON object of a structured-output response. Output cut short at
+ * maxTokens, or that is not valid JSON, fails with a validation error
+ * carrying the response's usage: Claude billed it anyway.
+ */
+function structuredOutput(response: Anthropic.Message): { text: string; json: Record<string, unknown> } {
+  const textContent = response.content.find((c) => c.type === "text");
+  const text = textContent?.type === "text" ? textContent.text : "";
+
+  let issue: string | null = null;
+  let json: Record<string, unknown> = {};
+  if (response.stop_reason === "max_tokens" || response.stop_reason === "stop_sequence") {
+    issue = `output was cut off (stop reason ${response.stop_reason}) after ${response.usage.output_tokens} tokens; raise maxTokens`;
+  } else {
+    try {
+      json = JSON.parse(text) as Record<string, unknown>;
+    } catch {
+      issue = "output is not valid JSON";
+    }
+  }
+  if (issue) {
+    const err = new OutputValidationError([issue]);
+    err.usage = { tokensInput: response.usage.input_tokens, tokensOutput: response.usage.output_tokens };
+    throw err;
+  }
+  return { text, json };
+}
+
+/**
+ * Validate structured output against the prompt's schema, if it has one. A
+ * validation error carries the response's usage: Claude billed it anyway.
+ */
+function validatedOutput(
+  schema: OutputSchema | null | undefined,
+  json: Record<string, unknown>,
+  usage: Anthropic.Usage
+): Record<string, unknown> {
+  if (!schema) return json;
+  try {
+    return parseOutput(schema, json);
+  } catch (err) {
+    if (err instanceof OutputValidationError) {
+      err.usage = { tokensInput: usage.input_tokens, tokensOutput: usage.output_tokens };
+    }
+    throw err;
+  }
+}
+
+function formatPromptRaw(system: string, user: string): string {
+  return `[SYSTEM]\n${system}\n\n[USER]\n${user}`;
+}
+
+/**
+ * Split a stored promptRaw back into the system and user prompt. Returns
+ * null when it is not in the format generateFromTemplate writes.
+ */
+export function parsePromptRaw(promptRaw: string): { system: string; user: string } | null {
+  if (!promptRaw.startsWith("[SYSTEM]\n")) return null;
+  const separator = promptRaw.indexOf("\n\n[USER]\n");
+  if (separator === -1) return null;
+  return {
+    system: promptRaw.slice("[SYSTEM]\n".length, separator),
+    user: promptRaw.slice(separator + "\n\n[USER]\n".length),
+  };
+}
+
+export interface RegenerateStepParams {
+  /** System and user prompt of the original generation */
+  systemPrompt: string;
+  userPrompt: string;
+  subject: string;
+  sequence: SequenceStep[];
+  /** 1-based step to rewrite */
+  step: number;
+  /** Reviewer feedback for the rewrite */
+  instructions?: string;
+  settings?: GenerationSettings;
+  locale?: string | null;
+}
+
+export interface RegenerateStepResult {
+  bodyHtml: string;
+  bodyText: string;
+  /** New subject of a follow-up that starts its own thread */
+  subject?: string;
+  tokensInput: number;
+  tokensOutput: number;
+  costUsd: number;
+  settings: ResolvedSettings;
+  promptRaw: string;
+  responseRaw: object;
+}
+
+/**
+ * Rewrite one step of a sequence. The original conversation is replayed with
+ * the current sequence as Claude's answer, so the other steps stay in
+ * context, then Claude is asked for the one step only.
+ */
+export async function regenerateStep(apiKey: string, params: RegenerateStepParams): Promise<RegenerateStepResult> {
+  const anthropic = new Anthropic({ apiKey });
+
+  const index = params.step - 1;
+  const field = stepField(index);
+  const target = params.sequence[index];
+  const ownSubject = index > 0 && target.threadMode === "new";
 
+  const current: Record<string, string> = { subject: params.subject };
+  params.sequence.forEach((step, i) => {
+    current[stepField(i)] = step.bodyText;
+    if (i > 0 && step.threadMode === "new" && step.subject !== undefined) current[stepSubjectField(i)] = step.subject;
+  });
+
+  const ask = [
+    `Rewrite email ${params.step} (${field}) only. Keep it consistent with the other emails, which are staying as they are, ` +
+      "and follow the same rules.",
+    ...(params.instructions ? [`Reviewer feedback: ${params.instructions}`] : []),
+    `Respond with the new ${ownSubject ? "body and subject line" : "body"} only.`,
+  ].join("\n\n");
+
+  const fields = ownSubject ? ["body", "subject"] : ["body"];
+  const settings = resolveSettings(params.settings, DEFAULT_MAX_TOKENS);
   const response = await anthropic.messages.create({
-    model: MODEL,
-    max_tokens: 3072,
-    system: buildSystemPrompt(),
+    ...structuredMessageParams(settings),
+    system: params.systemPrompt,
     messages: [
-      {
-        role: "user",
-        content: prompt,
-      },
+      { role: "user" as const, content: params.userPrompt },
+      { role: "assistant" as const, content: JSON.stringify(current) },
+      { role: "user" as const, content: ask },
     ],
     output_config: {
       format: {
-        type: "json_schema",
-        schema: EMAIL_SEQUENCE_JSON_SCHEMA,
+        type: "json_schema" as const,
+        schema: {
+          type: "object" as const,
+          properties: Object.fromEntries(fields.map((f) => [f, { type: "string" as const }])),
+          required: fields,
+          additionalProperties: false,
+        },
       },
     },
   });
 
-  const textContent = response.content.find((c) => c.type === "text");
-  const text = textContent?.type === "text" ? textContent.text : "";
+  const json = structuredOutput(response).json as { body: string; subject?: string };
+  const bodyText = json.body.trim();
+
+  const tokensInput = response.usage.input_tokens;
+  const tokensOutput = response.usage.output_tokens;
 
-  const parsed = parseSequenceJson(text);
+  return {
+    bodyHtml: textToHtml(bodyText, params.locale),
+    bodyText,
+    ...(ownSubject && { subject: json.subject }),
+    tokensInput,
+    tokensOutput,
+    costUsd: costUsd(settings.model, tokensInput, tokensOutput),
+    settings,
+    promptRaw: formatPromptRaw(params.systemPrompt, `${params.userPrompt}\n\n[ASSISTANT]\n${JSON.stringify(current)}\n\n[USER]\n${ask}`),
+    responseRaw: response,
+  };
+}
+
+export interface ReviseGenerationParams {
+  /** System and user prompt of the original generation */
+  systemPrompt: string;
+  userPrompt: string;
+  /**
+   * The generation and the revisions leading to it, oldest first: each
+   * output, with the feedback that produced it (null for the original)
+   */
+  history: { feedback: string | null; output: Record<string, unknown> }[];
+  feedback: string;
+  /** Output schema of the prompt; null or omitted revises an email sequence */
+  outputSchema?: OutputSchema | null;
+  /** Steps of the sequence being revised; ignored with an output schema */
+  sequence?: SequenceConfig | null;
+  settings?: GenerationSettings;
+  locale?: string | null;
+}
+
+/**
+ * Revise a generation from reviewer feedback. The original prompt, each
+ * earlier output and feedback are replayed as the conversation, so Claude
+ * revises its own emails instead of starting over. The output keeps the
+ * original's shape. promptRaw is the original prompt, so revisions can be
+ * regenerated and revised in turn.
+ */
+export async function reviseGeneration(apiKey: string, params: ReviseGenerationParams): Promise<GenerateResult> {
+  const anthropic = new Anthropic({ apiKey });
+
+  const sequence = params.sequence ?? DEFAULT_SEQUENCE;
+  const messages: { role: "user" | "assistant"; content: string }[] = [];
+  params.history.forEach((turn, i) => {
+    messages.push({ role: "user", content: i === 0 ? params.userPrompt : revisionRequest(turn.feedback ?? "") });
+    messages.push({ role: "assistant", content: JSON.stringify(turn.output) });
+  });
+  messages.push({ role: "user", content: revisionRequest(params.feedback) });
+
+  const settings = resolveSettings(params.settings, DEFAULT_MAX_TOKENS);
+  const response = await anthropic.messages.create({
+    ...structuredMessageParams(settings),
+    system: params.systemPrompt,
+    messages,
+    output_config: {
+      format: {
+        type: "json_schema" as const,
+        schema: params.outputSchema ?? sequenceJsonSchema(sequence),
+      },
+    },
+  });
+
+  const { text, json } = structuredOutput(response);
+  const output = validatedOutput(params.outputSchema, json, response.usage);
+  const parsed = params.outputSchema
+    ? { subject: null, sequence: null }
+    : parseSequenceJson(text, sequence, params.locale);
 
   const tokensInput = response.usage.input_tokens;
   const tokensOutput = response.usage.output_tokens;
-  const costUsd =
-    (tokensInput / 1_000_000) * 3 +
-    (tokensOutput / 1_000_000) * 15;
 
   return {
     ...parsed,
+    output,
     tokensInput,
     tokensOutput,
-    costUsd,
-    promptRaw: prompt,
+    costUsd: costUsd(settings.model, tokensInput, tokensOutput),
+    settings,
+    promptRaw: formatPromptRaw(params.systemPrompt, params.userPrompt),
     responseRaw: response,
   };
 }
 
-function textToHtml(text: string): string {
-  return text
-    .split("\n\n")
-    .map((p) => `<p>${p.replace(/\n/g, "<br>")}</p>`)
-    .join("");
+function revisionRequest(feedback: string): string {
+  return `Revise your emails with this reviewer feedback. Change only what it asks for, keep everything else, and follow the same rules.\n\nFeedback: ${feedback}`;
+}
+
+const DEFAULT_JUDGE_CRITERIA =
+  "Which one is most likely to get a reply: relevance to this recipient, a specific hook, plain language, " +
+  "and a low-friction ask.";
+
+export interface JudgeCandidatesParams {
+  /** Rendered user prompt of the generation, for what is known about the recipient */
+  userPrompt: string;
+  /** Output of each candidate, in candidate order */
+  candidates: Record<string, unknown>[];
+  criteria?: string;
+  settings?: GenerationSettings;
+}
+
+export interface JudgeCandidatesResult {
+  /** One per candidate, in candidate order; score from 0 to 1 */
+  scores: { score: number; rationale: string }[];
+  tokensInput: number;
+  tokensOutput: number;
+  costUsd: number;
+  settings: ResolvedSettings;
+}
+
+/**
+ * Have Claude score candidates written for the same recipient, reading them
+ * side by side. Candidates it leaves out score 0.
+ */
+export async function judgeCandidates(apiKey: string, params: JudgeCandidatesParams): Promise<JudgeCandidatesResult> {
+  const anthropic = new Anthropic({ apiKey });
+
+  const settings = resolveSettings(params.settings, 1024);
+  const listing = params.candidates
+    .map((output, i) => `<candidate number="${i + 1}">\n${JSON.stringify(output, null, 2)}\n</candidate>`)
+    .join("\n\n");
+  const response = await anthropic.messages.create({
+    ...structuredMessageParams(settings),
+    system:
+      "You review cold outreach emails before they are sent. Several candidates were written for the same " +
+      "recipient from the same brief. Score each from 0 to 10 against the criteria, comparing them with each " +
+      "other, and give a one-sentence rationale.",
+    messages: [
+      {
+        role: "user" as const,
+        content: `## Brief\n${params.userPrompt}\n\n## Criteria\n${params.criteria ?? DEFAULT_JUDGE_CRITERIA}\n\n## Candidates\n${listing}`,
+      },
+    ],
+    output_config: {
+      format: {
+        type: "json_schema" as const,
+        schema: {
+          type: "object" as const,
+          properties: {
+            scores: {
+              type: "array" as const,
+              items: {
+                type: "object" as const,
+                properties: {
+                  candidate: { type: "integer" as const },
+                  score: { type: "number" as const },
+                  rationale: { type: "string" as const },
+                },
+                required: ["candidate", "score", "rationale"],
+                additionalProperties: false,
+              },
+            },
+          },
+          required: ["scores"],
+          additionalProperties: false,
+        },
+      },
+    },
+  });
+
+  const json = structuredOutput(response).json as {
+    scores: { candidate: number; score: number; rationale: string }[];
+  };
+
+  const tokensInput = response.usage.input_tokens;
+  const tokensOutput = response.usage.output_tokens;
+
+  return {
+    scores: params.candidates.map((_, i) => {
+      const judged = json.scores.find((s) => s.candidate === i + 1);
+      return judged
+        ? { score: Math.min(1, Math.max(0, judged.score / 10)), rationale: judged.rationale }
+        : { score: 0, rationale: "Not scored by the judge" };
+    }),
+    tokensInput,
+    tokensOutput,
+    costUsd: costUsd(settings.model, tokensInput, tokensOutput),
+    settings,
+  };
 }
 
-function parseSequenceJson(text: string): {
+function parseSequenceJson(text: string, config: SequenceConfig, locale?: string | null): {
   subject: string;
   sequence: SequenceStep[];
 } {
-  const json = JSON.parse(text) as {
-    subject: string;
-    body: string;
-    followup1: string;
-    followup2: string;
-  };
-
-  const bodies = [
-    { raw: json.body, daysSinceLastStep: 0 },
-    { raw: json.followup1, daysSinceLastStep: 3 },
-    { raw: json.followup2, daysSinceLastStep: 7 },
-  ];
+  const json = JSON.parse(text) as Record<string, string>;
 
-  const sequence: SequenceStep[] = bodies.map((b, i) => {
-    const bodyText = b.raw.trim();
+  const sequence: SequenceStep[] = config.steps.map((step, i) => {
+    const bodyText = json[stepField(i)].trim();
+    const threadMode = threadModeOf(config, i);
     return {
       step: i + 1,
-      bodyHtml: textToHtml(bodyText),
+      bodyHtml: textToHtml(bodyText, locale),
       bodyText,
-      daysSinceLastStep: b.daysSinceLastStep,
+      daysSinceLastStep: step.daysSinceLastStep,
+      threadMode,
+      ...(i > 0 && threadMode === "new" && { subject: json[stepSubjectField(i)] }),
+      readability: readabilityMetrics(bodyText),
     };
   });
 
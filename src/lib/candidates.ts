@@ -0,0 +1,157 @@
+import type { ModelId } from "./models.js";
+import type { SequenceStep } from "./anthropic-client.js";
+import type { PolicyViolation } from "./content-policy.js";
+import type { SequenceDeliverability } from "./deliverability.js";
+import type { ReadabilityViolation } from "./readability.js";
+import { LEAD_COLUMN_VARIABLES } from "./template-variables.js";
+
+export const MAX_CANDIDATES = 5;
+
+/** Claude calls one /generate may make for its candidates, content policy retries included */
+export const MAX_GENERATION_CALLS = 10;
+
+/** Words per email body the length heuristic aims under, unless the style preset sets maxWords */
+export const DEFAULT_TARGET_WORDS = 120;
+
+export const HEURISTICS = ["length", "personalization", "subject"] as const;
+
+export type Heuristic = (typeof HEURISTICS)[number];
+
+/** Relative weight of each heuristic; unset ones weigh 1, 0 turns one off */
+export type HeuristicWeights = Partial<Record<Heuristic, number>>;
+
+/**
+ * How the candidates of one /generate call are ranked: locally with
+ * heuristics, or by a judge model reading them side by side.
+ */
+export type RankingConfig =
+  | { method: "heuristics"; weights?: HeuristicWeights }
+  | { method: "judge"; model?: ModelId; criteria?: string };
+
+export const DEFAULT_RANKING: RankingConfig = { method: "heuristics" };
+
+/** What ranking looks at in one candidate */
+export interface CandidateContent {
+  subject: string | null;
+  sequence: SequenceStep[] | null;
+  output: Record<string, unknown>;
+}
+
+export interface CandidateScore {
+  /** 0 to 1, higher is better */
+  score: number;
+  /** Per-heuristic scores (heuristics ranking) */
+  scores?: Record<Heuristic, number>;
+  /** Judge's reasoning (judge ranking) */
+  rationale?: string;
+}
+
+/**
+ * One of the sequences generated for the same lead, as stored on the
+ * generation row and returned by /generate.
+ */
+export interface GenerationCandidate extends CandidateContent, CandidateScore {
+  /** 1-based, in generation order */
+  index: number;
+  /** 1 is the best score */
+  rank: number;
+  /** Whether this candidate is the generation's subject, sequence and output */
+  selected: boolean;
+  tokensInput: number;
+  tokensOutput: number;
+  /** Content policy attempts and the violations left after them */
+  policyAttempts?: number;
+  policyViolations?: PolicyViolation[];
+  /** Steps outside the sequence's length and readability limits */
+  readabilityViolations?: ReadabilityViolation[];
+  /** Offline deliverability analysis; null for custom output */
+  deliverability?: SequenceDeliverability | null;
+}
+
+/**
+ * Attempts each candidate gets: the policy's (or a check's) maxAttempts, cut
+ * so that all candidates together stay within MAX_GENERATION_CALLS. Never
+ * below 1.
+ */
+export function candidateAttempts(maxAttempts: number, count: number): number {
+  return Math.max(1, Math.min(maxAttempts, Math.floor(MAX_GENERATION_CALLS / count)));
+}
+
+/**
+ * Email bodies of a candidate: the sequence steps, or the string fields of a
+ * custom output.
+ */
+export function candidateTexts(candidate: CandidateContent): string[] {
+  if (candidate.sequence) return candidate.sequence.map((s) => s.bodyText);
+  return Object.values(candidate.output).filter((v): v is string => typeof v === "string");
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Score each heuristic from 0 to 1:
+ * - length: bodies within the word target (longer ones score target/words)
+ * - personalization: share of the lead's variables (name, title, company,
+ *   industry) mentioned anywhere
+ * - subject: 2 to 7 word subject lines score 1, losing 0.2 per word outside
+ */
+export function heuristicScores(
+  candidate: CandidateContent,
+  context: { variables: Record<string, unknown>; maxWords?: number | null }
+): Record<Heuristic, number> {
+  const texts = candidateTexts(candidate);
+  const target = context.maxWords ?? DEFAULT_TARGET_WORDS;
+  const length = texts.length === 0
+    ? 0
+    : texts.reduce((sum, t) => sum + Math.min(1, target / Math.max(1, wordCount(t))), 0) / texts.length;
+
+  const leadValues = Object.values(LEAD_COLUMN_VARIABLES)
+    .filter((v) => v !== LEAD_COLUMN_VARIABLES.clientCompanyName)
+    .map((v) => context.variables[v])
+    .filter((v): v is string => typeof v === "string" && v.trim().length > 0);
+  const haystack = texts.join("\n").toLowerCase();
+  const personalization = leadValues.length === 0
+    ? 1
+    : leadValues.filter((v) => haystack.includes(v.trim().toLowerCase())).length / leadValues.length;
+
+  let subject = 1;
+  if (candidate.subject !== null) {
+    const words = wordCount(candidate.subject);
+    const outside = words < 2 ? 2 - words : Math.max(0, words - 7);
+    subject = Math.max(0, 1 - 0.2 * outside);
+  }
+
+  return { length, personalization, subject };
+}
+
+/**
+ * Weighted mean of the heuristic scores.
+ */
+export function scoreHeuristics(scores: Record<Heuristic, number>, weights: HeuristicWeights = {}): number {
+  let total = 0;
+  let weightSum = 0;
+  for (const h of HEURISTICS) {
+    const weight = weights[h] ?? 1;
+    total += weight * scores[h];
+    weightSum += weight;
+  }
+  return weightSum === 0 ? 0 : total / weightSum;
+}
+
+/**
+ * Rank scored candidates, best first; ties keep generation order. Candidates
+ * that still violate the content policy or the readability limits rank below
+ * those that pass. The best one is selected.
+ */
+export function rankCandidates(
+  candidates: Omit<GenerationCandidate, "index" | "rank" | "selected">[]
+): GenerationCandidate[] {
+  const violating = (c: Pick<GenerationCandidate, "policyViolations" | "readabilityViolations">) =>
+    c.policyViolations?.length || c.readabilityViolations?.length ? 1 : 0;
+  return candidates
+    .map((c, i) => ({ ...c, index: i + 1 }))
+    .sort((a, b) => violating(a) - violating(b) || b.score - a.score || a.index - b.index)
+    .map((c, i) => ({ ...c, rank: i + 1, selected: i === 0 }));
+}
@@ -1,6 +1,11 @@
 import Anthropic from "@anthropic-ai/sdk";
-
-const MODEL = "claude-sonnet-4-6";
+import {
+  resolveSettings,
+  toMessageParams,
+  type GenerationSettings,
+  type ResolvedSettings,
+} from "./models.js";
+import { localeInstructions, textToHtml } from "./locale.js";
 
 // ─── Content (email) generation ─────────────────────────────────────────────
 
@@ -8,6 +13,11 @@ export interface GenerateContentParams {
   prompt: string;
   variables?: string[];
   includeFooter?: boolean;
+  settings?: GenerationSettings;
+  /** BCP 47 tag to write in; omitted writes English */
+  locale?: string;
+  /** Earlier attempts, oldest first, each with the feedback to address in the next */
+  retries?: { subject: string; bodyText: string; feedback: string }[];
 }
 
 export interface GenerateContentResult {
@@ -16,6 +26,7 @@ export interface GenerateContentResult {
   bodyText: string;
   tokensInput: number;
   tokensOutput: number;
+  settings: ResolvedSettings;
   promptRaw: string;
   responseRaw: object;
 }
@@ -27,24 +38,35 @@ export async function generateContent(
   const anthropic = new Anthropic({ apiKey });
 
   const systemPrompt = buildContentSystemPrompt(params);
+  const settings = resolveSettings(params.settings, 4096);
 
   const response = await anthropic.messages.create({
-    model: MODEL,
-    max_tokens: 4096,
+    ...toMessageParams(settings),
     system: systemPrompt,
-    messages: [{ role: "user", content: params.prompt }],
+    messages: [
+      { role: "user", content: params.prompt },
+      // Earlier attempts replayed in the output format, each followed by its feedback
+      ...(params.retries ?? []).flatMap((r) => [
+        { role: "assistant" as const, content: `SUBJECT: ${r.subject}\n---\n${r.bodyText}` },
+        { role: "user" as const, content: r.feedback },
+      ]),
+    ],
   });
 
   const textContent = response.content.find((c) => c.type === "text");
   const text = textContent?.type === "text" ? textContent.text : "";
 
-  const parsed = parseEmailResponse(text);
+  const parsed = parseEmailResponse(text, params.locale);
+  const retryTurns = (params.retries ?? [])
+    .map((r) => `\n\n[ASSISTANT]\nSUBJECT: ${r.subject}\n---\n${r.bodyText}\n\n[USER]\n${r.feedback}`)
+    .join("");
 
   return {
     ...parsed,
     tokensInput: response.usage.input_tokens,
     tokensOutput: response.usage.output_tokens,
-    promptRaw: `[SYSTEM]\n${systemPrompt}\n\n[USER]\n${params.prompt}`,
+    settings,
+    promptRaw: `[SYSTEM]\n${systemPrompt}\n\n[USER]\n${params.prompt}${retryTurns}`,
     responseRaw: response,
   };
 }
@@ -86,10 +108,14 @@ function buildContentSystemPrompt(params: GenerateContentParams): string {
     );
   }
 
+  if (params.locale) {
+    parts.push("", localeInstructions(params.locale, ["the SUBJECT: label", "the --- separator"]));
+  }
+
   return parts.join("\n");
 }
 
-function parseEmailResponse(text: string): {
+function parseEmailResponse(text: string, locale?: string): {
   subject: string;
   bodyHtml: string;
   bodyText: string;
@@ -110,18 +136,17 @@ function parseEmailResponse(text: string): {
   }
 
   const bodyText = bodyLines.join("\n").trim();
-  const bodyHtml = bodyText
-    .split("\n\n")
-    .map((p) => `<p>${p.replace(/\n/g, "<br>")}</p>`)
-    .join("");
 
-  return { subject, bodyHtml, bodyText };
+  return { subject, bodyHtml: textToHtml(bodyText, locale), bodyText };
 }
 
 // ─── Calendar generation ────────────────────────────────────────────────────
 
 export interface GenerateCalendarParams {
   prompt: string;
+  settings?: GenerationSettings;
+  /** BCP 47 tag to write in; omitted writes English */
+  locale?: string;
 }
 
 export interface GenerateCalendarResult {
@@ -130,6 +155,7 @@ export interface GenerateCalendarResult {
   location: string | null;
   tokensInput: number;
   tokensOutput: number;
+  settings: ResolvedSettings;
   promptRaw: string;
   responseRaw: object;
 }
@@ -140,7 +166,7 @@ export async function generateCalendar(
 ): Promise<GenerateCalendarResult> {
   const anthropic = new Anthropic({ apiKey });
 
-  const systemPrompt = [
+  const systemParts = [
     "You are an expert copywriter. Generate compelling calendar event fields based on the user's prompt.",
     "",
     "## Output Format",
@@ -153,11 +179,16 @@ export async function generateCalendar(
     '}',
     "",
     "Output ONLY the JSON object. No explanation, no markdown.",
-  ].join("\n");
+  ];
+  if (params.locale) {
+    systemParts.push("", localeInstructions(params.locale, ["the JSON keys"]));
+  }
+  const systemPrompt = systemParts.join("\n");
+
+  const settings = resolveSettings(params.settings, 1024);
 
   const response = await anthropic.messages.create({
-    model: MODEL,
-    max_tokens: 1024,
+    ...toMessageParams(settings),
     system: systemPrompt,
     messages: [{ role: "user", content: params.prompt }],
   });
@@ -171,6 +202,7 @@ export async function generateCalendar(
     ...parsed,
     tokensInput: response.usage.input_tokens,
     tokensOutput: response.usage.output_tokens,
+    settings,
     promptRaw: `[SYSTEM]\n${systemPrompt}\n\n[USER]\n${params.prompt}`,
     responseRaw: response,
   };
@@ -0,0 +1,345 @@
+import { eq } from "drizzle-orm";
+import { contentPolicies, type ContentPolicy } from "../db/schema.js";
+import type { DbClient, UpsertStatus } from "./prompt-store.js";
+import type { GenerateResult } from "./anthropic-client.js";
+import { stepField, stepSubjectField } from "./sequence.js";
+import { OutputValidationError } from "./output-schema.js";
+
+/** Where a rule looks: every field, or only the opening line of email 1 */
+export type PolicyScope = "all" | "opener";
+
+/**
+ * A check run on every generated sequence:
+ * - regex: the pattern (case-insensitive unless flags say otherwise) matches
+ * - lexicon: any of the terms appears as a whole word or phrase, ignoring case
+ * - variableLeak: the value of any of the variables appears (for URLs, also
+ *   the bare domain)
+ */
+export type PolicyRule =
+  | { type: "regex"; id: string; message: string; pattern: string; flags?: string; scope?: PolicyScope }
+  | { type: "lexicon"; id: string; message: string; terms: string[]; scope?: PolicyScope }
+  | { type: "variableLeak"; id: string; message: string; variables: string[] };
+
+export interface PolicyViolation {
+  ruleId: string;
+  message: string;
+  /** Output field the match is in, e.g. "subject" or "followup1" */
+  field: string;
+  /** The text that matched */
+  match: string;
+}
+
+/**
+ * Rules an app runs on top of (or instead of) the defaults, and how many
+ * generation attempts a violating sequence gets.
+ */
+export interface PolicyConfig {
+  rules?: PolicyRule[] | null;
+  /**
+   * Default rules are kept for the built-in persona unless turned off; a rule
+   * with a default's id replaces it
+   */
+  includeDefaults?: boolean | null;
+  /** Ids of default rules to skip */
+  disabledRules?: string[] | null;
+  /** Attempts in total, the first included; 1 only records violations */
+  maxAttempts?: number | null;
+}
+
+export interface ResolvedPolicy {
+  rules: PolicyRule[];
+  maxAttempts: number;
+}
+
+export const MAX_POLICY_ATTEMPTS = 5;
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * Attempts in total a sequence failing the caller's own checks (a
+ * deliverabilityThreshold, readability limits to rewrite) gets, whatever the
+ * app's policy allows
+ */
+export const MAX_CHECK_ATTEMPTS = 3;
+
+/**
+ * The scam filter, identity protection and opener rules of the built-in
+ * persona, as checks.
+ */
+export const DEFAULT_POLICY_RULES: PolicyRule[] = [
+  {
+    type: "regex",
+    id: "dollar-amount",
+    message: "Mentions a specific dollar amount",
+    pattern: String.raw`\$\s?\d[\d,.]*(\s?(k|m|bn?|million|billion))?\b|\b\d[\d,.]*\s?(usd|dollars)\b`,
+  },
+  {
+    type: "lexicon",
+    id: "crypto",
+    message: "Uses crypto terminology",
+    terms: ["crypto", "cryptocurrency", "blockchain", "USDT", "Web3", "NFT", "DeFi", "token sale", "stablecoin"],
+  },
+  {
+    type: "lexicon",
+    id: "passive-income",
+    message: 'Uses "passive income" style language',
+    terms: ["passive income", "financial freedom", "get rich", "side income", "make money from home"],
+  },
+  {
+    type: "variableLeak",
+    id: "client-identity",
+    message: "Names the client or links to its website",
+    variables: ["clientCompanyName", "clientWebsite", "clientUrl", "clientDomain"],
+  },
+  {
+    type: "regex",
+    id: "compliment-opener",
+    message: "Opens with a compliment",
+    scope: "opener",
+    pattern:
+      String.raw`\b(caught my (eye|attention)|(really )?(impressed|inspired) (by|with)|i (love|loved|admire|enjoyed) (your|what you)|` +
+      String.raw`big fan of|congrat(s|ulations)|your (amazing|great|impressive|incredible) (work|company|team))\b`,
+  },
+];
+
+/**
+ * Rules and attempts in effect for an app: its stored policy over the
+ * defaults, or the defaults alone. The defaults encode the built-in persona's
+ * rules, so prompts with their own system prompt or output schema only get
+ * the app's custom rules. Without a stored policy violations are only
+ * recorded: retries cost tokens the app has not opted into.
+ */
+export function resolvePolicy(
+  config: PolicyConfig | null | undefined,
+  options: { builtInPersona: boolean }
+): ResolvedPolicy {
+  const custom = config?.rules ?? [];
+  const disabled = new Set(config?.disabledRules ?? []);
+  const defaults = !options.builtInPersona || config?.includeDefaults === false
+    ? []
+    : DEFAULT_POLICY_RULES.filter((r) => !disabled.has(r.id) && !custom.some((c) => c.id === r.id));
+  return {
+    rules: [...defaults, ...custom],
+    maxAttempts: config ? config.maxAttempts ?? DEFAULT_MAX_ATTEMPTS : 1,
+  };
+}
+
+/**
+ * Compile a regex rule's pattern; returns an error message when it is invalid.
+ */
+export function validatePolicyRule(rule: PolicyRule): string | null {
+  if (rule.type !== "regex") return null;
+  try {
+    new RegExp(rule.pattern, rule.flags ?? "i");
+    return null;
+  } catch (err) {
+    return `Rule "${rule.id}": invalid pattern: ${err instanceof Error ? err.message : err}`;
+  }
+}
+
+/** Text fields of a generated sequence (or custom output) to check */
+function policyFields(content: Pick<GenerateResult, "subject" | "sequence" | "output">): { field: string; text: string }[] {
+  if (!content.sequence) {
+    return Object.entries(content.output)
+      .filter((e): e is [string, string] => typeof e[1] === "string")
+      .map(([field, text]) => ({ field, text }));
+  }
+  const fields = [{ field: "subject", text: content.subject ?? "" }];
+  content.sequence.forEach((step, i) => {
+    if (step.subject !== undefined) fields.push({ field: stepSubjectField(i), text: step.subject });
+    fields.push({ field: stepField(i), text: step.bodyText });
+  });
+  return fields;
+}
+
+/**
+ * First sentence of email 1 after the greeting line ("Hi Sarah,").
+ */
+function openingLine(body: string): string {
+  const paragraphs = body.split(/\n\s*\n/).map((p) => p.trim()).filter(Boolean);
+  const isGreeting = (p: string) => /^[^\n]{0,40},$/.test(p) || /^(hi|hey|hello|dear)\b[^\n.!?]{0,30}[,!]?$/i.test(p);
+  const first = paragraphs.find((p) => !isGreeting(p)) ?? "";
+  return first.match(/^[\s\S]*?[.!?](\s|$)/)?.[0].trim() ?? first;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Strings that must not appear for a leaked variable value */
+function leakNeedles(value: string): string[] {
+  const needles = [value.trim()];
+  try {
+    const host = new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`).hostname.replace(/^www\./, "");
+    if (host.includes(".")) needles.push(host);
+  } catch {
+    // Not a URL
+  }
+  return needles.filter((n) => n.length >= 3);
+}
+
+/**
+ * Run the rules on a generated sequence (or custom output). variables: the
+ * /generate variables, for variableLeak rules.
+ */
+export function checkPolicy(
+  rules: PolicyRule[],
+  content: Pick<GenerateResult, "subject" | "sequence" | "output">,
+  variables: Record<string, unknown>
+): PolicyViolation[] {
+  const fields = policyFields(content);
+  const firstBody = fields.find((f) => f.field !== "subject" && !f.field.endsWith("Subject"));
+  const opener = firstBody ? [{ field: firstBody.field, text: openingLine(firstBody.text) }] : [];
+
+  const violations: PolicyViolation[] = [];
+  for (const rule of rules) {
+    let patterns: RegExp[];
+    if (rule.type === "regex") {
+      patterns = [new RegExp(rule.pattern, rule.flags ?? "i")];
+    } else if (rule.type === "lexicon") {
+      patterns = rule.terms.map((t) => new RegExp(`(?<![\\w])${escapeRegExp(t)}(?![\\w])`, "i"));
+    } else {
+      patterns = rule.variables
+        .map((v) => variables[v])
+        .filter((v): v is string => typeof v === "string")
+        .flatMap(leakNeedles)
+        .map((n) => new RegExp(escapeRegExp(n), "i"));
+    }
+
+    const targets = rule.type !== "variableLeak" && rule.scope === "opener" ? opener : fields;
+    for (const { field, text } of targets) {
+      for (const pattern of patterns) {
+        const match = text.match(pattern);
+        if (match) {
+          violations.push({ ruleId: rule.id, message: rule.message, field, match: match[0] });
+          break;
+        }
+      }
+    }
+  }
+  return violations;
+}
+
+/**
+ * The violations, as feedback for the next attempt.
+ */
+export function violationFeedback(violations: PolicyViolation[]): string {
+  const lines = violations.map((v) => `- ${v.field}: ${v.message} ("${v.match}")`);
+  return `These emails break the content rules:\n${lines.join("\n")}\nFix every one of them.`;
+}
+
+/** An earlier attempt, with the feedback that produced it (null for the first) */
+export interface PolicyAttempt {
+  feedback: string | null;
+  output: Record<string, unknown>;
+}
+
+export interface PolicyOutcome {
+  /** The last attempt, with tokens and cost summed over all attempts */
+  result: GenerateResult;
+  attempts: number;
+  /** Violations left in the result; empty when it passed */
+  violations: PolicyViolation[];
+}
+
+/** An extra test on each attempt, with its own attempt budget */
+export interface PolicyCheck {
+  /** Feedback when the attempt fails the check, or null */
+  run: (result: GenerateResult) => string | null;
+  /** Attempts in total while the check fails, the first included */
+  maxAttempts: number;
+}
+
+/**
+ * Check a generated sequence and, while it violates the policy, have it
+ * regenerated with the violations fed back, up to policy.maxAttempts in total.
+ * retry gets every attempt so far, oldest first, and the feedback. While the
+ * extra check fails, regeneration goes on up to its own maxAttempts.
+ */
+export async function enforcePolicy(
+  policy: ResolvedPolicy,
+  variables: Record<string, unknown>,
+  first: GenerateResult,
+  retry: (attempts: PolicyAttempt[], feedback: string) => Promise<GenerateResult>,
+  check?: PolicyCheck
+): Promise<PolicyOutcome> {
+  const attempts: PolicyAttempt[] = [{ feedback: null, output: first.output }];
+  let result = first;
+  let violations = checkPolicy(policy.rules, result, variables);
+  let extra = check?.run(result) ?? null;
+  let tokensInput = result.tokensInput;
+  let tokensOutput = result.tokensOutput;
+  let cost = result.costUsd;
+
+  while (
+    (violations.length > 0 && attempts.length < policy.maxAttempts) ||
+    (extra !== null && attempts.length < check!.maxAttempts)
+  ) {
+    const feedback = [violations.length > 0 ? violationFeedback(violations) : null, extra]
+      .filter((f): f is string => f !== null)
+      .join("\n\n");
+    try {
+      result = await retry([...attempts], feedback);
+    } catch (err) {
+      // Earlier attempts were billed too
+      if (err instanceof OutputValidationError) {
+        err.usage = {
+          tokensInput: tokensInput + (err.usage?.tokensInput ?? 0),
+          tokensOutput: tokensOutput + (err.usage?.tokensOutput ?? 0),
+        };
+      }
+      throw err;
+    }
+    attempts.push({ feedback, output: result.output });
+    violations = checkPolicy(policy.rules, result, variables);
+    extra = check?.run(result) ?? null;
+    tokensInput += result.tokensInput;
+    tokensOutput += result.tokensOutput;
+    cost += result.costUsd;
+  }
+
+  return {
+    result: { ...result, tokensInput, tokensOutput, costUsd: cost },
+    attempts: attempts.length,
+    violations,
+  };
+}
+
+export async function findContentPolicy(client: DbClient, appId: string): Promise<ContentPolicy | undefined> {
+  return client.query.contentPolicies.findFirst({ where: eq(contentPolicies.appId, appId) });
+}
+
+/**
+ * Create or replace an app's policy. Identical content is left untouched.
+ */
+export async function upsertContentPolicy(
+  client: DbClient,
+  appId: string,
+  input: PolicyConfig
+): Promise<{ policy: ContentPolicy; status: UpsertStatus }> {
+  const content = {
+    rules: input.rules ?? [],
+    includeDefaults: input.includeDefaults ?? true,
+    disabledRules: input.disabledRules ?? [],
+    maxAttempts: input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+  };
+  const existing = await findContentPolicy(client, appId);
+
+  if (
+    existing &&
+    JSON.stringify([existing.rules, existing.includeDefaults, existing.disabledRules, existing.maxAttempts]) ===
+      JSON.stringify([content.rules, content.includeDefaults, content.disabledRules, content.maxAttempts])
+  ) {
+    return { policy: existing, status: "unchanged" };
+  }
+
+  const [policy] = existing
+    ? await client
+        .update(contentPolicies)
+        .set({ ...content, updatedAt: new Date() })
+        .where(eq(contentPolicies.id, existing.id))
+        .returning()
+    : await client.insert(contentPolicies).values({ appId, ...content }).returning();
+
+  return { policy, status: existing ? "updated" : "created" };
+}
@@ -0,0 +1,136 @@
+import type { SequenceStep } from "./anthropic-client.js";
+
+export type DeliverabilityCheck = "spamWords" | "allCaps" | "exclamations" | "links" | "textHtmlRatio" | "subjectLength";
+
+export interface DeliverabilityFinding {
+  check: DeliverabilityCheck;
+  field: "subject" | "body";
+  message: string;
+  /** Points taken off the score of 100 */
+  penalty: number;
+}
+
+/** Score of one email: 100 minus the findings' penalties, at least 0 */
+export interface DeliverabilityReport {
+  score: number;
+  findings: DeliverabilityFinding[];
+}
+
+/** Scores of a sequence's steps; its score is the weakest step's */
+export interface SequenceDeliverability {
+  score: number;
+  steps: (DeliverabilityReport & { step: number })[];
+}
+
+// Phrases spam filters weigh against cold email
+const SPAM_PHRASES = [
+  "free", "guarantee", "guaranteed", "act now", "limited time", "urgent", "risk-free", "risk free",
+  "no obligation", "click here", "winner", "100%", "cash", "earn money", "buy now", "special promotion",
+  "once in a lifetime", "apply now", "exclusive deal", "order now", "double your", "no cost", "best price",
+  "call now", "don't miss", "instant", "miracle", "dear friend",
+];
+
+const MAX_SUBJECT_CHARS = 60;
+
+// Below this size, <p> tags alone skew the text/HTML ratio
+const MIN_HTML_FOR_RATIO = 200;
+
+const URL_PATTERN = /\bhttps?:\/\/\S+|\bwww\.\S+/gi;
+
+function capped(count: number, each: number, max: number): number {
+  return Math.min(max, count * each);
+}
+
+function spamPhrases(text: string): string[] {
+  const lower = text.toLowerCase();
+  return SPAM_PHRASES.filter((p) => {
+    const escaped = p.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    return new RegExp(`(?<![\\w])${escaped}(?![\\w])`).test(lower);
+  });
+}
+
+// Words of 4+ letters in capitals; shorter ones are mostly acronyms
+function allCapsWords(text: string): string[] {
+  return text.match(/\b[A-Z]{4,}\b/g) ?? [];
+}
+
+/**
+ * Offline heuristic deliverability score of one email. subject is null for
+ * follow-ups that reply in the thread (they have no subject line of their own).
+ */
+export function analyzeEmail(email: { subject: string | null; bodyText: string; bodyHtml: string }): DeliverabilityReport {
+  const findings: DeliverabilityFinding[] = [];
+  const add = (check: DeliverabilityCheck, field: "subject" | "body", message: string, penalty: number) => {
+    if (penalty > 0) findings.push({ check, field, message, penalty });
+  };
+
+  if (email.subject !== null) {
+    const subject = email.subject.trim();
+    if (!subject) {
+      add("subjectLength", "subject", "Subject line is empty", 20);
+    } else if (subject.length > MAX_SUBJECT_CHARS) {
+      add("subjectLength", "subject", `Subject line is ${subject.length} characters; keep it under ${MAX_SUBJECT_CHARS}`, 10);
+    }
+    const spam = spamPhrases(subject);
+    if (spam.length > 0) add("spamWords", "subject", `Spam trigger words in subject: ${spam.join(", ")}`, capped(spam.length, 10, 30));
+    const caps = allCapsWords(subject);
+    if (caps.length > 0) add("allCaps", "subject", `All-caps words in subject: ${caps.join(", ")}`, capped(caps.length, 10, 20));
+    const bangs = (subject.match(/!/g) ?? []).length;
+    if (bangs > 0) add("exclamations", "subject", `${bangs} exclamation mark(s) in subject`, capped(bangs, 5, 15));
+  }
+
+  const body = email.bodyText;
+  const spam = spamPhrases(body);
+  if (spam.length > 0) add("spamWords", "body", `Spam trigger words: ${spam.join(", ")}`, capped(spam.length, 5, 30));
+
+  const caps = allCapsWords(body);
+  if (caps.length > 2) add("allCaps", "body", `${caps.length} all-caps words: ${caps.slice(0, 5).join(", ")}`, capped(caps.length - 2, 5, 20));
+
+  // More than one exclamation mark per five sentences reads as hype
+  const bangs = (body.match(/!/g) ?? []).length;
+  const sentences = Math.max(1, (body.match(/[.!?]+(\s|$)/g) ?? []).length);
+  const allowed = Math.max(1, Math.floor(sentences / 5));
+  if (bangs > allowed) {
+    add("exclamations", "body", `${bangs} exclamation marks in ${sentences} sentences`, capped(bangs - allowed, 5, 15));
+  }
+
+  const hrefs = (email.bodyHtml.match(/<a\s[^>]*href=/gi) ?? []).length;
+  const links = Math.max(hrefs, (body.match(URL_PATTERN) ?? []).length);
+  if (links >= 3) add("links", "body", `${links} links; cold emails should have at most one`, 20);
+  else if (links === 2) add("links", "body", "2 links; cold emails should have at most one", 10);
+
+  if (email.bodyHtml.length >= MIN_HTML_FOR_RATIO) {
+    const ratio = body.length / email.bodyHtml.length;
+    if (ratio < 0.3) add("textHtmlRatio", "body", `Text is ${Math.round(ratio * 100)}% of the HTML; mostly markup`, 15);
+    else if (ratio < 0.5) add("textHtmlRatio", "body", `Text is ${Math.round(ratio * 100)}% of the HTML`, 5);
+  }
+
+  const penalty = findings.reduce((sum, f) => sum + f.penalty, 0);
+  return { score: Math.max(0, 100 - penalty), findings };
+}
+
+/**
+ * Score every step of a sequence. Step 1 is scored with the thread subject,
+ * follow-ups that start a new thread with their own.
+ */
+export function analyzeSequence(subject: string | null, sequence: SequenceStep[]): SequenceDeliverability {
+  const steps = sequence.map((step, i) => ({
+    step: step.step,
+    ...analyzeEmail({
+      subject: i === 0 ? subject ?? "" : step.subject ?? null,
+      bodyText: step.bodyText,
+      bodyHtml: step.bodyHtml,
+    }),
+  }));
+  return { score: Math.min(100, ...steps.map((s) => s.score)), steps };
+}
+
+/**
+ * Findings of emails under the threshold, as feedback for the next attempt.
+ */
+export function deliverabilityFeedback(reports: (DeliverabilityReport & { step?: number })[]): string {
+  const lines = reports.flatMap((r) =>
+    r.findings.map((f) => `- ${r.step !== undefined ? `Email ${r.step} ` : ""}${f.field}: ${f.message}`)
+  );
+  return `These emails are likely to be caught by spam filters:\n${lines.join("\n")}\nRewrite them to avoid these problems.`;
+}
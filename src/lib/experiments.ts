@@ -0,0 +1,37 @@
+import { createHash } from "crypto";
+
+export interface WeightedVariant {
+  weight: number;
+}
+
+/** One A/B variant of a prompt, as snapshotted into its versions */
+export interface VariantSpec extends WeightedVariant {
+  name: string;
+  /** Replaces the prompt template when served */
+  prompt: string;
+}
+
+/**
+ * Deterministically pick a weighted variant for a unit (e.g. a lead).
+ * The same unitKey always lands on the same variant as long as the variant
+ * set and weights are unchanged. The salt keeps assignments independent
+ * across experiments.
+ */
+export function pickVariant<T extends WeightedVariant>(
+  variants: T[],
+  unitKey: string,
+  salt: string
+): T | null {
+  const totalWeight = variants.reduce((sum, v) => sum + Math.max(v.weight, 0), 0);
+  if (totalWeight <= 0) return null;
+
+  const hash = createHash("sha256").update(`${salt}:${unitKey}`).digest().readUInt32BE(0);
+  let bucket = hash % totalWeight;
+
+  for (const variant of variants) {
+    const weight = Math.max(variant.weight, 0);
+    if (bucket < weight) return variant;
+    bucket -= weight;
+  }
+  return null;
+}
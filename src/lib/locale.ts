@@ -0,0 +1,64 @@
+// Languages written right to left (ISO 639 codes)
+const RTL_LANGUAGES = new Set(["ar", "arc", "ckb", "dv", "fa", "he", "ps", "sd", "ug", "ur", "yi"]);
+
+const languageNames = new Intl.DisplayNames(["en"], { type: "language" });
+
+/**
+ * Whether a locale is a well-formed BCP 47 tag, e.g. "de" or "pt-BR".
+ */
+export function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.getCanonicalLocales(locale).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Canonical form of a valid tag ("EN-us" -> "en-US"), as stored on generations.
+ */
+export function canonicalLocale(locale: string): string {
+  return Intl.getCanonicalLocales(locale)[0];
+}
+
+export function isRtl(locale: string): boolean {
+  const { language, script } = new Intl.Locale(locale);
+  if (script) return script === "Arab" || script === "Hebr" || script === "Thaa" || script === "Syrc";
+  return RTL_LANGUAGES.has(language);
+}
+
+/**
+ * English name of a locale, e.g. "Brazilian Portuguese (pt-BR)".
+ */
+export function describeLocale(locale: string): string {
+  return `${languageNames.of(locale) ?? locale} (${locale})`;
+}
+
+/**
+ * System prompt section asking Claude to write natively in a locale. Output
+ * markers the parsers rely on stay untranslated.
+ */
+export function localeInstructions(locale: string, markers: string[] = []): string {
+  const lines = [
+    "## Language",
+    `Write all output — subject lines included — natively in ${describeLocale(locale)}, the way a native speaker ` +
+      "from that region writes, not as a translation from English. Use the greetings, sign-offs and level of formality " +
+      "that are natural there, and localize idioms rather than translating them word for word.",
+    "Keep every {{placeholder}} token exactly as written: never translate, rename or remove it.",
+  ];
+  if (markers.length > 0) {
+    lines.push(`Keep ${markers.join(" and ")} exactly as shown in the output format; only the content is localized.`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Plain text to HTML paragraphs, marked right to left for RTL locales.
+ */
+export function textToHtml(text: string, locale?: string | null): string {
+  const open = locale && isRtl(locale) ? '<p dir="rtl">' : "<p>";
+  return text
+    .split("\n\n")
+    .map((p) => `${open}${p.replace(/\n/g, "<br>")}</p>`)
+    .join("");
+}
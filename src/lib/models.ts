@@ -0,0 +1,101 @@
+export interface ModelInfo {
+  /** Prefix of the runs-service cost names, e.g. "anthropic-sonnet-4.6" */
+  costName: string;
+  /** USD per million tokens */
+  inputPrice: number;
+  outputPrice: number;
+}
+
+/**
+ * Models callers may select, with pricing and cost names.
+ */
+export const MODELS = {
+  "claude-sonnet-4-6": { costName: "anthropic-sonnet-4.6", inputPrice: 3, outputPrice: 15 },
+  "claude-haiku-4-5": { costName: "anthropic-haiku-4.5", inputPrice: 1, outputPrice: 5 },
+  "claude-opus-4-6": { costName: "anthropic-opus-4.6", inputPrice: 5, outputPrice: 25 },
+} as const satisfies Record<string, ModelInfo>;
+
+export type ModelId = keyof typeof MODELS;
+
+export const MODEL_IDS = Object.keys(MODELS) as [ModelId, ...ModelId[]];
+
+export const DEFAULT_MODEL: ModelId = "claude-sonnet-4-6";
+
+// Requests are not streamed; the SDK refuses non-streaming calls with much
+// larger max_tokens because they may exceed its 10 minute timeout.
+export const MAX_TOKENS_LIMIT = 16384;
+
+/**
+ * Generation settings as registered on a prompt or sent with a request.
+ * Unset fields fall back to the next layer down.
+ */
+export interface GenerationSettings {
+  model?: ModelId;
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+  stopSequences?: string[];
+}
+
+/**
+ * Settings actually sent to Claude, as persisted on generation rows.
+ */
+export interface ResolvedSettings extends GenerationSettings {
+  model: ModelId;
+  maxTokens: number;
+}
+
+/**
+ * Merge settings layers, later layers winning. temperature and topP are one
+ * sampling choice: a layer that sets either replaces both, so a request can
+ * switch a prompt from temperature to top_p without a conflict.
+ */
+export function mergeSettings(...layers: (GenerationSettings | null | undefined)[]): GenerationSettings {
+  const merged: GenerationSettings = {};
+  for (const layer of layers) {
+    if (!layer) continue;
+    if (layer.model !== undefined) merged.model = layer.model;
+    if (layer.maxTokens !== undefined) merged.maxTokens = layer.maxTokens;
+    if (layer.temperature !== undefined || layer.topP !== undefined) {
+      merged.temperature = layer.temperature;
+      merged.topP = layer.topP;
+    }
+    if (layer.stopSequences !== undefined) merged.stopSequences = layer.stopSequences;
+  }
+  return merged;
+}
+
+export function resolveSettings(
+  settings: GenerationSettings | undefined,
+  defaultMaxTokens: number
+): ResolvedSettings {
+  return {
+    ...settings,
+    model: settings?.model ?? DEFAULT_MODEL,
+    maxTokens: settings?.maxTokens ?? defaultMaxTokens,
+  };
+}
+
+/**
+ * Messages API parameters for resolved settings. Unset sampling options are
+ * left out so the API defaults apply.
+ */
+export function toMessageParams(settings: ResolvedSettings) {
+  return {
+    model: settings.model,
+    max_tokens: settings.maxTokens,
+    ...(settings.temperature !== undefined && { temperature: settings.temperature }),
+    ...(settings.topP !== undefined && { top_p: settings.topP }),
+    ...(settings.stopSequences?.length ? { stop_sequences: settings.stopSequences } : {}),
+  };
+}
+
+export function costUsd(model: ModelId, tokensInput: number, tokensOutput: number): number {
+  const info = MODELS[model];
+  return (tokensInput / 1_000_000) * info.inputPrice + (tokensOutput / 1_000_000) * info.outputPrice;
+}
+
+export function costNames(model: ModelId): { input: string; output: string } {
+  const { costName } = MODELS[model];
+  return { input: `${costName}-tokens-input`, output: `${costName}-tokens-output` };
+}
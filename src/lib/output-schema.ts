@@ -0,0 +1,52 @@
+import { z } from "zod";
+
+export type OutputSchema = Record<string, unknown>;
+
+/** Tokens Claude billed for the calls behind a result or an error */
+export interface BilledUsage {
+  tokensInput: number;
+  tokensOutput: number;
+}
+
+/**
+ * Thrown when Claude's output does not match the prompt's output schema.
+ */
+export class OutputValidationError extends Error {
+  /** Tokens billed for the rejected output (and attempts before it); null when unknown */
+  usage: BilledUsage | null = null;
+
+  constructor(public issues: string[]) {
+    super(`Model output does not match the prompt's output schema: ${issues.join("; ")}`);
+    this.name = "OutputValidationError";
+  }
+}
+
+/**
+ * Check a JSON Schema registered on a prompt. Structured output needs an
+ * object at the root. Returns an error message, or null.
+ */
+export function validateOutputSchema(schema: OutputSchema): string | null {
+  if (schema.type !== "object") {
+    return "Invalid output schema: root type must be \"object\"";
+  }
+  try {
+    z.fromJSONSchema(schema);
+  } catch (err) {
+    return `Invalid output schema: ${err instanceof Error ? err.message : String(err)}`;
+  }
+  return null;
+}
+
+/**
+ * Validate parsed model output against a JSON Schema and return it, or throw
+ * OutputValidationError listing every mismatch.
+ */
+export function parseOutput(schema: OutputSchema, value: unknown): Record<string, unknown> {
+  const result = z.fromJSONSchema(schema).safeParse(value);
+  if (!result.success) {
+    throw new OutputValidationError(
+      result.error.issues.map((i) => (i.path.length ? `${i.path.join(".")}: ${i.message}` : i.message))
+    );
+  }
+  return value as Record<string, unknown>;
+}
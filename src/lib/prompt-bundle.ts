@@ -0,0 +1,186 @@
+import { asc, and, eq, isNotNull, isNull } from "drizzle-orm";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import { prompts, promptPartials } from "../db/schema.js";
+import {
+  diffContent,
+  loadPartials,
+  promptContentOf,
+  toPromptContent,
+  upsertPartial,
+  upsertPrompt,
+  validatePromptContent,
+  validateTemplate,
+  type DbClient,
+  type PromptAuthor,
+  type PromptContentInput,
+  type UpsertStatus,
+} from "./prompt-store.js";
+import { findPartialCycle, listPartialReferences } from "./template-engine.js";
+
+export const BUNDLE_VERSION = 1;
+
+export interface BundlePrompt extends PromptContentInput {
+  type: string;
+  /** Version in the source environment, for reference only */
+  version?: number;
+}
+
+export interface BundlePartial {
+  name: string;
+  content: string;
+}
+
+/**
+ * Portable snapshot of an app's published default prompts and partials. Org
+ * overrides, A/B variants and unpublished drafts are not included.
+ */
+export interface PromptBundle {
+  bundleVersion: typeof BUNDLE_VERSION;
+  appId: string;
+  exportedAt?: string;
+  prompts: BundlePrompt[];
+  partials: BundlePartial[];
+}
+
+export type BundleFormat = "json" | "yaml";
+
+export async function exportBundle(client: DbClient, appId: string): Promise<PromptBundle> {
+  const rows = await client.query.prompts.findMany({
+    where: and(eq(prompts.appId, appId), isNull(prompts.orgId), isNotNull(prompts.versionId)),
+    orderBy: asc(prompts.type),
+  });
+  const partials = await client.query.promptPartials.findMany({
+    where: and(eq(promptPartials.appId, appId), isNotNull(promptPartials.content)),
+    orderBy: asc(promptPartials.name),
+  });
+
+  return {
+    bundleVersion: BUNDLE_VERSION,
+    appId,
+    exportedAt: new Date().toISOString(),
+    prompts: rows.map((row) => {
+      const { variableSchema, variants: _variants, ...content } = promptContentOf(row);
+      return { type: row.type, ...content, variables: variableSchema ?? content.variables, version: row.version };
+    }),
+    partials: partials.map((p) => ({ name: p.name, content: p.content! })),
+  };
+}
+
+export function formatBundle(bundle: PromptBundle, format: BundleFormat): string {
+  return format === "yaml" ? stringifyYaml(bundle) : JSON.stringify(bundle, null, 2);
+}
+
+/**
+ * Parse bundle text. JSON is valid YAML, so one parser handles both.
+ */
+export function parseBundleText(text: string): unknown {
+  return parseYaml(text);
+}
+
+export interface BundleConflict {
+  kind: "duplicate" | "invalid" | "unresolved_partial" | "partial_cycle";
+  /** "prompt:<type>" or "partial:<name>" */
+  target: string;
+  message: string;
+}
+
+export interface ImportPlan {
+  prompts: { type: string; status: UpsertStatus; changes: string[] }[];
+  partials: { name: string; status: UpsertStatus }[];
+  /** App default prompts in the target that the bundle does not contain (left as-is) */
+  notInBundle: string[];
+  conflicts: BundleConflict[];
+}
+
+/**
+ * Diff a bundle against an app's current prompts and partials, and list the
+ * conflicts that block applying it.
+ */
+export async function planImport(client: DbClient, appId: string, bundle: PromptBundle): Promise<ImportPlan> {
+  const conflicts: BundleConflict[] = [];
+
+  const duplicates = (names: string[]) => names.filter((name, i) => names.indexOf(name) !== i);
+  for (const type of new Set(duplicates(bundle.prompts.map((p) => p.type)))) {
+    conflicts.push({ kind: "duplicate", target: `prompt:${type}`, message: `Prompt type "${type}" appears more than once` });
+  }
+  for (const name of new Set(duplicates(bundle.partials.map((p) => p.name)))) {
+    conflicts.push({ kind: "duplicate", target: `partial:${name}`, message: `Partial "${name}" appears more than once` });
+  }
+
+  for (const p of bundle.prompts) {
+    const invalid = validatePromptContent(toPromptContent(p));
+    if (invalid) conflicts.push({ kind: "invalid", target: `prompt:${p.type}`, message: invalid });
+  }
+  for (const p of bundle.partials) {
+    const invalid = validateTemplate(p.content);
+    if (invalid) conflicts.push({ kind: "invalid", target: `partial:${p.name}`, message: invalid });
+  }
+
+  // Partials available after the import: the target's, overlaid with the bundle's
+  const currentPartials = await loadPartials(client, appId);
+  const mergedPartials = {
+    ...currentPartials,
+    ...Object.fromEntries(bundle.partials.map((p) => [p.name, p.content])),
+  };
+
+  const checkIncludes = (target: string, templates: (string | null | undefined)[]) => {
+    for (const template of templates) {
+      if (!template) continue;
+      for (const ref of listPartialReferences(template)) {
+        if (!Object.prototype.hasOwnProperty.call(mergedPartials, ref)) {
+          conflicts.push({ kind: "unresolved_partial", target, message: `Includes unknown partial "${ref}"` });
+        }
+      }
+    }
+  };
+  bundle.prompts.forEach((p) => checkIncludes(`prompt:${p.type}`, [p.prompt, p.systemPrompt]));
+  bundle.partials.forEach((p) => checkIncludes(`partial:${p.name}`, [p.content]));
+
+  const cycle = findPartialCycle(mergedPartials);
+  if (cycle) {
+    conflicts.push({ kind: "partial_cycle", target: `partial:${cycle[0]}`, message: `Partial cycle: ${cycle.join(" > ")}` });
+  }
+
+  const existing = await client.query.prompts.findMany({
+    where: and(eq(prompts.appId, appId), isNull(prompts.orgId)),
+    orderBy: asc(prompts.type),
+  });
+  const existingByType = new Map(existing.map((row) => [row.type, row]));
+  const bundleTypes = new Set(bundle.prompts.map((p) => p.type));
+
+  return {
+    prompts: bundle.prompts.map((p) => {
+      const current = existingByType.get(p.type);
+      if (!current) return { type: p.type, status: "created", changes: [] };
+      const changes = diffContent(current, { ...toPromptContent(p), variants: current.variants });
+      return { type: p.type, status: changes.length > 0 ? "updated" : "unchanged", changes };
+    }),
+    partials: bundle.partials.map((p) => ({
+      name: p.name,
+      status: !Object.prototype.hasOwnProperty.call(currentPartials, p.name)
+        ? "created"
+        : currentPartials[p.name] === p.content ? "unchanged" : "updated",
+    })),
+    notInBundle: existing.filter((row) => !bundleTypes.has(row.type)).map((row) => row.type),
+    conflicts,
+  };
+}
+
+/**
+ * Write a bundle's partials and prompts as drafts of the app defaults, which
+ * go through review like any other change. Call inside a transaction, after
+ * planImport reported no conflicts.
+ */
+export async function applyImport(
+  client: DbClient,
+  appId: string,
+  bundle: PromptBundle,
+  author: PromptAuthor
+): Promise<void> {
+  for (const p of bundle.partials) {
+    await upsertPartial(client, appId, p.name, p.content, author);
+  }
+  for (const p of bundle.prompts) {
+    await upsertPrompt(client, { appId, type: p.type, orgId: null }, toPromptContent(p), author);
+  }
+}
@@ -0,0 +1,150 @@
+import { estimateTokens } from "./anthropic-client.js";
+import { collectReferences, expandPartials, findBraceIssues, TemplateError } from "./template-engine.js";
+import { LEAD_COLUMN_VARIABLES } from "./template-variables.js";
+
+export type LintSeverity = "error" | "warning";
+
+export type LintCode =
+  | "invalid_template"
+  | "unbalanced_braces"
+  | "not_an_expression"
+  | "single_braces"
+  | "unmatched_block"
+  | "undeclared_variable"
+  | "unused_variable"
+  | "lead_variable_name";
+
+export interface LintIssue {
+  severity: LintSeverity;
+  code: LintCode;
+  message: string;
+  /** Template the issue was found in, when it concerns one */
+  field?: "prompt" | "systemPrompt";
+  line?: number;
+  variable?: string;
+}
+
+export interface LintResult {
+  /** False when any issue is an error */
+  valid: boolean;
+  issues: LintIssue[];
+  /** Variables the templates reference, in order of first appearance */
+  placeholders: string[];
+  /** Rough size of the system + user templates before substitution */
+  estimatedTokens: number;
+}
+
+export interface LintInput {
+  prompt: string;
+  systemPrompt?: string | null;
+  variables: string[];
+}
+
+const BRACE_ISSUES = {
+  unbalanced: { severity: "error", code: "unbalanced_braces", describe: (t: string) => `Unbalanced "${t}"` },
+  not_an_expression: {
+    severity: "error",
+    code: "not_an_expression",
+    describe: (t: string) => `${t} is not a variable expression and is sent to Claude literally`,
+  },
+  single_braces: {
+    severity: "warning",
+    code: "single_braces",
+    describe: (t: string) => `${t} uses single braces and is not substituted; use {{...}}`,
+  },
+  unmatched_block: {
+    severity: "warning",
+    code: "unmatched_block",
+    describe: (t: string) => `${t} is outside of any block and is sent to Claude literally`,
+  },
+} as const;
+
+// Column name -> variable /generate copies into it, for columns named differently
+const MISNAMED_LEAD_VARIABLES = new Map<string, string>(
+  Object.entries(LEAD_COLUMN_VARIABLES).filter(([column, variable]) => column !== variable)
+);
+const LEAD_VARIABLES = Object.values(LEAD_COLUMN_VARIABLES) as string[];
+
+function leadNameIssue(name: string): LintIssue | null {
+  const expected = MISNAMED_LEAD_VARIABLES.get(name)
+    ?? LEAD_VARIABLES.find((v) => v !== name && v.toLowerCase() === name.toLowerCase());
+  if (!expected) return null;
+  return {
+    severity: "warning",
+    code: "lead_variable_name",
+    variable: name,
+    message: `"${name}" is not recorded on generations; /generate reads "${expected}"`,
+  };
+}
+
+/**
+ * Static checks on a prompt before it is registered. Partials are inlined
+ * first, so their placeholders count as used.
+ */
+export function lintPrompt(input: LintInput, partials: Record<string, string>): LintResult {
+  const issues: LintIssue[] = [];
+  const templates: { field: "prompt" | "systemPrompt"; text: string }[] = [];
+
+  const sources = input.systemPrompt
+    ? [{ field: "systemPrompt" as const, text: input.systemPrompt }, { field: "prompt" as const, text: input.prompt }]
+    : [{ field: "prompt" as const, text: input.prompt }];
+
+  for (const { field, text } of sources) {
+    for (const brace of findBraceIssues(text)) {
+      const kind = BRACE_ISSUES[brace.kind];
+      issues.push({ severity: kind.severity, code: kind.code, field, line: brace.line, message: kind.describe(brace.text) });
+    }
+    try {
+      const expanded = expandPartials(text, partials);
+      collectReferences(expanded);
+      templates.push({ field, text: expanded });
+    } catch (err) {
+      if (!(err instanceof TemplateError)) throw err;
+      issues.push({ severity: "error", code: "invalid_template", field, message: err.message });
+    }
+  }
+
+  // Names used only inside {{#each}} bodies may be loop item fields: they
+  // count as uses of a declared variable but are not required to be declared
+  const references = templates.flatMap((t) => collectReferences(t.text));
+  const placeholders = [...new Set(references.filter((ref) => !ref.inLoop).map((ref) => ref.name))];
+  const used = new Set(references.map((ref) => ref.name));
+
+  if (templates.length === sources.length) {
+    const declared = new Set(input.variables);
+    for (const name of placeholders) {
+      if (!declared.has(name)) {
+        issues.push({
+          severity: "error",
+          code: "undeclared_variable",
+          variable: name,
+          message: `{{${name}}} is used but not declared in variables`,
+        });
+      }
+    }
+    for (const name of input.variables) {
+      if (!used.has(name)) {
+        issues.push({
+          severity: "warning",
+          code: "unused_variable",
+          variable: name,
+          message: `"${name}" is declared but never used`,
+        });
+      }
+    }
+  }
+
+  for (const name of new Set([...placeholders, ...input.variables])) {
+    const issue = leadNameIssue(name);
+    if (issue) issues.push(issue);
+  }
+
+  return {
+    valid: !issues.some((i) => i.severity === "error"),
+    issues,
+    placeholders,
+    estimatedTokens: estimateTokens(
+      sources.map((s) => templates.find((t) => t.field === s.field)?.text ?? s.text).join("\n\n")
+    ),
+  };
+}
@@ -0,0 +1,760 @@
+import { eq, and, or, asc, desc, inArray, isNotNull, isNull, notInArray, sql, type SQL } from "drizzle-orm";
+import { db } from "../db/index.js";
+import {
+  emailGenerations,
+  prompts,
+  promptVersions,
+  promptVariants,
+  promptPartials,
+  type Prompt,
+  type PromptPartial,
+  type PromptVariant,
+  type PromptVersion,
+  type VariableMode,
+} from "../db/schema.js";
+import {
+  expandPartials,
+  findPartialCycle,
+  listPartialReferences,
+  parseTemplate,
+  TemplateError,
+} from "./template-engine.js";
+import { validateOutputSchema, type OutputSchema } from "./output-schema.js";
+import type { GenerationSettings } from "./models.js";
+import type { VariantSpec } from "./experiments.js";
+import type { SequenceConfig } from "./sequence.js";
+import {
+  normalizeVariables,
+  validateVariableSchema,
+  type VariableDeclaration,
+  type VariableSpec,
+} from "./variable-schema.js";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+export type DbClient = typeof db | Transaction;
+
+/**
+ * The part of a prompt that is snapshotted into every version.
+ */
+export interface PromptContent {
+  prompt: string;
+  /** Declared variable names */
+  variables: string[];
+  /** Typed declarations of the same variables; null when registered as bare names */
+  variableSchema?: VariableSpec[] | null;
+  variableMode: VariableMode;
+  /** System prompt template; null uses the built-in cold outreach persona */
+  systemPrompt?: string | null;
+  /** JSON Schema of the output; null uses the email sequence schema */
+  outputSchema?: OutputSchema | null;
+  /** Claude settings; null uses the defaults */
+  settings?: GenerationSettings | null;
+  /** Email count and cadence of the sequence; null uses the 3-email default */
+  sequenceConfig?: SequenceConfig | null;
+  /**
+   * A/B variant set, by name; null when not recorded. Omitted by writers that
+   * do not manage variants (PUT /prompts, bundles), which keep the current set.
+   */
+  variants?: VariantSpec[] | null;
+}
+
+export type PromptLayer = "app" | "org";
+
+/**
+ * Match the prompt row of a single layer: the app default (orgId null) or
+ * one org's override.
+ */
+export function promptKey(appId: string, type: string, orgId: string | null): SQL {
+  return and(
+    eq(prompts.appId, appId),
+    eq(prompts.type, type),
+    orgId ? eq(prompts.orgId, orgId) : isNull(prompts.orgId)
+  )!;
+}
+
+export function layerOf(row: Prompt): PromptLayer {
+  return row.orgId ? "org" : "app";
+}
+
+/**
+ * Resolve the prompt an org should use for (appId, type): its own override
+ * if one is registered, otherwise the app default. Prompts with no published
+ * version yet are skipped unless includeUnpublished is set.
+ */
+export async function resolvePrompt(
+  client: DbClient,
+  appId: string,
+  type: string,
+  orgId: string,
+  { includeUnpublished = false }: { includeUnpublished?: boolean } = {}
+): Promise<Prompt | undefined> {
+  return client.query.prompts.findFirst({
+    where: and(
+      eq(prompts.appId, appId),
+      eq(prompts.type, type),
+      or(eq(prompts.orgId, orgId), isNull(prompts.orgId)),
+      includeUnpublished ? undefined : isNotNull(prompts.versionId)
+    ),
+    orderBy: sql`${prompts.orgId} IS NULL`,
+  });
+}
+
+export interface PromptAuthor {
+  clerkOrgId?: string;
+  clerkUserId?: string;
+}
+
+/**
+ * A review step the current state of a version or partial does not allow:
+ * 409 for the wrong state, 403 for the wrong approver.
+ */
+export class ReviewStateError extends Error {
+  constructor(message: string, public status: 403 | 409) {
+    super(message);
+    this.name = "ReviewStateError";
+  }
+}
+
+/**
+ * Check an approver may publish a change: the change needs a known author,
+ * and the approver must be someone else.
+ */
+function checkApprover(authorClerkUserId: string | null, approver: PromptAuthor): void {
+  if (!authorClerkUserId) {
+    throw new ReviewStateError("The change has no recorded author and cannot be approved; resubmit it as a new draft", 403);
+  }
+  if (authorClerkUserId === approver.clerkUserId) {
+    throw new ReviewStateError("A prompt change must be approved by someone other than its author", 403);
+  }
+}
+
+/**
+ * Prompt content as sent to PUT /prompts, whose `variables` may mix bare
+ * names and typed declarations.
+ */
+export type PromptContentInput = Omit<PromptContent, "variables" | "variableSchema"> & {
+  variables: VariableDeclaration[];
+};
+
+export function toPromptContent(input: PromptContentInput): PromptContent {
+  return { ...input, ...normalizeVariables(input.variables) };
+}
+
+export function promptContentOf(row: PromptContent): PromptContent {
+  return {
+    prompt: row.prompt,
+    variables: row.variables,
+    variableSchema: row.variableSchema ?? null,
+    variableMode: row.variableMode,
+    systemPrompt: row.systemPrompt ?? null,
+    outputSchema: row.outputSchema ?? null,
+    settings: row.settings ?? null,
+    sequenceConfig: row.sequenceConfig ?? null,
+    variants: row.variants ?? null,
+  };
+}
+
+/**
+ * JSON with object keys sorted, so jsonb values read back from Postgres
+ * (which reorders keys) compare equal to what was sent.
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : v
+  );
+}
+
+export function isSameContent(a: PromptContent, b: PromptContent): boolean {
+  return canonicalJson(promptContentOf(a)) === canonicalJson(promptContentOf(b));
+}
+
+/**
+ * Names of the content fields that differ between two prompts.
+ */
+export function diffContent(a: PromptContent, b: PromptContent): (keyof PromptContent)[] {
+  const left = promptContentOf(a);
+  const right = promptContentOf(b);
+  return (Object.keys(left) as (keyof PromptContent)[]).filter(
+    (field) => canonicalJson(left[field]) !== canonicalJson(right[field])
+  );
+}
+
+/**
+ * Check that a template parses. Returns an error message, or null.
+ */
+export function validateTemplate(template: string): string | null {
+  try {
+    parseTemplate(template);
+  } catch (err) {
+    if (err instanceof TemplateError) return `Invalid prompt template: ${err.message}`;
+    throw err;
+  }
+  return null;
+}
+
+/**
+ * Check prompt content before it is stored. Returns an error message, or
+ * null when the content is valid.
+ */
+export function validatePromptContent(content: PromptContent): string | null {
+  const invalidVariables = content.variableSchema ? validateVariableSchema(content.variableSchema) : null;
+  if (invalidVariables) return invalidVariables;
+  const invalidSystem = content.systemPrompt ? validateTemplate(content.systemPrompt) : null;
+  if (invalidSystem) return `systemPrompt: ${invalidSystem}`;
+  const invalidOutput = content.outputSchema ? validateOutputSchema(content.outputSchema) : null;
+  if (invalidOutput) return invalidOutput;
+  if (content.outputSchema && content.sequenceConfig) {
+    return "sequenceConfig only applies to prompts without an output schema";
+  }
+  for (const variant of content.variants ?? []) {
+    const invalid = validateTemplate(variant.prompt);
+    if (invalid) return `variant=${variant.name}: ${invalid}`;
+  }
+  return validateTemplate(content.prompt);
+}
+
+/**
+ * A/B variants registered for a prompt, in stable order.
+ */
+export async function listVariants(client: DbClient, promptId: string): Promise<PromptVariant[]> {
+  return client.query.promptVariants.findMany({
+    where: eq(promptVariants.promptId, promptId),
+    orderBy: asc(promptVariants.name),
+  });
+}
+
+/**
+ * Make a prompt's variant rows match a published variant set. Variants are
+ * matched by name and keep their ids, so generations attributed to them stay
+ * attributed; names no longer in the set are removed.
+ */
+async function syncVariants(client: DbClient, promptId: string, variants: VariantSpec[]): Promise<void> {
+  const names = variants.map((v) => v.name);
+  await client
+    .delete(promptVariants)
+    .where(
+      and(
+        eq(promptVariants.promptId, promptId),
+        names.length > 0 ? notInArray(promptVariants.name, names) : undefined
+      )
+    );
+  for (const variant of variants) {
+    await client
+      .insert(promptVariants)
+      .values({ promptId, name: variant.name, prompt: variant.prompt, weight: variant.weight })
+      .onConflictDoUpdate({
+        target: [promptVariants.promptId, promptVariants.name],
+        set: { prompt: variant.prompt, weight: variant.weight },
+      });
+  }
+}
+
+/**
+ * An app's published partials as a name → content map, for expandPartials().
+ */
+export async function loadPartials(client: DbClient, appId: string): Promise<Record<string, string>> {
+  const rows = await client.query.promptPartials.findMany({
+    where: and(eq(promptPartials.appId, appId), isNotNull(promptPartials.content)),
+  });
+  return Object.fromEntries(rows.map((row) => [row.name, row.content!]));
+}
+
+/**
+ * Check that the partials a prompt's templates include, directly or through
+ * other partials, are registered for the app. Returns an error message, or
+ * null. Partials are only loaded when a template includes one.
+ */
+export async function validatePartialReferences(
+  client: DbClient,
+  appId: string,
+  content: PromptContent
+): Promise<string | null> {
+  const templates = [
+    ...(content.systemPrompt ? [{ field: "systemPrompt", text: content.systemPrompt }] : []),
+    { field: "prompt", text: content.prompt },
+    ...(content.variants ?? []).map((v) => ({ field: `variant=${v.name}`, text: v.prompt })),
+  ];
+  if (templates.every((t) => listPartialReferences(t.text).length === 0)) return null;
+
+  const partials = await loadPartials(client, appId);
+  for (const { field, text } of templates) {
+    try {
+      expandPartials(text, partials);
+    } catch (err) {
+      if (err instanceof TemplateError) return `${field}: ${err.message}`;
+      throw err;
+    }
+  }
+  return null;
+}
+
+/**
+ * Store new content for one partial of an app as its draft; it is included
+ * in prompts only once approved (see publishPartial). A new draft replaces a
+ * pending one. Content identical to the published content or to the pending
+ * draft is left untouched.
+ */
+export async function upsertPartial(
+  client: DbClient,
+  appId: string,
+  name: string,
+  content: string,
+  author: PromptAuthor
+): Promise<{ partial: PromptPartial; status: UpsertStatus }> {
+  const existing = await client.query.promptPartials.findFirst({
+    where: and(eq(promptPartials.appId, appId), eq(promptPartials.name, name)),
+  });
+
+  if (existing && (existing.draftContent ?? existing.content) === content) {
+    return { partial: existing, status: "unchanged" };
+  }
+
+  const draft = {
+    draftContent: content,
+    draftStatus: "draft" as const,
+    draftAuthorClerkUserId: author.clerkUserId ?? null,
+    draftSubmittedAt: null,
+  };
+  const [partial] = existing
+    ? await client
+        .update(promptPartials)
+        .set({ ...draft, updatedAt: new Date() })
+        .where(eq(promptPartials.id, existing.id))
+        .returning()
+    : await client.insert(promptPartials).values({ appId, name, content: null, ...draft }).returning();
+
+  return { partial, status: existing ? "updated" : "created" };
+}
+
+/**
+ * Lock a partial's row until the end of the transaction and read it.
+ */
+async function lockPartial(client: DbClient, partialId: string): Promise<PromptPartial | undefined> {
+  const [row] = await client.select().from(promptPartials).where(eq(promptPartials.id, partialId)).for("update");
+  return row;
+}
+
+/**
+ * Move a partial's draft to review.
+ */
+export async function submitPartial(client: DbClient, partial: PromptPartial): Promise<PromptPartial> {
+  const current = await lockPartial(client, partial.id);
+  if (current?.draftStatus !== "draft") {
+    throw new ReviewStateError(`Partial "${partial.name}" has no draft to submit`, 409);
+  }
+  const [submitted] = await client
+    .update(promptPartials)
+    .set({ draftStatus: "in_review", draftSubmittedAt: new Date(), updatedAt: new Date() })
+    .where(eq(promptPartials.id, partial.id))
+    .returning();
+  return submitted;
+}
+
+/**
+ * Approve a partial's draft under review and make it the content prompts
+ * include, recording the approver.
+ */
+export async function publishPartial(
+  client: DbClient,
+  partial: PromptPartial,
+  approver: PromptAuthor
+): Promise<PromptPartial> {
+  const current = await lockPartial(client, partial.id);
+  if (current?.draftStatus !== "in_review" || current.draftContent === null) {
+    throw new ReviewStateError(`Partial "${partial.name}" has no draft in review`, 409);
+  }
+  checkApprover(current.draftAuthorClerkUserId, approver);
+
+  const partials = await loadPartials(client, current.appId);
+  const cycle = findPartialCycle({ ...partials, [current.name]: current.draftContent });
+  if (cycle) {
+    throw new ReviewStateError(`Partial cycle: ${cycle.join(" > ")}`, 409);
+  }
+
+  const [published] = await client
+    .update(promptPartials)
+    .set({
+      content: current.draftContent,
+      draftContent: null,
+      draftStatus: null,
+      draftAuthorClerkUserId: null,
+      draftSubmittedAt: null,
+      approvedByClerkUserId: approver.clerkUserId ?? null,
+      publishedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(promptPartials.id, current.id))
+    .returning();
+  return published;
+}
+
+export interface PartialUsage {
+  /** Other partials that include it, directly or through further partials */
+  partials: string[];
+  /** Prompts and variants whose templates include it */
+  prompts: Prompt[];
+  variants: PromptVariant[];
+}
+
+/**
+ * Find every template of an app that includes a partial, directly or
+ * through other partials. With an orgId, only app defaults and that org's
+ * overrides are searched; otherwise every layer is.
+ */
+export async function findPartialUsage(
+  client: DbClient,
+  appId: string,
+  name: string,
+  orgId?: string
+): Promise<PartialUsage> {
+  const partials = await loadPartials(client, appId);
+
+  // Grow the set of partials that (transitively) include `name`
+  const including = new Set([name]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const [other, content] of Object.entries(partials)) {
+      if (!including.has(other) && listPartialReferences(content).some((ref) => including.has(ref))) {
+        including.add(other);
+        grew = true;
+      }
+    }
+  }
+
+  const uses = (template: string | null) =>
+    template !== null && listPartialReferences(template).some((ref) => including.has(ref));
+
+  const appPrompts = await client.query.prompts.findMany({
+    where: and(
+      eq(prompts.appId, appId),
+      orgId ? or(isNull(prompts.orgId), eq(prompts.orgId, orgId)) : undefined
+    ),
+    orderBy: asc(prompts.type),
+  });
+  const appVariants = appPrompts.length === 0 ? [] : await client.query.promptVariants.findMany({
+    where: inArray(promptVariants.promptId, appPrompts.map((p) => p.id)),
+    orderBy: asc(promptVariants.name),
+  });
+
+  return {
+    partials: [...including].filter((p) => p !== name),
+    prompts: appPrompts.filter((p) => uses(p.prompt) || uses(p.systemPrompt)),
+    variants: appVariants.filter((v) => uses(v.prompt)),
+  };
+}
+
+/**
+ * Whether any generation was made with one of a prompt's versions. Such
+ * prompts keep their history, so those generations stay traceable.
+ */
+export async function hasGenerations(client: DbClient, promptId: string): Promise<boolean> {
+  const versions = await client.query.promptVersions.findMany({
+    where: eq(promptVersions.promptId, promptId),
+    columns: { id: true },
+  });
+  if (versions.length === 0) return false;
+  const generation = await client.query.emailGenerations.findFirst({
+    where: inArray(emailGenerations.promptVersionId, versions.map((v) => v.id)),
+    columns: { id: true },
+  });
+  return generation !== undefined;
+}
+
+export type UpsertStatus = "created" | "updated" | "unchanged";
+
+/**
+ * Create or update the prompt of one layer. Every change, including a first
+ * registration, is stored as a draft version and goes live only once
+ * approved (see publishVersion); until then a new prompt has no live version
+ * and POST /generate does not serve it. Content identical to the live
+ * version or to the latest draft creates nothing.
+ */
+export async function upsertPrompt(
+  client: DbClient,
+  key: { appId: string; type: string; orgId: string | null },
+  content: PromptContent,
+  author: PromptAuthor
+): Promise<{ prompt: Prompt; status: UpsertStatus; draft: PromptVersion | null }> {
+  let existing = await client.query.prompts.findFirst({
+    where: promptKey(key.appId, key.type, key.orgId),
+  });
+
+  let created = false;
+  if (!existing) {
+    content = { ...content, variants: content.variants ?? [] };
+    // The row holds the draft's content but has no live version. A concurrent
+    // first registration may have inserted it meanwhile: then this is a
+    // change to that prompt
+    const [row] = await client
+      .insert(prompts)
+      .values({ ...key, ...promptContentOf(content), version: 0, versionId: null })
+      .onConflictDoNothing()
+      .returning();
+    existing = row ?? (await client.query.prompts.findFirst({
+      where: promptKey(key.appId, key.type, key.orgId),
+    }));
+    if (!existing) throw new Error(`Prompt ${key.appId}/${key.type} conflicted but could not be read`);
+    created = row !== undefined;
+  }
+
+  await lockPrompt(client, existing.id);
+  if (content.variants === undefined) content = { ...content, variants: existing.variants };
+
+  // An unpublished prompt's row is its first draft, not live content
+  if (existing.versionId && isSameContent(existing, content)) {
+    return { prompt: existing, status: "unchanged", draft: null };
+  }
+
+  const latest = await latestVersion(client, existing.id);
+  if (latest && latest.status !== "published" && isSameContent(latest, content)) {
+    return { prompt: existing, status: "unchanged", draft: latest };
+  }
+
+  const [draft] = await client
+    .insert(promptVersions)
+    .values({
+      promptId: existing.id,
+      version: (latest?.version ?? existing.version) + 1,
+      ...promptContentOf(content),
+      authorClerkOrgId: author.clerkOrgId ?? null,
+      authorClerkUserId: author.clerkUserId ?? null,
+      status: "draft",
+    })
+    .returning();
+
+  return { prompt: existing, status: created ? "created" : "updated", draft };
+}
+
+/**
+ * Register a prompt for a service at startup, which has no user to author
+ * it. A prompt with no live version is published directly: nothing is
+ * served yet that the change could break. A live prompt is only left
+ * unchanged; changing it takes an author and review (see upsertPrompt).
+ */
+export async function bootstrapPrompt(
+  client: DbClient,
+  key: { appId: string; type: string; orgId: string | null },
+  content: PromptContent,
+  author: PromptAuthor
+): Promise<{ prompt: Prompt; status: UpsertStatus; draft: PromptVersion | null }> {
+  const result = await upsertPrompt(client, key, content, author);
+  if (!result.draft) return result;
+
+  // Under the prompt's lock since upsertPrompt: a concurrent bootstrap may
+  // have published first. Content matching a pending draft created nothing
+  const live = await lockPrompt(client, result.prompt.id);
+  if (live?.versionId) {
+    if (result.status === "unchanged") return result;
+    throw new ReviewStateError(
+      `Prompt ${key.appId}/${key.type} is live; changing it needs an x-clerk-user-id author and review`,
+      409
+    );
+  }
+
+  const [published] = await client
+    .update(promptVersions)
+    .set({ status: "published", publishedAt: new Date() })
+    .where(eq(promptVersions.id, result.draft.id))
+    .returning();
+  const head = await setLiveVersion(client, result.prompt.id, published);
+  return { prompt: head, status: result.status, draft: null };
+}
+
+/**
+ * Lock a prompt's row until the end of the transaction, so concurrent writers
+ * number their versions one after another instead of colliding on
+ * (prompt_id, version). Versions read after the lock include theirs.
+ * Returns the app and live version of the locked row.
+ */
+async function lockPrompt(
+  client: DbClient,
+  promptId: string
+): Promise<Pick<Prompt, "appId" | "version" | "versionId"> | undefined> {
+  const [row] = await client
+    .select({ appId: prompts.appId, version: prompts.version, versionId: prompts.versionId })
+    .from(prompts)
+    .where(eq(prompts.id, promptId))
+    .for("update");
+  return row;
+}
+
+async function latestVersion(client: DbClient, promptId: string): Promise<PromptVersion | undefined> {
+  return client.query.promptVersions.findFirst({
+    where: eq(promptVersions.promptId, promptId),
+    orderBy: desc(promptVersions.version),
+  });
+}
+
+/**
+ * The latest version of a prompt when it is a draft or in review, i.e. a
+ * change not published yet.
+ */
+export async function pendingVersion(client: DbClient, promptId: string): Promise<PromptVersion | undefined> {
+  const latest = await latestVersion(client, promptId);
+  return latest?.status === "published" ? undefined : latest;
+}
+
+export async function findVersion(
+  client: DbClient,
+  promptId: string,
+  version: number
+): Promise<PromptVersion | undefined> {
+  return client.query.promptVersions.findFirst({
+    where: and(eq(promptVersions.promptId, promptId), eq(promptVersions.version, version)),
+  });
+}
+
+/**
+ * Append an immutable, already published version to a prompt's history and
+ * make it the live head. Used for rollbacks, which only serve content that
+ * was reviewed before.
+ */
+export async function publishNewVersion(
+  client: DbClient,
+  promptId: string,
+  content: PromptContent,
+  author: PromptAuthor,
+  rolledBackFromVersion?: number
+): Promise<{ head: Prompt; version: PromptVersion }> {
+  await lockPrompt(client, promptId);
+  const latest = await latestVersion(client, promptId);
+
+  const [version] = await client
+    .insert(promptVersions)
+    .values({
+      promptId,
+      version: (latest?.version ?? 0) + 1,
+      ...promptContentOf(content),
+      authorClerkOrgId: author.clerkOrgId ?? null,
+      authorClerkUserId: author.clerkUserId ?? null,
+      rolledBackFromVersion: rolledBackFromVersion ?? null,
+      status: "published",
+      publishedAt: new Date(),
+    })
+    .returning();
+
+  const head = await setLiveVersion(client, promptId, version);
+  return { head, version };
+}
+
+/**
+ * Move a draft to review.
+ */
+export async function submitVersion(
+  client: DbClient,
+  version: PromptVersion,
+  submitter: PromptAuthor
+): Promise<PromptVersion> {
+  const [submitted] = await client
+    .update(promptVersions)
+    .set({
+      status: "in_review",
+      submittedAt: new Date(),
+      submittedByClerkUserId: submitter.clerkUserId ?? null,
+    })
+    .where(and(eq(promptVersions.id, version.id), eq(promptVersions.status, "draft")))
+    .returning();
+  if (!submitted) {
+    throw new ReviewStateError(`Version ${version.version} is no longer a draft`, 409);
+  }
+  return submitted;
+}
+
+/**
+ * Approve a version under review and make it the live head, recording the
+ * approver. The version is re-read under lock, so two approvals cannot both
+ * publish it. A version older than the live head is refused: it would undo
+ * later changes, which POST /prompts/rollback does explicitly. So is one
+ * including partials that are not published.
+ */
+export async function publishVersion(
+  client: DbClient,
+  version: PromptVersion,
+  approver: PromptAuthor
+): Promise<{ head: Prompt; version: PromptVersion }> {
+  const live = await lockPrompt(client, version.promptId);
+  const [current] = await client
+    .select()
+    .from(promptVersions)
+    .where(eq(promptVersions.id, version.id))
+    .for("update");
+  if (!live || !current) {
+    throw new ReviewStateError(`Version ${version.version} no longer exists`, 409);
+  }
+  if (current.status !== "in_review") {
+    throw new ReviewStateError(
+      `Version ${current.version} is ${current.status}; only versions in review can be published`,
+      409
+    );
+  }
+  checkApprover(current.authorClerkUserId, approver);
+  if (live.versionId && current.version < live.version) {
+    throw new ReviewStateError(
+      `Version ${current.version} is older than live version ${live.version}; use POST /prompts/rollback to restore older content`,
+      409
+    );
+  }
+  const unresolved = await validatePartialReferences(client, live.appId, current);
+  if (unresolved) {
+    throw new ReviewStateError(`${unresolved}; publish the partial first`, 409);
+  }
+
+  const [published] = await client
+    .update(promptVersions)
+    .set({
+      status: "published",
+      approvedByClerkOrgId: approver.clerkOrgId ?? null,
+      approvedByClerkUserId: approver.clerkUserId ?? null,
+      publishedAt: new Date(),
+    })
+    .where(eq(promptVersions.id, version.id))
+    .returning();
+
+  const head = await setLiveVersion(client, version.promptId, published);
+  return { head, version: published };
+}
+
+async function setLiveVersion(client: DbClient, promptId: string, version: PromptVersion): Promise<Prompt> {
+  if (version.variants) await syncVariants(client, promptId, version.variants);
+  const [head] = await client
+    .update(prompts)
+    .set({
+      ...promptContentOf(version),
+      version: version.version,
+      versionId: version.id,
+      updatedAt: new Date(),
+    })
+    .where(eq(prompts.id, promptId))
+    .returning();
+  return head;
+}
+
+export function serializeVersion(version: PromptVersion) {
+  return {
+    id: version.id,
+    promptId: version.promptId,
+    version: version.version,
+    prompt: version.prompt,
+    variables: version.variables,
+    variableSchema: version.variableSchema,
+    variableMode: version.variableMode,
+    systemPrompt: version.systemPrompt,
+    outputSchema: version.outputSchema,
+    settings: version.settings,
+    sequenceConfig: version.sequenceConfig,
+    variants: version.variants,
+    authorClerkOrgId: version.authorClerkOrgId,
+    authorClerkUserId: version.authorClerkUserId,
+    rolledBackFromVersion: version.rolledBackFromVersion,
+    status: version.status,
+    submittedAt: version.submittedAt?.toISOString() ?? null,
+    submittedByClerkUserId: version.submittedByClerkUserId,
+    approvedByClerkOrgId: version.approvedByClerkOrgId,
+    approvedByClerkUserId: version.approvedByClerkUserId,
+    publishedAt: version.publishedAt?.toISOString() ?? null,
+    createdAt: version.createdAt.toISOString(),
+  };
+}
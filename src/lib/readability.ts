@@ -0,0 +1,209 @@
+import type { SequenceStep } from "./anthropic-client.js";
+import type { SequenceConfig } from "./sequence.js";
+
+export interface ReadabilityMetrics {
+  words: number;
+  sentences: number;
+  /** Words per sentence */
+  avgSentenceLength: number;
+  /** Flesch reading ease: 0 to 100, higher is plainer (60-70 is plain English) */
+  fleschReadingEase: number;
+}
+
+/** Limits one email must stay within; unset ones are not checked */
+export interface ReadabilityLimits {
+  maxWords?: number;
+  maxSentences?: number;
+  maxAvgSentenceLength?: number;
+  minReadingEase?: number;
+}
+
+/**
+ * What a sequence with a step outside its limits leads to: regeneration with
+ * the violations fed back, or rejection of the request.
+ */
+export type LimitEnforcement = "rewrite" | "reject";
+
+export const DEFAULT_LIMIT_ENFORCEMENT: LimitEnforcement = "rewrite";
+
+export interface ReadabilityViolation {
+  step: number;
+  limit: keyof ReadabilityLimits;
+  /** The limit's value */
+  expected: number;
+  actual: number;
+  message: string;
+}
+
+// Greetings ("Hi Sarah,") and sign-offs ("Best,", "Kevin") are not sentences
+const MAX_FRAGMENT_WORDS = 3;
+
+function wordsOf(text: string): string[] {
+  return text.match(/[\p{L}\p{N}]+(['’][\p{L}]+)*/gu) ?? [];
+}
+
+// Vowel groups, without a silent final e; at least 1. Accents are dropped so
+// "café" counts like "cafe"
+function syllables(word: string): number {
+  const w = word.toLowerCase().normalize("NFD").replace(/\p{M}/gu, "").replace(/[^\p{L}]/gu, "");
+  if (w.length <= 3) return 1;
+  const groups = w.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, "").replace(/^y/, "").match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 1);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Sentences of an email body. Paragraph and line breaks end a sentence; short
+ * fragments without final punctuation are left out.
+ */
+function sentencesOf(text: string): string[] {
+  return text
+    .split(/\n+/)
+    .flatMap((line) => line.split(/(?<=[.!?…])\s+/))
+    .map((s) => s.trim())
+    .filter((s) => wordsOf(s).length > 0)
+    .filter((s) => /[.!?…]["')\]]*$/.test(s) || wordsOf(s).length > MAX_FRAGMENT_WORDS);
+}
+
+export function readabilityMetrics(text: string): ReadabilityMetrics {
+  const sentences = sentencesOf(text);
+  const sentenceWords = sentences.flatMap(wordsOf);
+  const words = wordsOf(text).length;
+  if (sentences.length === 0 || sentenceWords.length === 0) {
+    return { words, sentences: sentences.length, avgSentenceLength: 0, fleschReadingEase: 0 };
+  }
+
+  const perSentence = sentenceWords.length / sentences.length;
+  const perWord = sentenceWords.reduce((sum, w) => sum + syllables(w), 0) / sentenceWords.length;
+  const ease = 206.835 - 1.015 * perSentence - 84.6 * perWord;
+  return {
+    words,
+    sentences: sentences.length,
+    avgSentenceLength: round(perSentence),
+    fleschReadingEase: round(Math.min(100, Math.max(0, ease))),
+  };
+}
+
+/**
+ * Limits of a step (0-based): the sequence's limits, overridden by the step's.
+ */
+export function stepLimits(config: SequenceConfig, index: number): ReadabilityLimits {
+  return { ...config.limits, ...config.steps[index]?.limits };
+}
+
+export function hasLimits(config: SequenceConfig): boolean {
+  return config.steps.some((_, i) => Object.keys(stepLimits(config, i)).length > 0);
+}
+
+/**
+ * One line per limit, for the sequence section of the system prompt.
+ */
+export function describeLimits(limits: ReadabilityLimits): string[] {
+  const parts: string[] = [];
+  if (limits.maxSentences !== undefined) parts.push(`at most ${limits.maxSentences} sentences`);
+  if (limits.maxWords !== undefined) parts.push(`at most ${limits.maxWords} words`);
+  if (limits.maxAvgSentenceLength !== undefined) {
+    parts.push(`sentences of ${limits.maxAvgSentenceLength} words or fewer on average`);
+  }
+  if (limits.minReadingEase !== undefined) {
+    parts.push(`a Flesch reading ease of at least ${limits.minReadingEase} (short sentences, plain words)`);
+  }
+  return parts;
+}
+
+/**
+ * Whether Flesch reading ease means anything for text in a locale: its
+ * formula is calibrated on English syllable counts. No locale is English.
+ */
+export function hasReadingEase(locale?: string | null): boolean {
+  return !locale || new Intl.Locale(locale).language === "en";
+}
+
+/**
+ * Check every step of a sequence against its limits. minReadingEase is only
+ * checked for English (see hasReadingEase).
+ */
+export function checkReadability(
+  sequence: SequenceStep[],
+  config: SequenceConfig,
+  locale?: string | null
+): ReadabilityViolation[] {
+  const violations: ReadabilityViolation[] = [];
+  sequence.forEach((step, i) => {
+    const limits = stepLimits(config, i);
+    const metrics = readabilityMetrics(step.bodyText);
+    const add = (limit: keyof ReadabilityLimits, expected: number, actual: number, message: string) =>
+      violations.push({ step: step.step, limit, expected, actual, message });
+
+    if (limits.maxWords !== undefined && metrics.words > limits.maxWords) {
+      add("maxWords", limits.maxWords, metrics.words, `${metrics.words} words; at most ${limits.maxWords}`);
+    }
+    if (limits.maxSentences !== undefined && metrics.sentences > limits.maxSentences) {
+      add("maxSentences", limits.maxSentences, metrics.sentences, `${metrics.sentences} sentences; at most ${limits.maxSentences}`);
+    }
+    if (limits.maxAvgSentenceLength !== undefined && metrics.avgSentenceLength > limits.maxAvgSentenceLength) {
+      add(
+        "maxAvgSentenceLength",
+        limits.maxAvgSentenceLength,
+        metrics.avgSentenceLength,
+        `${metrics.avgSentenceLength} words per sentence on average; at most ${limits.maxAvgSentenceLength}`
+      );
+    }
+    if (
+      limits.minReadingEase !== undefined &&
+      hasReadingEase(locale) &&
+      metrics.fleschReadingEase < limits.minReadingEase
+    ) {
+      add(
+        "minReadingEase",
+        limits.minReadingEase,
+        metrics.fleschReadingEase,
+        `Flesch reading ease ${metrics.fleschReadingEase}; at least ${limits.minReadingEase} (use shorter sentences and plainer words)`
+      );
+    }
+  });
+  return violations;
+}
+
+/**
+ * The violations, as feedback for the next attempt.
+ */
+export function readabilityFeedback(violations: ReadabilityViolation[]): string {
+  const lines = violations.map((v) => `- Email ${v.step}: ${v.message}`);
+  return `These emails break the length and readability limits:\n${lines.join("\n")}\nRewrite them to stay within the limits.`;
+}
+
+export interface ReadabilityStats {
+  /** Steps the averages are over */
+  steps: number;
+  avgWords: number;
+  avgSentences: number;
+  avgSentenceLength: number;
+  avgReadingEase: number;
+}
+
+/** Each metric summed over a set of steps, as aggregated by the database */
+export type ReadabilityTotals = {
+  steps: number;
+  words: number;
+  sentences: number;
+  avgSentenceLength: number;
+  fleschReadingEase: number;
+};
+
+/**
+ * Average metrics over every step, from their totals.
+ */
+export function summarizeReadability(totals: ReadabilityTotals): ReadabilityStats {
+  const avg = (sum: number) => (totals.steps === 0 ? 0 : round(sum / totals.steps));
+  return {
+    steps: totals.steps,
+    avgWords: avg(totals.words),
+    avgSentences: avg(totals.sentences),
+    avgSentenceLength: avg(totals.avgSentenceLength),
+    avgReadingEase: avg(totals.fleschReadingEase),
+  };
+}
@@ -0,0 +1,122 @@
+import { describeLimits, stepLimits, type LimitEnforcement, type ReadabilityLimits } from "./readability.js";
+import type { SequenceStep } from "./anthropic-client.js";
+
+/** "reply" continues the previous email's thread; "new" starts one with its own subject */
+export type ThreadMode = "reply" | "new";
+
+export interface SequenceStepConfig {
+  daysSinceLastStep: number;
+  /** Follow-ups default to "reply"; the first email always starts a thread */
+  threadMode?: ThreadMode;
+  /** Overrides the sequence's limits for this email */
+  limits?: ReadabilityLimits;
+}
+
+/**
+ * Length and cadence of the email sequence generated by prompts without
+ * their own output schema.
+ */
+export interface SequenceConfig {
+  /** One entry per email; the first is the initial email */
+  steps: SequenceStepConfig[];
+  /** Length and readability limits of every email */
+  limits?: ReadabilityLimits;
+  /** What a step outside its limits leads to; defaults to rewrite */
+  onLimitViolation?: LimitEnforcement;
+}
+
+export const MAX_SEQUENCE_STEPS = 6;
+
+export const DEFAULT_SEQUENCE: SequenceConfig = {
+  steps: [{ daysSinceLastStep: 0 }, { daysSinceLastStep: 3 }, { daysSinceLastStep: 7 }],
+};
+
+/**
+ * Output field holding the body of a step (0-based): "body" for the first
+ * email, then "followup1", "followup2", ...
+ */
+export function stepField(index: number): string {
+  return index === 0 ? "body" : `followup${index}`;
+}
+
+/**
+ * Output field holding the subject of a follow-up that starts a new thread,
+ * e.g. "followup2Subject". The first email's subject is "subject".
+ */
+export function stepSubjectField(index: number): string {
+  return `${stepField(index)}Subject`;
+}
+
+export function threadModeOf(config: SequenceConfig, index: number): ThreadMode {
+  return index === 0 ? "new" : config.steps[index].threadMode ?? "reply";
+}
+
+/**
+ * Steps of a stored generation. Rows generated before thread modes have no
+ * threadMode; they were sent as one thread, so step 1 is read as new and
+ * the follow-ups as replies.
+ */
+export function storedSequence(sequence: unknown): SequenceStep[] | null {
+  if (!Array.isArray(sequence)) return null;
+  return (sequence as SequenceStep[]).map((step, i) => ({
+    ...step,
+    threadMode: step.threadMode ?? (i === 0 ? "new" : "reply"),
+  }));
+}
+
+/**
+ * The config a generated sequence was written with, from its steps.
+ */
+export function sequenceConfigOf(steps: { daysSinceLastStep: number; threadMode?: ThreadMode }[]): SequenceConfig {
+  return { steps: steps.map((s) => ({ daysSinceLastStep: s.daysSinceLastStep, threadMode: s.threadMode })) };
+}
+
+/**
+ * JSON Schema Claude's output is constrained to for a sequence.
+ */
+export function sequenceJsonSchema(config: SequenceConfig) {
+  const fields = ["subject"];
+  config.steps.forEach((_, i) => {
+    fields.push(stepField(i));
+    if (i > 0 && threadModeOf(config, i) === "new") fields.push(stepSubjectField(i));
+  });
+  return {
+    type: "object" as const,
+    properties: Object.fromEntries(fields.map((f) => [f, { type: "string" as const }])),
+    required: fields,
+    additionalProperties: false,
+  };
+}
+
+/**
+ * The "Sequence structure" part of the built-in system prompt. contrarian:
+ * whether email 1 uses the built-in contrarian opener.
+ */
+export function describeSequence(config: SequenceConfig, contrarian = true): string {
+  const count = config.steps.length;
+  return config.steps
+    .map((step, i) => {
+      const label = `- **Email ${i + 1} (${stepField(i)}):**`;
+      if (i === 0) {
+        return `${label} The initial cold email. ${contrarian ? "Lead with a contrarian angle." : "Open as described under Opening line."}`;
+      }
+
+      const days = step.daysSinceLastStep === 1 ? "1 day" : `${step.daysSinceLastStep} days`;
+      const timing = `sent ~${days} after email ${i}.`;
+      const thread = threadModeOf(config, i) === "reply"
+        ? "Same thread — no new subject line."
+        : `New thread — give it its own subject line (${stepSubjectField(i)}), not a "Re:" of the first.`;
+      if (i === count - 1) {
+        return `${label} A final follow-up ${timing} Take a different angle. This is the last attempt — make it count. ${thread}`;
+      }
+      const reference = i === 1
+        ? "Reference the first email without repeating it."
+        : "Reference the earlier emails without repeating them.";
+      return `${label} A short follow-up ${timing} ${reference} Keep it to 2-3 sentences. ${thread}`;
+    })
+    .map((line, i) => {
+      const limits = describeLimits(stepLimits(config, i));
+      return limits.length > 0 ? `${line} Limits: ${limits.join(", ")}.` : line;
+    })
+    .join("\n");
+}
@@ -0,0 +1,77 @@
+import { and, eq } from "drizzle-orm";
+import { stylePresets, type StylePreset } from "../db/schema.js";
+import type { DbClient, UpsertStatus } from "./prompt-store.js";
+
+/**
+ * The parts of a style preset that shape the system prompt. Unset parts keep
+ * the built-in behavior.
+ */
+export interface StyleRules {
+  tone?: string | null;
+  opener?: string | null;
+  /** Length target of each email body, in words */
+  maxWords?: number | null;
+  rules?: string | null;
+}
+
+export type StylePresetInput = StyleRules & { description?: string | null };
+
+export function lengthRule(maxWords: number): string {
+  return `Keep each email under ${maxWords} words. Cut anything that doesn't earn its place.`;
+}
+
+/**
+ * A preset as a system prompt section, for prompts with their own system
+ * prompt (the built-in persona swaps its sections instead).
+ */
+export function styleInstructions(style: StyleRules): string {
+  const lines = ["## Style"];
+  if (style.tone) lines.push(`Tone: ${style.tone}`);
+  if (style.opener) lines.push(`Opening line (first email only): ${style.opener}`);
+  if (style.maxWords) lines.push(`Length: ${lengthRule(style.maxWords)}`);
+  if (style.rules) lines.push(style.rules);
+  return lines.join("\n");
+}
+
+export async function findStylePreset(
+  client: DbClient,
+  appId: string,
+  name: string
+): Promise<StylePreset | undefined> {
+  return client.query.stylePresets.findFirst({
+    where: and(eq(stylePresets.appId, appId), eq(stylePresets.name, name)),
+  });
+}
+
+/**
+ * Create or replace one preset of an app. Identical content is left untouched.
+ */
+export async function upsertStylePreset(
+  client: DbClient,
+  appId: string,
+  name: string,
+  input: StylePresetInput
+): Promise<{ preset: StylePreset; status: UpsertStatus }> {
+  const content = {
+    description: input.description ?? null,
+    tone: input.tone ?? null,
+    opener: input.opener ?? null,
+    maxWords: input.maxWords ?? null,
+    rules: input.rules ?? null,
+  };
+  const existing = await findStylePreset(client, appId, name);
+
+  if (existing && (Object.keys(content) as (keyof typeof content)[]).every((k) => existing[k] === content[k])) {
+    return { preset: existing, status: "unchanged" };
+  }
+
+  const [preset] = existing
+    ? await client
+        .update(stylePresets)
+        .set({ ...content, updatedAt: new Date() })
+        .where(eq(stylePresets.id, existing.id))
+        .returning()
+    : await client.insert(stylePresets).values({ appId, name, ...content }).returning();
+
+  return { preset, status: existing ? "updated" : "created" };
+}
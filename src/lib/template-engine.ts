@@ -0,0 +1,499 @@
+/**
+ * Sandboxed template engine for stored prompts.
+ *
+ * Supports:
+ * - {{name}}, {{lead.company}}: variable output (unknown variables are left as-is)
+ * - {{name | default: "there"}}, {{title | upper | truncate: 40}}: filters
+ * - {{#if name}}...{{else}}...{{/if}}, {{#unless name}}...{{/unless}}
+ * - {{#each items}}{{this}} ({{@index}}){{else}}none{{/each}}
+ * - {{> partialName}}: shared partials, inlined by expandPartials() before rendering
+ *
+ * Templates are parsed, never evaluated: lookups only read own properties of
+ * the supplied variables, and loop size and output length are capped.
+ * {{else}} and closing tags outside of any block are left as literal text, as
+ * in templates written before blocks were supported.
+ */
+
+const TAG_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+const PATH_PATTERN = /^@?[A-Za-z0-9_][A-Za-z0-9_.-]*$/;
+const MAX_EACH_ITEMS = 500;
+const MAX_EACH_ITERATIONS = 10_000;
+const MAX_OUTPUT_LENGTH = 500_000;
+const PARTIAL_PATTERN = /\{\{>\s*([A-Za-z0-9_][A-Za-z0-9_.-]*)\s*\}\}/g;
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+type FilterArg = string | number;
+
+interface FilterCall {
+  name: string;
+  args: FilterArg[];
+}
+
+type TemplateNode =
+  | { kind: "text"; value: string }
+  | { kind: "output"; raw: string; path: string; filters: FilterCall[] }
+  | { kind: "if"; path: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { kind: "each"; path: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+type BlockNode = Extract<TemplateNode, { kind: "if" | "each" }>;
+
+// ─── Filters ─────────────────────────────────────────────────────────────────
+
+/**
+ * Coerce an unknown value to a string for template substitution.
+ * - strings pass through
+ * - arrays of strings are comma-joined
+ * - everything else is JSON-stringified
+ */
+export function coerceToString(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (Array.isArray(value) && value.every((v) => typeof v === "string")) {
+    return value.join(", ");
+  }
+  return JSON.stringify(value);
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+}
+
+const FILTERS: Record<string, (value: unknown, args: FilterArg[]) => unknown> = {
+  default: (value, [fallback = ""]) => (isBlank(value) ? fallback : value),
+  upper: (value) => coerceToString(value).toUpperCase(),
+  lower: (value) => coerceToString(value).toLowerCase(),
+  capitalize: (value) => {
+    const s = coerceToString(value);
+    return s.charAt(0).toUpperCase() + s.slice(1);
+  },
+  trim: (value) => coerceToString(value).trim(),
+  truncate: (value, [length = 100, suffix = "..."]) => {
+    const s = coerceToString(value);
+    const max = Number(length);
+    return s.length > max ? s.slice(0, max).trimEnd() + String(suffix) : s;
+  },
+  join: (value, [separator = ", "]) =>
+    Array.isArray(value) ? value.map(coerceToString).join(String(separator)) : coerceToString(value),
+  first: (value) => (Array.isArray(value) ? value[0] : value),
+  last: (value) => (Array.isArray(value) ? value[value.length - 1] : value),
+  json: (value) => JSON.stringify(value),
+};
+
+// ─── Parsing ─────────────────────────────────────────────────────────────────
+
+function splitOutsideQuotes(input: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quote) {
+      current += ch;
+      if (ch === "\\" && i + 1 < input.length) {
+        current += input[++i];
+      } else if (ch === quote) {
+        quote = null;
+      }
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+      current += ch;
+    } else if (ch === separator) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts.map((p) => p.trim());
+}
+
+function parseFilterArg(raw: string, filter: string): FilterArg {
+  const quoted = raw.match(/^(["'])((?:\\.|(?!\1).)*)\1$/s);
+  if (quoted) return quoted[2].replace(/\\(.)/g, "$1");
+  if (/^-?\d+(\.\d+)?$/.test(raw)) return Number(raw);
+  throw new TemplateError(`Invalid argument ${raw} for filter "${filter}" — use a quoted string or a number`);
+}
+
+function parseFilter(raw: string): FilterCall {
+  const match = raw.match(/^([A-Za-z_]+)\s*(?::([\s\S]*))?$/);
+  if (!match) {
+    throw new TemplateError(`Invalid filter "${raw}"`);
+  }
+  const name = match[1];
+  if (!FILTERS[name]) {
+    throw new TemplateError(`Unknown filter "${name}". Available: ${Object.keys(FILTERS).join(", ")}`);
+  }
+  const args = match[2] === undefined ? [] : splitOutsideQuotes(match[2], ",").map((a) => parseFilterArg(a, name));
+  return { name, args };
+}
+
+/**
+ * Parse an output expression. Returns null for tag contents that are not
+ * template expressions, so stray braces in prompt text render unchanged.
+ */
+function parseOutput(raw: string): Extract<TemplateNode, { kind: "output" }> | null {
+  const [path, ...filters] = splitOutsideQuotes(raw, "|");
+  if (!PATH_PATTERN.test(path)) return null;
+  return { kind: "output", raw, path, filters: filters.map(parseFilter) };
+}
+
+function parseBlockPath(keyword: string, rest: string): string {
+  const path = rest.trim();
+  if (!PATH_PATTERN.test(path)) {
+    throw new TemplateError(`{{#${keyword}}} requires a variable name, got "${path}"`);
+  }
+  return path;
+}
+
+/**
+ * Parse a template into an AST. Throws TemplateError for unclosed and
+ * mismatched blocks, unknown filters and malformed block tags.
+ */
+export function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: { node: BlockNode; keyword: string; inElse: boolean }[] = [];
+
+  const current = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    if (top.node.kind === "if") return top.inElse ? top.node.otherwise : top.node.then;
+    return top.inElse ? top.node.otherwise : top.node.body;
+  };
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    if (match.index! > lastIndex) {
+      current().push({ kind: "text", value: template.slice(lastIndex, match.index) });
+    }
+    lastIndex = match.index! + match[0].length;
+
+    const content = match[1].trim();
+    const open = content.match(/^#(if|unless|each)\b([\s\S]*)$/);
+    const close = content.match(/^\/(if|unless|each)$/);
+
+    if (open) {
+      const [, keyword, rest] = open;
+      const path = parseBlockPath(keyword, rest);
+      const node: BlockNode = keyword === "each"
+        ? { kind: "each", path, body: [], otherwise: [] }
+        : { kind: "if", path, negate: keyword === "unless", then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, keyword, inElse: false });
+    } else if ((close || content === "else") && stack.length === 0) {
+      current().push({ kind: "text", value: match[0] });
+    } else if (close) {
+      const top = stack.pop()!;
+      if (top.keyword !== close[1]) {
+        throw new TemplateError(`{{/${close[1]}}} closes {{#${top.keyword}}}`);
+      }
+    } else if (content === "else") {
+      const top = stack[stack.length - 1];
+      if (top.inElse) {
+        throw new TemplateError(`Second {{else}} in a {{#${top.keyword}}} block`);
+      }
+      top.inElse = true;
+    } else {
+      const output = parseOutput(content);
+      current().push(output ?? { kind: "text", value: match[0] });
+    }
+  }
+
+  if (lastIndex < template.length) {
+    current().push({ kind: "text", value: template.slice(lastIndex) });
+  }
+
+  if (stack.length > 0) {
+    throw new TemplateError(`Unclosed {{#${stack[stack.length - 1].keyword}}} block`);
+  }
+
+  return root;
+}
+
+// ─── Rendering ───────────────────────────────────────────────────────────────
+
+interface Scope {
+  value: unknown;
+  parent?: Scope;
+  index?: number;
+  length?: number;
+}
+
+function readOwn(source: unknown, key: string): unknown {
+  if (source === null || typeof source !== "object") return undefined;
+  return Object.prototype.hasOwnProperty.call(source, key)
+    ? (source as Record<string, unknown>)[key]
+    : undefined;
+}
+
+function readPath(source: unknown, path: string): unknown {
+  const direct = readOwn(source, path);
+  if (direct !== undefined) return direct;
+  let value = source;
+  for (const segment of path.split(".")) {
+    value = readOwn(value, segment);
+    if (value === undefined) return undefined;
+  }
+  return value;
+}
+
+function lookup(path: string, scope: Scope): unknown {
+  if (path === "this") return scope.value;
+  if (path.startsWith("this.")) return readPath(scope.value, path.slice(5));
+
+  if (path.startsWith("@")) {
+    let loop: Scope | undefined = scope;
+    while (loop && loop.index === undefined) loop = loop.parent;
+    if (!loop) return undefined;
+    if (path === "@index") return loop.index;
+    if (path === "@first") return loop.index === 0;
+    if (path === "@last") return loop.index === loop.length! - 1;
+    return undefined;
+  }
+
+  for (let s: Scope | undefined = scope; s; s = s.parent) {
+    const value = readPath(s.value, path);
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === "string") return value.trim().length > 0;
+  return Boolean(value);
+}
+
+/** Rendered fragments, with running totals so nested loops hit the caps as they render */
+interface RenderOutput {
+  parts: string[];
+  length: number;
+  iterations: number;
+}
+
+function emit(out: RenderOutput, text: string): void {
+  out.length += text.length;
+  if (out.length > MAX_OUTPUT_LENGTH) {
+    throw new TemplateError(`Rendered template exceeds ${MAX_OUTPUT_LENGTH} characters`);
+  }
+  out.parts.push(text);
+}
+
+function renderNodes(nodes: TemplateNode[], scope: Scope, out: RenderOutput): void {
+  for (const node of nodes) {
+    switch (node.kind) {
+      case "text":
+        emit(out, node.value);
+        break;
+      case "output": {
+        const value = lookup(node.path, scope);
+        const hasDefault = node.filters.some((f) => f.name === "default");
+        if (value === undefined && !hasDefault) {
+          emit(out, `{{${node.raw}}}`);
+          break;
+        }
+        const filtered = node.filters.reduce<unknown>(
+          (acc, f) => (acc === undefined && f.name !== "default" ? acc : FILTERS[f.name](acc, f.args)),
+          value
+        );
+        emit(out, filtered === undefined ? "" : coerceToString(filtered));
+        break;
+      }
+      case "if": {
+        const truthy = isTruthy(lookup(node.path, scope));
+        renderNodes(truthy !== node.negate ? node.then : node.otherwise, scope, out);
+        break;
+      }
+      case "each": {
+        const items = lookup(node.path, scope);
+        if (!Array.isArray(items) || items.length === 0) {
+          renderNodes(node.otherwise, scope, out);
+          break;
+        }
+        if (items.length > MAX_EACH_ITEMS) {
+          throw new TemplateError(`{{#each ${node.path}}} exceeds ${MAX_EACH_ITEMS} items`);
+        }
+        items.forEach((item, index) => {
+          if (++out.iterations > MAX_EACH_ITERATIONS) {
+            throw new TemplateError(`{{#each}} loops exceed ${MAX_EACH_ITERATIONS} iterations in total`);
+          }
+          renderNodes(node.body, { value: item, parent: scope, index, length: items.length }, out);
+        });
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Render a template with the given variables.
+ */
+export function renderTemplate(template: string, variables: Record<string, unknown>): string {
+  const out: RenderOutput = { parts: [], length: 0, iterations: 0 };
+  renderNodes(parseTemplate(template), { value: variables }, out);
+  return out.parts.join("");
+}
+
+// ─── Static analysis ─────────────────────────────────────────────────────────
+
+export interface TemplateReference {
+  /** Top-level variable name */
+  name: string;
+  /** False when the template renders incorrectly without this variable */
+  optional: boolean;
+  /**
+   * True when every use is inside an {{#each}} body, where the name may be a
+   * field of the loop item rather than a variable
+   */
+  inLoop?: boolean;
+}
+
+/**
+ * List the top-level variables a template reads, in order of first
+ * appearance. A variable is optional when every use of it is a block
+ * condition, sits inside a conditional/loop block, or has a default filter.
+ * References inside {{#each}} bodies resolve against the loop item first, so
+ * they are reported as optional and, unless also used outside, as inLoop.
+ */
+export function collectReferences(template: string): TemplateReference[] {
+  const refs = new Map<string, { optional: boolean; inLoop: boolean }>();
+
+  const add = (path: string, optional: boolean, inLoop: boolean) => {
+    if (path === "this" || path.startsWith("this.") || path.startsWith("@")) return;
+    const name = path.split(".")[0];
+    const seen = refs.get(name) ?? { optional: true, inLoop: true };
+    refs.set(name, { optional: seen.optional && optional, inLoop: seen.inLoop && inLoop });
+  };
+
+  const walk = (nodes: TemplateNode[], conditional: boolean, inLoop: boolean) => {
+    for (const node of nodes) {
+      if (node.kind === "output") {
+        add(node.path, conditional || node.filters.some((f) => f.name === "default"), inLoop);
+      } else if (node.kind === "if") {
+        add(node.path, true, inLoop);
+        walk(node.then, true, inLoop);
+        walk(node.otherwise, true, inLoop);
+      } else if (node.kind === "each") {
+        add(node.path, true, inLoop);
+        walk(node.body, true, true);
+        walk(node.otherwise, true, inLoop);
+      }
+    }
+  };
+
+  walk(parseTemplate(template), false, false);
+  return [...refs].map(([name, { optional, inLoop }]) => (inLoop ? { name, optional, inLoop } : { name, optional }));
+}
+
+export interface BraceIssue {
+  kind: "unbalanced" | "not_an_expression" | "single_braces" | "unmatched_block";
+  /** 1-based line of the offending text */
+  line: number;
+  text: string;
+}
+
+/**
+ * Find braces the engine would send to Claude literally instead of
+ * substituting: "{{" or "}}" without a partner, {{tags}} whose content is not
+ * a variable expression (e.g. {{first name}}), {single} braces around a
+ * name, and {{else}} or closing tags outside of any block. Partial includes
+ * count as valid tags.
+ */
+export function findBraceIssues(template: string): BraceIssue[] {
+  const issues: BraceIssue[] = [];
+  const lineAt = (index: number) => template.slice(0, index).split("\n").length;
+
+  const checkText = (text: string, offset: number) => {
+    for (const m of text.matchAll(/\{\{|\}\}/g)) {
+      issues.push({ kind: "unbalanced", line: lineAt(offset + m.index!), text: m[0] });
+    }
+    for (const m of text.matchAll(/(?<!\{)\{\s*[A-Za-z_][A-Za-z0-9_.]*\s*\}(?!\})/g)) {
+      issues.push({ kind: "single_braces", line: lineAt(offset + m.index!), text: m[0] });
+    }
+  };
+
+  let depth = 0;
+  let lastIndex = 0;
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    checkText(template.slice(lastIndex, match.index), lastIndex);
+    lastIndex = match.index! + match[0].length;
+
+    const content = match[1].trim();
+    if (/^#(if|unless|each)\b/.test(content)) depth++;
+    if (/^\/(if|unless|each)$/.test(content) || content === "else") {
+      if (depth === 0) issues.push({ kind: "unmatched_block", line: lineAt(match.index!), text: match[0] });
+      else if (content !== "else") depth--;
+    }
+    const isTag =
+      /^[#/]/.test(content) ||
+      content === "else" ||
+      /^>\s*[A-Za-z0-9_][A-Za-z0-9_.-]*$/.test(content) ||
+      PATH_PATTERN.test(splitOutsideQuotes(content, "|")[0]);
+    if (!isTag) {
+      issues.push({ kind: "not_an_expression", line: lineAt(match.index!), text: match[0] });
+    }
+  }
+  checkText(template.slice(lastIndex), lastIndex);
+
+  return issues.sort((a, b) => a.line - b.line);
+}
+
+// ─── Partials ────────────────────────────────────────────────────────────────
+
+/**
+ * List the distinct partials a template includes with {{> name}}.
+ */
+export function listPartialReferences(template: string): string[] {
+  return [...new Set([...template.matchAll(PARTIAL_PATTERN)].map((m) => m[1]))];
+}
+
+/**
+ * Inline {{> name}} partials, recursively. Throws TemplateError for unknown
+ * partials and for partials that include themselves.
+ */
+export function expandPartials(
+  template: string,
+  partials: Record<string, string>,
+  path: string[] = []
+): string {
+  return template.replace(PARTIAL_PATTERN, (_tag, name: string) => {
+    if (path.includes(name)) {
+      throw new TemplateError(`Partial cycle: ${[...path, name].join(" > ")}`);
+    }
+    if (!Object.prototype.hasOwnProperty.call(partials, name)) {
+      throw new TemplateError(`Unknown partial "${name}"`);
+    }
+    return expandPartials(partials[name], partials, [...path, name]);
+  });
+}
+
+/**
+ * Find a chain of partials that includes itself, e.g. ["a", "b", "a"].
+ * Includes of unregistered partials are ignored.
+ */
+export function findPartialCycle(partials: Record<string, string>): string[] | null {
+  const done = new Set<string>();
+
+  const visit = (name: string, path: string[]): string[] | null => {
+    if (path.includes(name)) return [...path, name];
+    if (done.has(name) || !Object.prototype.hasOwnProperty.call(partials, name)) return null;
+    for (const child of listPartialReferences(partials[name])) {
+      const cycle = visit(child, [...path, name]);
+      if (cycle) return cycle;
+    }
+    done.add(name);
+    return null;
+  };
+
+  for (const name of Object.keys(partials)) {
+    const cycle = visit(name, []);
+    if (cycle) return cycle;
+  }
+  return null;
+}
@@ -0,0 +1,91 @@
+import { collectReferences } from "./template-engine.js";
+import type { VariableSpec } from "./variable-schema.js";
+
+export interface VariableValidationResult {
+  /** Declared or required by the template, but not supplied */
+  missing: string[];
+  /** Supplied, but neither declared nor referenced in the template */
+  unexpected: string[];
+  /** Supplied, but null, blank or an empty array */
+  empty: string[];
+}
+
+/**
+ * List the distinct top-level variables a template references, in order of
+ * first appearance.
+ */
+export function extractPlaceholders(template: string): string[] {
+  return collectReferences(template).map((ref) => ref.name);
+}
+
+function isEmptyValue(value: unknown): boolean {
+  if (value === null) return true;
+  if (typeof value === "string") return value.trim().length === 0;
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+/**
+ * Check the variables supplied to /generate against the prompt's declared
+ * variable list and the placeholders actually present in the template.
+ * Variables the template only uses conditionally (inside {{#if}}, or with a
+ * default filter) are not reported as missing or empty, unless the variable
+ * schema marks them required. Pass several templates (e.g. system and user
+ * prompt) to check them together.
+ */
+export function validateVariables(
+  templates: string | string[],
+  declared: string[],
+  provided: Record<string, unknown>,
+  schema?: VariableSpec[] | null
+): VariableValidationResult {
+  const references = [templates].flat().flatMap(collectReferences);
+  const optional = new Set(references.filter((ref) => ref.optional).map((ref) => ref.name));
+  for (const ref of references) {
+    if (!ref.optional) optional.delete(ref.name);
+  }
+  for (const spec of schema ?? []) {
+    if (spec.required === true) optional.delete(spec.name);
+    if (spec.required === false) optional.add(spec.name);
+  }
+  const expected = new Set([...declared, ...references.map((ref) => ref.name)]);
+  const required = [...expected].filter((name) => !optional.has(name));
+
+  const missing = required.filter((name) => provided[name] === undefined);
+  const unexpected = Object.keys(provided).filter((name) => !expected.has(name));
+  const empty = Object.entries(provided)
+    .filter(([name, value]) => required.includes(name) && isEmptyValue(value))
+    .map(([name]) => name);
+
+  return { missing, unexpected, empty };
+}
+
+export function hasVariableIssues(result: VariableValidationResult): boolean {
+  return result.missing.length > 0 || result.unexpected.length > 0 || result.empty.length > 0;
+}
+
+/**
+ * Generation columns filled from /generate variables, keyed by column. Only
+ * these variable names are copied; a template using a column name instead
+ * (e.g. {{leadIndustry}}) renders fine but leaves the column empty.
+ */
+export const LEAD_COLUMN_VARIABLES = {
+  leadFirstName: "leadFirstName",
+  leadLastName: "leadLastName",
+  leadTitle: "leadTitle",
+  leadCompany: "leadCompanyName",
+  leadIndustry: "leadCompanyIndustry",
+  clientCompanyName: "clientCompanyName",
+} as const;
+
+export type LeadColumn = keyof typeof LEAD_COLUMN_VARIABLES;
+
+/**
+ * Values for the lead/client columns of a generation: non-empty strings only.
+ */
+export function leadColumnsFrom(variables: Record<string, unknown>): Record<LeadColumn, string | null> {
+  const str = (v: unknown): string | null => (typeof v === "string" && v.length > 0 ? v : null);
+  return Object.fromEntries(
+    Object.entries(LEAD_COLUMN_VARIABLES).map(([column, variable]) => [column, str(variables[variable])])
+  ) as Record<LeadColumn, string | null>;
+}
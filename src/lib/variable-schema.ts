@@ -0,0 +1,180 @@
+import { collectReferences, TemplateError, type TemplateReference } from "./template-engine.js";
+
+export type VariableType = "string" | "number" | "string[]" | "object";
+
+/**
+ * Typed declaration of one prompt variable.
+ */
+export interface VariableSpec {
+  name: string;
+  /** Defaults to "string" */
+  type?: VariableType;
+  /** Unset: required unless the template only uses it conditionally */
+  required?: boolean;
+  /** Used when the variable is not supplied, or null */
+  default?: unknown;
+  /** Maximum characters of a string, or of each item of a string[] */
+  maxLength?: number;
+  description?: string;
+}
+
+/** What PUT /prompts accepts in `variables`: bare names (legacy) or specs */
+export type VariableDeclaration = string | VariableSpec;
+
+/**
+ * Split declarations into the variable names and, when any entry is typed,
+ * the full schema (bare names become untyped string variables). A list of
+ * bare names has no schema, which keeps the untyped behavior.
+ */
+export function normalizeVariables(declarations: VariableDeclaration[]): {
+  variables: string[];
+  variableSchema: VariableSpec[] | null;
+} {
+  const variables = declarations.map((d) => (typeof d === "string" ? d : d.name));
+  if (declarations.every((d) => typeof d === "string")) {
+    return { variables, variableSchema: null };
+  }
+  return {
+    variables,
+    variableSchema: declarations.map((d) => (typeof d === "string" ? { name: d } : d)),
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+type Coerced = { ok: true; value: unknown } | { ok: false; message: string };
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function coerce(spec: VariableSpec, value: unknown): Coerced {
+  const type = spec.type ?? "string";
+  const tooLong = (s: string) => spec.maxLength !== undefined && s.length > spec.maxLength;
+
+  switch (type) {
+    case "string": {
+      if (typeof value === "number" || typeof value === "boolean") value = String(value);
+      if (typeof value !== "string") return { ok: false, message: `expected a string, got ${describe(value)}` };
+      if (tooLong(value)) return { ok: false, message: `longer than ${spec.maxLength} characters` };
+      return { ok: true, value };
+    }
+    case "number": {
+      if (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value))) value = Number(value);
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return { ok: false, message: `expected a number, got ${describe(value)}` };
+      }
+      return { ok: true, value };
+    }
+    case "string[]": {
+      const items = Array.isArray(value) ? value : [value];
+      const strings: string[] = [];
+      for (const item of items) {
+        if (typeof item !== "string" && typeof item !== "number") {
+          return { ok: false, message: `expected a list of strings, got ${describe(value)}` };
+        }
+        const s = String(item);
+        if (tooLong(s)) return { ok: false, message: `has an item longer than ${spec.maxLength} characters` };
+        strings.push(s);
+      }
+      return { ok: true, value: strings };
+    }
+    case "object":
+      if (!isPlainObject(value)) return { ok: false, message: `expected an object, got ${describe(value)}` };
+      return { ok: true, value };
+  }
+}
+
+/**
+ * Apply a prompt's variable schema to the variables sent to /generate: fill
+ * defaults, convert values to the declared type ("42" for a number, a single
+ * string for a string[]) and report values that cannot be converted or are
+ * too long. Variables outside the schema pass through unchanged.
+ */
+export function coerceVariables(
+  schema: VariableSpec[] | null | undefined,
+  provided: Record<string, unknown>
+): { values: Record<string, unknown>; invalid: string[] } {
+  if (!schema) return { values: provided, invalid: [] };
+
+  const values = { ...provided };
+  const invalid: string[] = [];
+  for (const spec of schema) {
+    const supplied = values[spec.name];
+    if (supplied === undefined || supplied === null) {
+      if (spec.default !== undefined) values[spec.name] = spec.default;
+      continue;
+    }
+    const result = coerce(spec, supplied);
+    if (result.ok) {
+      values[spec.name] = result.value;
+    } else {
+      invalid.push(`${spec.name}: ${result.message}`);
+    }
+  }
+  return { values, invalid };
+}
+
+/**
+ * Check a schema before it is stored. Returns an error message, or null.
+ */
+export function validateVariableSchema(schema: VariableSpec[]): string | null {
+  const seen = new Set<string>();
+  for (const spec of schema) {
+    if (seen.has(spec.name)) return `Variable "${spec.name}" is declared more than once`;
+    seen.add(spec.name);
+
+    const type = spec.type ?? "string";
+    if (spec.maxLength !== undefined && type !== "string" && type !== "string[]") {
+      return `Variable "${spec.name}": maxLength only applies to string and string[] variables`;
+    }
+    if (spec.default !== undefined && spec.default !== null) {
+      const result = coerce(spec, spec.default);
+      if (!result.ok) return `Variable "${spec.name}": default is invalid, ${result.message}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * The complete variable schema of a prompt, for clients building input
+ * forms: every declared or referenced variable, with its type and whether
+ * /generate requires it. Untyped variables are strings whose required flag
+ * is inferred from the templates.
+ */
+export function describeVariables(content: {
+  prompt: string;
+  systemPrompt?: string | null;
+  variables: string[];
+  variableSchema?: VariableSpec[] | null;
+}): (VariableSpec & { type: VariableType; required: boolean })[] {
+  const templates = content.systemPrompt ? [content.systemPrompt, content.prompt] : [content.prompt];
+  let references: TemplateReference[] = [];
+  try {
+    references = templates.flatMap(collectReferences);
+  } catch (err) {
+    if (!(err instanceof TemplateError)) throw err;
+  }
+  const optional = new Set(references.filter((r) => r.optional).map((r) => r.name));
+  for (const ref of references) {
+    if (!ref.optional) optional.delete(ref.name);
+  }
+
+  const specs = new Map<string, VariableSpec>();
+  for (const spec of content.variableSchema ?? content.variables.map((name) => ({ name }))) {
+    specs.set(spec.name, spec);
+  }
+  for (const ref of references) {
+    if (!specs.has(ref.name) && !ref.inLoop) specs.set(ref.name, { name: ref.name });
+  }
+
+  return [...specs.values()].map((spec) => ({
+    ...spec,
+    type: spec.type ?? "string",
+    required: spec.required ?? (!optional.has(spec.name) && spec.default === undefined),
+  }));
+}
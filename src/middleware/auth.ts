@@ -6,6 +6,7 @@ import { orgs } from "../db/schema.js";
 export interface AuthenticatedRequest extends Request {
   orgId?: string;
   clerkOrgId?: string;
+  clerkUserId?: string;
 }
 
 /**
@@ -38,6 +39,7 @@ export async function serviceAuth(
 
     req.orgId = org.id;
     req.clerkOrgId = clerkOrgId;
+    req.clerkUserId = (req.headers["x-clerk-user-id"] as string) || undefined;
     next();
   } catch (error) {
     console.error("Auth error:", error);
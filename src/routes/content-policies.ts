@@ -0,0 +1,96 @@
+import { Router } from "express";
+import { eq } from "drizzle-orm";
+import { db } from "../db/index.js";
+import { contentPolicies, type ContentPolicy } from "../db/schema.js";
+import { serviceAuth, AuthenticatedRequest } from "../middleware/auth.js";
+import { findContentPolicy, resolvePolicy, upsertContentPolicy } from "../lib/content-policy.js";
+import { UpsertContentPolicyRequestSchema } from "../schemas.js";
+
+const router = Router();
+
+function serializePolicy(policy: ContentPolicy) {
+  return {
+    id: policy.id,
+    appId: policy.appId,
+    rules: policy.rules,
+    includeDefaults: policy.includeDefaults,
+    disabledRules: policy.disabledRules,
+    maxAttempts: policy.maxAttempts,
+    createdAt: policy.createdAt.toISOString(),
+    updatedAt: policy.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * PUT /content-policies — Create or replace the content policy of an app,
+ * checked on every sequence it generates.
+ */
+router.put("/content-policies", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsed = UpsertContentPolicyRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues.map((i) => i.message).join(", ") });
+    }
+
+    const { appId, ...input } = parsed.data;
+    const { policy, status } = await upsertContentPolicy(db, appId, input);
+
+    res.json({ ...serializePolicy(policy), status });
+  } catch (error) {
+    console.error("Upsert content policy error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
+
+/**
+ * GET /content-policies?appId — An app's stored policy, if any, and the rules
+ * in effect for prompts on the built-in persona (the defaults when none is
+ * stored) and for prompts with their own system prompt or output schema
+ */
+router.get("/content-policies", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { appId } = req.query as { appId?: string };
+
+    if (!appId) {
+      return res.status(400).json({ error: "appId query param required" });
+    }
+
+    const policy = await findContentPolicy(db, appId);
+
+    res.json({
+      policy: policy ? serializePolicy(policy) : null,
+      effective: resolvePolicy(policy, { builtInPersona: true }),
+      effectiveForCustomPrompts: resolvePolicy(policy, { builtInPersona: false }),
+    });
+  } catch (error) {
+    console.error("Get content policy error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
+
+/**
+ * DELETE /content-policies?appId — Remove an app's policy; the defaults apply
+ * again.
+ */
+router.delete("/content-policies", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { appId } = req.query as { appId?: string };
+
+    if (!appId) {
+      return res.status(400).json({ error: "appId query param required" });
+    }
+
+    const [deleted] = await db.delete(contentPolicies).where(eq(contentPolicies.appId, appId)).returning();
+
+    if (!deleted) {
+      return res.status(404).json({ error: `No content policy found for appId=${appId}` });
+    }
+
+    res.json({ deleted: true, id: deleted.id, appId });
+  } catch (error) {
+    console.error("Delete content policy error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
+
+export default router;
@@ -6,6 +6,10 @@ import { generateContent } from "../lib/content-client.js";
 import { generateCalendar } from "../lib/content-client.js";
 import { getByokKey, getAppKey } from "../lib/key-client.js";
 import { createRun, updateRun, addCosts } from "../lib/runs-client.js";
+import { DEFAULT_MODEL, costNames, type ModelId } from "../lib/models.js";
+import { canonicalLocale } from "../lib/locale.js";
+import { MAX_CHECK_ATTEMPTS } from "../lib/content-policy.js";
+import { analyzeEmail, deliverabilityFeedback } from "../lib/deliverability.js";
 import { GenerateContentRequestSchema, GenerateCalendarRequestSchema } from "../schemas.js";
 
 const router = Router();
@@ -25,7 +29,38 @@ async function resolveApiKey(
 }
 
 /**
- * POST /generate/content — Generate email content from a free-text prompt
+ * Track the tokens of attempts billed before a request failed, on a failed
+ * run. Tracking failures are only logged: the request fails either way.
+ */
+async function trackFailedRun(
+  run: Parameters<typeof createRun>[0],
+  model: ModelId,
+  tokensInput: number,
+  tokensOutput: number
+): Promise<void> {
+  const costName = costNames(model);
+  try {
+    const failedRun = await createRun(run);
+    await addCosts(failedRun.id, [
+      { costName: costName.input, quantity: tokensInput },
+      { costName: costName.output, quantity: tokensOutput },
+    ]);
+    await updateRun(failedRun.id, "failed");
+  } catch (err) {
+    console.error("[content-gen] COST TRACKING FAILED — failed request costs will be missing.", {
+      taskName: run.taskName,
+      tokensInput,
+      tokensOutput,
+      error: err instanceof Error ? err.message : err,
+    });
+  }
+}
+
+/**
+ * POST /generate/content — Generate email content from a free-text prompt.
+ * With a deliverabilityThreshold, an email scoring below it is regenerated
+ * with the deliverability findings fed back, up to MAX_CHECK_ATTEMPTS in
+ * total; the stored promptRaw holds the earlier attempts and their feedback.
  */
 router.post("/generate/content", serviceAuth, async (req: AuthenticatedRequest, res) => {
   try {
@@ -34,23 +69,59 @@ router.post("/generate/content", serviceAuth, async (req: AuthenticatedRequest,
       return res.status(400).json({ error: parsed.error.issues.map((i) => i.message).join(", ") });
     }
 
-    const { appId, prompt, variables, includeFooter, keyMode, parentRunId, workflowName } = parsed.data;
+    const {
+      appId,
+      prompt,
+      variables,
+      includeFooter,
+      keyMode,
+      parentRunId,
+      workflowName,
+      settings,
+      deliverabilityThreshold,
+    } = parsed.data;
+    const locale = parsed.data.locale && canonicalLocale(parsed.data.locale);
+    const model = settings?.model ?? DEFAULT_MODEL;
+    const costName = costNames(model);
 
     // Get Anthropic API key
     const apiKey = await resolveApiKey(keyMode, req.clerkOrgId!, appId);
 
-    // Generate content
-    const result = await generateContent(apiKey, { prompt, variables, includeFooter });
-
-    // Create run in runs-service — MUST succeed or we fail the request
-    const genRun = await createRun({
+    // Generate content, again with feedback while it scores below the threshold
+    const params = { prompt, variables, includeFooter, settings, locale };
+    let result = await generateContent(apiKey, params);
+    let deliverability = analyzeEmail(result);
+    let tokensInput = result.tokensInput;
+    let tokensOutput = result.tokensOutput;
+    const retries: { subject: string; bodyText: string; feedback: string }[] = [];
+    const run = {
       clerkOrgId: req.clerkOrgId!,
       appId,
       serviceName: "content-generation-service",
       taskName: "content-generation",
       parentRunId,
       workflowName,
-    });
+    };
+    try {
+      while (
+        deliverabilityThreshold !== undefined &&
+        deliverability.score < deliverabilityThreshold &&
+        retries.length + 1 < MAX_CHECK_ATTEMPTS
+      ) {
+        retries.push({ subject: result.subject, bodyText: result.bodyText, feedback: deliverabilityFeedback([deliverability]) });
+        result = await generateContent(apiKey, { ...params, retries: [...retries] });
+        deliverability = analyzeEmail(result);
+        tokensInput += result.tokensInput;
+        tokensOutput += result.tokensOutput;
+      }
+    } catch (err) {
+      // The earlier attempts were billed all the same
+      await trackFailedRun(run, model, tokensInput, tokensOutput);
+      throw err;
+    }
+
+    // Create run in runs-service — MUST succeed or we fail the request
+    const genRun = await createRun(run);
 
     // Store in database
     const [generation] = await db
@@ -66,12 +137,16 @@ router.post("/generate/content", serviceAuth, async (req: AuthenticatedRequest,
         subject: result.subject,
         bodyHtml: result.bodyHtml,
         bodyText: result.bodyText,
+        deliverabilityScore: deliverability.score,
+        deliverability,
+        locale: locale ?? null,
         generationRunId: genRun.id,
         parentRunId: parentRunId ?? null,
         workflowName: workflowName ?? null,
-        model: "claude-sonnet-4-6",
-        tokensInput: result.tokensInput,
-        tokensOutput: result.tokensOutput,
+        model,
+        settings: result.settings,
+        tokensInput,
+        tokensOutput,
         promptRaw: result.promptRaw,
         responseRaw: result.responseRaw,
       })
@@ -79,11 +154,11 @@ router.post("/generate/content", serviceAuth, async (req: AuthenticatedRequest,
 
     // Track costs — MUST succeed
     const costItems = [];
-    if (result.tokensInput) {
-      costItems.push({ costName: "anthropic-sonnet-4.6-tokens-input", quantity: result.tokensInput });
+    if (tokensInput) {
+      costItems.push({ costName: costName.input, quantity: tokensInput });
     }
-    if (result.tokensOutput) {
-      costItems.push({ costName: "anthropic-sonnet-4.6-tokens-output", quantity: result.tokensOutput });
+    if (tokensOutput) {
+      costItems.push({ costName: costName.output, quantity: tokensOutput });
     }
     if (costItems.length > 0) {
       await addCosts(genRun.id, costItems);
@@ -95,8 +170,9 @@ router.post("/generate/content", serviceAuth, async (req: AuthenticatedRequest,
       subject: result.subject,
       bodyHtml: result.bodyHtml,
       bodyText: result.bodyText,
-      tokensInput: result.tokensInput,
-      tokensOutput: result.tokensOutput,
+      deliverability: { ...deliverability, attempts: retries.length + 1 },
+      tokensInput,
+      tokensOutput,
     });
   } catch (error) {
     console.error("[content] Generate content error:", error);
@@ -114,13 +190,16 @@ router.post("/generate/calendar", serviceAuth, async (req: AuthenticatedRequest,
       return res.status(400).json({ error: parsed.error.issues.map((i) => i.message).join(", ") });
     }
 
-    const { appId, prompt, keyMode, parentRunId, workflowName } = parsed.data;
+    const { appId, prompt, keyMode, parentRunId, workflowName, settings } = parsed.data;
+    const locale = parsed.data.locale && canonicalLocale(parsed.data.locale);
+    const model = settings?.model ?? DEFAULT_MODEL;
+    const costName = costNames(model);
 
     // Get Anthropic API key
     const apiKey = await resolveApiKey(keyMode, req.clerkOrgId!, appId);
 
     // Generate calendar fields
-    const result = await generateCalendar(apiKey, { prompt });
+    const result = await generateCalendar(apiKey, { prompt, settings, locale });
 
     // Create run in runs-service — MUST succeed or we fail the request
     const genRun = await createRun({
@@ -144,10 +223,12 @@ router.post("/generate/calendar", serviceAuth, async (req: AuthenticatedRequest,
         title: result.title,
         description: result.description,
         location: result.location,
+        locale: locale ?? null,
         generationRunId: genRun.id,
         parentRunId: parentRunId ?? null,
         workflowName: workflowName ?? null,
-        model: "claude-sonnet-4-6",
+        model,
+        settings: result.settings,
         tokensInput: result.tokensInput,
         tokensOutput: result.tokensOutput,
         promptRaw: result.promptRaw,
@@ -158,10 +239,10 @@ router.post("/generate/calendar", serviceAuth, async (req: AuthenticatedRequest,
     // Track costs — MUST succeed
     const costItems = [];
     if (result.tokensInput) {
-      costItems.push({ costName: "anthropic-sonnet-4.6-tokens-input", quantity: result.tokensInput });
+      costItems.push({ costName: costName.input, quantity: result.tokensInput });
     }
     if (result.tokensOutput) {
-      costItems.push({ costName: "anthropic-sonnet-4.6-tokens-output", quantity: result.tokensOutput });
+      costItems.push({ costName: costName.output, quantity: result.tokensOutput });
     }
     if (costItems.length > 0) {
       await addCosts(genRun.id, costItems);
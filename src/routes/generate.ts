@@ -1,9 +1,59 @@
 import { Router } from "express";
-import { eq, and, inArray, type SQL } from "drizzle-orm";
+import { eq, and, inArray, isNull, sql, type SQL } from "drizzle-orm";
 import { db } from "../db/index.js";
-import { emailGenerations, prompts } from "../db/schema.js";
+import { emailGenerations, type Prompt, type PromptVariant, type StylePreset } from "../db/schema.js";
 import { serviceAuth, AuthenticatedRequest } from "../middleware/auth.js";
-import { generateFromTemplate } from "../lib/anthropic-client.js";
+import {
+  generateFromTemplate,
+  judgeCandidates,
+  parsePromptRaw,
+  previewGeneration,
+  reviseGeneration,
+  type GenerateResult,
+  type JudgeCandidatesResult,
+} from "../lib/anthropic-client.js";
+import { findVersion, listVariants, loadPartials, promptContentOf, resolvePrompt } from "../lib/prompt-store.js";
+import { pickVariant } from "../lib/experiments.js";
+import {
+  validateVariables,
+  hasVariableIssues,
+  leadColumnsFrom,
+  type VariableValidationResult,
+} from "../lib/template-variables.js";
+import { TemplateError, expandPartials, listPartialReferences } from "../lib/template-engine.js";
+import { OutputValidationError } from "../lib/output-schema.js";
+import { coerceVariables } from "../lib/variable-schema.js";
+import { canonicalLocale } from "../lib/locale.js";
+import { findStylePreset } from "../lib/style-presets.js";
+import {
+  DEFAULT_RANKING,
+  candidateAttempts,
+  heuristicScores,
+  rankCandidates,
+  scoreHeuristics,
+  type GenerationCandidate,
+  type RankingConfig,
+} from "../lib/candidates.js";
+import {
+  MAX_CHECK_ATTEMPTS,
+  enforcePolicy,
+  findContentPolicy,
+  resolvePolicy,
+  type PolicyCheck,
+  type PolicyOutcome,
+} from "../lib/content-policy.js";
+import { analyzeSequence, deliverabilityFeedback, type SequenceDeliverability } from "../lib/deliverability.js";
+import {
+  DEFAULT_LIMIT_ENFORCEMENT,
+  checkReadability,
+  hasLimits,
+  readabilityFeedback,
+  summarizeReadability,
+  type ReadabilityTotals,
+  type ReadabilityViolation,
+} from "../lib/readability.js";
+import { storedSequence } from "../lib/sequence.js";
+import { DEFAULT_MODEL, costNames, mergeSettings, type ModelId } from "../lib/models.js";
 import { getByokKey, getAppKey } from "../lib/key-client.js";
 import { createRun, updateRun, addCosts } from "../lib/runs-client.js";
 import { GenerateRequestSchema, StatsRequestSchema } from "../schemas.js";
@@ -11,7 +61,274 @@ import { GenerateRequestSchema, StatsRequestSchema } from "../schemas.js";
 const router = Router();
 
 /**
- * POST /generate — Generate content using a stored prompt template + variables
+ * The request names a draftVersion that does not exist or is already
+ * published, or a style preset the app does not have.
+ */
+class PromptRequestError extends Error {
+  constructor(message: string, public status: 400 | 404) {
+    super(message);
+    this.name = "PromptRequestError";
+  }
+}
+
+const SEQUENCE_WITH_OUTPUT_SCHEMA = "sequenceConfig cannot be used with a prompt that has its own output schema";
+
+/** Tokens billed for one model */
+interface ModelUsage {
+  model: ModelId;
+  tokensInput: number;
+  tokensOutput: number;
+}
+
+/** Usage summed per model */
+function sumUsage(usage: ModelUsage[]): ModelUsage[] {
+  const byModel = new Map<ModelId, ModelUsage>();
+  for (const u of usage) {
+    const sum = byModel.get(u.model) ?? { model: u.model, tokensInput: 0, tokensOutput: 0 };
+    sum.tokensInput += u.tokensInput;
+    sum.tokensOutput += u.tokensOutput;
+    byModel.set(u.model, sum);
+  }
+  return [...byModel.values()];
+}
+
+interface GenerationRunContext {
+  clerkOrgId: string;
+  appId: string;
+  brandId?: string;
+  campaignId?: string;
+  /** The caller's run, parent of the generation run */
+  runId: string;
+  workflowName?: string;
+  apolloEnrichmentId?: string;
+}
+
+/**
+ * Track the tokens of a /generate call in runs-service, as a child run of the
+ * caller's run linked to the stored generation. Calls that fail after Claude
+ * billed tokens are tracked too, without a generation and with the run
+ * failed. Tracking errors are logged, never thrown.
+ */
+async function trackGenerationRun(
+  context: GenerationRunContext,
+  usage: ModelUsage[],
+  generationId: string | null,
+  status: "completed" | "failed"
+): Promise<void> {
+  try {
+    const genRun = await createRun({
+      clerkOrgId: context.clerkOrgId,
+      appId: context.appId,
+      brandId: context.brandId,
+      campaignId: context.campaignId,
+      serviceName: "content-generation-service",
+      taskName: "single-generation",
+      parentRunId: context.runId,
+      workflowName: context.workflowName,
+    });
+
+    // Link generation run to email record IMMEDIATELY so per-item cost
+    // lookups work even if addCosts/updateRun fail below
+    if (generationId) {
+      await db.update(emailGenerations)
+        .set({ generationRunId: genRun.id })
+        .where(eq(emailGenerations.id, generationId));
+    }
+
+    const costItems = usage.flatMap((u) => {
+      const name = costNames(u.model);
+      return [
+        ...(u.tokensInput ? [{ costName: name.input, quantity: u.tokensInput }] : []),
+        ...(u.tokensOutput ? [{ costName: name.output, quantity: u.tokensOutput }] : []),
+      ];
+    });
+    if (costItems.length > 0) {
+      await addCosts(genRun.id, costItems);
+    }
+    await updateRun(genRun.id, status);
+  } catch (err) {
+    console.error("[content-gen] COST TRACKING FAILED — costs will be missing from campaign totals.", {
+      runId: context.runId,
+      apolloEnrichmentId: context.apolloEnrichmentId,
+      generationId,
+      usage,
+      error: err instanceof Error ? err.message : err,
+    });
+  }
+}
+
+interface PreparedPrompt {
+  storedPrompt: Prompt;
+  variant: PromptVariant | null;
+  /** User and system prompt templates with partials inlined */
+  promptTemplate: string;
+  systemPromptTemplate: string | null;
+  /** Request variables with the prompt's variable schema applied */
+  variables: Record<string, unknown>;
+  /** invalid: values the variable schema rejects */
+  variableIssues: VariableValidationResult & { invalid: string[] };
+  style: StylePreset | null;
+}
+
+/**
+ * Resolve the template a /generate call would render — org override or app
+ * default, then the A/B variant for this lead, with {{> partials}} inlined —
+ * and check the supplied variables against it, coercing them to the prompt's
+ * variable schema. With draftVersion, that
+ * unpublished version replaces the live one (a prompt with no published
+ * version yet included) and no variant is served. With
+ * style, the app's preset of that name is loaded.
+ * Returns undefined when no prompt is registered.
+ */
+async function preparePrompt(
+  orgId: string,
+  body: {
+    appId: string;
+    type: string;
+    variables: Record<string, unknown>;
+    runId: string;
+    apolloEnrichmentId?: string;
+    idempotencyKey?: string;
+    draftVersion?: number;
+    style?: string;
+  }
+): Promise<PreparedPrompt | undefined> {
+  const livePrompt = await resolvePrompt(db, body.appId, body.type, orgId, {
+    includeUnpublished: body.draftVersion !== undefined,
+  });
+  if (!livePrompt) return undefined;
+
+  const style = body.style ? await findStylePreset(db, body.appId, body.style) : null;
+  if (style === undefined) {
+    throw new PromptRequestError(`No style preset "${body.style}" found for appId=${body.appId}`, 404);
+  }
+
+  let storedPrompt = livePrompt;
+  if (body.draftVersion !== undefined) {
+    const draft = await findVersion(db, livePrompt.id, body.draftVersion);
+    if (!draft) {
+      throw new PromptRequestError(
+        `Version ${body.draftVersion} not found for appId=${body.appId}, type=${body.type}`,
+        404
+      );
+    }
+    if (draft.status === "published") {
+      throw new PromptRequestError(
+        `Version ${body.draftVersion} is published; omit draftVersion to use the live prompt`,
+        400
+      );
+    }
+    storedPrompt = { ...livePrompt, ...promptContentOf(draft), version: draft.version, versionId: draft.id };
+  }
+
+  // A/B experiment: serve a variant picked deterministically per lead
+  const variant = body.draftVersion !== undefined
+    ? null
+    : pickVariant(
+        await listVariants(db, storedPrompt.id),
+        body.apolloEnrichmentId ?? body.idempotencyKey ?? body.runId,
+        storedPrompt.id
+      );
+  let promptTemplate = variant?.prompt ?? storedPrompt.prompt;
+  let systemPromptTemplate = storedPrompt.systemPrompt;
+
+  const templates = systemPromptTemplate ? [systemPromptTemplate, promptTemplate] : [promptTemplate];
+  if (templates.some((t) => listPartialReferences(t).length > 0)) {
+    const partials = await loadPartials(db, body.appId);
+    promptTemplate = expandPartials(promptTemplate, partials);
+    systemPromptTemplate = systemPromptTemplate && expandPartials(systemPromptTemplate, partials);
+  }
+
+  const { values, invalid } = coerceVariables(storedPrompt.variableSchema, body.variables);
+
+  return {
+    storedPrompt,
+    variant,
+    promptTemplate,
+    systemPromptTemplate,
+    variables: values,
+    style,
+    variableIssues: {
+      ...validateVariables(
+        systemPromptTemplate ? [systemPromptTemplate, promptTemplate] : promptTemplate,
+        storedPrompt.variables,
+        values,
+        storedPrompt.variableSchema
+      ),
+      invalid,
+    },
+  };
+}
+
+/** Deliverability of a generated sequence; null for custom output */
+function deliverabilityOf(result: Pick<GenerateResult, "subject" | "sequence">): SequenceDeliverability | null {
+  return result.sequence ? analyzeSequence(result.subject, result.sequence) : null;
+}
+
+/**
+ * Score and rank the candidates of one /generate call. The judge's usage is
+ * returned so its tokens can be tracked on the generation run; bill wraps the
+ * judge call so its tokens are tracked when it fails too.
+ */
+async function rankResults(
+  bill: (call: Promise<JudgeCandidatesResult>) => Promise<JudgeCandidatesResult>,
+  apiKey: string,
+  outcomes: PolicyOutcome[],
+  ranking: RankingConfig,
+  context: {
+    variables: Record<string, unknown>;
+    maxWords?: number | null;
+    readability: (result: GenerateResult) => ReadabilityViolation[];
+  }
+): Promise<{ candidates: GenerationCandidate[]; judge: JudgeCandidatesResult | null }> {
+  const results = outcomes.map((o) => o.result);
+  const usage = (i: number) => ({
+    subject: results[i].subject,
+    sequence: results[i].sequence,
+    output: results[i].output,
+    tokensInput: results[i].tokensInput,
+    tokensOutput: results[i].tokensOutput,
+    policyAttempts: outcomes[i].attempts,
+    policyViolations: outcomes[i].violations,
+    readabilityViolations: context.readability(results[i]),
+    deliverability: deliverabilityOf(results[i]),
+  });
+
+  if (ranking.method === "judge") {
+    const judge = await bill(judgeCandidates(apiKey, {
+      // Candidates differ only in their system prompt
+      userPrompt: parsePromptRaw(results[0].promptRaw)?.user ?? "",
+      candidates: results.map((r) => r.output),
+      criteria: ranking.criteria,
+      settings: { model: ranking.model },
+    }));
+    return {
+      candidates: rankCandidates(results.map((_, i) => ({ ...usage(i), ...judge.scores[i] }))),
+      judge,
+    };
+  }
+
+  return {
+    candidates: rankCandidates(
+      results.map((r, i) => {
+        const scores = heuristicScores(r, context);
+        return { ...usage(i), score: scoreHeuristics(scores, ranking.weights), scores };
+      })
+    ),
+    judge: null,
+  };
+}
+
+/**
+ * POST /generate — Generate content using a stored prompt template + variables.
+ * Every sequence is checked against the app's content policy and regenerated
+ * with the violations fed back, up to the policy's maxAttempts. With a
+ * deliverabilityThreshold, sequences scoring below it are regenerated the
+ * same way with the deliverability findings fed back, up to MAX_CHECK_ATTEMPTS.
+ * Steps outside the length and readability limits of the sequence config are
+ * rewritten the same way, or reject the request (onLimitViolation: reject).
+ * With candidates, several distinct sequences are generated for the lead and
+ * ranked; the best one is selected and all are stored on one generation.
  */
 router.post("/generate", serviceAuth, async (req: AuthenticatedRequest, res) => {
   try {
@@ -31,7 +348,13 @@ router.post("/generate", serviceAuth, async (req: AuthenticatedRequest, res) =>
       apolloEnrichmentId,
       idempotencyKey,
       workflowName,
+      settings: requestSettings,
+      sequenceConfig: requestSequence,
+      candidates: candidateCount = 1,
+      ranking = DEFAULT_RANKING,
+      deliverabilityThreshold,
     } = parsed.data;
+    const locale = parsed.data.locale && canonicalLocale(parsed.data.locale);
 
     // Idempotency: return existing generation if key matches
     if (idempotencyKey) {
@@ -46,38 +369,188 @@ router.post("/generate", serviceAuth, async (req: AuthenticatedRequest, res) =>
         return res.json({
           id: existing.id,
           subject: existing.subject ?? "",
-          sequence: existing.sequence ?? [],
+          sequence: storedSequence(existing.sequence) ?? [],
+          output: existing.output ?? {},
+          variantId: existing.promptVariantId ?? null,
+          ...(existing.candidates && { candidates: existing.candidates }),
+          policy: { attempts: existing.policyAttempts ?? 1, violations: existing.policyViolations ?? [] },
+          deliverability: existing.deliverability ?? null,
+          readability: { violations: existing.readabilityViolations ?? [] },
           tokensInput: existing.tokensInput ?? 0,
           tokensOutput: existing.tokensOutput ?? 0,
         });
       }
     }
 
-    // Look up the stored prompt for this app + type
-    const storedPrompt = await db.query.prompts.findFirst({
-      where: and(eq(prompts.appId, appId), eq(prompts.type, type)),
-    });
+    // Look up the stored prompt for this app + type (org override first)
+    const prepared = await preparePrompt(req.orgId!, parsed.data);
 
-    if (!storedPrompt) {
+    if (!prepared) {
       return res.status(404).json({
         error: `No prompt found for appId=${appId}, type=${type}. Register one via PUT /prompts first.`,
       });
     }
 
+    const { storedPrompt, variant, promptTemplate, systemPromptTemplate, variableIssues } = prepared;
+
+    if (requestSequence && storedPrompt.outputSchema) {
+      return res.status(400).json({ error: SEQUENCE_WITH_OUTPUT_SCHEMA });
+    }
+
+    // Values the variable schema rejects are an error in either mode
+    if (variableIssues.invalid.length > 0) {
+      return res.status(422).json({
+        error: `Variables do not match the variable schema of prompt appId=${appId}, type=${type}`,
+        ...variableIssues,
+      });
+    }
+
+    // Check supplied variables against the prompt's declaration and placeholders
+    if (hasVariableIssues(variableIssues)) {
+      if (storedPrompt.variableMode === "strict") {
+        return res.status(422).json({
+          error: `Variables do not match prompt appId=${appId}, type=${type}`,
+          ...variableIssues,
+        });
+      }
+      console.warn("[generate] Variable mismatch (lenient mode)", { appId, type, ...variableIssues });
+    }
+
+    // Request settings override the prompt's
+    const settings = mergeSettings(storedPrompt.settings, requestSettings);
+    const model = settings.model ?? DEFAULT_MODEL;
+    const runContext: GenerationRunContext = {
+      clerkOrgId: req.clerkOrgId!,
+      appId,
+      brandId,
+      campaignId,
+      runId,
+      workflowName,
+      apolloEnrichmentId,
+    };
+
     // Get Anthropic API key
     const anthropicApiKey = keyMode === "byok"
       ? await getByokKey(req.clerkOrgId!, "anthropic")
       : await getAppKey(appId, "anthropic");
 
-    // Generate using the stored prompt + variable substitution
-    const result = await generateFromTemplate(anthropicApiKey, {
-      promptTemplate: storedPrompt.prompt,
-      variables,
+    // Generate using the stored prompt + variable substitution, once per candidate
+    const generationParams = {
+      promptTemplate,
+      systemPromptTemplate,
+      outputSchema: storedPrompt.outputSchema,
+      settings,
+      sequence: requestSequence ?? storedPrompt.sequenceConfig,
+      locale,
+      style: prepared.style,
+      variables: prepared.variables,
+    };
+    const policy = resolvePolicy(await findContentPolicy(db, appId), {
+      builtInPersona: !systemPromptTemplate && !storedPrompt.outputSchema,
     });
+    const limits = generationParams.sequence && hasLimits(generationParams.sequence) ? generationParams.sequence : null;
+    const limitEnforcement = limits?.onLimitViolation ?? DEFAULT_LIMIT_ENFORCEMENT;
+    const readabilityOf = (result: GenerateResult) =>
+      limits && result.sequence ? checkReadability(result.sequence, limits, locale) : [];
+
+    // Checks on top of the content policy, each returning feedback when it fails
+    const checks: ((result: GenerateResult) => string | null)[] = [];
+    if (deliverabilityThreshold !== undefined) {
+      checks.push((result) => {
+        const report = deliverabilityOf(result);
+        return report && report.score < deliverabilityThreshold
+          ? deliverabilityFeedback(report.steps.filter((s) => s.score < deliverabilityThreshold))
+          : null;
+      });
+    }
+    if (limitEnforcement === "rewrite") {
+      checks.push((result) => {
+        const violations = readabilityOf(result);
+        return violations.length > 0 ? readabilityFeedback(violations) : null;
+      });
+    }
+    // Attempts for the checks are the request's, not the app's policy's
+    const check: PolicyCheck = {
+      run: (result) => {
+        const feedback = checks.map((c) => c(result)).filter((f): f is string => f !== null);
+        return feedback.length > 0 ? feedback.join("\n\n") : null;
+      },
+      maxAttempts: candidateAttempts(MAX_CHECK_ATTEMPTS, candidateCount),
+    };
 
-    // Extract lead/client fields from variables for dedicated columns
-    const str = (v: unknown): string | null =>
-      typeof v === "string" && v.length > 0 ? v : null;
+    // Every Claude call that billed tokens, so a failed request still tracks them
+    const billed: ModelUsage[] = [];
+    const bill = <T extends { tokensInput: number; tokensOutput: number }>(callModel: ModelId, call: Promise<T>) =>
+      call.then(
+        (r) => {
+          billed.push({ model: callModel, tokensInput: r.tokensInput, tokensOutput: r.tokensOutput });
+          return r;
+        },
+        (err) => {
+          // Output that fails the schema was billed all the same
+          if (err instanceof OutputValidationError && err.usage) {
+            billed.push({ model: callModel, ...err.usage });
+          }
+          throw err;
+        }
+      );
+    const trackFailure = async (err: unknown) => {
+      if (billed.length > 0) {
+        await trackGenerationRun(runContext, sumUsage(billed), null, "failed");
+      }
+      throw err;
+    };
+
+    const candidatePolicy = { ...policy, maxAttempts: candidateAttempts(policy.maxAttempts, candidateCount) };
+    const settled = await Promise.allSettled(
+      Array.from({ length: candidateCount }, async (_, i) => {
+        const first = await bill(model, generateFromTemplate(
+          anthropicApiKey,
+          candidateCount > 1 ? { ...generationParams, candidate: { index: i + 1, count: candidateCount } } : generationParams
+        ));
+        // Violations are fed back in the conversation that produced the sequence
+        return enforcePolicy(candidatePolicy, prepared.variables, first, (attempts, feedback) => {
+          const prompts = parsePromptRaw(first.promptRaw)!;
+          return bill(model, reviseGeneration(anthropicApiKey, {
+            systemPrompt: prompts.system,
+            userPrompt: prompts.user,
+            history: attempts,
+            feedback,
+            outputSchema: generationParams.outputSchema,
+            sequence: generationParams.sequence,
+            settings,
+            locale,
+          }));
+        }, check);
+      })
+    );
+    // The other candidates run to completion, so everything billed is known
+    const failed = settled.find((s): s is PromiseRejectedResult => s.status === "rejected");
+    if (failed) {
+      await trackFailure(failed.reason);
+    }
+    const outcomes = settled.map((s) => (s as PromiseFulfilledResult<PolicyOutcome>).value);
+
+    const { candidates, judge } = candidateCount > 1
+      ? await rankResults(
+          (call) => bill(ranking.method === "judge" ? ranking.model ?? DEFAULT_MODEL : model, call),
+          anthropicApiKey,
+          outcomes,
+          ranking,
+          {
+            variables: prepared.variables,
+            maxWords: prepared.style?.maxWords,
+            readability: readabilityOf,
+          }
+        ).catch(trackFailure)
+      : { candidates: null, judge: null };
+    const outcome = outcomes[(candidates?.find((c) => c.selected)?.index ?? 1) - 1];
+    const result = outcome.result;
+    const deliverability = deliverabilityOf(result);
+    const readabilityViolations = readabilityOf(result);
+    const rejected = limitEnforcement === "reject" && readabilityViolations.length > 0;
+    const tokensInput = outcomes.reduce((sum, o) => sum + o.result.tokensInput, 0);
+    const tokensOutput = outcomes.reduce((sum, o) => sum + o.result.tokensOutput, 0);
 
     // Store in database
     const [generation] = await db
@@ -87,79 +560,143 @@ router.post("/generate", serviceAuth, async (req: AuthenticatedRequest, res) =>
         runId,
         apolloEnrichmentId: apolloEnrichmentId ?? null,
         promptType: type,
+        promptVersionId: storedPrompt.versionId ?? null,
+        promptVariantId: variant?.id ?? null,
         appId,
         brandId: brandId ?? "",
         campaignId: campaignId ?? "",
         variablesRaw: variables,
         // Populate dedicated lead/client columns from variables
-        leadFirstName: str(variables.leadFirstName),
-        leadLastName: str(variables.leadLastName),
-        leadTitle: str(variables.leadTitle),
-        leadCompany: str(variables.leadCompanyName),
-        leadIndustry: str(variables.leadCompanyIndustry),
-        clientCompanyName: str(variables.clientCompanyName),
+        ...leadColumnsFrom(variables),
         subject: result.subject,
         sequence: result.sequence,
-        model: "claude-sonnet-4-6",
-        tokensInput: result.tokensInput,
-        tokensOutput: result.tokensOutput,
+        sequenceConfig: result.sequence ? generationParams.sequence ?? null : null,
+        output: result.output,
+        locale: locale ?? null,
+        style: prepared.style?.name ?? null,
+        candidates,
+        ranking: candidates && ranking,
+        policyAttempts: outcome.attempts,
+        policyViolations: outcome.violations,
+        deliverabilityScore: deliverability?.score ?? null,
+        deliverability,
+        readabilityViolations,
+        rejected,
+        model,
+        settings: result.settings,
+        tokensInput,
+        tokensOutput,
         promptRaw: result.promptRaw,
         responseRaw: result.responseRaw,
         workflowName: workflowName ?? null,
-        idempotencyKey: idempotencyKey ?? null,
+        // A rejected sequence leaves the key free for the caller's retry
+        idempotencyKey: rejected ? null : idempotencyKey ?? null,
       })
       .returning();
 
     // Track run + costs in runs-service
-    try {
-      const genRun = await createRun({
-        clerkOrgId: req.clerkOrgId!,
-        appId,
-        brandId,
-        campaignId,
-        serviceName: "content-generation-service",
-        taskName: "single-generation",
-        parentRunId: runId,
-        workflowName,
+    await trackGenerationRun(
+      runContext,
+      [
+        { model, tokensInput, tokensOutput },
+        ...(judge ? [{ model: judge.settings.model, tokensInput: judge.tokensInput, tokensOutput: judge.tokensOutput }] : []),
+      ],
+      generation.id,
+      rejected ? "failed" : "completed"
+    );
+
+    if (rejected) {
+      return res.status(422).json({
+        error: `Generated sequence is outside the length and readability limits of prompt appId=${appId}, type=${type}`,
+        id: generation.id,
+        violations: readabilityViolations,
       });
+    }
 
-      // Link generation run to email record IMMEDIATELY so per-item cost
-      // lookups work even if addCosts/updateRun fail below
-      await db.update(emailGenerations)
-        .set({ generationRunId: genRun.id })
-        .where(eq(emailGenerations.id, generation.id));
+    res.json({
+      id: generation.id,
+      subject: result.subject ?? "",
+      sequence: result.sequence ?? [],
+      output: result.output,
+      variantId: variant?.id ?? null,
+      ...(candidates && { candidates }),
+      policy: { attempts: outcome.attempts, violations: outcome.violations },
+      deliverability,
+      readability: { violations: readabilityViolations },
+      tokensInput,
+      tokensOutput,
+    });
+  } catch (error) {
+    if (error instanceof PromptRequestError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof TemplateError) {
+      return res.status(422).json({ error: `Prompt template error: ${error.message}` });
+    }
+    if (error instanceof OutputValidationError) {
+      console.error("Generate output validation error:", error.issues);
+      return res.status(502).json({ error: error.message, issues: error.issues });
+    }
+    console.error("Generate error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
 
-      const costItems = [];
-      if (result.tokensInput) {
-        costItems.push({ costName: "anthropic-sonnet-4.6-tokens-input", quantity: result.tokensInput });
-      }
-      if (result.tokensOutput) {
-        costItems.push({ costName: "anthropic-sonnet-4.6-tokens-output", quantity: result.tokensOutput });
-      }
-      if (costItems.length > 0) {
-        await addCosts(genRun.id, costItems);
-      }
-      await updateRun(genRun.id, "completed");
-    } catch (err) {
-      console.error("[content-gen] COST TRACKING FAILED — costs will be missing from campaign totals.", {
-        runId,
-        apolloEnrichmentId,
-        tokensInput: result.tokensInput,
-        tokensOutput: result.tokensOutput,
-        costNames: ["anthropic-sonnet-4.6-tokens-input", "anthropic-sonnet-4.6-tokens-output"],
-        error: err instanceof Error ? err.message : err,
+/**
+ * POST /generate/preview — Render the prompt POST /generate would send, without
+ * calling Claude, creating a run or storing a generation
+ */
+router.post("/generate/preview", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsed = GenerateRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues.map((i) => i.message).join(", ") });
+    }
+
+    const { appId, type, settings: requestSettings, sequenceConfig: requestSequence } = parsed.data;
+
+    const prepared = await preparePrompt(req.orgId!, parsed.data);
+
+    if (!prepared) {
+      return res.status(404).json({
+        error: `No prompt found for appId=${appId}, type=${type}. Register one via PUT /prompts first.`,
       });
     }
 
+    const { storedPrompt, variant, promptTemplate, systemPromptTemplate, variableIssues } = prepared;
+
+    if (requestSequence && storedPrompt.outputSchema) {
+      return res.status(400).json({ error: SEQUENCE_WITH_OUTPUT_SCHEMA });
+    }
+
+    const preview = previewGeneration({
+      promptTemplate,
+      systemPromptTemplate,
+      outputSchema: storedPrompt.outputSchema,
+      settings: mergeSettings(storedPrompt.settings, requestSettings),
+      sequence: requestSequence ?? storedPrompt.sequenceConfig,
+      locale: parsed.data.locale && canonicalLocale(parsed.data.locale),
+      style: prepared.style,
+      variables: prepared.variables,
+    });
+
     res.json({
-      id: generation.id,
-      subject: result.subject,
-      sequence: result.sequence,
-      tokensInput: result.tokensInput,
-      tokensOutput: result.tokensOutput,
+      promptId: storedPrompt.id,
+      versionId: storedPrompt.versionId,
+      variantId: variant?.id ?? null,
+      variableMode: storedPrompt.variableMode,
+      variableIssues,
+      style: prepared.style?.name ?? null,
+      ...preview,
     });
   } catch (error) {
-    console.error("Generate error:", error);
+    if (error instanceof PromptRequestError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof TemplateError) {
+      return res.status(422).json({ error: `Prompt template error: ${error.message}` });
+    }
+    console.error("Generate preview error:", error);
     res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
   }
 });
@@ -200,7 +737,8 @@ router.get("/generations", serviceAuth, async (req: AuthenticatedRequest, res) =
 });
 
 /**
- * GET /generations/by-enrichment/:apolloEnrichmentId - Get generation by enrichment ID
+ * GET /generations/by-enrichment/:apolloEnrichmentId - Get generation by enrichment ID.
+ * The latest one when the generation has been revised; rejected ones are skipped
  */
 router.get("/generations/by-enrichment/:apolloEnrichmentId", serviceAuth, async (req: AuthenticatedRequest, res) => {
   try {
@@ -210,8 +748,10 @@ router.get("/generations/by-enrichment/:apolloEnrichmentId", serviceAuth, async
       where: (gens, { eq, and }) =>
         and(
           eq(gens.apolloEnrichmentId, apolloEnrichmentId),
-          eq(gens.orgId, req.orgId!)
+          eq(gens.orgId, req.orgId!),
+          eq(gens.rejected, false)
         ),
+      orderBy: (gens, { desc }) => [desc(gens.createdAt)],
     });
 
     if (!generation) {
@@ -243,23 +783,48 @@ router.post("/stats", serviceAuth, async (req: AuthenticatedRequest, res) => {
       return res.status(400).json({ error: "At least one filter required: runIds, appId, brandId, or campaignId" });
     }
 
+    // Revisions and rejected sequences are not counted as emails generated
     const conditions: SQL[] = [
       eq(emailGenerations.orgId, req.orgId!),
+      isNull(emailGenerations.parentGenerationId),
+      eq(emailGenerations.rejected, false),
     ];
     if (hasRunIds) conditions.push(inArray(emailGenerations.runId, runIds!));
     if (appId) conditions.push(eq(emailGenerations.appId, appId));
     if (brandId) conditions.push(eq(emailGenerations.brandId, brandId));
     if (campaignId) conditions.push(eq(emailGenerations.campaignId, campaignId));
 
-    // Count email generations
-    const generations = await db.query.emailGenerations.findMany({
-      where: and(...conditions),
-      columns: { id: true },
-    });
+    // Count email generations and sum the readability metrics stored on their
+    // steps, in the database
+    const where = and(...conditions);
+    const [counts] = await db
+      .select({
+        emailsGenerated: sql<number>`count(*)::int`,
+        limitViolations: sql<number>`(count(*) filter (where jsonb_array_length(coalesce(${emailGenerations.readabilityViolations}, '[]'::jsonb)) > 0))::int`,
+      })
+      .from(emailGenerations)
+      .where(where);
+    const [totals] = await db.execute<ReadabilityTotals>(sql`
+      select
+        count(*)::int as "steps",
+        coalesce(sum((step -> 'readability' ->> 'words')::float8), 0) as "words",
+        coalesce(sum((step -> 'readability' ->> 'sentences')::float8), 0) as "sentences",
+        coalesce(sum((step -> 'readability' ->> 'avgSentenceLength')::float8), 0) as "avgSentenceLength",
+        coalesce(sum((step -> 'readability' ->> 'fleschReadingEase')::float8), 0) as "fleschReadingEase"
+      from ${emailGenerations}
+      cross join lateral jsonb_array_elements(
+        case when jsonb_typeof(${emailGenerations.sequence}) = 'array' then ${emailGenerations.sequence} else '[]'::jsonb end
+      ) as step
+      where ${where} and jsonb_typeof(step -> 'readability') = 'object'
+    `);
 
     res.json({
       stats: {
-        emailsGenerated: generations.length,
+        emailsGenerated: counts.emailsGenerated,
+        readability: {
+          ...summarizeReadability(totals),
+          limitViolations: counts.limitViolations,
+        },
       },
     });
   } catch (error) {
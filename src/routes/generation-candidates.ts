@@ -0,0 +1,88 @@
+import { Router } from "express";
+import { and, eq } from "drizzle-orm";
+import { db } from "../db/index.js";
+import { emailGenerations } from "../db/schema.js";
+import { serviceAuth, AuthenticatedRequest } from "../middleware/auth.js";
+import { storedSequence } from "../lib/sequence.js";
+
+const router = Router();
+
+/**
+ * POST /generations/:id/candidates/:index/select — Make another candidate the
+ * generation's subject, sequence and output. Edits made to the previously
+ * selected one (e.g. step regenerations) are kept on its candidate entry;
+ * 409 when the generation is edited meanwhile, as the entry would miss them.
+ */
+router.post("/generations/:id/candidates/:index/select", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const index = Number(req.params.index);
+    if (!Number.isInteger(index) || index < 1) {
+      return res.status(400).json({ error: "index must be a positive integer" });
+    }
+
+    const generation = await db.query.emailGenerations.findFirst({
+      where: and(eq(emailGenerations.id, req.params.id), eq(emailGenerations.orgId, req.orgId!)),
+    });
+    if (!generation) {
+      return res.status(404).json({ error: "Generation not found" });
+    }
+
+    if (!generation.candidates) {
+      return res.status(409).json({ error: "Generation has a single candidate" });
+    }
+
+    const chosen = generation.candidates.find((c) => c.index === index);
+    if (!chosen) {
+      return res.status(404).json({
+        error: `Candidate ${index} not found; the generation has ${generation.candidates.length} candidates`,
+      });
+    }
+
+    const candidates = generation.candidates.map((c) => ({
+      ...c,
+      // The row holds the latest content of the selected candidate
+      ...(c.selected && {
+        subject: generation.subject,
+        sequence: storedSequence(generation.sequence),
+        output: generation.output ?? c.output,
+        deliverability: generation.deliverability ?? c.deliverability,
+      }),
+      selected: c.index === index,
+    }));
+
+    if (!chosen.selected) {
+      const [saved] = await db.update(emailGenerations)
+        .set({
+          subject: chosen.subject,
+          sequence: chosen.sequence,
+          output: chosen.output,
+          policyAttempts: chosen.policyAttempts ?? null,
+          policyViolations: chosen.policyViolations ?? null,
+          readabilityViolations: chosen.readabilityViolations ?? null,
+          deliverabilityScore: chosen.deliverability?.score ?? null,
+          deliverability: chosen.deliverability ?? null,
+          candidates,
+          editCount: generation.editCount + 1,
+        })
+        .where(and(eq(emailGenerations.id, generation.id), eq(emailGenerations.editCount, generation.editCount)))
+        .returning({ id: emailGenerations.id });
+      if (!saved) {
+        return res.status(409).json({ error: "Generation was edited meanwhile; reload it and retry" });
+      }
+    }
+
+    const selected = candidates.find((c) => c.selected)!;
+    res.json({
+      id: generation.id,
+      subject: selected.subject ?? "",
+      sequence: selected.sequence ?? [],
+      output: selected.output,
+      candidates,
+    });
+  } catch (error) {
+    console.error("Select candidate error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
+
+export default router;
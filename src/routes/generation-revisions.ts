@@ -0,0 +1,315 @@
+import { Router } from "express";
+import { and, eq } from "drizzle-orm";
+import { db } from "../db/index.js";
+import { emailGenerations, promptVersions, type EmailGeneration } from "../db/schema.js";
+import { serviceAuth, AuthenticatedRequest } from "../middleware/auth.js";
+import { parsePromptRaw, reviseGeneration, type GenerateResult } from "../lib/anthropic-client.js";
+import { OutputValidationError, type BilledUsage, type OutputSchema } from "../lib/output-schema.js";
+import { sequenceConfigOf, storedSequence } from "../lib/sequence.js";
+import {
+  MAX_CHECK_ATTEMPTS,
+  enforcePolicy,
+  findContentPolicy,
+  resolvePolicy,
+  type PolicyCheck,
+  type PolicyOutcome,
+} from "../lib/content-policy.js";
+import {
+  DEFAULT_LIMIT_ENFORCEMENT,
+  checkReadability,
+  hasLimits,
+  readabilityFeedback,
+} from "../lib/readability.js";
+import { analyzeSequence } from "../lib/deliverability.js";
+import { leadColumnsFrom } from "../lib/template-variables.js";
+import { DEFAULT_MODEL, costNames, mergeSettings, type ModelId } from "../lib/models.js";
+import { getByokKey, getAppKey } from "../lib/key-client.js";
+import { createRun, updateRun, addCosts } from "../lib/runs-client.js";
+import { ReviseGenerationRequestSchema } from "../schemas.js";
+
+const router = Router();
+
+// Earlier revisions replayed to Claude, counting the original
+const MAX_REVISION_HISTORY = 10;
+
+/**
+ * The generation and the revisions leading to it, oldest first, up to
+ * MAX_REVISION_HISTORY of them.
+ */
+async function revisionHistory(generation: EmailGeneration, orgId: string): Promise<EmailGeneration[]> {
+  const history = [generation];
+  while (history.length < MAX_REVISION_HISTORY && history[0].parentGenerationId) {
+    const parent = await db.query.emailGenerations.findFirst({
+      where: and(eq(emailGenerations.id, history[0].parentGenerationId), eq(emailGenerations.orgId, orgId)),
+    });
+    if (!parent) break;
+    history.unshift(parent);
+  }
+  return history;
+}
+
+/**
+ * Track a revision's tokens as a child run of the revised generation's run,
+ * linked to the stored revision. Revisions that fail after Claude billed
+ * tokens are tracked too, without a revision and with the run failed, as are
+ * rejected ones.
+ * Returns the run id, or null when tracking failed (which is only logged).
+ */
+async function trackRevisionRun(
+  clerkOrgId: string,
+  generation: EmailGeneration,
+  model: ModelId,
+  usage: BilledUsage,
+  revisionId: string | null,
+  status: "completed" | "failed" = revisionId ? "completed" : "failed"
+): Promise<string | null> {
+  const costName = costNames(model);
+  try {
+    const run = await createRun({
+      clerkOrgId,
+      appId: generation.appId,
+      brandId: generation.brandId || undefined,
+      campaignId: generation.campaignId || undefined,
+      serviceName: "content-generation-service",
+      taskName: "generation-revision",
+      parentRunId: generation.generationRunId ?? generation.runId,
+      workflowName: generation.workflowName ?? undefined,
+    });
+
+    if (revisionId) {
+      await db.update(emailGenerations)
+        .set({ generationRunId: run.id })
+        .where(eq(emailGenerations.id, revisionId));
+    }
+
+    const costItems = [];
+    if (usage.tokensInput) {
+      costItems.push({ costName: costName.input, quantity: usage.tokensInput });
+    }
+    if (usage.tokensOutput) {
+      costItems.push({ costName: costName.output, quantity: usage.tokensOutput });
+    }
+    if (costItems.length > 0) {
+      await addCosts(run.id, costItems);
+    }
+    await updateRun(run.id, status);
+    return run.id;
+  } catch (err) {
+    console.error("[content-gen] COST TRACKING FAILED — revision costs will be missing.", {
+      generationId: revisionId,
+      parentGenerationId: generation.id,
+      tokensInput: usage.tokensInput,
+      tokensOutput: usage.tokensOutput,
+      error: err instanceof Error ? err.message : err,
+    });
+    return null;
+  }
+}
+
+/**
+ * POST /generations/:id/revise — Revise a generation from reviewer feedback,
+ * replaying its prompt and output (and earlier revisions) as conversation
+ * context. The result is stored as a new generation linked to the one it
+ * revises; the tokens are tracked as a child run of the generation's run.
+ * Sequences are held to the limits they were generated with: rewritten while
+ * outside them, or stored as rejected with 422 (onLimitViolation: reject).
+ */
+router.post("/generations/:id/revise", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsed = ReviseGenerationRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues.map((i) => i.message).join(", ") });
+    }
+
+    const { keyMode, feedback, settings: requestSettings } = parsed.data;
+
+    const generation = await db.query.emailGenerations.findFirst({
+      where: and(eq(emailGenerations.id, req.params.id), eq(emailGenerations.orgId, req.orgId!)),
+    });
+    if (!generation) {
+      return res.status(404).json({ error: "Generation not found" });
+    }
+
+    const prompts = generation.promptRaw ? parsePromptRaw(generation.promptRaw) : null;
+    if (!prompts || !generation.output) {
+      return res.status(409).json({ error: "Generation has no stored prompt and output to revise" });
+    }
+
+    // Prompts with their own output schema keep it; sequences keep their steps
+    const sequence = storedSequence(generation.sequence);
+    const version = generation.promptVersionId
+      ? await db.query.promptVersions.findFirst({ where: eq(promptVersions.id, generation.promptVersionId) })
+      : undefined;
+    let outputSchema: OutputSchema | null = null;
+    if (!sequence) {
+      if (!version?.outputSchema) {
+        return res.status(409).json({ error: "Output schema of the generation's prompt version not found" });
+      }
+      outputSchema = version.outputSchema;
+    }
+
+    // Request settings override the ones the generation used
+    const settings = mergeSettings(generation.settings, requestSettings);
+    const model = settings.model ?? DEFAULT_MODEL;
+
+    const anthropicApiKey = keyMode === "byok"
+      ? await getByokKey(req.clerkOrgId!, "anthropic")
+      : await getAppKey(generation.appId, "anthropic");
+
+    const history = (await revisionHistory(generation, req.orgId!)).map((g) => ({
+      feedback: g.feedback,
+      output: g.output ?? {},
+    }));
+    // The config the sequence was generated with, limits included
+    const sequenceConfig = sequence && (generation.sequenceConfig ?? sequenceConfigOf(sequence));
+    // Every attempt that billed tokens, so a failed revision still tracks them
+    const billed: BilledUsage[] = [];
+    const revise = (turns: typeof history, turnFeedback: string) =>
+      reviseGeneration(anthropicApiKey, {
+        systemPrompt: prompts.system,
+        userPrompt: prompts.user,
+        history: turns,
+        feedback: turnFeedback,
+        outputSchema,
+        sequence: sequenceConfig,
+        settings,
+        locale: generation.locale,
+      }).then(
+        (r) => {
+          billed.push({ tokensInput: r.tokensInput, tokensOutput: r.tokensOutput });
+          return r;
+        },
+        (err) => {
+          // Output that fails the schema was billed all the same
+          if (err instanceof OutputValidationError && err.usage) {
+            billed.push(err.usage);
+          }
+          throw err;
+        }
+      );
+
+    // The revision goes through the app's content policy like any generation
+    const variables = (generation.variablesRaw ?? {}) as Record<string, unknown>;
+    const policy = resolvePolicy(await findContentPolicy(db, generation.appId), {
+      builtInPersona: !version?.systemPrompt && !outputSchema,
+    });
+    const limits = sequenceConfig && hasLimits(sequenceConfig) ? sequenceConfig : null;
+    const limitEnforcement = limits?.onLimitViolation ?? DEFAULT_LIMIT_ENFORCEMENT;
+    const readabilityOf = (result: GenerateResult) =>
+      limits && result.sequence ? checkReadability(result.sequence, limits, generation.locale) : [];
+    // The limits get their own attempts, as on POST /generate
+    const check: PolicyCheck | undefined =
+      limitEnforcement === "rewrite"
+        ? {
+          run: (result) => {
+            const limitViolations = readabilityOf(result);
+            return limitViolations.length > 0 ? readabilityFeedback(limitViolations) : null;
+          },
+          maxAttempts: MAX_CHECK_ATTEMPTS,
+        }
+        : undefined;
+    let outcome: PolicyOutcome;
+    try {
+      outcome = await enforcePolicy(
+        policy,
+        variables,
+        await revise(history, feedback),
+        ([first, ...retries], retryFeedback) => revise([...history, { ...first, feedback }, ...retries], retryFeedback),
+        check
+      );
+    } catch (err) {
+      if (billed.length > 0) {
+        const usage = billed.reduce((sum, u) => ({
+          tokensInput: sum.tokensInput + u.tokensInput,
+          tokensOutput: sum.tokensOutput + u.tokensOutput,
+        }));
+        await trackRevisionRun(req.clerkOrgId!, generation, model, usage, null);
+      }
+      throw err;
+    }
+    const { result, attempts, violations } = outcome;
+
+    const deliverability = result.sequence ? analyzeSequence(result.subject, result.sequence) : null;
+    const readabilityViolations = readabilityOf(result);
+    const rejected = limitEnforcement === "reject" && readabilityViolations.length > 0;
+
+    const [revision] = await db
+      .insert(emailGenerations)
+      .values({
+        orgId: generation.orgId,
+        runId: generation.runId,
+        apolloEnrichmentId: generation.apolloEnrichmentId,
+        promptType: generation.promptType,
+        promptVersionId: generation.promptVersionId,
+        promptVariantId: generation.promptVariantId,
+        appId: generation.appId,
+        brandId: generation.brandId,
+        campaignId: generation.campaignId,
+        variablesRaw: generation.variablesRaw,
+        ...leadColumnsFrom(variables),
+        subject: result.subject,
+        sequence: result.sequence,
+        sequenceConfig: generation.sequenceConfig,
+        output: result.output,
+        locale: generation.locale,
+        style: generation.style,
+        parentGenerationId: generation.id,
+        feedback,
+        policyAttempts: attempts,
+        policyViolations: violations,
+        deliverabilityScore: deliverability?.score ?? null,
+        deliverability,
+        readabilityViolations,
+        rejected,
+        model,
+        settings: result.settings,
+        tokensInput: result.tokensInput,
+        tokensOutput: result.tokensOutput,
+        promptRaw: result.promptRaw,
+        responseRaw: result.responseRaw,
+        workflowName: generation.workflowName,
+      })
+      .returning();
+
+    // Track the tokens as a child of the revised generation's run
+    const generationRunId = await trackRevisionRun(
+      req.clerkOrgId!,
+      generation,
+      model,
+      result,
+      revision.id,
+      rejected ? "failed" : "completed"
+    );
+
+    if (rejected) {
+      return res.status(422).json({
+        error: "Revised sequence is outside the length and readability limits it was generated with",
+        id: revision.id,
+        violations: readabilityViolations,
+      });
+    }
+
+    res.json({
+      id: revision.id,
+      parentGenerationId: generation.id,
+      subject: result.subject ?? "",
+      sequence: result.sequence ?? [],
+      output: result.output,
+      policy: { attempts, violations },
+      deliverability,
+      readability: { violations: readabilityViolations },
+      generationRunId,
+      tokensInput: result.tokensInput,
+      tokensOutput: result.tokensOutput,
+    });
+  } catch (error) {
+    if (error instanceof OutputValidationError) {
+      console.error("Revise output validation error:", error.issues);
+      return res.status(502).json({ error: error.message, issues: error.issues });
+    }
+    console.error("Revise generation error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,249 @@
+import { Router } from "express";
+import { and, eq } from "drizzle-orm";
+import { db } from "../db/index.js";
+import { emailGenerations, promptVersions, type EmailGeneration } from "../db/schema.js";
+import { serviceAuth, AuthenticatedRequest } from "../middleware/auth.js";
+import {
+  parsePromptRaw,
+  regenerateStep,
+  type RegenerateStepResult,
+  type SequenceStep,
+} from "../lib/anthropic-client.js";
+import { stepField, stepSubjectField, storedSequence } from "../lib/sequence.js";
+import { analyzeSequence } from "../lib/deliverability.js";
+import { checkReadability, readabilityMetrics } from "../lib/readability.js";
+import { checkPolicy, findContentPolicy, resolvePolicy } from "../lib/content-policy.js";
+import { OutputValidationError, type BilledUsage } from "../lib/output-schema.js";
+import { DEFAULT_MODEL, costNames, mergeSettings, type ModelId } from "../lib/models.js";
+import { getByokKey, getAppKey } from "../lib/key-client.js";
+import { createRun, updateRun, addCosts } from "../lib/runs-client.js";
+import { RegenerateStepRequestSchema } from "../schemas.js";
+
+const router = Router();
+
+/**
+ * The sequence with one step replaced by its rewrite. The replaced text is
+ * kept in the step's revision history.
+ */
+function reviseStep(sequence: SequenceStep[], index: number, rewrite: RegenerateStepResult): SequenceStep[] {
+  return sequence.map((step, i) => {
+    if (i !== index) return step;
+    const revision = step.revision ?? 1;
+    return {
+      ...step,
+      bodyHtml: rewrite.bodyHtml,
+      bodyText: rewrite.bodyText,
+      ...(rewrite.subject !== undefined && { subject: rewrite.subject }),
+      readability: readabilityMetrics(rewrite.bodyText),
+      revision: revision + 1,
+      revisions: [
+        ...(step.revisions ?? []),
+        {
+          revision,
+          bodyHtml: step.bodyHtml,
+          bodyText: step.bodyText,
+          ...(step.subject !== undefined && { subject: step.subject }),
+          replacedAt: new Date().toISOString(),
+        },
+      ],
+    };
+  });
+}
+
+/**
+ * Track a step rewrite's tokens as a child run of the generation's run;
+ * failed when the rewrite was not stored. Returns the run id, or null when
+ * tracking failed (which is only logged).
+ */
+async function trackStepRun(
+  clerkOrgId: string,
+  generation: EmailGeneration,
+  step: number,
+  model: ModelId,
+  usage: BilledUsage,
+  status: "completed" | "failed"
+): Promise<string | null> {
+  const costName = costNames(model);
+  try {
+    const run = await createRun({
+      clerkOrgId,
+      appId: generation.appId,
+      brandId: generation.brandId || undefined,
+      campaignId: generation.campaignId || undefined,
+      serviceName: "content-generation-service",
+      taskName: "step-regeneration",
+      parentRunId: generation.generationRunId ?? generation.runId,
+      workflowName: generation.workflowName ?? undefined,
+    });
+
+    const costItems = [];
+    if (usage.tokensInput) {
+      costItems.push({ costName: costName.input, quantity: usage.tokensInput });
+    }
+    if (usage.tokensOutput) {
+      costItems.push({ costName: costName.output, quantity: usage.tokensOutput });
+    }
+    if (costItems.length > 0) {
+      await addCosts(run.id, costItems);
+    }
+    await updateRun(run.id, status);
+    return run.id;
+  } catch (err) {
+    console.error("[content-gen] COST TRACKING FAILED — step regeneration costs will be missing.", {
+      generationId: generation.id,
+      step,
+      tokensInput: usage.tokensInput,
+      tokensOutput: usage.tokensOutput,
+      error: err instanceof Error ? err.message : err,
+    });
+    return null;
+  }
+}
+
+/**
+ * POST /generations/:id/steps/:step/regenerate — Rewrite one step of a
+ * generated sequence, with the other steps as context. The revised sequence
+ * is checked against the app's content policy and the sequence's limits
+ * again; violations are recorded, not retried. The tokens are tracked as a
+ * child run of the generation's run. The rewrite is only
+ * stored if the generation was not edited during the Claude call; otherwise
+ * it is discarded with a 409, so concurrent edits never overwrite each other.
+ */
+router.post("/generations/:id/steps/:step/regenerate", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsed = RegenerateStepRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues.map((i) => i.message).join(", ") });
+    }
+
+    const stepNumber = Number(req.params.step);
+    if (!Number.isInteger(stepNumber) || stepNumber < 1) {
+      return res.status(400).json({ error: "step must be a positive integer" });
+    }
+
+    const { keyMode, instructions, settings: requestSettings } = parsed.data;
+
+    const generation = await db.query.emailGenerations.findFirst({
+      where: and(eq(emailGenerations.id, req.params.id), eq(emailGenerations.orgId, req.orgId!)),
+    });
+    if (!generation) {
+      return res.status(404).json({ error: "Generation not found" });
+    }
+
+    const sequence = storedSequence(generation.sequence);
+    if (!sequence || sequence.length === 0) {
+      return res.status(409).json({ error: "Generation has no email sequence; its prompt has its own output schema" });
+    }
+    if (stepNumber > sequence.length) {
+      return res.status(404).json({ error: `Step ${stepNumber} not found; the sequence has ${sequence.length} steps` });
+    }
+
+    const prompts = generation.promptRaw ? parsePromptRaw(generation.promptRaw) : null;
+    if (!prompts) {
+      return res.status(409).json({ error: "Generation has no stored prompt to regenerate from" });
+    }
+
+    // Request settings override the ones the generation used
+    const settings = mergeSettings(generation.settings, requestSettings);
+    const model = settings.model ?? DEFAULT_MODEL;
+
+    const anthropicApiKey = keyMode === "byok"
+      ? await getByokKey(req.clerkOrgId!, "anthropic")
+      : await getAppKey(generation.appId, "anthropic");
+
+    const rewrite = await regenerateStep(anthropicApiKey, {
+      systemPrompt: prompts.system,
+      userPrompt: prompts.user,
+      subject: generation.subject ?? "",
+      sequence,
+      step: stepNumber,
+      instructions,
+      settings,
+      locale: generation.locale,
+    }).catch(async (err) => {
+      // Output cut short or unreadable was billed all the same
+      if (err instanceof OutputValidationError && err.usage) {
+        await trackStepRun(req.clerkOrgId!, generation, stepNumber, model, err.usage, "failed");
+      }
+      throw err;
+    });
+
+    const index = stepNumber - 1;
+    const revised = reviseStep(sequence, index, rewrite);
+    const output = generation.output && {
+      ...generation.output,
+      [stepField(index)]: rewrite.bodyText,
+      ...(rewrite.subject !== undefined && { [stepSubjectField(index)]: rewrite.subject }),
+    };
+
+    const deliverability = analyzeSequence(generation.subject, revised);
+
+    const version = generation.promptVersionId
+      ? await db.query.promptVersions.findFirst({ where: eq(promptVersions.id, generation.promptVersionId) })
+      : undefined;
+    const policy = resolvePolicy(await findContentPolicy(db, generation.appId), {
+      builtInPersona: !version?.systemPrompt,
+    });
+    const policyViolations = checkPolicy(
+      policy.rules,
+      { subject: generation.subject, sequence: revised, output: output ?? {} },
+      (generation.variablesRaw ?? {}) as Record<string, unknown>
+    );
+    // Without the config the sequence was written with, only the rewritten
+    // step's violations are known to be stale
+    const config = generation.sequenceConfig;
+    const readabilityViolations = config
+      ? checkReadability(revised, config, generation.locale)
+      : (generation.readabilityViolations ?? []).filter((v) => v.step !== stepNumber);
+
+    const [saved] = await db.update(emailGenerations)
+      .set({
+        sequence: revised,
+        output,
+        policyViolations,
+        deliverabilityScore: deliverability.score,
+        deliverability,
+        readabilityViolations,
+        editCount: generation.editCount + 1,
+      })
+      .where(and(eq(emailGenerations.id, generation.id), eq(emailGenerations.editCount, generation.editCount)))
+      .returning({ id: emailGenerations.id });
+
+    // Track the extra tokens as a child of the generation's run
+    const generationRunId = await trackStepRun(
+      req.clerkOrgId!,
+      generation,
+      stepNumber,
+      model,
+      rewrite,
+      saved ? "completed" : "failed"
+    );
+
+    if (!saved) {
+      return res.status(409).json({
+        error: "Generation was edited while the step was being regenerated; reload it and retry",
+      });
+    }
+
+    res.json({
+      id: generation.id,
+      step: revised[index],
+      sequence: revised,
+      policy: { violations: policyViolations },
+      deliverability,
+      readability: { violations: readabilityViolations },
+      generationRunId,
+      tokensInput: rewrite.tokensInput,
+      tokensOutput: rewrite.tokensOutput,
+    });
+  } catch (error) {
+    if (error instanceof OutputValidationError) {
+      console.error("Regenerate step output validation error:", error.issues);
+      return res.status(502).json({ error: error.message, issues: error.issues });
+    }
+    console.error("Regenerate step error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
+
+export default router;
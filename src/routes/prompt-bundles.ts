@@ -0,0 +1,102 @@
+import { Router } from "express";
+import { db } from "../db/index.js";
+import { serviceAuth, AuthenticatedRequest } from "../middleware/auth.js";
+import {
+  applyImport,
+  exportBundle,
+  formatBundle,
+  parseBundleText,
+  planImport,
+  type PromptBundle,
+} from "../lib/prompt-bundle.js";
+import { ImportPromptsRequestSchema, PromptBundleSchema } from "../schemas.js";
+
+const router = Router();
+
+/**
+ * GET /prompts/export?appId&format — Export an app's default prompts and
+ * partials as a versioned bundle, to promote them to another environment.
+ */
+router.get("/prompts/export", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { appId, format = "json" } = req.query as { appId?: string; format?: string };
+
+    if (!appId) {
+      return res.status(400).json({ error: "appId query param required" });
+    }
+    if (format !== "json" && format !== "yaml") {
+      return res.status(400).json({ error: "format must be 'json' or 'yaml'" });
+    }
+
+    const bundle = await exportBundle(db, appId);
+
+    if (format === "yaml") {
+      return res.type("application/yaml").send(formatBundle(bundle, "yaml"));
+    }
+    res.json(bundle);
+  } catch (error) {
+    console.error("Export prompts error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
+
+/**
+ * POST /prompts/import — Import a bundle as drafts of the app defaults. A dry
+ * run reports what would change; otherwise the bundle is applied in one
+ * transaction, or not at all when it has conflicts. The drafts go live only
+ * once reviewed.
+ */
+router.post("/prompts/import", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsed = ImportPromptsRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues.map((i) => i.message).join(", ") });
+    }
+
+    let rawBundle: unknown = parsed.data.bundle;
+    if (typeof rawBundle === "string") {
+      try {
+        rawBundle = parseBundleText(rawBundle);
+      } catch (err) {
+        return res.status(400).json({ error: `Malformed bundle: ${err instanceof Error ? err.message : String(err)}` });
+      }
+    }
+
+    const bundleParsed = PromptBundleSchema.safeParse(rawBundle);
+    if (!bundleParsed.success) {
+      return res.status(400).json({
+        error: bundleParsed.error.issues
+          .map((i) => (i.path.length ? `bundle.${i.path.join(".")}: ${i.message}` : i.message))
+          .join(", "),
+      });
+    }
+
+    const bundle: PromptBundle = bundleParsed.data;
+    const appId = parsed.data.appId ?? bundle.appId;
+    const { dryRun } = parsed.data;
+
+    if (dryRun) {
+      const plan = await planImport(db, appId, bundle);
+      return res.json({ appId, dryRun, applied: false, ...plan });
+    }
+
+    if (!req.clerkUserId) {
+      return res.status(400).json({ error: "x-clerk-user-id header required to author a prompt change" });
+    }
+
+    const author = { clerkOrgId: req.clerkOrgId, clerkUserId: req.clerkUserId };
+    const { plan, applied } = await db.transaction(async (tx) => {
+      const plan = await planImport(tx, appId, bundle);
+      if (plan.conflicts.length > 0) return { plan, applied: false };
+      await applyImport(tx, appId, bundle, author);
+      return { plan, applied: true };
+    });
+
+    res.status(applied ? 200 : 409).json({ appId, dryRun, applied, ...plan });
+  } catch (error) {
+    console.error("Import prompts error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,241 @@
+import { Router } from "express";
+import { and, asc, eq } from "drizzle-orm";
+import { db } from "../db/index.js";
+import { promptPartials, type Prompt, type PromptPartial } from "../db/schema.js";
+import { serviceAuth, AuthenticatedRequest } from "../middleware/auth.js";
+import {
+  findPartialUsage,
+  layerOf,
+  loadPartials,
+  publishPartial,
+  ReviewStateError,
+  submitPartial,
+  upsertPartial,
+  validateTemplate,
+} from "../lib/prompt-store.js";
+import { findPartialCycle } from "../lib/template-engine.js";
+import { PromptPartialActionRequestSchema, UpsertPromptPartialRequestSchema } from "../schemas.js";
+
+const router = Router();
+
+function serializePartial(partial: PromptPartial) {
+  return {
+    id: partial.id,
+    appId: partial.appId,
+    name: partial.name,
+    content: partial.content,
+    draftContent: partial.draftContent,
+    draftStatus: partial.draftStatus,
+    draftAuthorClerkUserId: partial.draftAuthorClerkUserId,
+    draftSubmittedAt: partial.draftSubmittedAt?.toISOString() ?? null,
+    approvedByClerkUserId: partial.approvedByClerkUserId,
+    publishedAt: partial.publishedAt?.toISOString() ?? null,
+    createdAt: partial.createdAt.toISOString(),
+    updatedAt: partial.updatedAt.toISOString(),
+  };
+}
+
+function serializeUsingPrompt(prompt: Prompt) {
+  return { id: prompt.id, type: prompt.type, layer: layerOf(prompt) };
+}
+
+/**
+ * PUT /prompts/partials — Create or replace a named partial for an app.
+ * Prompts include it as {{> name}}. The content is stored as a draft, which
+ * prompts include only after submit + publish.
+ */
+router.put("/prompts/partials", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsed = UpsertPromptPartialRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues.map((i) => i.message).join(", ") });
+    }
+
+    if (!req.clerkUserId) {
+      return res.status(400).json({ error: "x-clerk-user-id header required to author a prompt change" });
+    }
+
+    const { appId, name, content } = parsed.data;
+
+    const invalid = validateTemplate(content);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    const partials = await loadPartials(db, appId);
+    const cycle = findPartialCycle({ ...partials, [name]: content });
+    if (cycle) {
+      return res.status(400).json({ error: `Partial cycle: ${cycle.join(" > ")}` });
+    }
+
+    const { partial } = await upsertPartial(db, appId, name, content, {
+      clerkOrgId: req.clerkOrgId,
+      clerkUserId: req.clerkUserId,
+    });
+
+    res.json(serializePartial(partial));
+  } catch (error) {
+    console.error("Upsert prompt partial error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
+
+/**
+ * POST /prompts/partials/submit — Move a partial's draft to review
+ */
+router.post("/prompts/partials/submit", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsed = PromptPartialActionRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues.map((i) => i.message).join(", ") });
+    }
+
+    const { appId, name } = parsed.data;
+
+    const partial = await db.query.promptPartials.findFirst({
+      where: and(eq(promptPartials.appId, appId), eq(promptPartials.name, name)),
+    });
+
+    if (!partial) {
+      return res.status(404).json({ error: `No partial "${name}" found for appId=${appId}` });
+    }
+
+    const submitted = await db.transaction((tx) => submitPartial(tx, partial));
+
+    res.json(serializePartial(submitted));
+  } catch (error) {
+    if (error instanceof ReviewStateError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Submit prompt partial error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
+
+/**
+ * POST /prompts/partials/publish — Approve a partial's draft in review and
+ * make it the content prompts include. The approver must be a named user
+ * other than the draft's author.
+ */
+router.post("/prompts/partials/publish", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsed = PromptPartialActionRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues.map((i) => i.message).join(", ") });
+    }
+
+    if (!req.clerkUserId) {
+      return res.status(400).json({ error: "x-clerk-user-id header required to approve a partial" });
+    }
+
+    const { appId, name } = parsed.data;
+
+    const partial = await db.query.promptPartials.findFirst({
+      where: and(eq(promptPartials.appId, appId), eq(promptPartials.name, name)),
+    });
+
+    if (!partial) {
+      return res.status(404).json({ error: `No partial "${name}" found for appId=${appId}` });
+    }
+
+    const published = await db.transaction((tx) =>
+      publishPartial(tx, partial, { clerkOrgId: req.clerkOrgId, clerkUserId: req.clerkUserId })
+    );
+
+    res.json(serializePartial(published));
+  } catch (error) {
+    if (error instanceof ReviewStateError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Publish prompt partial error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
+
+/**
+ * GET /prompts/partials?appId — List an app's partials
+ */
+router.get("/prompts/partials", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { appId } = req.query as { appId?: string };
+
+    if (!appId) {
+      return res.status(400).json({ error: "appId query param required" });
+    }
+
+    const partials = await db.query.promptPartials.findMany({
+      where: eq(promptPartials.appId, appId),
+      orderBy: asc(promptPartials.name),
+    });
+
+    res.json({ partials: partials.map(serializePartial) });
+  } catch (error) {
+    console.error("List prompt partials error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
+
+/**
+ * GET /prompts/partials/usage?appId&name — Which prompts, variants and partials
+ * include a partial, directly or through other partials. Lists app defaults
+ * and the caller's org overrides.
+ */
+router.get("/prompts/partials/usage", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { appId, name } = req.query as { appId?: string; name?: string };
+
+    if (!appId || !name) {
+      return res.status(400).json({ error: "appId and name query params required" });
+    }
+
+    const usage = await findPartialUsage(db, appId, name, req.orgId!);
+
+    res.json({
+      name,
+      partials: usage.partials,
+      prompts: usage.prompts.map(serializeUsingPrompt),
+      variants: usage.variants.map((v) => ({ id: v.id, promptId: v.promptId, name: v.name })),
+    });
+  } catch (error) {
+    console.error("Prompt partial usage error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
+
+/**
+ * DELETE /prompts/partials?appId&name — Remove a partial no template includes
+ */
+router.delete("/prompts/partials", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { appId, name } = req.query as { appId?: string; name?: string };
+
+    if (!appId || !name) {
+      return res.status(400).json({ error: "appId and name query params required" });
+    }
+
+    // Every layer: deleting must not break another org's override
+    const usage = await findPartialUsage(db, appId, name);
+    const usedBy = usage.prompts.length + usage.variants.length + usage.partials.length;
+    if (usedBy > 0) {
+      return res.status(409).json({
+        error: `Partial "${name}" is still included by ${usedBy} template(s). See GET /prompts/partials/usage.`,
+      });
+    }
+
+    const [deleted] = await db
+      .delete(promptPartials)
+      .where(and(eq(promptPartials.appId, appId), eq(promptPartials.name, name)))
+      .returning();
+
+    if (!deleted) {
+      return res.status(404).json({ error: `No partial "${name}" found for appId=${appId}` });
+    }
+
+    res.json({ deleted: true, id: deleted.id, appId, name });
+  } catch (error) {
+    console.error("Delete prompt partial error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
+
+export default router;
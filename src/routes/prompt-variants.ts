@@ -0,0 +1,143 @@
+import { Router } from "express";
+import { db } from "../db/index.js";
+import { type PromptVariant } from "../db/schema.js";
+import { serviceAuth, AuthenticatedRequest } from "../middleware/auth.js";
+import {
+  listVariants,
+  pendingVersion,
+  promptContentOf,
+  promptKey,
+  upsertPrompt,
+  validatePartialReferences,
+  validateTemplate,
+} from "../lib/prompt-store.js";
+import { UpsertPromptVariantsRequestSchema } from "../schemas.js";
+
+const router = Router();
+
+function serializeVariant(variant: PromptVariant, totalWeight: number) {
+  return {
+    id: variant.id,
+    name: variant.name,
+    prompt: variant.prompt,
+    weight: variant.weight,
+    trafficShare: totalWeight > 0 ? variant.weight / totalWeight : 0,
+    createdAt: variant.createdAt.toISOString(),
+  };
+}
+
+function serializeVariants(variants: PromptVariant[]) {
+  const totalWeight = variants.reduce((sum, v) => sum + v.weight, 0);
+  return variants.map((v) => serializeVariant(v, totalWeight));
+}
+
+/**
+ * PUT /prompts/variants — Replace the A/B variant set of a prompt.
+ * An empty list ends the experiment; POST /generate then serves the prompt itself.
+ * The set is stored as a draft version of the prompt and served once it is
+ * submitted and published, like any other prompt change; the version of a
+ * generation identifies the variant text it was served. The set replaces the
+ * one of a pending draft, keeping that draft's other changes. Variants keep
+ * their ids across changes as long as their name stays in the set.
+ */
+router.put("/prompts/variants", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsed = UpsertPromptVariantsRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues.map((i) => i.message).join(", ") });
+    }
+
+    if (!req.clerkUserId) {
+      return res.status(400).json({ error: "x-clerk-user-id header required to author a prompt change" });
+    }
+
+    const { appId, type, scope, variants } = parsed.data;
+    const orgId = scope === "org" ? req.orgId! : null;
+
+    const names = new Set<string>();
+    for (const variant of variants) {
+      if (names.has(variant.name)) {
+        return res.status(400).json({ error: `Duplicate variant name "${variant.name}"` });
+      }
+      names.add(variant.name);
+
+      const invalid = validateTemplate(variant.prompt);
+      if (invalid) {
+        return res.status(400).json({ error: `variant=${variant.name}: ${invalid}` });
+      }
+    }
+    if (variants.length > 0 && variants.every((v) => v.weight === 0)) {
+      return res.status(400).json({ error: "At least one variant must have a weight above 0" });
+    }
+
+    const stored = await db.query.prompts.findFirst({
+      where: promptKey(appId, type, orgId),
+    });
+
+    if (!stored) {
+      return res.status(404).json({
+        error: `No prompt found for appId=${appId}, type=${type}. Register one via PUT /prompts first.`,
+      });
+    }
+
+    // A pending draft's other changes carry over into the new draft
+    const pending = await pendingVersion(db, stored.id);
+    const content = {
+      ...promptContentOf(pending ?? stored),
+      variants: [...variants].sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0)),
+    };
+    const unresolved = await validatePartialReferences(db, appId, content);
+    if (unresolved) {
+      return res.status(400).json({ error: unresolved });
+    }
+    const { prompt, draft } = await db.transaction((tx) =>
+      upsertPrompt(tx, { appId, type, orgId }, content, {
+        clerkOrgId: req.clerkOrgId,
+        clerkUserId: req.clerkUserId,
+      })
+    );
+    const live = await listVariants(db, prompt.id);
+
+    res.json({
+      promptId: prompt.id,
+      version: prompt.version,
+      draftVersion: draft?.version ?? null,
+      variants: serializeVariants(live),
+    });
+  } catch (error) {
+    console.error("Upsert prompt variants error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
+
+/**
+ * GET /prompts/variants?appId&type&scope — List the A/B variants of a prompt
+ */
+router.get("/prompts/variants", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { appId, type, scope = "app" } = req.query as { appId?: string; type?: string; scope?: string };
+
+    if (!appId || !type) {
+      return res.status(400).json({ error: "appId and type query params required" });
+    }
+    if (scope !== "app" && scope !== "org") {
+      return res.status(400).json({ error: "scope must be 'app' or 'org'" });
+    }
+
+    const stored = await db.query.prompts.findFirst({
+      where: promptKey(appId, type, scope === "org" ? req.orgId! : null),
+    });
+
+    if (!stored) {
+      return res.status(404).json({ error: `No prompt found for appId=${appId}, type=${type}` });
+    }
+
+    const variants = await listVariants(db, stored.id);
+    res.json({ promptId: stored.id, version: stored.version, variants: serializeVariants(variants) });
+  } catch (error) {
+    console.error("List prompt variants error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
+
+export default router;
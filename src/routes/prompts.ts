@@ -1,14 +1,98 @@
 import { Router } from "express";
-import { eq, and } from "drizzle-orm";
+import { eq, and, or, asc, desc, isNull, sql, type SQL } from "drizzle-orm";
 import { db } from "../db/index.js";
-import { prompts } from "../db/schema.js";
+import { prompts, promptVersions, type Prompt } from "../db/schema.js";
 import { serviceAuth, AuthenticatedRequest } from "../middleware/auth.js";
-import { UpsertPromptRequestSchema } from "../schemas.js";
+import {
+  bootstrapPrompt,
+  findVersion,
+  hasGenerations,
+  layerOf,
+  loadPartials,
+  promptKey,
+  publishNewVersion,
+  publishVersion,
+  resolvePrompt,
+  ReviewStateError,
+  serializeVersion,
+  submitVersion,
+  toPromptContent,
+  upsertPrompt,
+  validatePartialReferences,
+  validatePromptContent,
+  type PromptLayer,
+} from "../lib/prompt-store.js";
+import { lintPrompt, type LintInput, type LintResult } from "../lib/prompt-lint.js";
+import { listPartialReferences } from "../lib/template-engine.js";
+import { describeVariables, normalizeVariables } from "../lib/variable-schema.js";
+import {
+  UpsertPromptRequestSchema,
+  BulkUpsertPromptsRequestSchema,
+  RollbackPromptRequestSchema,
+  PromptVersionActionRequestSchema,
+  LintPromptRequestSchema,
+} from "../schemas.js";
 
 const router = Router();
 
+/**
+ * Find the prompt a read endpoint refers to. An explicit scope selects that
+ * layer; without one, the org override wins over the app default, as in
+ * POST /generate (which skips prompts not yet published, unless
+ * includeUnpublished is set).
+ */
+async function findPromptForRead(
+  req: AuthenticatedRequest,
+  appId: string,
+  type: string,
+  scope: PromptLayer | undefined,
+  { includeUnpublished = false }: { includeUnpublished?: boolean } = {}
+): Promise<Prompt | undefined> {
+  if (!scope) {
+    return resolvePrompt(db, appId, type, req.orgId!, { includeUnpublished });
+  }
+  return db.query.prompts.findFirst({
+    where: promptKey(appId, type, scope === "org" ? req.orgId! : null),
+  });
+}
+
+/**
+ * Lint a prompt against the app's partials, loading them only when included.
+ */
+async function lintWithPartials(appId: string, input: LintInput): Promise<LintResult> {
+  const templates = input.systemPrompt ? [input.systemPrompt, input.prompt] : [input.prompt];
+  const partials = templates.some((t) => listPartialReferences(t).length > 0)
+    ? await loadPartials(db, appId)
+    : {};
+  return lintPrompt(input, partials);
+}
+
+function isPromptLayer(value: unknown): value is PromptLayer {
+  return value === "app" || value === "org";
+}
+
+function serializePromptMetadata(result: Prompt) {
+  return {
+    id: result.id,
+    appId: result.appId,
+    type: result.type,
+    layer: layerOf(result),
+    variables: result.variables,
+    variableMode: result.variableMode,
+    version: result.version,
+    versionId: result.versionId,
+    createdAt: result.createdAt.toISOString(),
+    updatedAt: result.updatedAt.toISOString(),
+  };
+}
+
 /**
  * PUT /prompts — Upsert a prompt template for an app (idempotent)
+ * Every change authored by a user (x-clerk-user-id), a new prompt included,
+ * is stored as a draft version, which goes live only after submit + publish;
+ * re-sending identical content does not create a version. Without a user, a
+ * service registering its prompts at startup publishes prompts that have no
+ * live version yet (see bootstrapPrompt).
  */
 router.put("/prompts", serviceAuth, async (req: AuthenticatedRequest, res) => {
   try {
@@ -17,56 +101,364 @@ router.put("/prompts", serviceAuth, async (req: AuthenticatedRequest, res) => {
       return res.status(400).json({ error: parsed.error.issues.map((i) => i.message).join(", ") });
     }
 
-    const { appId, type, prompt, variables } = parsed.data;
+    const { appId, type, scope, lint, ...input } = parsed.data;
+    const content = toPromptContent(input);
+    const orgId = scope === "org" ? req.orgId! : null;
+    const author = { clerkOrgId: req.clerkOrgId, clerkUserId: req.clerkUserId };
 
-    // Upsert: insert or update on (appId, type) conflict
-    const existing = await db.query.prompts.findFirst({
-      where: and(eq(prompts.appId, appId), eq(prompts.type, type)),
-    });
+    const invalid = validatePromptContent(content) ?? (await validatePartialReferences(db, appId, content));
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    if (lint) {
+      const { valid, issues } = await lintWithPartials(appId, content);
+      if (!valid) {
+        const errors = issues.filter((i) => i.severity === "error");
+        return res.status(400).json({ error: `Prompt lint failed: ${errors.map((i) => i.message).join("; ")}`, issues });
+      }
+    }
+
+    const register = req.clerkUserId ? upsertPrompt : bootstrapPrompt;
+    const { prompt: result, draft } = await db.transaction((tx) =>
+      register(tx, { appId, type, orgId }, content, author)
+    );
+
+    res.json({ ...serializePromptMetadata(result), draftVersion: draft?.version ?? null });
+  } catch (error) {
+    if (error instanceof ReviewStateError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Upsert prompt error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
+
+/**
+ * POST /prompts/lint — Static checks on a template before it is registered.
+ * Always 200; `valid` is false when any issue is an error.
+ */
+router.post("/prompts/lint", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsed = LintPromptRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues.map((i) => i.message).join(", ") });
+    }
+
+    const { appId, variables, ...input } = parsed.data;
+
+    res.json(await lintWithPartials(appId, { ...input, ...normalizeVariables(variables) }));
+  } catch (error) {
+    console.error("Lint prompt error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
 
-    let result;
-    if (existing) {
-      [result] = await db
-        .update(prompts)
-        .set({ prompt, variables, updatedAt: new Date() })
-        .where(and(eq(prompts.appId, appId), eq(prompts.type, type)))
-        .returning();
-    } else {
-      [result] = await db
-        .insert(prompts)
-        .values({ appId, type, prompt, variables })
-        .returning();
+/**
+ * PUT /prompts/bulk — Register a full set of prompts for an app in one transaction,
+ * as drafts or, without x-clerk-user-id, published like PUT /prompts
+ */
+router.put("/prompts/bulk", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsed = BulkUpsertPromptsRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues.map((i) => i.message).join(", ") });
     }
 
+    const { appId, scope } = parsed.data;
+    const entries = parsed.data.prompts.map(({ type, ...input }) => ({ type, ...toPromptContent(input) }));
+    const orgId = scope === "org" ? req.orgId! : null;
+    const author = { clerkOrgId: req.clerkOrgId, clerkUserId: req.clerkUserId };
+
+    const seen = new Set<string>();
+    for (const { type, ...content } of entries) {
+      if (seen.has(type)) {
+        return res.status(400).json({ error: `Duplicate prompt type "${type}" in bulk request` });
+      }
+      seen.add(type);
+
+      const invalid = validatePromptContent(content) ?? (await validatePartialReferences(db, appId, content));
+      if (invalid) {
+        return res.status(400).json({ error: `type=${type}: ${invalid}` });
+      }
+    }
+
+    const register = req.clerkUserId ? upsertPrompt : bootstrapPrompt;
+    const results = await db.transaction(async (tx) => {
+      const out = [];
+      for (const { type, ...content } of entries) {
+        out.push(await register(tx, { appId, type, orgId }, content, author));
+      }
+      return out;
+    });
+
+    const typesWith = (status: string) =>
+      results.filter((r) => r.status === status).map((r) => r.prompt.type);
+
     res.json({
-      id: result.id,
-      appId: result.appId,
-      type: result.type,
-      variables: result.variables,
-      createdAt: result.createdAt.toISOString(),
-      updatedAt: result.updatedAt.toISOString(),
+      created: typesWith("created"),
+      updated: typesWith("updated"),
+      unchanged: typesWith("unchanged"),
+      prompts: results.map((r) => ({ ...serializePromptMetadata(r.prompt), draftVersion: r.draft?.version ?? null })),
     });
   } catch (error) {
-    console.error("Upsert prompt error:", error);
+    if (error instanceof ReviewStateError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Bulk upsert prompts error:", error);
     res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
   }
 });
 
 /**
- * GET /prompts?appId&type — Get a stored prompt template
+ * DELETE /prompts?appId&type&scope — Remove a prompt and its version history.
+ * Prompts whose versions generations were made with cannot be deleted.
  */
-router.get("/prompts", serviceAuth, async (req: AuthenticatedRequest, res) => {
+router.delete("/prompts", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { appId, type, scope = "app" } = req.query as { appId?: string; type?: string; scope?: string };
+
+    if (!appId || !type) {
+      return res.status(400).json({ error: "appId and type query params required" });
+    }
+    if (!isPromptLayer(scope)) {
+      return res.status(400).json({ error: "scope must be 'app' or 'org'" });
+    }
+
+    const deleted = await db.transaction(async (tx) => {
+      const stored = await tx.query.prompts.findFirst({
+        where: promptKey(appId, type, scope === "org" ? req.orgId! : null),
+      });
+      if (!stored) return undefined;
+      if (await hasGenerations(tx, stored.id)) return "referenced" as const;
+      const [row] = await tx.delete(prompts).where(eq(prompts.id, stored.id)).returning();
+      return row;
+    });
+
+    if (deleted === "referenced") {
+      return res.status(409).json({
+        error: `Generations were made with versions of appId=${appId}, type=${type}; it cannot be deleted`,
+      });
+    }
+    if (!deleted) {
+      return res.status(404).json({ error: `No prompt found for appId=${appId}, type=${type}` });
+    }
+
+    res.json({ deleted: true, id: deleted.id, appId, type, layer: layerOf(deleted) });
+  } catch (error) {
+    console.error("Delete prompt error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
+
+/**
+ * GET /prompts/versions?appId&type&scope — List the version history of a prompt (newest first)
+ */
+router.get("/prompts/versions", serviceAuth, async (req: AuthenticatedRequest, res) => {
   try {
-    const { appId, type } = req.query as { appId?: string; type?: string };
+    const { appId, type, scope } = req.query as { appId?: string; type?: string; scope?: string };
 
     if (!appId || !type) {
       return res.status(400).json({ error: "appId and type query params required" });
     }
+    if (scope !== undefined && !isPromptLayer(scope)) {
+      return res.status(400).json({ error: "scope must be 'app' or 'org'" });
+    }
+
+    const stored = await findPromptForRead(req, appId, type, scope, { includeUnpublished: true });
+
+    if (!stored) {
+      return res.status(404).json({ error: `No prompt found for appId=${appId}, type=${type}` });
+    }
+
+    const versions = await db.query.promptVersions.findMany({
+      where: eq(promptVersions.promptId, stored.id),
+      orderBy: desc(promptVersions.version),
+    });
+
+    res.json({
+      layer: layerOf(stored),
+      currentVersion: stored.version,
+      versions: versions.map(serializeVersion),
+    });
+  } catch (error) {
+    console.error("List prompt versions error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
+
+/**
+ * POST /prompts/rollback — Republish an older version as a new version.
+ * Only versions that were published before can be restored this way.
+ */
+router.post("/prompts/rollback", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsed = RollbackPromptRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues.map((i) => i.message).join(", ") });
+    }
+
+    if (!req.clerkUserId) {
+      return res.status(400).json({ error: "x-clerk-user-id header required to roll back a prompt" });
+    }
+
+    const { appId, type, scope, version } = parsed.data;
+    const author = { clerkOrgId: req.clerkOrgId, clerkUserId: req.clerkUserId };
+
+    const stored = await db.query.prompts.findFirst({
+      where: promptKey(appId, type, scope === "org" ? req.orgId! : null),
+    });
+
+    if (!stored) {
+      return res.status(404).json({ error: `No prompt found for appId=${appId}, type=${type}` });
+    }
+
+    const target = await findVersion(db, stored.id, version);
+
+    if (!target) {
+      return res.status(404).json({ error: `Version ${version} not found for appId=${appId}, type=${type}` });
+    }
+    if (target.status !== "published") {
+      return res.status(409).json({
+        error: `Version ${version} was never published. Publish it via POST /prompts/submit and POST /prompts/publish.`,
+      });
+    }
+
+    const { head } = await db.transaction((tx) =>
+      publishNewVersion(tx, stored.id, target, author, target.version)
+    );
+
+    res.json(serializePromptMetadata(head));
+  } catch (error) {
+    console.error("Rollback prompt error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
+
+/**
+ * POST /prompts/submit — Move a draft version to review
+ */
+router.post("/prompts/submit", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsed = PromptVersionActionRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues.map((i) => i.message).join(", ") });
+    }
+
+    if (!req.clerkUserId) {
+      return res.status(400).json({ error: "x-clerk-user-id header required to submit a prompt version" });
+    }
+
+    const { appId, type, scope, version } = parsed.data;
+
+    const stored = await db.query.prompts.findFirst({
+      where: promptKey(appId, type, scope === "org" ? req.orgId! : null),
+    });
+
+    if (!stored) {
+      return res.status(404).json({ error: `No prompt found for appId=${appId}, type=${type}` });
+    }
+
+    const target = await findVersion(db, stored.id, version);
+
+    if (!target) {
+      return res.status(404).json({ error: `Version ${version} not found for appId=${appId}, type=${type}` });
+    }
+    if (target.status !== "draft") {
+      return res.status(409).json({ error: `Version ${version} is ${target.status}, not a draft` });
+    }
+
+    const submitted = await submitVersion(db, target, { clerkOrgId: req.clerkOrgId, clerkUserId: req.clerkUserId });
+
+    res.json(serializeVersion(submitted));
+  } catch (error) {
+    if (error instanceof ReviewStateError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Submit prompt version error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
+
+/**
+ * POST /prompts/publish — Approve a version in review and make it live.
+ * The approver must be a named user other than the version's author; the
+ * version's state is checked again under lock (see publishVersion).
+ */
+router.post("/prompts/publish", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsed = PromptVersionActionRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues.map((i) => i.message).join(", ") });
+    }
+
+    if (!req.clerkUserId) {
+      return res.status(400).json({ error: "x-clerk-user-id header required to approve a prompt version" });
+    }
 
-    const result = await db.query.prompts.findFirst({
-      where: and(eq(prompts.appId, appId), eq(prompts.type, type)),
+    const { appId, type, scope, version } = parsed.data;
+
+    const stored = await db.query.prompts.findFirst({
+      where: promptKey(appId, type, scope === "org" ? req.orgId! : null),
     });
 
+    if (!stored) {
+      return res.status(404).json({ error: `No prompt found for appId=${appId}, type=${type}` });
+    }
+
+    const target = await findVersion(db, stored.id, version);
+
+    if (!target) {
+      return res.status(404).json({ error: `Version ${version} not found for appId=${appId}, type=${type}` });
+    }
+
+    const { version: published } = await db.transaction((tx) =>
+      publishVersion(tx, target, { clerkOrgId: req.clerkOrgId, clerkUserId: req.clerkUserId })
+    );
+
+    res.json(serializeVersion(published));
+  } catch (error) {
+    if (error instanceof ReviewStateError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Publish prompt version error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
+
+/**
+ * GET /prompts?appId&type&scope — Get a stored prompt template.
+ * Without scope, returns the layer POST /generate would use for the caller's org.
+ * Without type, lists the app's prompts (app defaults + the caller's org overrides).
+ */
+router.get("/prompts", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { appId, type, scope } = req.query as { appId?: string; type?: string; scope?: string };
+
+    if (!appId) {
+      return res.status(400).json({ error: "appId query param required" });
+    }
+    if (scope !== undefined && !isPromptLayer(scope)) {
+      return res.status(400).json({ error: "scope must be 'app' or 'org'" });
+    }
+
+    if (!type) {
+      const layerCondition: SQL = scope === "app"
+        ? isNull(prompts.orgId)
+        : scope === "org"
+          ? eq(prompts.orgId, req.orgId!)
+          : or(isNull(prompts.orgId), eq(prompts.orgId, req.orgId!))!;
+
+      const rows = await db.query.prompts.findMany({
+        where: and(eq(prompts.appId, appId), layerCondition),
+        orderBy: [asc(prompts.type), sql`${prompts.orgId} IS NOT NULL`],
+      });
+
+      return res.json({ prompts: rows.map(serializePromptMetadata) });
+    }
+
+    const result = await findPromptForRead(req, appId, type, scope);
+
     if (!result) {
       return res.status(404).json({ error: `No prompt found for appId=${appId}, type=${type}` });
     }
@@ -75,8 +467,17 @@ router.get("/prompts", serviceAuth, async (req: AuthenticatedRequest, res) => {
       id: result.id,
       appId: result.appId,
       type: result.type,
+      layer: layerOf(result),
       prompt: result.prompt,
+      systemPrompt: result.systemPrompt,
+      outputSchema: result.outputSchema,
+      settings: result.settings,
+      sequenceConfig: result.sequenceConfig,
       variables: result.variables,
+      variableSchema: describeVariables(result),
+      variableMode: result.variableMode,
+      version: result.version,
+      versionId: result.versionId,
       createdAt: result.createdAt.toISOString(),
       updatedAt: result.updatedAt.toISOString(),
     });
@@ -25,7 +25,7 @@ router.post("/stats/by-model", async (req, res) => {
       return res.status(400).json({ error: "At least one filter required: runIds, clerkOrgId, appId, brandId, or campaignId" });
     }
 
-    const conditions: SQL[] = [];
+    const conditions: SQL[] = [eq(emailGenerations.rejected, false)];
     if (hasRunIds) conditions.push(inArray(emailGenerations.runId, runIds!));
     if (appId) conditions.push(eq(emailGenerations.appId, appId));
     if (brandId) conditions.push(eq(emailGenerations.brandId, brandId));
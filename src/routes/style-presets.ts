@@ -0,0 +1,98 @@
+import { Router } from "express";
+import { and, asc, eq } from "drizzle-orm";
+import { db } from "../db/index.js";
+import { stylePresets, type StylePreset } from "../db/schema.js";
+import { serviceAuth, AuthenticatedRequest } from "../middleware/auth.js";
+import { upsertStylePreset } from "../lib/style-presets.js";
+import { UpsertStylePresetRequestSchema } from "../schemas.js";
+
+const router = Router();
+
+function serializePreset(preset: StylePreset) {
+  return {
+    id: preset.id,
+    appId: preset.appId,
+    name: preset.name,
+    description: preset.description,
+    tone: preset.tone,
+    opener: preset.opener,
+    maxWords: preset.maxWords,
+    rules: preset.rules,
+    createdAt: preset.createdAt.toISOString(),
+    updatedAt: preset.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * PUT /style-presets — Create or replace a named style preset for an app.
+ * Callers pick it with `style` on POST /generate.
+ */
+router.put("/style-presets", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsed = UpsertStylePresetRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues.map((i) => i.message).join(", ") });
+    }
+
+    const { appId, name, ...input } = parsed.data;
+    const { preset, status } = await upsertStylePreset(db, appId, name, input);
+
+    res.json({ ...serializePreset(preset), status });
+  } catch (error) {
+    console.error("Upsert style preset error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
+
+/**
+ * GET /style-presets?appId — List an app's style presets
+ */
+router.get("/style-presets", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { appId } = req.query as { appId?: string };
+
+    if (!appId) {
+      return res.status(400).json({ error: "appId query param required" });
+    }
+
+    const presets = await db.query.stylePresets.findMany({
+      where: eq(stylePresets.appId, appId),
+      orderBy: asc(stylePresets.name),
+    });
+
+    res.json({ presets: presets.map(serializePreset) });
+  } catch (error) {
+    console.error("List style presets error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
+
+/**
+ * DELETE /style-presets?appId&name — Remove a style preset. Generations keep
+ * the name they were made with.
+ */
+router.delete("/style-presets", serviceAuth, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { appId, name } = req.query as { appId?: string; name?: string };
+
+    if (!appId || !name) {
+      return res.status(400).json({ error: "appId and name query params required" });
+    }
+
+    const [deleted] = await db
+      .delete(stylePresets)
+      .where(and(eq(stylePresets.appId, appId), eq(stylePresets.name, name)))
+      .returning();
+
+    if (!deleted) {
+      return res.status(404).json({ error: `No style preset "${name}" found for appId=${appId}` });
+    }
+
+    res.json({ deleted: true, id: deleted.id, appId, name });
+  } catch (error) {
+    console.error("Delete style preset error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Internal server error" });
+  }
+});
+
+export default router;
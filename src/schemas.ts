@@ -4,6 +4,18 @@ import {
   OpenAPIRegistry,
 } from "@asteasolutions/zod-to-openapi";
 
+import { MODEL_IDS, MAX_TOKENS_LIMIT } from "./lib/models.js";
+import { MAX_CANDIDATES, MAX_GENERATION_CALLS } from "./lib/candidates.js";
+import {
+  DEFAULT_MAX_ATTEMPTS,
+  MAX_CHECK_ATTEMPTS,
+  MAX_POLICY_ATTEMPTS,
+  validatePolicyRule,
+  type PolicyRule,
+} from "./lib/content-policy.js";
+import { MAX_SEQUENCE_STEPS } from "./lib/sequence.js";
+import { isValidLocale } from "./lib/locale.js";
+
 extendZodWithOpenApi(z);
 
 export const registry = new OpenAPIRegistry();
@@ -53,14 +65,191 @@ registry.registerPath({
 // ---------------------------------------------------------------------------
 // PUT /prompts — Upsert a prompt template for an app
 // ---------------------------------------------------------------------------
+const PromptScopeSchema = z
+  .enum(["app", "org"])
+  .describe("app: the app-level default. org: an override used only for the calling org (x-clerk-org-id).");
+
+const PromptLayerSchema = z
+  .enum(["app", "org"])
+  .describe("Which layer the prompt was resolved from");
+
+const VariableModeSchema = z
+  .enum(["strict", "lenient"])
+  .describe("strict: POST /generate rejects missing, unexpected or empty variables with 422. lenient: issues are only logged.");
+
+const VariableTypeSchema = z.enum(["string", "number", "string[]", "object"]);
+
+const VariableSpecSchema = registry.register(
+  "VariableSpec",
+  z
+    .object({
+      name: z.string().regex(/^[A-Za-z0-9_][A-Za-z0-9_-]*$/, "Variable names may only contain letters, digits, _ and -"),
+      type: VariableTypeSchema.optional().describe(
+        "Defaults to string. POST /generate converts numbers to strings, numeric strings to numbers and a single " +
+        "string to a one-item string[], and rejects other mismatches with 422"
+      ),
+      required: z.boolean().optional().describe(
+        "Unset: required unless the template only uses the variable conditionally or with a default filter"
+      ),
+      default: z.unknown().optional().describe("Used when the variable is not supplied or null; must match type"),
+      maxLength: z.number().int().positive().optional().describe(
+        "Maximum characters of a string, or of each item of a string[]"
+      ),
+      description: z.string().optional(),
+    })
+    .openapi("VariableSpec")
+);
+
+const DescribedVariableSchema = VariableSpecSchema.extend({
+  type: VariableTypeSchema,
+  required: z.boolean().describe("Whether POST /generate reports the variable as missing when it is not supplied"),
+});
+
+const GenerationSettingsSchema = registry.register(
+  "GenerationSettings",
+  z
+    .object({
+      model: z.enum(MODEL_IDS).optional(),
+      maxTokens: z.number().int().min(1).max(MAX_TOKENS_LIMIT).optional(),
+      temperature: z.number().min(0).max(1).optional(),
+      topP: z.number().gt(0).max(1).optional(),
+      stopSequences: z.array(z.string().min(1)).optional().describe(
+        "Only used by free-text endpoints (POST /generate/content, POST /generate/calendar); ignored with structured JSON output, " +
+        "which stopping early would cut short"
+      ),
+    })
+    .refine((s) => s.temperature === undefined || s.topP === undefined, {
+      message: "Set either temperature or topP, not both",
+    })
+    .describe(
+      "Claude settings. Request settings override the prompt's, which override the defaults " +
+      "(claude-sonnet-4-6, endpoint-specific maxTokens). Setting temperature or topP replaces both."
+    )
+    .openapi("GenerationSettings")
+);
+
+const LocaleSchema = z
+  .string()
+  .refine(isValidLocale, { message: "locale must be a BCP 47 language tag, e.g. de or pt-BR" })
+  .describe(
+    "BCP 47 language tag, e.g. de or pt-BR. Claude writes natively in that language with local greetings, " +
+    "keeping {{placeholder}} tokens intact. Stored on the generation in canonical form"
+  )
+  .openapi("Locale");
+
+const ThreadModeSchema = z
+  .enum(["reply", "new"])
+  .describe("reply continues the previous email's thread; new starts a thread with its own subject line")
+  .openapi("ThreadMode");
+
+const ReadabilityLimitsSchema = registry.register(
+  "ReadabilityLimits",
+  z
+    .object({
+      maxWords: z.number().int().min(1).optional(),
+      maxSentences: z.number().int().min(1).optional(),
+      maxAvgSentenceLength: z.number().min(1).optional().describe("Words per sentence, on average"),
+      minReadingEase: z.number().min(0).max(100).optional().describe(
+        "Flesch reading ease, 0 to 100. Only checked for English (no locale or an en-* one): the formula counts English syllables"
+      ),
+    })
+    .describe("Length and readability limits of an email; unset ones are not checked")
+    .openapi("ReadabilityLimits")
+);
+
+const SequenceConfigSchema = registry.register(
+  "SequenceConfig",
+  z
+    .object({
+      steps: z
+        .array(
+          z.object({
+            daysSinceLastStep: z.number().int().min(0).max(365),
+            threadMode: ThreadModeSchema.optional().describe("Follow-ups default to reply"),
+            limits: ReadabilityLimitsSchema.optional().describe("Overrides the sequence's limits for this email"),
+          })
+        )
+        .min(1)
+        .max(MAX_SEQUENCE_STEPS),
+      limits: ReadabilityLimitsSchema.optional().describe("Limits of every email"),
+      onLimitViolation: z.enum(["rewrite", "reject"]).optional().describe(
+        "rewrite (default) regenerates a sequence with a step outside its limits, with the violations fed back, " +
+        `up to ${MAX_CHECK_ATTEMPTS} attempts in total whatever the content policy allows; reject stores the generation as rejected, tracks its costs and ` +
+        "fails the request with 422"
+      ),
+    })
+    .refine((c) => (c.steps[0]?.daysSinceLastStep ?? 0) === 0, {
+      message: "The first step must have daysSinceLastStep 0",
+    })
+    .refine((c) => c.steps.slice(1).every((s) => s.daysSinceLastStep >= 1), {
+      message: "Follow-up steps must have daysSinceLastStep of at least 1",
+    })
+    .refine((c) => c.steps[0]?.threadMode !== "reply", {
+      message: "The first step starts the thread; its threadMode cannot be reply",
+    })
+    .describe(
+      `Emails in the sequence (1 to ${MAX_SEQUENCE_STEPS}) and the days each waits after the previous one. ` +
+      "The output schema has body plus followup1..followupN (and followupNSubject for new-thread follow-ups), " +
+      "and the built-in system prompt describes each step. " +
+      "A request's sequenceConfig replaces the prompt's; the default is 3 emails at days 0, 3 and 7"
+    )
+    .openapi("SequenceConfig")
+);
+
+const LintIssueSchema = registry.register(
+  "LintIssue",
+  z
+    .object({
+      severity: z.enum(["error", "warning"]),
+      code: z.enum([
+        "invalid_template",
+        "unbalanced_braces",
+        "not_an_expression",
+        "single_braces",
+        "unmatched_block",
+        "undeclared_variable",
+        "unused_variable",
+        "lead_variable_name",
+      ]),
+      message: z.string(),
+      field: z.enum(["prompt", "systemPrompt"]).optional(),
+      line: z.number().optional(),
+      variable: z.string().optional(),
+    })
+    .openapi("LintIssue")
+);
+
 export const UpsertPromptRequestSchema = registry.register(
   "UpsertPromptRequest",
   z
     .object({
       appId: z.string(),
       type: z.string().describe("Prompt type, e.g. 'email' or 'calendar'"),
-      prompt: z.string().describe("Prompt template text with {{variable}} placeholders"),
-      variables: z.array(z.string()).describe("List of expected variable names used in the prompt"),
+      prompt: z.string().describe(
+        "Prompt template text. Supports {{variable}} placeholders, {{#if var}}...{{else}}...{{/if}}, {{#unless var}}, " +
+        "{{#each list}}{{this}}{{/each}} loops and filters such as {{var | default: \"there\"}}, upper, lower, capitalize, " +
+        "trim, truncate: 40, join: \", \", first, last and json. {{> name}} includes a partial registered via PUT /prompts/partials"
+      ),
+      variables: z
+        .array(z.union([z.string(), VariableSpecSchema]))
+        .describe("Expected variables: bare names (untyped strings) or typed declarations"),
+      variableMode: VariableModeSchema.optional().default("lenient"),
+      systemPrompt: z.string().min(1).nullable().optional().describe(
+        "System prompt template, with the same syntax and variables as prompt. " +
+        "Omit or null to use the built-in cold outreach persona, which describes the sequenceConfig steps"
+      ),
+      outputSchema: z.record(z.string(), z.unknown()).nullable().optional().describe(
+        "JSON Schema (root type object) Claude's output must match; returned as `output` by POST /generate. " +
+        "Omit or null to generate the email sequence (subject, body, followup1, ...)"
+      ),
+      settings: GenerationSettingsSchema.nullable().optional(),
+      sequenceConfig: SequenceConfigSchema.nullable().optional().describe(
+        "Length and cadence of the email sequence. Not allowed with an outputSchema"
+      ),
+      scope: PromptScopeSchema.optional().default("app"),
+      lint: z.boolean().optional().default(false).describe(
+        "Run the POST /prompts/lint checks first and reject the prompt if any is an error"
+      ),
     })
     .openapi("UpsertPromptRequest")
 );
@@ -72,40 +261,1316 @@ const UpsertPromptResponseSchema = registry.register(
       id: z.string(),
       appId: z.string(),
       type: z.string(),
+      layer: PromptLayerSchema,
       variables: z.array(z.string()),
+      variableMode: VariableModeSchema,
+      version: z.number().describe("Live version number; 0 until a version is published"),
+      versionId: z.string().nullable().describe("Live prompt version ID; null until a version is published"),
+      draftVersion: z.number().nullable().optional().describe(
+        "Draft version holding the submitted change; null when nothing changed. Submit it via POST /prompts/submit"
+      ),
+      createdAt: z.string(),
+      updatedAt: z.string(),
+    })
+    .openapi("UpsertPromptResponse")
+);
+
+registry.registerPath({
+  method: "put",
+  path: "/prompts",
+  tags: ["Prompts"],
+  summary: "Register or update a prompt template for an app (idempotent)",
+  description:
+    "Every change, including the first registration of a prompt, is stored as a draft version authored by x-clerk-user-id; " +
+    "the live prompt is unchanged until the draft is submitted (POST /prompts/submit) and approved (POST /prompts/publish). " +
+    "A prompt with no published version is not served by POST /generate. " +
+    "Re-sending content identical to the live version or the latest draft does not create a version. " +
+    "Without x-clerk-user-id (a service registering its prompts at startup), a prompt with no live version is published " +
+    "directly; changing a live one is refused with 409.",
+  request: {
+    headers: z.object({
+      "x-clerk-org-id": z.string(),
+      "x-clerk-user-id": z.string().optional().describe("Author of the draft; omitted by services registering at startup"),
+    }),
+    body: {
+      required: true,
+      content: { "application/json": { schema: UpsertPromptRequestSchema } },
+    },
+  },
+  responses: {
+    200: {
+      description: "Prompt upserted",
+      content: { "application/json": { schema: UpsertPromptResponseSchema } },
+    },
+    400: {
+      description: "Invalid request, unknown partial include, or lint errors (with lint: true)",
+      content: {
+        "application/json": {
+          schema: ErrorResponseSchema.extend({ issues: z.array(LintIssueSchema).optional() }),
+        },
+      },
+    },
+    409: {
+      description: "Change to a live prompt without x-clerk-user-id",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+// ---------------------------------------------------------------------------
+// POST /prompts/lint — Static analysis of a template before registering it
+// ---------------------------------------------------------------------------
+export const LintPromptRequestSchema = registry.register(
+  "LintPromptRequest",
+  UpsertPromptRequestSchema.pick({ appId: true, prompt: true, systemPrompt: true, variables: true })
+    .describe("appId selects the partials {{> name}} includes resolve against")
+    .openapi("LintPromptRequest")
+);
+
+const LintPromptResponseSchema = registry.register(
+  "LintPromptResponse",
+  z
+    .object({
+      valid: z.boolean().describe("False when any issue is an error"),
+      issues: z.array(LintIssueSchema),
+      placeholders: z.array(z.string()).describe("Variables the templates reference, partials included"),
+      estimatedTokens: z.number().describe("Rough size of the system + user templates before substitution (~4 chars/token)"),
+    })
+    .openapi("LintPromptResponse")
+);
+
+registry.registerPath({
+  method: "post",
+  path: "/prompts/lint",
+  tags: ["Prompts"],
+  summary: "Check a prompt template before registering it",
+  description:
+    "Flags placeholders missing from variables (error), declared variables never used (warning), unbalanced or " +
+    "unsubstituted braces, and lead variable names /generate does not record, e.g. leadIndustry instead of " +
+    "leadCompanyIndustry (warning). Nothing is stored.",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string() }),
+    body: {
+      required: true,
+      content: { "application/json": { schema: LintPromptRequestSchema } },
+    },
+  },
+  responses: {
+    200: {
+      description: "Lint result",
+      content: { "application/json": { schema: LintPromptResponseSchema } },
+    },
+    400: {
+      description: "Invalid request",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+// ---------------------------------------------------------------------------
+// PUT /prompts/bulk — Register a full set of prompts atomically
+// ---------------------------------------------------------------------------
+export const BulkUpsertPromptsRequestSchema = registry.register(
+  "BulkUpsertPromptsRequest",
+  z
+    .object({
+      appId: z.string(),
+      scope: PromptScopeSchema.optional().default("app"),
+      prompts: z.array(UpsertPromptRequestSchema.omit({ appId: true, scope: true, lint: true })).min(1),
+    })
+    .openapi("BulkUpsertPromptsRequest")
+);
+
+const BulkUpsertPromptsResponseSchema = registry.register(
+  "BulkUpsertPromptsResponse",
+  z
+    .object({
+      created: z.array(z.string()).describe("Prompt types registered for the first time"),
+      updated: z.array(z.string()).describe("Prompt types whose content changed (new draft version created)"),
+      unchanged: z.array(z.string()).describe("Prompt types whose content was identical"),
+      prompts: z.array(UpsertPromptResponseSchema),
+    })
+    .openapi("BulkUpsertPromptsResponse")
+);
+
+registry.registerPath({
+  method: "put",
+  path: "/prompts/bulk",
+  tags: ["Prompts"],
+  summary: "Register a full set of prompts for an app in one transaction",
+  description:
+    "Either every prompt is stored or none is, as drafts awaiting review like PUT /prompts. Intended for app startup: " +
+    "without x-clerk-user-id, prompts with no live version are published directly, and the set is refused with 409 " +
+    "if it changes a live one.",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string(), "x-clerk-user-id": z.string().optional() }),
+    body: {
+      required: true,
+      content: { "application/json": { schema: BulkUpsertPromptsRequestSchema } },
+    },
+  },
+  responses: {
+    200: {
+      description: "Prompts registered",
+      content: { "application/json": { schema: BulkUpsertPromptsResponseSchema } },
+    },
+    400: {
+      description: "Invalid request, duplicate type, invalid template or unknown partial include",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    409: {
+      description: "Change to a live prompt without x-clerk-user-id",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+// ---------------------------------------------------------------------------
+// DELETE /prompts — Remove a prompt
+// ---------------------------------------------------------------------------
+const DeletePromptResponseSchema = registry.register(
+  "DeletePromptResponse",
+  z
+    .object({
+      deleted: z.boolean(),
+      id: z.string(),
+      appId: z.string(),
+      type: z.string(),
+      layer: PromptLayerSchema,
+    })
+    .openapi("DeletePromptResponse")
+);
+
+registry.registerPath({
+  method: "delete",
+  path: "/prompts",
+  tags: ["Prompts"],
+  summary: "Delete a prompt and its version history",
+  description: "Refused while any generation references one of the prompt's versions.",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string() }),
+    query: z.object({
+      appId: z.string(),
+      type: z.string(),
+      scope: PromptScopeSchema.optional().describe("Layer to delete. Defaults to app."),
+    }),
+  },
+  responses: {
+    200: {
+      description: "Prompt deleted",
+      content: { "application/json": { schema: DeletePromptResponseSchema } },
+    },
+    400: {
+      description: "Missing query params",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Prompt not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    409: {
+      description: "Generations were made with the prompt's versions, which must stay traceable",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+// ---------------------------------------------------------------------------
+// GET /prompts — Get the prompt template an org resolves to
+// ---------------------------------------------------------------------------
+const PromptResponseSchema = registry.register(
+  "PromptResponse",
+  z
+    .object({
+      id: z.string(),
+      appId: z.string(),
+      type: z.string(),
+      layer: PromptLayerSchema,
+      prompt: z.string(),
+      systemPrompt: z.string().nullable().describe("null = built-in cold outreach persona"),
+      outputSchema: z.record(z.string(), z.unknown()).nullable().describe("null = email sequence schema"),
+      settings: GenerationSettingsSchema.nullable(),
+      sequenceConfig: SequenceConfigSchema.nullable().describe("null = 3 emails at days 0, 3 and 7"),
+      variables: z.array(z.string()).describe("Declared variable names"),
+      variableSchema: z.array(DescribedVariableSchema).describe(
+        "Every declared or referenced variable with its type and whether it is required, for building input forms"
+      ),
+      variableMode: VariableModeSchema,
+      version: z.number(),
+      versionId: z.string().nullable(),
       createdAt: z.string(),
       updatedAt: z.string(),
     })
-    .openapi("UpsertPromptResponse")
+    .openapi("PromptResponse")
+);
+
+const PromptListResponseSchema = registry.register(
+  "PromptListResponse",
+  z
+    .object({
+      prompts: z.array(UpsertPromptResponseSchema),
+    })
+    .openapi("PromptListResponse")
+);
+
+registry.registerPath({
+  method: "get",
+  path: "/prompts",
+  tags: ["Prompts"],
+  summary: "Get a prompt template, or list an app's prompts",
+  description:
+    "With type: returns the org override if the calling org has one, otherwise the app default (unless scope is set). " +
+    "Without type: lists the app's prompts (metadata only) — app defaults plus the calling org's overrides.",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string() }),
+    query: z.object({
+      appId: z.string(),
+      type: z.string().optional(),
+      scope: PromptScopeSchema.optional(),
+    }),
+  },
+  responses: {
+    200: {
+      description: "Prompt template (with type) or prompt list (without type)",
+      content: { "application/json": { schema: z.union([PromptResponseSchema, PromptListResponseSchema]) } },
+    },
+    400: {
+      description: "Missing query params",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Prompt not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+// ---------------------------------------------------------------------------
+// GET /prompts/versions — List the version history of a prompt
+// ---------------------------------------------------------------------------
+const VersionStatusSchema = z
+  .enum(["draft", "in_review", "published"])
+  .describe("Only published versions are served by POST /generate. Earlier published versions keep the status.")
+  .openapi("VersionStatus");
+
+const PromptVersionSchema = registry.register(
+  "PromptVersion",
+  z
+    .object({
+      id: z.string(),
+      promptId: z.string(),
+      version: z.number(),
+      prompt: z.string(),
+      variables: z.array(z.string()),
+      variableSchema: z.array(VariableSpecSchema).nullable().describe("Typed declarations; null when registered as bare names"),
+      variableMode: VariableModeSchema,
+      systemPrompt: z.string().nullable(),
+      outputSchema: z.record(z.string(), z.unknown()).nullable(),
+      settings: GenerationSettingsSchema.nullable(),
+      sequenceConfig: SequenceConfigSchema.nullable(),
+      variants: z
+        .array(z.object({ name: z.string(), prompt: z.string(), weight: z.number() }))
+        .nullable()
+        .describe("A/B variant set served with this version; null for versions from before variants were versioned"),
+      authorClerkOrgId: z.string().nullable(),
+      authorClerkUserId: z.string().nullable(),
+      rolledBackFromVersion: z.number().nullable().describe("Set when this version republished an older one"),
+      status: VersionStatusSchema,
+      submittedAt: z.string().nullable(),
+      submittedByClerkUserId: z.string().nullable(),
+      approvedByClerkOrgId: z.string().nullable(),
+      approvedByClerkUserId: z.string().nullable().describe("Null for rollbacks and versions from before review"),
+      publishedAt: z.string().nullable(),
+      createdAt: z.string(),
+    })
+    .openapi("PromptVersion")
+);
+
+const PromptVersionsResponseSchema = registry.register(
+  "PromptVersionsResponse",
+  z
+    .object({
+      layer: PromptLayerSchema,
+      currentVersion: z.number(),
+      versions: z.array(PromptVersionSchema),
+    })
+    .openapi("PromptVersionsResponse")
+);
+
+registry.registerPath({
+  method: "get",
+  path: "/prompts/versions",
+  tags: ["Prompts"],
+  summary: "List the version history of a prompt (newest first)",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string() }),
+    query: z.object({
+      appId: z.string(),
+      type: z.string(),
+      scope: PromptScopeSchema.optional().describe("Layer to read. Defaults to the layer POST /generate would resolve."),
+    }),
+  },
+  responses: {
+    200: {
+      description: "Prompt versions",
+      content: { "application/json": { schema: PromptVersionsResponseSchema } },
+    },
+    400: {
+      description: "Missing query params",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Prompt not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+// ---------------------------------------------------------------------------
+// POST /prompts/rollback — Republish an older prompt version
+// ---------------------------------------------------------------------------
+export const RollbackPromptRequestSchema = registry.register(
+  "RollbackPromptRequest",
+  z
+    .object({
+      appId: z.string(),
+      type: z.string(),
+      scope: PromptScopeSchema.optional().default("app"),
+      version: z.number().int().positive().describe("Version number to republish; must have been published"),
+    })
+    .openapi("RollbackPromptRequest")
+);
+
+registry.registerPath({
+  method: "post",
+  path: "/prompts/rollback",
+  tags: ["Prompts"],
+  summary: "Republish an older prompt version",
+  description:
+    "Copies the target version into a new version and makes it live without review, since its content was approved before. " +
+    "History is never rewritten.",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string(), "x-clerk-user-id": z.string() }),
+    body: {
+      required: true,
+      content: { "application/json": { schema: RollbackPromptRequestSchema } },
+    },
+  },
+  responses: {
+    200: {
+      description: "Prompt rolled back",
+      content: { "application/json": { schema: UpsertPromptResponseSchema } },
+    },
+    400: {
+      description: "Invalid request",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Prompt or version not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    409: {
+      description: "The version was never published",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+// ---------------------------------------------------------------------------
+// POST /prompts/submit, POST /prompts/publish — Draft review and approval
+// ---------------------------------------------------------------------------
+export const PromptVersionActionRequestSchema = registry.register(
+  "PromptVersionActionRequest",
+  z
+    .object({
+      appId: z.string(),
+      type: z.string(),
+      scope: PromptScopeSchema.optional().default("app"),
+      version: z.number().int().positive().describe("Version number, as returned in draftVersion by PUT /prompts"),
+    })
+    .openapi("PromptVersionActionRequest")
+);
+
+registry.registerPath({
+  method: "post",
+  path: "/prompts/submit",
+  tags: ["Prompts"],
+  summary: "Submit a draft prompt version for review",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string(), "x-clerk-user-id": z.string() }),
+    body: {
+      required: true,
+      content: { "application/json": { schema: PromptVersionActionRequestSchema } },
+    },
+  },
+  responses: {
+    200: {
+      description: "Version is in review",
+      content: { "application/json": { schema: PromptVersionSchema } },
+    },
+    400: {
+      description: "Invalid request, or no x-clerk-user-id header",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Prompt or version not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    409: {
+      description: "The version is not a draft",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/prompts/publish",
+  tags: ["Prompts"],
+  summary: "Approve a prompt version in review and make it live",
+  description:
+    "Records the caller as approver. The approver must be identified by x-clerk-user-id and must not be the version's author.",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string(), "x-clerk-user-id": z.string() }),
+    body: {
+      required: true,
+      content: { "application/json": { schema: PromptVersionActionRequestSchema } },
+    },
+  },
+  responses: {
+    200: {
+      description: "Version published",
+      content: { "application/json": { schema: PromptVersionSchema } },
+    },
+    400: {
+      description: "Invalid request or missing x-clerk-user-id",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "The approver is the version's author, or the version has no recorded author",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Prompt or version not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    409: {
+      description:
+        "The version is not in review, is older than the live version, or includes a partial that is not published",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+// ---------------------------------------------------------------------------
+// PUT /prompts/variants — A/B experiment variants of a prompt
+// ---------------------------------------------------------------------------
+export const UpsertPromptVariantsRequestSchema = registry.register(
+  "UpsertPromptVariantsRequest",
+  z
+    .object({
+      appId: z.string(),
+      type: z.string(),
+      scope: PromptScopeSchema.optional().default("app"),
+      variants: z
+        .array(
+          z.object({
+            name: z.string().min(1).describe("Stable variant name, e.g. 'control' or 'short-opener'"),
+            prompt: z.string().describe("Template served instead of the prompt's own template"),
+            weight: z.number().int().min(0).describe("Relative traffic weight"),
+          })
+        )
+        .max(20)
+        .describe(
+          "Full variant set. Replaces any existing variants once published; an empty list ends the experiment. " +
+            "Variants keep their id while their name stays in the set."
+        ),
+    })
+    .openapi("UpsertPromptVariantsRequest")
+);
+
+const PromptVariantsResponseSchema = registry.register(
+  "PromptVariantsResponse",
+  z
+    .object({
+      promptId: z.string(),
+      version: z.number().describe("Live version of the prompt, which snapshots the live variant set"),
+      draftVersion: z.number().nullable().optional().describe(
+        "Draft version holding the changed set; null when nothing changed. Submit it via POST /prompts/submit"
+      ),
+      variants: z.array(
+        z.object({
+          id: z.string(),
+          name: z.string(),
+          prompt: z.string(),
+          weight: z.number(),
+          trafficShare: z.number().describe("weight / sum of weights"),
+          createdAt: z.string(),
+        })
+      ),
+    })
+    .openapi("PromptVariantsResponse")
+);
+
+registry.registerPath({
+  method: "put",
+  path: "/prompts/variants",
+  tags: ["Prompts"],
+  summary: "Replace the A/B variant set of a prompt",
+  description:
+    "While variants exist, POST /generate serves one of them instead of the prompt template. " +
+    "The variant is picked deterministically per lead by hashing apolloEnrichmentId (falling back to idempotencyKey, then runId). " +
+    "A changed set is stored as a draft version of the prompt, and served once submitted and published like PUT /prompts. " +
+    "With a draft already pending, the new draft is that draft with the variant set replaced. " +
+    "The response lists the live variants.",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string(), "x-clerk-user-id": z.string() }),
+    body: {
+      required: true,
+      content: { "application/json": { schema: UpsertPromptVariantsRequestSchema } },
+    },
+  },
+  responses: {
+    200: {
+      description: "Variants saved",
+      content: { "application/json": { schema: PromptVariantsResponseSchema } },
+    },
+    400: {
+      description: "Invalid request, missing x-clerk-user-id, duplicate name, invalid template or unknown partial include",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Prompt not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/prompts/variants",
+  tags: ["Prompts"],
+  summary: "List the A/B variants of a prompt",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string() }),
+    query: z.object({
+      appId: z.string(),
+      type: z.string(),
+      scope: PromptScopeSchema.optional().describe("Defaults to app"),
+    }),
+  },
+  responses: {
+    200: {
+      description: "Prompt variants",
+      content: { "application/json": { schema: PromptVariantsResponseSchema } },
+    },
+    404: {
+      description: "Prompt not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+// ---------------------------------------------------------------------------
+// /prompts/partials — Shared snippets included as {{> name}}
+// ---------------------------------------------------------------------------
+export const UpsertPromptPartialRequestSchema = registry.register(
+  "UpsertPromptPartialRequest",
+  z
+    .object({
+      appId: z.string(),
+      name: z
+        .string()
+        .regex(/^[A-Za-z0-9_][A-Za-z0-9_.-]*$/, "Partial name may only contain letters, digits, _, . and -")
+        .describe("Included in prompts as {{> name}}"),
+      content: z.string().describe("Template text; may use variables, blocks and other partials"),
+    })
+    .openapi("UpsertPromptPartialRequest")
+);
+
+const PromptPartialSchema = registry.register(
+  "PromptPartial",
+  z
+    .object({
+      id: z.string(),
+      appId: z.string(),
+      name: z.string(),
+      content: z.string().nullable().describe("Published content included in prompts; null until the first draft is approved"),
+      draftContent: z.string().nullable().describe("Pending change, not yet included in prompts"),
+      draftStatus: z.enum(["draft", "in_review"]).nullable(),
+      draftAuthorClerkUserId: z.string().nullable(),
+      draftSubmittedAt: z.string().nullable(),
+      approvedByClerkUserId: z.string().nullable().describe("Approver of the published content"),
+      publishedAt: z.string().nullable(),
+      createdAt: z.string(),
+      updatedAt: z.string(),
+    })
+    .openapi("PromptPartial")
+);
+
+export const PromptPartialActionRequestSchema = registry.register(
+  "PromptPartialActionRequest",
+  z
+    .object({
+      appId: z.string(),
+      name: z.string(),
+    })
+    .openapi("PromptPartialActionRequest")
+);
+
+const PromptPartialUsageResponseSchema = registry.register(
+  "PromptPartialUsageResponse",
+  z
+    .object({
+      name: z.string(),
+      partials: z.array(z.string()).describe("Partials that include it, directly or indirectly"),
+      prompts: z.array(z.object({ id: z.string(), type: z.string(), layer: PromptLayerSchema })),
+      variants: z.array(z.object({ id: z.string(), promptId: z.string(), name: z.string() })),
+    })
+    .openapi("PromptPartialUsageResponse")
+);
+
+registry.registerPath({
+  method: "put",
+  path: "/prompts/partials",
+  tags: ["Prompts"],
+  summary: "Create or replace a named partial for an app",
+  description:
+    "POST /generate inlines {{> name}} before rendering, so a change applies to every prompt that includes it. " +
+    "The content is stored as a draft and only included once submitted and published by another user.",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string(), "x-clerk-user-id": z.string() }),
+    body: {
+      required: true,
+      content: { "application/json": { schema: UpsertPromptPartialRequestSchema } },
+    },
+  },
+  responses: {
+    200: {
+      description: "Draft saved",
+      content: { "application/json": { schema: PromptPartialSchema } },
+    },
+    400: {
+      description: "Invalid request, missing x-clerk-user-id, invalid template or a partial cycle",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/prompts/partials/submit",
+  tags: ["Prompts"],
+  summary: "Submit a partial's draft for review",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string(), "x-clerk-user-id": z.string().optional() }),
+    body: {
+      required: true,
+      content: { "application/json": { schema: PromptPartialActionRequestSchema } },
+    },
+  },
+  responses: {
+    200: {
+      description: "Draft is in review",
+      content: { "application/json": { schema: PromptPartialSchema } },
+    },
+    400: {
+      description: "Invalid request",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Partial not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    409: {
+      description: "The partial has no draft",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/prompts/partials/publish",
+  tags: ["Prompts"],
+  summary: "Approve a partial's draft in review and include it in prompts",
+  description:
+    "Records the caller as approver. The approver must be identified by x-clerk-user-id and must not be the draft's author.",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string(), "x-clerk-user-id": z.string() }),
+    body: {
+      required: true,
+      content: { "application/json": { schema: PromptPartialActionRequestSchema } },
+    },
+  },
+  responses: {
+    200: {
+      description: "Partial published",
+      content: { "application/json": { schema: PromptPartialSchema } },
+    },
+    400: {
+      description: "Invalid request or missing x-clerk-user-id",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    403: {
+      description: "The approver is the draft's author, or the draft has no recorded author",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Partial not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    409: {
+      description: "The partial has no draft in review, or publishing it would create a partial cycle",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/prompts/partials",
+  tags: ["Prompts"],
+  summary: "List an app's partials",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string() }),
+    query: z.object({ appId: z.string() }),
+  },
+  responses: {
+    200: {
+      description: "Partials, ordered by name",
+      content: { "application/json": { schema: z.object({ partials: z.array(PromptPartialSchema) }) } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/prompts/partials/usage",
+  tags: ["Prompts"],
+  summary: "List the prompts, variants and partials that include a partial",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string() }),
+    query: z.object({ appId: z.string(), name: z.string() }),
+  },
+  responses: {
+    200: {
+      description: "Templates including the partial",
+      content: { "application/json": { schema: PromptPartialUsageResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/prompts/partials",
+  tags: ["Prompts"],
+  summary: "Delete a partial",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string() }),
+    query: z.object({ appId: z.string(), name: z.string() }),
+  },
+  responses: {
+    200: {
+      description: "Partial deleted",
+      content: {
+        "application/json": {
+          schema: z.object({ deleted: z.boolean(), id: z.string(), appId: z.string(), name: z.string() }),
+        },
+      },
+    },
+    404: {
+      description: "Partial not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    409: {
+      description: "Partial is still included by a prompt, variant or partial",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+// ---------------------------------------------------------------------------
+// /style-presets — Named tone, length and opener presets of an app
+// ---------------------------------------------------------------------------
+export const UpsertStylePresetRequestSchema = registry.register(
+  "UpsertStylePresetRequest",
+  z
+    .object({
+      appId: z.string(),
+      name: z
+        .string()
+        .regex(/^[A-Za-z0-9_][A-Za-z0-9_.-]*$/, "Style name may only contain letters, digits, _, . and -")
+        .describe("Picked with `style` on POST /generate, e.g. formal-enterprise"),
+      description: z.string().nullable().optional(),
+      tone: z.string().min(1).nullable().optional().describe("Replaces the built-in tone rules (warm, direct, conversational)"),
+      opener: z.string().min(1).nullable().optional().describe("Replaces the built-in contrarian opener strategy"),
+      maxWords: z.number().int().min(10).max(1000).nullable().optional().describe("Length target of each email, in words"),
+      rules: z.string().min(1).nullable().optional().describe("Extra rules added to the system prompt"),
+    })
+    .describe(
+      "With the built-in persona, tone and opener replace its sections; with a stored system prompt, " +
+      "the preset is appended as a Style section. Unset fields keep the built-in behavior"
+    )
+    .openapi("UpsertStylePresetRequest")
+);
+
+const StylePresetSchema = registry.register(
+  "StylePreset",
+  z
+    .object({
+      id: z.string(),
+      appId: z.string(),
+      name: z.string(),
+      description: z.string().nullable(),
+      tone: z.string().nullable(),
+      opener: z.string().nullable(),
+      maxWords: z.number().nullable(),
+      rules: z.string().nullable(),
+      createdAt: z.string(),
+      updatedAt: z.string(),
+    })
+    .openapi("StylePreset")
+);
+
+registry.registerPath({
+  method: "put",
+  path: "/style-presets",
+  tags: ["Style presets"],
+  summary: "Create or replace a named style preset for an app",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string() }),
+    body: {
+      required: true,
+      content: { "application/json": { schema: UpsertStylePresetRequestSchema } },
+    },
+  },
+  responses: {
+    200: {
+      description: "Preset saved",
+      content: {
+        "application/json": {
+          schema: StylePresetSchema.extend({ status: z.enum(["created", "updated", "unchanged"]) }),
+        },
+      },
+    },
+    400: {
+      description: "Invalid request",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/style-presets",
+  tags: ["Style presets"],
+  summary: "List an app's style presets",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string() }),
+    query: z.object({ appId: z.string() }),
+  },
+  responses: {
+    200: {
+      description: "Presets, ordered by name",
+      content: { "application/json": { schema: z.object({ presets: z.array(StylePresetSchema) }) } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/style-presets",
+  tags: ["Style presets"],
+  summary: "Delete a style preset",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string() }),
+    query: z.object({ appId: z.string(), name: z.string() }),
+  },
+  responses: {
+    200: {
+      description: "Preset deleted",
+      content: {
+        "application/json": {
+          schema: z.object({ deleted: z.boolean(), id: z.string(), appId: z.string(), name: z.string() }),
+        },
+      },
+    },
+    404: {
+      description: "Preset not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+// ---------------------------------------------------------------------------
+// /content-policies — Rules checked on every generated sequence of an app
+// ---------------------------------------------------------------------------
+const PolicyScopeSchema = z.enum(["all", "opener"]).describe("opener: only the first sentence of email 1");
+
+const PolicyRuleSchema = registry.register(
+  "PolicyRule",
+  z
+    .discriminatedUnion("type", [
+      z.object({
+        type: z.literal("regex"),
+        id: z.string().min(1),
+        message: z.string().min(1).describe("Fed back to Claude and stored with the violation"),
+        pattern: z.string().min(1).describe("JavaScript regular expression"),
+        flags: z.string().regex(/^[imsu]*$/, "flags may only contain i, m, s and u").optional().describe(
+          "Defaults to i (case-insensitive)"
+        ),
+        scope: PolicyScopeSchema.optional(),
+      }),
+      z.object({
+        type: z.literal("lexicon"),
+        id: z.string().min(1),
+        message: z.string().min(1),
+        terms: z.array(z.string().min(1)).min(1).describe("Words or phrases, matched whole and ignoring case"),
+        scope: PolicyScopeSchema.optional(),
+      }),
+      z.object({
+        type: z.literal("variableLeak"),
+        id: z.string().min(1),
+        message: z.string().min(1),
+        variables: z.array(z.string().min(1)).min(1).describe(
+          "Variables whose values must not appear in the output. For URLs, the bare domain is checked too"
+        ),
+      }),
+    ])
+    .refine((rule) => validatePolicyRule(rule as PolicyRule) === null, {
+      message: "pattern is not a valid regular expression",
+    })
+    .openapi("PolicyRule")
+);
+
+export const UpsertContentPolicyRequestSchema = registry.register(
+  "UpsertContentPolicyRequest",
+  z
+    .object({
+      appId: z.string(),
+      rules: z
+        .array(PolicyRuleSchema)
+        .optional()
+        .refine((rules) => !rules || new Set(rules.map((r) => r.id)).size === rules.length, {
+          message: "Rule ids must be unique",
+        })
+        .describe("Custom rules. A rule with the id of a default rule replaces it"),
+      includeDefaults: z.boolean().optional().describe(
+        "Keep the built-in rules (dollar-amount, crypto, passive-income, client-identity, compliment-opener) for prompts " +
+        "on the built-in persona; prompts with their own system prompt or output schema never get them. Defaults to true"
+      ),
+      disabledRules: z.array(z.string()).optional().describe("Ids of built-in rules to skip"),
+      maxAttempts: z.number().int().min(1).max(MAX_POLICY_ATTEMPTS).optional().describe(
+        `Generation attempts in total for a violating sequence, the first included. 1 only records violations. Defaults to ${DEFAULT_MAX_ATTEMPTS}`
+      ),
+    })
+    .openapi("UpsertContentPolicyRequest")
+);
+
+const ContentPolicySchema = registry.register(
+  "ContentPolicy",
+  z
+    .object({
+      id: z.string(),
+      appId: z.string(),
+      rules: z.array(PolicyRuleSchema),
+      includeDefaults: z.boolean(),
+      disabledRules: z.array(z.string()),
+      maxAttempts: z.number(),
+      createdAt: z.string(),
+      updatedAt: z.string(),
+    })
+    .openapi("ContentPolicy")
+);
+
+const PolicyViolationSchema = registry.register(
+  "PolicyViolation",
+  z
+    .object({
+      ruleId: z.string(),
+      message: z.string(),
+      field: z.string().describe('Output field the match is in, e.g. "subject" or "followup1"'),
+      match: z.string(),
+    })
+    .openapi("PolicyViolation")
+);
+
+const PolicyResultSchema = z
+  .object({
+    attempts: z.number().describe("Generation attempts made, the first included"),
+    violations: z.array(PolicyViolationSchema).describe(
+      "Violations left in the stored output after the last attempt; empty when it passed"
+    ),
+  })
+  .describe("Content policy check of the stored output");
+
+registry.registerPath({
+  method: "put",
+  path: "/content-policies",
+  tags: ["Content policies"],
+  summary: "Create or replace the content policy of an app",
+  description:
+    "Every sequence the app generates (POST /generate, revisions) is checked against the policy. A violating " +
+    "sequence is regenerated with the violations fed back, up to maxAttempts in total. Without a stored policy, " +
+    "the built-in rules apply to prompts on the built-in persona and violations are only recorded.",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string() }),
+    body: {
+      required: true,
+      content: { "application/json": { schema: UpsertContentPolicyRequestSchema } },
+    },
+  },
+  responses: {
+    200: {
+      description: "Policy saved",
+      content: {
+        "application/json": {
+          schema: ContentPolicySchema.extend({ status: z.enum(["created", "updated", "unchanged"]) }),
+        },
+      },
+    },
+    400: {
+      description: "Invalid request",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/content-policies",
+  tags: ["Content policies"],
+  summary: "Get the content policy of an app",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string() }),
+    query: z.object({ appId: z.string() }),
+  },
+  responses: {
+    200: {
+      description: "Stored policy, if any, and the rules in effect",
+      content: {
+        "application/json": {
+          schema: z.object({
+            policy: ContentPolicySchema.nullable(),
+            effective: z.object({ rules: z.array(PolicyRuleSchema), maxAttempts: z.number() }).describe(
+              "For prompts on the built-in persona"
+            ),
+            effectiveForCustomPrompts: z.object({ rules: z.array(PolicyRuleSchema), maxAttempts: z.number() }).describe(
+              "For prompts with their own system prompt or output schema: custom rules only"
+            ),
+          }),
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/content-policies",
+  tags: ["Content policies"],
+  summary: "Delete the content policy of an app; the built-in rules apply again",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string() }),
+    query: z.object({ appId: z.string() }),
+  },
+  responses: {
+    200: {
+      description: "Policy deleted",
+      content: {
+        "application/json": {
+          schema: z.object({ deleted: z.boolean(), id: z.string(), appId: z.string() }),
+        },
+      },
+    },
+    404: {
+      description: "No policy stored for the app",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+// ---------------------------------------------------------------------------
+// GET /prompts/export, POST /prompts/import — Prompt bundles
+// ---------------------------------------------------------------------------
+export const PromptBundleSchema = registry.register(
+  "PromptBundle",
+  z
+    .object({
+      bundleVersion: z.literal(1),
+      appId: z.string().describe("App the bundle was exported from"),
+      exportedAt: z.string().optional(),
+      prompts: z.array(
+        UpsertPromptRequestSchema.omit({ appId: true, scope: true, lint: true }).extend({
+          version: z.number().optional().describe("Version in the source environment, informational"),
+        })
+      ),
+      partials: z.array(UpsertPromptPartialRequestSchema.omit({ appId: true })).optional().default([]),
+    })
+    .describe("App default prompts and partials. Org overrides and A/B variants are not included.")
+    .openapi("PromptBundle")
+);
+
+export const ImportPromptsRequestSchema = registry.register(
+  "ImportPromptsRequest",
+  z
+    .object({
+      appId: z.string().optional().describe("Target app. Defaults to the bundle's appId"),
+      bundle: z
+        .union([z.string(), z.record(z.string(), z.unknown())])
+        .describe("A PromptBundle object (as returned by GET /prompts/export), or the bundle as YAML or JSON text"),
+      dryRun: z.boolean().optional().default(false).describe("Report the diff and conflicts without writing"),
+    })
+    .openapi("ImportPromptsRequest")
+);
+
+const ImportPromptsResponseSchema = registry.register(
+  "ImportPromptsResponse",
+  z
+    .object({
+      appId: z.string(),
+      dryRun: z.boolean(),
+      applied: z.boolean().describe("True when the bundle was written (all or nothing)"),
+      prompts: z.array(
+        z.object({
+          type: z.string(),
+          status: z.enum(["created", "updated", "unchanged"]),
+          changes: z.array(z.string()).describe("Fields that differ from the target, e.g. prompt or settings"),
+        })
+      ),
+      partials: z.array(z.object({ name: z.string(), status: z.enum(["created", "updated", "unchanged"]) })),
+      notInBundle: z.array(z.string()).describe("Target prompt types missing from the bundle; left untouched"),
+      conflicts: z.array(
+        z.object({
+          kind: z.enum(["duplicate", "invalid", "unresolved_partial", "partial_cycle"]),
+          target: z.string().describe("prompt:<type> or partial:<name>"),
+          message: z.string(),
+        })
+      ),
+    })
+    .openapi("ImportPromptsResponse")
 );
 
 registry.registerPath({
-  method: "put",
-  path: "/prompts",
+  method: "get",
+  path: "/prompts/export",
   tags: ["Prompts"],
-  summary: "Register or update a prompt template for an app (idempotent)",
+  summary: "Export an app's default prompts and partials as a bundle",
   request: {
     headers: z.object({ "x-clerk-org-id": z.string() }),
+    query: z.object({
+      appId: z.string(),
+      format: z.enum(["json", "yaml"]).optional().describe("Defaults to json"),
+    }),
+  },
+  responses: {
+    200: {
+      description: "Prompt bundle",
+      content: {
+        "application/json": { schema: PromptBundleSchema },
+        "application/yaml": { schema: z.string() },
+      },
+    },
+    400: {
+      description: "Invalid request",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/prompts/import",
+  tags: ["Prompts"],
+  summary: "Import a prompt bundle, with dry-run diffing",
+  description:
+    "Stores the bundle's prompts and partials as drafts of the app defaults, authored by x-clerk-user-id and awaiting " +
+    "review, in one transaction. " +
+    "Prompts not in the bundle are left untouched. Any conflict blocks the whole import.",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string(), "x-clerk-user-id": z.string() }),
     body: {
       required: true,
-      content: { "application/json": { schema: UpsertPromptRequestSchema } },
+      content: { "application/json": { schema: ImportPromptsRequestSchema } },
     },
   },
   responses: {
     200: {
-      description: "Prompt upserted",
-      content: { "application/json": { schema: UpsertPromptResponseSchema } },
+      description: "Import plan (dry run) or applied import",
+      content: { "application/json": { schema: ImportPromptsResponseSchema } },
     },
     400: {
-      description: "Invalid request",
+      description: "Invalid request, malformed bundle, or missing x-clerk-user-id outside a dry run",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
+    409: {
+      description: "Conflicts prevent the import; nothing was written",
+      content: { "application/json": { schema: ImportPromptsResponseSchema } },
+    },
   },
 });
 
 // ---------------------------------------------------------------------------
 // POST /generate — Generate content using a stored prompt + variables
 // ---------------------------------------------------------------------------
+const RankingSchema = registry.register(
+  "Ranking",
+  z
+    .discriminatedUnion("method", [
+      z.object({
+        method: z.literal("heuristics"),
+        weights: z
+          .object({
+            length: z.number().min(0).optional().describe("Bodies within the style's maxWords, or 120 words"),
+            personalization: z.number().min(0).optional().describe(
+              "Share of the lead variables (name, title, company, industry) mentioned"
+            ),
+            subject: z.number().min(0).optional().describe("Subject line of 2 to 7 words"),
+          })
+          .optional()
+          .describe("Relative weight of each heuristic. Unset ones weigh 1; 0 turns one off"),
+      }),
+      z.object({
+        method: z.literal("judge"),
+        model: z.enum(MODEL_IDS).optional().describe("Judge model; defaults to the default generation model"),
+        criteria: z.string().min(1).max(2000).optional().describe(
+          "What the judge scores against. Defaults to likelihood of a reply"
+        ),
+      }),
+    ])
+    .openapi("Ranking")
+);
+
+const DeliverabilityThresholdSchema = z.number().int().min(0).max(100);
+
+const DeliverabilityReportSchema = registry.register(
+  "DeliverabilityReport",
+  z
+    .object({
+      score: z.number().describe("100 minus the findings' penalties, at least 0"),
+      findings: z.array(
+        z.object({
+          check: z.enum(["spamWords", "allCaps", "exclamations", "links", "textHtmlRatio", "subjectLength"]),
+          field: z.enum(["subject", "body"]),
+          message: z.string(),
+          penalty: z.number().describe("Points taken off the score"),
+        })
+      ),
+    })
+    .openapi("DeliverabilityReport")
+);
+
+const SequenceDeliverabilitySchema = registry.register(
+  "SequenceDeliverability",
+  z
+    .object({
+      score: z.number().describe("Score of the weakest step"),
+      steps: z.array(DeliverabilityReportSchema.extend({ step: z.number() })),
+    })
+    .openapi("SequenceDeliverability")
+);
+
 export const GenerateRequestSchema = registry.register(
   "GenerateRequest",
   z
@@ -121,30 +1586,157 @@ export const GenerateRequestSchema = registry.register(
       apolloEnrichmentId: z.string().optional(),
       idempotencyKey: z.string().optional(),
       workflowName: z.string().optional(),
+      settings: GenerationSettingsSchema.optional(),
+      sequenceConfig: SequenceConfigSchema.optional().describe(
+        "Overrides the prompt's sequence length and cadence. Not allowed for prompts with an output schema"
+      ),
+      locale: LocaleSchema.optional().describe(
+        "Language to write in, e.g. de or pt-BR. Also applies to stored system prompts. " +
+        "Omit to leave the language to the prompt (the built-in persona writes English)"
+      ),
+      style: z.string().optional().describe(
+        "Name of a style preset registered via PUT /style-presets for the app. Recorded on the generation"
+      ),
+      draftVersion: z.number().int().positive().optional().describe(
+        "Test an unpublished (draft or in review) version of the prompt instead of the published one. " +
+        "A/B variants are not served in this mode"
+      ),
+      candidates: z.number().int().min(1).max(MAX_CANDIDATES).optional().describe(
+        "Number of distinct sequences to generate for the lead, ranked and stored on one generation. Defaults to 1. " +
+        `Content policy attempts per candidate are cut so that all candidates make at most ${MAX_GENERATION_CALLS} Claude calls`
+      ),
+      ranking: RankingSchema.optional().describe(
+        "How candidates are ranked when there are several. Defaults to heuristics with equal weights"
+      ),
+      deliverabilityThreshold: DeliverabilityThresholdSchema.optional().describe(
+        "Regenerate sequences scoring below this (0-100), with the deliverability findings fed back. " +
+        `Up to ${MAX_CHECK_ATTEMPTS} attempts in total whatever the content policy allows; ignored for prompts ` +
+        "with their own output schema"
+      ),
     })
     .openapi("GenerateRequest")
 );
 
+const ReadabilityMetricsSchema = registry.register(
+  "ReadabilityMetrics",
+  z
+    .object({
+      words: z.number(),
+      sentences: z.number().describe("Greetings and sign-offs are not counted"),
+      avgSentenceLength: z.number().describe("Words per sentence"),
+      fleschReadingEase: z.number().describe("0 to 100, higher is plainer; 60-70 is plain English"),
+    })
+    .openapi("ReadabilityMetrics")
+);
+
+const ReadabilityViolationSchema = registry.register(
+  "ReadabilityViolation",
+  z
+    .object({
+      step: z.number(),
+      limit: z.enum(["maxWords", "maxSentences", "maxAvgSentenceLength", "minReadingEase"]),
+      expected: z.number().describe("The limit's value"),
+      actual: z.number(),
+      message: z.string(),
+    })
+    .openapi("ReadabilityViolation")
+);
+
 const SequenceStepSchema = z.object({
   step: z.number(),
   bodyHtml: z.string(),
   bodyText: z.string(),
   daysSinceLastStep: z.number(),
+  threadMode: ThreadModeSchema.describe("Always new for step 1"),
+  subject: z.string().optional().describe("Own subject line of a follow-up that starts a new thread"),
+  revision: z.number().optional().describe("Current revision of the step; absent means 1, as first generated"),
+  revisions: z
+    .array(
+      z.object({
+        revision: z.number(),
+        bodyHtml: z.string(),
+        bodyText: z.string(),
+        subject: z.string().optional(),
+        replacedAt: z.string(),
+      })
+    )
+    .optional()
+    .describe("Earlier revisions replaced by step regeneration, oldest first"),
+  readability: ReadabilityMetricsSchema.optional().describe("Metrics of bodyText"),
 });
 
+const GenerationCandidateSchema = registry.register(
+  "GenerationCandidate",
+  z
+    .object({
+      index: z.number().describe("1-based, in generation order"),
+      rank: z.number().describe("1 is the best score"),
+      selected: z.boolean().describe("Whether this candidate is the generation's subject, sequence and output"),
+      score: z.number().describe("0 to 1, higher is better"),
+      scores: z.record(z.string(), z.number()).optional().describe("Per-heuristic scores (heuristics ranking)"),
+      rationale: z.string().optional().describe("Judge's reasoning (judge ranking)"),
+      subject: z.string().nullable(),
+      sequence: z.array(SequenceStepSchema).nullable(),
+      output: z.record(z.string(), z.unknown()),
+      tokensInput: z.number(),
+      tokensOutput: z.number(),
+      policyAttempts: z.number().optional().describe("Content policy attempts made, the first included"),
+      policyViolations: z.array(PolicyViolationSchema).optional().describe(
+        "Violations left after the last attempt. Candidates with violations rank below those without"
+      ),
+      readabilityViolations: z.array(ReadabilityViolationSchema).optional().describe(
+        "Steps outside the limits after the last attempt. Candidates with violations rank below those without"
+      ),
+      deliverability: SequenceDeliverabilitySchema.nullable().optional(),
+    })
+    .openapi("GenerationCandidate")
+);
+
 const GenerateResponseSchema = registry.register(
   "GenerateResponse",
   z
     .object({
       id: z.string(),
-      subject: z.string(),
-      sequence: z.array(SequenceStepSchema),
-      tokensInput: z.number(),
-      tokensOutput: z.number(),
+      subject: z.string().describe(
+        "Subject of the thread started by step 1, shared by reply follow-ups. Empty when the prompt has its own output schema"
+      ),
+      sequence: z.array(SequenceStepSchema).describe("Empty when the prompt has its own output schema"),
+      output: z.record(z.string(), z.unknown()).describe("Structured output, matching the prompt's output schema"),
+      variantId: z.string().nullable().describe("A/B prompt variant served, or null when no experiment is running"),
+      candidates: z.array(GenerationCandidateSchema).optional().describe(
+        "All candidates, best first, when several were requested. subject, sequence and output are the selected one's"
+      ),
+      policy: PolicyResultSchema,
+      deliverability: SequenceDeliverabilitySchema.nullable().describe(
+        "Offline deliverability analysis of the sequence; null when the prompt has its own output schema"
+      ),
+      readability: z
+        .object({ violations: z.array(ReadabilityViolationSchema) })
+        .describe(
+          "Steps outside the sequence config's limits after the last attempt; empty when within them. " +
+          "Per-step metrics are on the sequence steps"
+        ),
+      tokensInput: z.number().describe("Summed over all candidates and content policy attempts"),
+      tokensOutput: z.number().describe("Summed over all candidates and content policy attempts"),
     })
     .openapi("GenerateResponse")
 );
 
+const VariableValidationErrorSchema = registry.register(
+  "VariableValidationError",
+  z
+    .object({
+      error: z.string(),
+      missing: z.array(z.string()).describe("Declared or used in the template, but not supplied"),
+      unexpected: z.array(z.string()).describe("Supplied, but neither declared nor used in the template"),
+      empty: z.array(z.string()).describe("Supplied, but null, blank or an empty array"),
+      invalid: z.array(z.string()).describe(
+        "Values that do not match the variable schema (type or maxLength). Always rejected, whatever the variableMode"
+      ),
+    })
+    .openapi("VariableValidationError")
+);
+
 registry.registerPath({
   method: "post",
   path: "/generate",
@@ -171,7 +1763,101 @@ registry.registerPath({
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
     404: {
-      description: "Prompt not found for this app + type",
+      description: "Prompt not found for this app + type, or draftVersion or style not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    422: {
+      description:
+        "Variables do not match the prompt's variable schema, or its declaration (strict variableMode only), " +
+        "or the template failed to render, or the sequence is outside its limits (onLimitViolation: reject)",
+      content: {
+        "application/json": {
+          schema: z.union([
+            VariableValidationErrorSchema,
+            z.object({
+              error: z.string(),
+              id: z.string().describe("The rejected generation, stored with rejected: true and its costs tracked"),
+              violations: z.array(ReadabilityViolationSchema),
+            }),
+          ]),
+        },
+      },
+    },
+    502: {
+      description: "Claude's output did not match the prompt's output schema, was cut off at maxTokens, or was not valid JSON",
+      content: {
+        "application/json": {
+          schema: z.object({ error: z.string(), issues: z.array(z.string()) }),
+        },
+      },
+    },
+  },
+});
+
+// ---------------------------------------------------------------------------
+// POST /generate/preview — Render the prompt without calling Claude
+// ---------------------------------------------------------------------------
+const GeneratePreviewResponseSchema = registry.register(
+  "GeneratePreviewResponse",
+  z
+    .object({
+      promptId: z.string(),
+      versionId: z.string().nullable(),
+      variantId: z.string().nullable().describe("A/B prompt variant that would be served"),
+      variableMode: VariableModeSchema,
+      variableIssues: z
+        .object({
+          missing: z.array(z.string()),
+          unexpected: z.array(z.string()),
+          empty: z.array(z.string()),
+          invalid: z.array(z.string()),
+        })
+        .describe("Variable mismatches. POST /generate rejects invalid values with 422, and the others in strict mode"),
+      style: z.string().nullable().describe("Style preset applied, or null for the built-in style"),
+      settings: GenerationSettingsSchema.describe("Resolved settings the request would use"),
+      systemPrompt: z.string(),
+      userPrompt: z.string().describe("Prompt template with variables substituted"),
+      outputSchema: z.record(z.string(), z.unknown()).describe("JSON schema Claude's output is constrained to"),
+      estimatedTokensInput: z.number().describe("Approximate input tokens (~4 characters per token)"),
+      maxTokensOutput: z.number(),
+      estimatedCostUsd: z.number().describe("Upper bound: estimated input plus max output tokens"),
+    })
+    .openapi("GeneratePreviewResponse")
+);
+
+registry.registerPath({
+  method: "post",
+  path: "/generate/preview",
+  tags: ["Content Generation"],
+  summary: "Preview the prompt POST /generate would send, without calling Claude",
+  description:
+    "Takes the same body as POST /generate. Nothing is sent to Anthropic, no run is created and nothing is stored.",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string() }),
+    body: {
+      required: true,
+      content: { "application/json": { schema: GenerateRequestSchema } },
+    },
+  },
+  responses: {
+    200: {
+      description: "Rendered prompt and cost estimate",
+      content: { "application/json": { schema: GeneratePreviewResponseSchema } },
+    },
+    400: {
+      description: "Invalid request",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    401: {
+      description: "Unauthorized",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Prompt not found for this app + type, or draftVersion or style not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    422: {
+      description: "The template failed to render",
       content: { "application/json": { schema: ErrorResponseSchema } },
     },
   },
@@ -234,6 +1920,7 @@ registry.registerPath({
   path: "/generations/by-enrichment/{apolloEnrichmentId}",
   tags: ["Content Generation"],
   summary: "Get generation by enrichment ID",
+  description: "The latest generation for the enrichment, revisions included. Rejected generations are skipped",
   request: {
     headers: z.object({ "x-clerk-org-id": z.string() }),
     params: z.object({ apolloEnrichmentId: z.string() }),
@@ -252,6 +1939,225 @@ registry.registerPath({
   },
 });
 
+// ---------------------------------------------------------------------------
+// POST /generations/:id/steps/:step/regenerate
+// ---------------------------------------------------------------------------
+export const RegenerateStepRequestSchema = registry.register(
+  "RegenerateStepRequest",
+  z
+    .object({
+      keyMode: z.enum(["byok", "app"]),
+      instructions: z.string().min(1).max(2000).optional().describe("Reviewer feedback for the rewrite"),
+      settings: GenerationSettingsSchema.optional().describe("Overrides the settings the generation used"),
+    })
+    .openapi("RegenerateStepRequest")
+);
+
+const RegenerateStepResponseSchema = registry.register(
+  "RegenerateStepResponse",
+  z
+    .object({
+      id: z.string(),
+      step: SequenceStepSchema.describe("The rewritten step, with the replaced text in its revisions"),
+      sequence: z.array(SequenceStepSchema),
+      policy: z
+        .object({ violations: z.array(PolicyViolationSchema) })
+        .describe("Content policy violations in the sequence with the rewritten step; recorded, not retried"),
+      deliverability: SequenceDeliverabilitySchema.describe("Deliverability of the sequence with the rewritten step"),
+      readability: z
+        .object({ violations: z.array(ReadabilityViolationSchema) })
+        .describe("Steps outside the limits the sequence was generated with, the rewritten one included"),
+      generationRunId: z.string().nullable().describe("Child run the tokens were tracked on; null if tracking failed"),
+      tokensInput: z.number(),
+      tokensOutput: z.number(),
+    })
+    .openapi("RegenerateStepResponse")
+);
+
+registry.registerPath({
+  method: "post",
+  path: "/generations/{id}/steps/{step}/regenerate",
+  tags: ["Content Generation"],
+  summary: "Rewrite one step of a generated sequence",
+  description:
+    "Replays the generation's prompt with the current sequence as context and rewrites only the given step " +
+    "(1-based). The stored sequence is updated in place and keeps the replaced text as a revision. " +
+    "Tokens are tracked as a step-regeneration child run of the generation's run.",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string() }),
+    params: z.object({ id: z.string(), step: z.string() }),
+    body: {
+      required: true,
+      content: { "application/json": { schema: RegenerateStepRequestSchema } },
+    },
+  },
+  responses: {
+    200: {
+      description: "Step rewritten",
+      content: { "application/json": { schema: RegenerateStepResponseSchema } },
+    },
+    400: {
+      description: "Invalid request",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Generation or step not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    409: {
+      description: "The generation has no email sequence or no stored prompt, or was edited during the regeneration (the rewrite is discarded)",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    502: {
+      description: "Claude's rewrite was cut off at maxTokens or was not valid JSON; its tokens are tracked on a failed run",
+      content: {
+        "application/json": {
+          schema: z.object({ error: z.string(), issues: z.array(z.string()) }),
+        },
+      },
+    },
+  },
+});
+
+export const ReviseGenerationRequestSchema = registry.register(
+  "ReviseGenerationRequest",
+  z
+    .object({
+      keyMode: z.enum(["byok", "app"]),
+      feedback: z.string().min(1).max(2000).describe('Reviewer feedback, e.g. "shorter, drop the question in email 2"'),
+      settings: GenerationSettingsSchema.optional().describe("Overrides the settings the generation used"),
+    })
+    .openapi("ReviseGenerationRequest")
+);
+
+const ReviseGenerationResponseSchema = registry.register(
+  "ReviseGenerationResponse",
+  z
+    .object({
+      id: z.string().describe("The new generation holding the revision"),
+      parentGenerationId: z.string().describe("The generation it revises"),
+      subject: z.string().describe("Empty when the prompt has its own output schema"),
+      sequence: z.array(SequenceStepSchema).describe("Empty when the prompt has its own output schema"),
+      output: z.record(z.string(), z.unknown()),
+      policy: PolicyResultSchema,
+      deliverability: SequenceDeliverabilitySchema.nullable().describe(
+        "Offline deliverability analysis of the sequence; null when the prompt has its own output schema"
+      ),
+      readability: z
+        .object({ violations: z.array(ReadabilityViolationSchema) })
+        .describe("Steps outside the limits the sequence was generated with after the last attempt; empty when within them"),
+      generationRunId: z.string().nullable().describe("Child run the tokens were tracked on; null if tracking failed"),
+      tokensInput: z.number().describe("Summed over the content policy attempts"),
+      tokensOutput: z.number().describe("Summed over the content policy attempts"),
+    })
+    .openapi("ReviseGenerationResponse")
+);
+
+registry.registerPath({
+  method: "post",
+  path: "/generations/{id}/revise",
+  tags: ["Content Generation"],
+  summary: "Revise a generation from reviewer feedback",
+  description:
+    "Replays the generation's prompt and output, and those of the revisions leading to it, as conversation " +
+    "context and asks Claude to apply the feedback. The revision is stored as a new generation with " +
+    "parentGenerationId and feedback set; the original is left unchanged. " +
+    "A revised sequence outside the length and readability limits it was generated with is rewritten, " +
+    "or rejected with 422 (onLimitViolation: reject). " +
+    "Tokens are tracked as a generation-revision child run of the revised generation's run.",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string() }),
+    params: z.object({ id: z.string() }),
+    body: {
+      required: true,
+      content: { "application/json": { schema: ReviseGenerationRequestSchema } },
+    },
+  },
+  responses: {
+    200: {
+      description: "Revision stored",
+      content: { "application/json": { schema: ReviseGenerationResponseSchema } },
+    },
+    400: {
+      description: "Invalid request",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Generation not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    409: {
+      description: "The generation has no stored prompt and output, or its prompt version's output schema is gone",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    422: {
+      description: "The revised sequence is outside its limits (onLimitViolation: reject)",
+      content: {
+        "application/json": {
+          schema: z.object({
+            error: z.string(),
+            id: z.string().describe("The rejected revision, stored with rejected: true and its costs tracked"),
+            violations: z.array(ReadabilityViolationSchema),
+          }),
+        },
+      },
+    },
+    502: {
+      description: "Claude's output did not match the prompt's output schema, was cut off at maxTokens, or was not valid JSON",
+      content: {
+        "application/json": {
+          schema: z.object({ error: z.string(), issues: z.array(z.string()) }),
+        },
+      },
+    },
+  },
+});
+
+const SelectCandidateResponseSchema = registry.register(
+  "SelectCandidateResponse",
+  z
+    .object({
+      id: z.string(),
+      subject: z.string(),
+      sequence: z.array(SequenceStepSchema),
+      output: z.record(z.string(), z.unknown()),
+      candidates: z.array(GenerationCandidateSchema),
+    })
+    .openapi("SelectCandidateResponse")
+);
+
+registry.registerPath({
+  method: "post",
+  path: "/generations/{id}/candidates/{index}/select",
+  tags: ["Content Generation"],
+  summary: "Select another candidate of a generation",
+  description:
+    "Makes the candidate (1-based index) the generation's subject, sequence and output. " +
+    "Edits made to the previously selected candidate, such as step regenerations, are kept on its entry.",
+  request: {
+    headers: z.object({ "x-clerk-org-id": z.string() }),
+    params: z.object({ id: z.string(), index: z.string() }),
+  },
+  responses: {
+    200: {
+      description: "Candidate selected",
+      content: { "application/json": { schema: SelectCandidateResponseSchema } },
+    },
+    400: {
+      description: "Invalid index",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    404: {
+      description: "Generation or candidate not found",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+    409: {
+      description: "The generation was made with a single candidate, or was edited meanwhile",
+      content: { "application/json": { schema: ErrorResponseSchema } },
+    },
+  },
+});
+
 // ---------------------------------------------------------------------------
 // POST /generate/content
 // ---------------------------------------------------------------------------
@@ -266,6 +2172,12 @@ export const GenerateContentRequestSchema = registry.register(
       keyMode: z.enum(["byok", "app"]),
       parentRunId: z.string().optional(),
       workflowName: z.string().optional(),
+      settings: GenerationSettingsSchema.optional(),
+      locale: LocaleSchema.optional(),
+      deliverabilityThreshold: DeliverabilityThresholdSchema.optional().describe(
+        "Regenerate the email while it scores below this (0-100), with the deliverability findings fed back, " +
+        `up to ${MAX_CHECK_ATTEMPTS} attempts in total`
+      ),
     })
     .openapi("GenerateContentRequest")
 );
@@ -278,8 +2190,11 @@ const GenerateContentResponseSchema = registry.register(
       subject: z.string(),
       bodyHtml: z.string(),
       bodyText: z.string(),
-      tokensInput: z.number(),
-      tokensOutput: z.number(),
+      deliverability: DeliverabilityReportSchema.extend({
+        attempts: z.number().describe("Generation attempts made, the first included"),
+      }).describe("Offline deliverability analysis of the email"),
+      tokensInput: z.number().describe("Summed over the attempts"),
+      tokensOutput: z.number().describe("Summed over the attempts"),
     })
     .openapi("GenerateContentResponse")
 );
@@ -324,6 +2239,8 @@ export const GenerateCalendarRequestSchema = registry.register(
       keyMode: z.enum(["byok", "app"]),
       parentRunId: z.string().optional(),
       workflowName: z.string().optional(),
+      settings: GenerationSettingsSchema.optional(),
+      locale: LocaleSchema.optional(),
     })
     .openapi("GenerateCalendarRequest")
 );
@@ -391,6 +2308,18 @@ const StatsResponseSchema = registry.register(
     .object({
       stats: z.object({
         emailsGenerated: z.number(),
+        readability: z
+          .object({
+            steps: z.number().describe(
+              "Sequence steps the averages are over: those stored with their readability metrics"
+            ),
+            avgWords: z.number(),
+            avgSentences: z.number(),
+            avgSentenceLength: z.number(),
+            avgReadingEase: z.number().describe("Flesch reading ease"),
+            limitViolations: z.number().describe("Generations stored with steps outside their limits"),
+          })
+          .describe("Readability of the generated sequences"),
       }),
     })
     .openapi("StatsResponse")
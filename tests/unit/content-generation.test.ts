@@ -154,6 +154,27 @@ describe("POST /generate/content", () => {
     );
   });
 
+  it("should pass the canonical locale to generateContent", async () => {
+    await request(app)
+      .post("/generate/content")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({ appId: "my-app", prompt: "Write a webinar reminder", keyMode: "byok", locale: "pt-br" })
+      .expect(200);
+
+    expect(mockGenerateContent).toHaveBeenCalledWith("fake-byok-key", expect.objectContaining({ locale: "pt-BR" }));
+  });
+
+  it("should return 400 for a malformed locale", async () => {
+    const res = await request(app)
+      .post("/generate/content")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({ appId: "my-app", prompt: "Write a webinar reminder", keyMode: "byok", locale: "german please" })
+      .expect(400);
+
+    expect(res.body.error).toContain("BCP 47");
+    expect(mockGenerateContent).not.toHaveBeenCalled();
+  });
+
   it("should use getByokKey when keyMode is byok", async () => {
     await request(app)
       .post("/generate/content")
@@ -231,4 +252,88 @@ describe("POST /generate/content", () => {
       })
     );
   });
+
+  it("should return the deliverability analysis without regenerating by default", async () => {
+    mockGenerateContent.mockResolvedValueOnce({
+      subject: "FREE offer!!",
+      bodyHtml: "<p>Test body</p>",
+      bodyText: "Test body",
+      tokensInput: MOCK_TOKENS_INPUT,
+      tokensOutput: MOCK_TOKENS_OUTPUT,
+      promptRaw: "test prompt",
+      responseRaw: {},
+    });
+
+    const res = await request(app)
+      .post("/generate/content")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({ appId: "my-app", prompt: "Write an email", keyMode: "byok" })
+      .expect(200);
+
+    expect(res.body.deliverability).toMatchObject({ score: 70, attempts: 1 });
+    expect(mockGenerateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it("should regenerate below the deliverability threshold with the findings fed back", async () => {
+    mockGenerateContent.mockResolvedValueOnce({
+      subject: "FREE offer!!",
+      bodyHtml: "<p>Test body</p>",
+      bodyText: "Test body",
+      tokensInput: 1000,
+      tokensOutput: 300,
+      promptRaw: "test prompt",
+      responseRaw: {},
+    });
+
+    const res = await request(app)
+      .post("/generate/content")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({ appId: "my-app", prompt: "Write an email", keyMode: "byok", deliverabilityThreshold: 90 })
+      .expect(200);
+
+    expect(mockGenerateContent).toHaveBeenCalledTimes(2);
+    expect(mockGenerateContent.mock.calls[1][1].retries).toEqual([
+      expect.objectContaining({ subject: "FREE offer!!", feedback: expect.stringContaining("Spam trigger words in subject: free") }),
+    ]);
+    expect(res.body.subject).toBe("Test Subject");
+    expect(res.body.deliverability).toEqual({ score: 100, findings: [], attempts: 2 });
+    expect(res.body.tokensInput).toBe(1000 + MOCK_TOKENS_INPUT);
+    expect(mockAddCosts).toHaveBeenCalledWith("run-456", [
+      expect.objectContaining({ quantity: 1000 + MOCK_TOKENS_INPUT }),
+      expect.objectContaining({ quantity: 300 + MOCK_TOKENS_OUTPUT }),
+    ]);
+  });
+
+  it("should track the tokens of earlier attempts on a failed run when a retry fails", async () => {
+    mockGenerateContent.mockResolvedValueOnce({
+      subject: "FREE offer!!",
+      bodyHtml: "<p>Test body</p>",
+      bodyText: "Test body",
+      tokensInput: 1000,
+      tokensOutput: 300,
+      promptRaw: "test prompt",
+      responseRaw: {},
+    });
+    mockGenerateContent.mockRejectedValueOnce(new Error("Overloaded"));
+
+    await request(app)
+      .post("/generate/content")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({ appId: "my-app", prompt: "Write an email", keyMode: "byok", deliverabilityThreshold: 90 })
+      .expect(500);
+
+    expect(mockAddCosts).toHaveBeenCalledWith("run-456", [
+      expect.objectContaining({ quantity: 1000 }),
+      expect.objectContaining({ quantity: 300 }),
+    ]);
+    expect(mockUpdateRun).toHaveBeenCalledWith("run-456", "failed");
+  });
+
+  it("should return 400 for a deliverability threshold above 100", async () => {
+    await request(app)
+      .post("/generate/content")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({ appId: "my-app", prompt: "Write an email", keyMode: "byok", deliverabilityThreshold: 101 })
+      .expect(400);
+  });
 });
@@ -0,0 +1,322 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import {
+  DEFAULT_POLICY_RULES,
+  checkPolicy,
+  enforcePolicy,
+  resolvePolicy,
+  type PolicyRule,
+} from "../../src/lib/content-policy.js";
+import type { GenerateResult } from "../../src/lib/anthropic-client.js";
+
+vi.mock("../../src/middleware/auth.js", () => ({
+  serviceAuth: (req: any, _res: any, next: any) => {
+    req.orgId = "org-internal-123";
+    req.clerkOrgId = "org_test";
+    next();
+  },
+}));
+
+const NOW = new Date("2025-01-15T00:00:00Z");
+
+const mockPolicyFindFirst = vi.fn();
+const mockInsertValues = vi.fn();
+const mockUpdateSet = vi.fn();
+const mockDeleteReturning = vi.fn();
+
+vi.mock("../../src/db/index.js", () => ({
+  db: {
+    insert: vi.fn().mockReturnValue({
+      values: (values: Record<string, unknown>) => {
+        mockInsertValues(values);
+        return { returning: () => Promise.resolve([{ id: "policy-1", createdAt: NOW, updatedAt: NOW, ...values }]) };
+      },
+    }),
+    update: vi.fn().mockReturnValue({
+      set: (values: Record<string, unknown>) => {
+        mockUpdateSet(values);
+        return {
+          where: () => ({
+            returning: () => Promise.resolve([{ id: "policy-1", appId: "my-app", createdAt: NOW, ...values }]),
+          }),
+        };
+      },
+    }),
+    delete: vi.fn().mockReturnValue({
+      where: () => ({ returning: (...args: unknown[]) => mockDeleteReturning(...args) }),
+    }),
+    query: {
+      contentPolicies: {
+        findFirst: (...args: unknown[]) => mockPolicyFindFirst(...args),
+      },
+    },
+  },
+}));
+
+vi.mock("../../src/db/schema.js", () => ({
+  contentPolicies: { id: { name: "id" }, appId: { name: "app_id" } },
+}));
+
+import contentPolicyRoutes from "../../src/routes/content-policies.js";
+
+function createTestApp() {
+  const app = express();
+  app.use(express.json());
+  app.use(contentPolicyRoutes);
+  return app;
+}
+
+function sequenceOf(...bodies: string[]) {
+  return {
+    subject: "Quick question",
+    sequence: bodies.map((bodyText, i) => ({
+      step: i + 1,
+      bodyHtml: "",
+      bodyText,
+      daysSinceLastStep: i * 3,
+      threadMode: i === 0 ? ("new" as const) : ("reply" as const),
+    })),
+    output: {},
+  };
+}
+
+function result(body: string, tokensInput = 100): GenerateResult {
+  return {
+    ...sequenceOf(body),
+    output: { subject: "Quick question", body },
+    tokensInput,
+    tokensOutput: 20,
+    costUsd: 0.001,
+    settings: { model: "claude-sonnet-4-6", maxTokens: 3072 },
+    promptRaw: "[SYSTEM]\ns\n\n[USER]\nu",
+    responseRaw: {},
+  };
+}
+
+describe("checkPolicy", () => {
+  const rules = resolvePolicy(undefined, { builtInPersona: true }).rules;
+
+  it("passes a clean sequence", () => {
+    const content = sequenceOf("Hi Sarah,\n\nMost teams measure the wrong thing.", "Worth a chat?");
+    expect(checkPolicy(rules, content, { clientCompanyName: "Acme Labs" })).toEqual([]);
+  });
+
+  it("flags dollar amounts, crypto and passive income language in any step", () => {
+    const content = sequenceOf("Hi Sarah,\n\nWe pay $5,000 a month.", "It runs on the blockchain.", "Pure passive income.");
+    expect(checkPolicy(rules, content, {})).toEqual([
+      { ruleId: "dollar-amount", message: "Mentions a specific dollar amount", field: "body", match: "$5,000" },
+      { ruleId: "crypto", message: "Uses crypto terminology", field: "followup1", match: "blockchain" },
+      { ruleId: "passive-income", message: 'Uses "passive income" style language', field: "followup2", match: "passive income" },
+    ]);
+  });
+
+  it("matches lexicon terms as whole words only", () => {
+    expect(checkPolicy(rules, sequenceOf("A nifty defibrillator startup."), {})).toEqual([]);
+  });
+
+  it("flags the client's name and website domain from the variables", () => {
+    const content = { ...sequenceOf("Check out acmelabs.io today."), subject: "Acme Labs intro" };
+    const violations = checkPolicy(rules, content, {
+      clientCompanyName: "Acme Labs",
+      clientWebsite: "https://www.acmelabs.io/about",
+    });
+    expect(violations.map((v) => [v.field, v.match])).toEqual([
+      ["subject", "Acme Labs"],
+      ["body", "acmelabs.io"],
+    ]);
+  });
+
+  it("only checks the opening line for a compliment opener", () => {
+    const opener = checkPolicy(rules, sequenceOf("Hi Sarah,\n\nYour work at Acme caught my attention. Anyway."), {});
+    expect(opener).toEqual([
+      { ruleId: "compliment-opener", message: "Opens with a compliment", field: "body", match: "caught my attention" },
+    ]);
+
+    const later = sequenceOf("Hi Sarah,\n\nMost teams measure the wrong thing. A recent launch caught my attention.");
+    expect(checkPolicy(rules, later, {})).toEqual([]);
+  });
+
+  it("checks the string fields of outputs with their own schema", () => {
+    const violations = checkPolicy(rules, { subject: null, sequence: null, output: { headline: "Join Web3 now", n: 3 } }, {});
+    expect(violations).toEqual([{ ruleId: "crypto", message: "Uses crypto terminology", field: "headline", match: "Web3" }]);
+  });
+});
+
+describe("resolvePolicy", () => {
+  const custom: PolicyRule = { type: "lexicon", id: "crypto", message: "No coins", terms: ["coin"] };
+
+  it("defaults to the built-in rules, only recording violations", () => {
+    expect(resolvePolicy(undefined, { builtInPersona: true })).toEqual({ rules: DEFAULT_POLICY_RULES, maxAttempts: 1 });
+    expect(resolvePolicy({ rules: [] }, { builtInPersona: true }).maxAttempts).toBe(3);
+  });
+
+  it("keeps the built-in rules away from prompts with their own persona", () => {
+    expect(resolvePolicy(undefined, { builtInPersona: false })).toEqual({ rules: [], maxAttempts: 1 });
+    expect(resolvePolicy({ rules: [custom], maxAttempts: 2 }, { builtInPersona: false })).toEqual({
+      rules: [custom],
+      maxAttempts: 2,
+    });
+  });
+
+  it("replaces defaults by id, skips disabled ones, and can drop them all", () => {
+    const ids = (config: Parameters<typeof resolvePolicy>[0]) =>
+      resolvePolicy(config, { builtInPersona: true }).rules.map((r) => r.id);
+    expect(ids({ rules: [custom], disabledRules: ["compliment-opener"] })).toEqual([
+      "dollar-amount",
+      "passive-income",
+      "client-identity",
+      "crypto",
+    ]);
+    expect(resolvePolicy({ rules: [custom] }, { builtInPersona: true }).rules.at(-1)).toBe(custom);
+    expect(ids({ rules: [custom], includeDefaults: false })).toEqual(["crypto"]);
+  });
+});
+
+describe("enforcePolicy", () => {
+  const policy = resolvePolicy({}, { builtInPersona: true });
+
+  it("retries with every attempt so far until the output passes, summing tokens", async () => {
+    const retry = vi.fn()
+      .mockResolvedValueOnce(result("Now it is $20.", 200))
+      .mockResolvedValueOnce(result("Clean now.", 300));
+
+    const outcome = await enforcePolicy(policy, {}, result("Costs $10."), retry);
+
+    expect(retry).toHaveBeenCalledTimes(2);
+    expect(retry.mock.calls[0][0]).toEqual([{ feedback: null, output: { subject: "Quick question", body: "Costs $10." } }]);
+    expect(retry.mock.calls[0][1]).toContain('- body: Mentions a specific dollar amount ("$10")');
+    expect(retry.mock.calls[1][0]).toHaveLength(2);
+    expect(retry.mock.calls[1][0][1].feedback).toBe(retry.mock.calls[0][1]);
+    expect(outcome).toMatchObject({ attempts: 3, violations: [] });
+    expect(outcome.result.sequence![0].bodyText).toBe("Clean now.");
+    expect(outcome.result.tokensInput).toBe(600);
+  });
+
+  it("stops at maxAttempts and keeps the last violations", async () => {
+    const retry = vi.fn().mockResolvedValue(result("Still $10."));
+
+    const outcome = await enforcePolicy({ ...policy, maxAttempts: 2 }, {}, result("Costs $10."), retry);
+
+    expect(retry).toHaveBeenCalledTimes(1);
+    expect(outcome.attempts).toBe(2);
+    expect(outcome.violations.map((v) => v.ruleId)).toEqual(["dollar-amount"]);
+  });
+
+  it("gives the extra check its own attempts, apart from the policy's", async () => {
+    const short = (r: ReturnType<typeof result>) => (r.sequence![0].bodyText.length > 6 ? "Shorter" : null);
+    const retry = vi.fn()
+      .mockResolvedValueOnce(result("Still long."))
+      .mockResolvedValueOnce(result("Short."));
+
+    const outcome = await enforcePolicy({ ...policy, maxAttempts: 1 }, {}, result("Long text."), retry, {
+      run: short,
+      maxAttempts: 3,
+    });
+
+    expect(retry).toHaveBeenCalledTimes(2);
+    expect(retry.mock.calls[0][1]).toBe("Shorter");
+    expect(outcome.attempts).toBe(3);
+
+    const capped = await enforcePolicy(policy, {}, result("Long text."), vi.fn().mockResolvedValue(result("Still long.")), {
+      run: short,
+      maxAttempts: 1,
+    });
+    expect(capped.attempts).toBe(1);
+  });
+
+  it("adds the tokens of earlier attempts to a retry's output validation error", async () => {
+    const { OutputValidationError } = await import("../../src/lib/output-schema.js");
+    const error = new OutputValidationError(["body: Required"]);
+    error.usage = { tokensInput: 50, tokensOutput: 5 };
+
+    await expect(
+      enforcePolicy(policy, {}, result("Costs $10.", 200), vi.fn().mockRejectedValue(error))
+    ).rejects.toBe(error);
+    expect(error.usage).toEqual({ tokensInput: 250, tokensOutput: 25 });
+  });
+
+  it("does not retry output that passes", async () => {
+    const retry = vi.fn();
+    const outcome = await enforcePolicy(policy, {}, result("Fine."), retry);
+    expect(retry).not.toHaveBeenCalled();
+    expect(outcome).toMatchObject({ attempts: 1, violations: [] });
+  });
+});
+
+describe("/content-policies", () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    app = createTestApp();
+  });
+
+  it("creates a policy with custom rules", async () => {
+    mockPolicyFindFirst.mockResolvedValue(undefined);
+    const rule = { type: "regex", id: "no-guarantees", message: "Promises results", pattern: "guarantee[ds]?" };
+
+    const res = await request(app)
+      .put("/content-policies")
+      .send({ appId: "my-app", rules: [rule], disabledRules: ["compliment-opener"], maxAttempts: 2 })
+      .expect(200);
+
+    expect(mockInsertValues).toHaveBeenCalledWith({
+      appId: "my-app",
+      rules: [rule],
+      includeDefaults: true,
+      disabledRules: ["compliment-opener"],
+      maxAttempts: 2,
+    });
+    expect(res.body).toMatchObject({ status: "created", appId: "my-app", maxAttempts: 2 });
+  });
+
+  it("leaves an identical policy untouched", async () => {
+    mockPolicyFindFirst.mockResolvedValue({
+      id: "policy-1",
+      appId: "my-app",
+      rules: [],
+      includeDefaults: true,
+      disabledRules: [],
+      maxAttempts: 3,
+      createdAt: NOW,
+      updatedAt: NOW,
+    });
+
+    const res = await request(app).put("/content-policies").send({ appId: "my-app" }).expect(200);
+
+    expect(res.body.status).toBe("unchanged");
+    expect(mockUpdateSet).not.toHaveBeenCalled();
+  });
+
+  it("rejects invalid patterns, duplicate ids and out-of-range maxAttempts", async () => {
+    const send = (body: Record<string, unknown>) => request(app).put("/content-policies").send({ appId: "my-app", ...body });
+
+    const bad = await send({ rules: [{ type: "regex", id: "x", message: "m", pattern: "(" }] }).expect(400);
+    expect(bad.body.error).toContain("pattern is not a valid regular expression");
+    const lexicon = { type: "lexicon", id: "x", message: "m", terms: ["a"] };
+    await send({ rules: [lexicon, lexicon] }).expect(400);
+    await send({ maxAttempts: 0 }).expect(400);
+    await send({ maxAttempts: 6 }).expect(400);
+    expect(mockInsertValues).not.toHaveBeenCalled();
+  });
+
+  it("returns the rules in effect, the defaults without a stored policy", async () => {
+    mockPolicyFindFirst.mockResolvedValue(undefined);
+
+    const res = await request(app).get("/content-policies?appId=my-app").expect(200);
+
+    expect(res.body.policy).toBeNull();
+    expect(res.body.effective.rules.map((r: { id: string }) => r.id)).toEqual(DEFAULT_POLICY_RULES.map((r) => r.id));
+    expect(res.body.effective.maxAttempts).toBe(1);
+    expect(res.body.effectiveForCustomPrompts).toEqual({ rules: [], maxAttempts: 1 });
+  });
+
+  it("deletes a policy and returns 404 when there is none", async () => {
+    mockDeleteReturning.mockResolvedValueOnce([{ id: "policy-1" }]);
+    await request(app).delete("/content-policies?appId=my-app").expect(200);
+
+    mockDeleteReturning.mockResolvedValueOnce([]);
+    await request(app).delete("/content-policies?appId=my-app").expect(404);
+  });
+});
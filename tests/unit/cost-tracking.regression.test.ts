@@ -47,6 +47,8 @@ const mockDbSetCalls: Array<Record<string, unknown>> = [];
 // Mock prompts lookup to return a stored prompt
 const MOCK_PROMPT_TEMPLATE = "Write an email to {{recipientName}} about {{senderName}}";
 
+const mockVariantFindMany = vi.fn().mockResolvedValue([]);
+
 vi.mock("../../src/db/index.js", () => ({
   db: {
     insert: vi.fn().mockReturnValue({
@@ -61,6 +63,10 @@ vi.mock("../../src/db/index.js", () => ({
       }),
     }),
     query: {
+      contentPolicies: { findFirst: () => Promise.resolve(undefined) },
+      promptVariants: {
+        findMany: (...args: unknown[]) => mockVariantFindMany(...args),
+      },
       prompts: {
         findFirst: vi.fn().mockResolvedValue({
           id: "prompt-1",
@@ -75,7 +81,9 @@ vi.mock("../../src/db/index.js", () => ({
 }));
 
 vi.mock("../../src/db/schema.js", () => ({
+  contentPolicies: { appId: { name: "app_id" } },
   emailGenerations: { id: { name: "id" } },
+  promptVariants: { promptId: { name: "prompt_id" }, name: { name: "name" } },
   prompts: { appId: { name: "app_id" }, type: { name: "type" } },
 }));
 
@@ -150,6 +158,18 @@ describe("Email generation cost tracking", () => {
     expect(costNames).toContain("anthropic-sonnet-4.6-tokens-output");
   });
 
+  it("should post cost names for the model selected in the request", async () => {
+    await request(app)
+      .post("/generate")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({ ...VALID_REQUEST, settings: { model: "claude-haiku-4-5" } })
+      .expect(200);
+
+    const [, costItems] = mockAddCosts.mock.calls[0];
+    const costNames = costItems.map((c: { costName: string }) => c.costName);
+    expect(costNames).toEqual(["anthropic-haiku-4.5-tokens-input", "anthropic-haiku-4.5-tokens-output"]);
+  });
+
   it("should post raw token quantities, not dollar amounts", async () => {
     await request(app)
       .post("/generate")
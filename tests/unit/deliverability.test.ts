@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { analyzeEmail, analyzeSequence, deliverabilityFeedback } from "../../src/lib/deliverability.js";
+import type { SequenceStep } from "../../src/lib/anthropic-client.js";
+
+function email(subject: string | null, bodyText: string, bodyHtml = `<p>${bodyText}</p>`) {
+  return { subject, bodyText, bodyHtml };
+}
+
+function checks(report: { findings: { check: string; field: string }[] }) {
+  return report.findings.map((f) => `${f.field}:${f.check}`);
+}
+
+describe("analyzeEmail", () => {
+  it("scores a plain, short cold email 100", () => {
+    const report = analyzeEmail(
+      email("Quick question about Acme", "Hi Sarah,\n\nSaw Acme is hiring SDRs. Worth a chat next week?\n\nBest,\nKevin")
+    );
+    expect(report).toEqual({ score: 100, findings: [] });
+  });
+
+  it("flags spam words, capitals and exclamation marks in the subject", () => {
+    const report = analyzeEmail(email("FREE trial, act now!!", "Hi Sarah, worth a chat?"));
+    expect(checks(report)).toEqual(["subject:spamWords", "subject:allCaps", "subject:exclamations"]);
+    // free and act now: 20, FREE: 10, two marks: 10
+    expect(report.score).toBe(60);
+  });
+
+  it("matches spam words as whole words only", () => {
+    expect(analyzeEmail(email("Freedom to scale", "Hi Sarah, worth a chat?")).findings).toEqual([]);
+  });
+
+  it("flags long and empty subject lines", () => {
+    expect(checks(analyzeEmail(email("a".repeat(61), "Body.")))).toEqual(["subject:subjectLength"]);
+    expect(analyzeEmail(email(" ", "Body.")).findings[0]).toMatchObject({ check: "subjectLength", penalty: 20 });
+  });
+
+  it("skips subject checks for follow-ups replying in the thread", () => {
+    expect(analyzeEmail(email(null, "Following up on my last note.")).score).toBe(100);
+  });
+
+  it("allows one exclamation mark per five sentences in the body", () => {
+    expect(analyzeEmail(email("Hello there", "Great to meet you! See you soon.")).score).toBe(100);
+    const report = analyzeEmail(email("Hello there", "Great! Amazing! Really!"));
+    expect(report.findings).toEqual([expect.objectContaining({ check: "exclamations", penalty: 10 })]);
+  });
+
+  it("tolerates a few acronyms but flags shouting", () => {
+    expect(analyzeEmail(email("Hello there", "Our SaaS helps CRM and B2B teams.")).score).toBe(100);
+    const report = analyzeEmail(email("Hello there", "THIS WILL CHANGE YOUR SALES."));
+    expect(report.findings[0]).toMatchObject({ check: "allCaps", field: "body" });
+  });
+
+  it("penalizes more than one link", () => {
+    const body = "See https://a.example and www.b.example or https://c.example.";
+    expect(analyzeEmail(email("Hello there", body)).findings).toEqual([
+      expect.objectContaining({ check: "links", penalty: 20 }),
+    ]);
+  });
+
+  it("flags HTML that is mostly markup", () => {
+    const html = `<div style="${"x".repeat(300)}"><p>Short text</p></div>`;
+    expect(checks(analyzeEmail(email("Hello there", "Short text", html)))).toEqual(["body:textHtmlRatio"]);
+  });
+
+  it("never scores below 0", () => {
+    const body = "FREE CASH NOW!!!! Guaranteed winner, click here, act now, buy now, earn money, urgent!!!";
+    expect(analyzeEmail(email("FREE CASH WINNER!!!", body)).score).toBe(0);
+  });
+});
+
+describe("analyzeSequence", () => {
+  const step = (n: number, bodyText: string, subject?: string): SequenceStep => ({
+    step: n,
+    bodyText,
+    bodyHtml: `<p>${bodyText}</p>`,
+    daysSinceLastStep: n === 1 ? 0 : 3,
+    threadMode: n === 1 || subject !== undefined ? "new" : "reply",
+    ...(subject !== undefined && { subject }),
+  });
+
+  it("scores step 1 with the thread subject and takes the weakest step's score", () => {
+    const report = analyzeSequence("Quick question", [
+      step(1, "Worth a chat?"),
+      step(2, "Just checking in."),
+      step(3, "Last note.", "URGENT: limited time"),
+    ]);
+    expect(report.steps.map((s) => s.score)).toEqual([100, 100, 70]);
+    expect(report.score).toBe(70);
+  });
+});
+
+describe("deliverabilityFeedback", () => {
+  it("lists every finding, by email", () => {
+    const feedback = deliverabilityFeedback([
+      { step: 2, score: 90, findings: [{ check: "links", field: "body", message: "2 links", penalty: 10 }] },
+    ]);
+    expect(feedback).toContain("- Email 2 body: 2 links");
+  });
+});
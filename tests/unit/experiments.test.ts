@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { pickVariant } from "../../src/lib/experiments";
+
+const variants = [
+  { id: "a", weight: 1 },
+  { id: "b", weight: 3 },
+];
+
+describe("pickVariant", () => {
+  it("returns null when there are no variants", () => {
+    expect(pickVariant([], "lead-1", "prompt-1")).toBeNull();
+  });
+
+  it("returns null when all weights are zero", () => {
+    expect(pickVariant([{ id: "a", weight: 0 }], "lead-1", "prompt-1")).toBeNull();
+  });
+
+  it("is deterministic for the same lead", () => {
+    const first = pickVariant(variants, "lead-42", "prompt-1");
+    for (let i = 0; i < 5; i++) {
+      expect(pickVariant(variants, "lead-42", "prompt-1")).toBe(first);
+    }
+  });
+
+  it("never picks a zero-weight variant", () => {
+    const withPaused = [{ id: "paused", weight: 0 }, { id: "live", weight: 1 }];
+    for (let i = 0; i < 50; i++) {
+      expect(pickVariant(withPaused, `lead-${i}`, "prompt-1")!.id).toBe("live");
+    }
+  });
+
+  it("splits traffic roughly by weight", () => {
+    const counts: Record<string, number> = { a: 0, b: 0 };
+    for (let i = 0; i < 4000; i++) {
+      counts[pickVariant(variants, `lead-${i}`, "prompt-1")!.id]++;
+    }
+    expect(counts.b / 4000).toBeGreaterThan(0.7);
+    expect(counts.b / 4000).toBeLessThan(0.8);
+  });
+});
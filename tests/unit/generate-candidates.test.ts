@@ -0,0 +1,374 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import { candidateAttempts, heuristicScores, rankCandidates, scoreHeuristics } from "../../src/lib/candidates.js";
+import { OutputValidationError } from "../../src/lib/output-schema.js";
+
+const mockCreateRun = vi.fn();
+const mockUpdateRun = vi.fn();
+const mockAddCosts = vi.fn();
+
+vi.mock("../../src/lib/runs-client.js", () => ({
+  createRun: (...args: unknown[]) => mockCreateRun(...args),
+  updateRun: (...args: unknown[]) => mockUpdateRun(...args),
+  addCosts: (...args: unknown[]) => mockAddCosts(...args),
+}));
+
+vi.mock("../../src/middleware/auth.js", () => ({
+  serviceAuth: (req: any, _res: any, next: any) => {
+    req.orgId = "org-internal-123";
+    req.clerkOrgId = "org_test";
+    next();
+  },
+}));
+
+const mockPromptFindFirst = vi.fn();
+const mockGenerationFindFirst = vi.fn();
+const mockInsertValues = vi.fn();
+const mockUpdateSet = vi.fn();
+const mockUpdateReturning = vi.fn().mockResolvedValue([{ id: "gen-1" }]);
+
+vi.mock("../../src/db/index.js", () => ({
+  db: {
+    insert: () => ({
+      values: (values: Record<string, unknown>) => {
+        mockInsertValues(values);
+        return { returning: () => Promise.resolve([{ id: "gen-1" }]) };
+      },
+    }),
+    update: () => ({
+      set: (values: Record<string, unknown>) => {
+        mockUpdateSet(values);
+        const done = Promise.resolve(undefined);
+        return { where: () => Object.assign(done, { returning: () => mockUpdateReturning() }) };
+      },
+    }),
+    query: {
+      contentPolicies: { findFirst: () => Promise.resolve(undefined) },
+      prompts: { findFirst: (...args: unknown[]) => mockPromptFindFirst(...args) },
+      promptVariants: { findMany: () => Promise.resolve([]) },
+      emailGenerations: { findFirst: (...args: unknown[]) => mockGenerationFindFirst(...args) },
+    },
+  },
+}));
+
+vi.mock("../../src/db/schema.js", () => ({
+  contentPolicies: { appId: { name: "app_id" } },
+  emailGenerations: { id: { name: "id" }, orgId: { name: "org_id" }, editCount: { name: "edit_count" } },
+  promptVariants: { promptId: { name: "prompt_id" } },
+  prompts: { appId: { name: "app_id" }, type: { name: "type" } },
+}));
+
+vi.mock("../../src/lib/key-client.js", () => ({
+  getByokKey: vi.fn().mockResolvedValue("fake-byok-key"),
+  getAppKey: vi.fn().mockResolvedValue("fake-app-key"),
+}));
+
+const mockGenerateFromTemplate = vi.fn();
+const mockJudgeCandidates = vi.fn();
+
+vi.mock("../../src/lib/anthropic-client.js", () => ({
+  generateFromTemplate: (...args: unknown[]) => mockGenerateFromTemplate(...args),
+  judgeCandidates: (...args: unknown[]) => mockJudgeCandidates(...args),
+  parsePromptRaw: (raw: string) => ({ system: "system", user: raw }),
+}));
+
+import generateRoutes from "../../src/routes/generate.js";
+import candidateRoutes from "../../src/routes/generation-candidates.js";
+
+function createTestApp() {
+  const app = express();
+  app.use(express.json());
+  app.use(generateRoutes);
+  app.use(candidateRoutes);
+  return app;
+}
+
+function result(subject: string, body: string) {
+  return {
+    subject,
+    sequence: [{ step: 1, bodyHtml: `<p>${body}</p>`, bodyText: body, daysSinceLastStep: 0, threadMode: "new" }],
+    output: { subject, body },
+    tokensInput: 500,
+    tokensOutput: 100,
+    costUsd: 0.002,
+    settings: { model: "claude-sonnet-4-6", maxTokens: 3072 },
+    promptRaw: "Write to Sarah at Acme",
+    responseRaw: {},
+  };
+}
+
+const body = {
+  appId: "my-app",
+  type: "email",
+  variables: { leadFirstName: "Sarah", leadCompanyName: "Acme" },
+  keyMode: "byok",
+  runId: "run-parent",
+};
+
+describe("heuristics", () => {
+  const sequence = (text: string) => [{ step: 1, bodyHtml: "", bodyText: text, daysSinceLastStep: 0, threadMode: "new" as const }];
+  const variables = { leadFirstName: "Sarah", leadCompanyName: "Acme", clientCompanyName: "Secret Co" };
+
+  it("scores length, personalization of lead variables, and subject length", () => {
+    const scores = heuristicScores(
+      { subject: "Quick question", sequence: sequence("Hi sarah, a question about acme."), output: {} },
+      { variables }
+    );
+    expect(scores).toEqual({ length: 1, personalization: 1, subject: 1 });
+
+    const weak = heuristicScores(
+      { subject: "Hi", sequence: sequence(Array(240).fill("word").join(" ")), output: {} },
+      { variables }
+    );
+    expect(weak).toEqual({ length: 0.5, personalization: 0, subject: 0.8 });
+  });
+
+  it("uses the style's maxWords as the length target", () => {
+    const scores = heuristicScores(
+      { subject: null, sequence: sequence(Array(100).fill("word").join(" ")), output: {} },
+      { variables: {}, maxWords: 50 }
+    );
+    expect(scores).toEqual({ length: 0.5, personalization: 1, subject: 1 });
+  });
+
+  it("weights the heuristics", () => {
+    const scores = { length: 1, personalization: 0, subject: 0.5 };
+    expect(scoreHeuristics(scores)).toBeCloseTo(0.5);
+    expect(scoreHeuristics(scores, { personalization: 0 })).toBeCloseTo(0.75);
+    expect(scoreHeuristics(scores, { length: 0, personalization: 0, subject: 0 })).toBe(0);
+  });
+
+  it("ranks best first and keeps generation order on ties", () => {
+    const c = (score: number) => ({ subject: null, sequence: null, output: {}, score, tokensInput: 0, tokensOutput: 0 });
+    const ranked = rankCandidates([c(0.5), c(0.9), c(0.5)]);
+    expect(ranked.map((r) => [r.index, r.rank, r.selected])).toEqual([
+      [2, 1, true],
+      [1, 2, false],
+      [3, 3, false],
+    ]);
+  });
+
+  it("cuts policy attempts so all candidates stay within the call budget", () => {
+    expect(candidateAttempts(3, 1)).toBe(3);
+    expect(candidateAttempts(5, 3)).toBe(3);
+    expect(candidateAttempts(5, 5)).toBe(2);
+    expect(candidateAttempts(1, 5)).toBe(1);
+  });
+});
+
+describe("POST /generate with candidates", () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCreateRun.mockResolvedValue({ id: "run-gen" });
+    mockUpdateRun.mockResolvedValue({});
+    mockAddCosts.mockResolvedValue({ costs: [] });
+    mockPromptFindFirst.mockResolvedValue({
+      id: "prompt-1",
+      appId: "my-app",
+      type: "email",
+      prompt: "Write to {{leadFirstName}} at {{leadCompanyName}}",
+      variables: ["leadFirstName", "leadCompanyName"],
+    });
+    app = createTestApp();
+  });
+
+  it("generates each candidate with its own angle, ranks them and stores them on one generation", async () => {
+    mockGenerateFromTemplate
+      .mockResolvedValueOnce(result("Hello", "Hi there."))
+      .mockResolvedValueOnce(result("A question for Acme", "Hi Sarah, how does Acme handle this?"));
+
+    const res = await request(app).post("/generate").send({ ...body, candidates: 2 }).expect(200);
+
+    expect(mockGenerateFromTemplate).toHaveBeenCalledTimes(2);
+    expect(mockGenerateFromTemplate.mock.calls[0][1].candidate).toEqual({ index: 1, count: 2 });
+    expect(mockGenerateFromTemplate.mock.calls[1][1].candidate).toEqual({ index: 2, count: 2 });
+
+    expect(res.body.subject).toBe("A question for Acme");
+    expect(res.body.candidates.map((c: { index: number; rank: number; selected: boolean }) => [c.index, c.rank, c.selected]))
+      .toEqual([[2, 1, true], [1, 2, false]]);
+    expect(res.body.candidates[0].scores).toEqual({ length: 1, personalization: 1, subject: 1 });
+    expect(res.body).toMatchObject({ tokensInput: 1000, tokensOutput: 200 });
+
+    expect(mockCreateRun).toHaveBeenCalledTimes(1);
+    expect(mockAddCosts).toHaveBeenCalledWith("run-gen", [
+      { costName: "anthropic-sonnet-4.6-tokens-input", quantity: 1000 },
+      { costName: "anthropic-sonnet-4.6-tokens-output", quantity: 200 },
+    ]);
+    expect(mockInsertValues).toHaveBeenCalledTimes(1);
+    expect(mockInsertValues.mock.calls[0][0]).toMatchObject({
+      subject: "A question for Acme",
+      candidates: res.body.candidates,
+      ranking: { method: "heuristics" },
+      tokensInput: 1000,
+    });
+  });
+
+  it("ranks with a judge model and tracks its tokens", async () => {
+    mockGenerateFromTemplate
+      .mockResolvedValueOnce(result("One", "First"))
+      .mockResolvedValueOnce(result("Two", "Second"))
+      .mockResolvedValueOnce(result("Three", "Third"));
+    mockJudgeCandidates.mockResolvedValue({
+      scores: [
+        { score: 0.4, rationale: "Generic" },
+        { score: 0.6, rationale: "Fine" },
+        { score: 0.9, rationale: "Specific hook" },
+      ],
+      tokensInput: 900,
+      tokensOutput: 80,
+      costUsd: 0.001,
+      settings: { model: "claude-haiku-4-5", maxTokens: 1024 },
+    });
+
+    const res = await request(app)
+      .post("/generate")
+      .send({ ...body, candidates: 3, ranking: { method: "judge", model: "claude-haiku-4-5", criteria: "Brevity" } })
+      .expect(200);
+
+    expect(mockJudgeCandidates).toHaveBeenCalledWith("fake-byok-key", {
+      userPrompt: "Write to Sarah at Acme",
+      candidates: [{ subject: "One", body: "First" }, { subject: "Two", body: "Second" }, { subject: "Three", body: "Third" }],
+      criteria: "Brevity",
+      settings: { model: "claude-haiku-4-5" },
+    });
+    expect(res.body.subject).toBe("Three");
+    expect(res.body.candidates[0]).toMatchObject({ index: 3, score: 0.9, rationale: "Specific hook", selected: true });
+    expect(mockAddCosts.mock.calls[0][1]).toEqual([
+      { costName: "anthropic-sonnet-4.6-tokens-input", quantity: 1500 },
+      { costName: "anthropic-sonnet-4.6-tokens-output", quantity: 300 },
+      { costName: "anthropic-haiku-4.5-tokens-input", quantity: 900 },
+      { costName: "anthropic-haiku-4.5-tokens-output", quantity: 80 },
+    ]);
+  });
+
+  it("tracks the candidates that were billed when another one fails", async () => {
+    mockGenerateFromTemplate
+      .mockResolvedValueOnce(result("One", "First"))
+      .mockRejectedValueOnce(Object.assign(new Error("Rate limited"), { status: 429 }))
+      .mockResolvedValueOnce(result("Three", "Third"));
+
+    await request(app).post("/generate").send({ ...body, candidates: 3 }).expect(500);
+
+    expect(mockInsertValues).not.toHaveBeenCalled();
+    expect(mockAddCosts).toHaveBeenCalledWith("run-gen", [
+      { costName: "anthropic-sonnet-4.6-tokens-input", quantity: 1000 },
+      { costName: "anthropic-sonnet-4.6-tokens-output", quantity: 200 },
+    ]);
+    expect(mockUpdateRun).toHaveBeenCalledWith("run-gen", "failed");
+  });
+
+  it("tracks the candidates and the judge when the judge's response cannot be read", async () => {
+    mockGenerateFromTemplate
+      .mockResolvedValueOnce(result("One", "First"))
+      .mockResolvedValueOnce(result("Two", "Second"));
+    const invalid = new OutputValidationError(["judge response is not valid JSON"]);
+    invalid.usage = { tokensInput: 900, tokensOutput: 80 };
+    mockJudgeCandidates.mockRejectedValue(invalid);
+
+    await request(app)
+      .post("/generate")
+      .send({ ...body, candidates: 2, ranking: { method: "judge", model: "claude-haiku-4-5" } })
+      .expect(502);
+
+    expect(mockAddCosts).toHaveBeenCalledWith("run-gen", [
+      { costName: "anthropic-sonnet-4.6-tokens-input", quantity: 1000 },
+      { costName: "anthropic-sonnet-4.6-tokens-output", quantity: 200 },
+      { costName: "anthropic-haiku-4.5-tokens-input", quantity: 900 },
+      { costName: "anthropic-haiku-4.5-tokens-output", quantity: 80 },
+    ]);
+    expect(mockUpdateRun).toHaveBeenCalledWith("run-gen", "failed");
+  });
+
+  it("keeps a single generation without candidates by default", async () => {
+    mockGenerateFromTemplate.mockResolvedValueOnce(result("Hello", "Hi Sarah"));
+
+    const res = await request(app).post("/generate").send(body).expect(200);
+
+    expect(mockGenerateFromTemplate.mock.calls[0][1].candidate).toBeUndefined();
+    expect(res.body.candidates).toBeUndefined();
+    expect(mockInsertValues.mock.calls[0][0]).toMatchObject({ candidates: null, ranking: null });
+  });
+
+  it("rejects more than 5 candidates", async () => {
+    await request(app).post("/generate").send({ ...body, candidates: 6 }).expect(400);
+  });
+});
+
+describe("POST /generations/:id/candidates/:index/select", () => {
+  let app: express.Express;
+
+  function candidate(index: number, selected: boolean) {
+    const r = result(`Subject ${index}`, `Body ${index}`);
+    return {
+      index,
+      rank: index,
+      selected,
+      score: 1 - index / 10,
+      subject: r.subject,
+      sequence: r.sequence,
+      output: r.output,
+      tokensInput: 500,
+      tokensOutput: 100,
+    };
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGenerationFindFirst.mockResolvedValue({
+      id: "gen-1",
+      orgId: "org-internal-123",
+      // Step 1 of the selected candidate was regenerated since
+      subject: "Subject 1",
+      sequence: [{ step: 1, bodyHtml: "<p>Edited</p>", bodyText: "Edited", daysSinceLastStep: 0, threadMode: "new", revision: 2 }],
+      output: { subject: "Subject 1", body: "Edited" },
+      candidates: [candidate(1, true), candidate(2, false)],
+      editCount: 1,
+    });
+    app = createTestApp();
+  });
+
+  it("swaps in the chosen candidate and keeps edits on the previous one", async () => {
+    const res = await request(app).post("/generations/gen-1/candidates/2/select").expect(200);
+
+    expect(res.body.subject).toBe("Subject 2");
+    expect(res.body.sequence[0].bodyText).toBe("Body 2");
+    expect(res.body.candidates[0]).toMatchObject({ index: 1, selected: false, output: { body: "Edited" } });
+    expect(res.body.candidates[0].sequence[0].revision).toBe(2);
+    expect(mockUpdateSet).toHaveBeenCalledWith({
+      subject: "Subject 2",
+      sequence: res.body.sequence,
+      output: { subject: "Subject 2", body: "Body 2" },
+      policyAttempts: null,
+      policyViolations: null,
+      readabilityViolations: null,
+      deliverabilityScore: null,
+      deliverability: null,
+      candidates: res.body.candidates,
+      editCount: 2,
+    });
+  });
+
+  it("returns 409 when the generation was edited meanwhile", async () => {
+    mockUpdateReturning.mockResolvedValueOnce([]);
+
+    const res = await request(app).post("/generations/gen-1/candidates/2/select").expect(409);
+
+    expect(res.body.error).toContain("edited meanwhile");
+  });
+
+  it("leaves the row alone when the candidate is already selected", async () => {
+    const res = await request(app).post("/generations/gen-1/candidates/1/select").expect(200);
+
+    expect(res.body.sequence[0].bodyText).toBe("Edited");
+    expect(mockUpdateSet).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 for an unknown candidate and 409 for a single-candidate generation", async () => {
+    await request(app).post("/generations/gen-1/candidates/3/select").expect(404);
+    mockGenerationFindFirst.mockResolvedValue({ id: "gen-1", candidates: null });
+    await request(app).post("/generations/gen-1/candidates/1/select").expect(409);
+  });
+});
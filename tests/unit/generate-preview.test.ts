@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import express from "express";
+import request from "supertest";
+
+const mockCreateRun = vi.fn();
+const mockAddCosts = vi.fn();
+
+vi.mock("../../src/lib/runs-client.js", () => ({
+  createRun: (...args: unknown[]) => mockCreateRun(...args),
+  updateRun: vi.fn(),
+  addCosts: (...args: unknown[]) => mockAddCosts(...args),
+}));
+
+vi.mock("../../src/middleware/auth.js", () => ({
+  serviceAuth: (req: any, _res: any, next: any) => {
+    req.orgId = "org-internal-123";
+    req.clerkOrgId = "org_test";
+    next();
+  },
+}));
+
+const mockPromptFindFirst = vi.fn();
+const mockVariantFindMany = vi.fn().mockResolvedValue([]);
+const mockInsert = vi.fn();
+
+vi.mock("../../src/db/index.js", () => ({
+  db: {
+    insert: (...args: unknown[]) => mockInsert(...args),
+    query: {
+      promptVariants: {
+        findMany: (...args: unknown[]) => mockVariantFindMany(...args),
+      },
+      prompts: {
+        findFirst: (...args: unknown[]) => mockPromptFindFirst(...args),
+      },
+    },
+  },
+}));
+
+vi.mock("../../src/db/schema.js", () => ({
+  emailGenerations: { id: { name: "id" } },
+  promptVariants: { promptId: { name: "prompt_id" }, name: { name: "name" } },
+  prompts: { appId: { name: "app_id" }, type: { name: "type" } },
+}));
+
+const mockGetByokKey = vi.fn();
+
+vi.mock("../../src/lib/key-client.js", () => ({
+  getByokKey: (...args: unknown[]) => mockGetByokKey(...args),
+  getAppKey: vi.fn(),
+}));
+
+const mockCreate = vi.fn();
+
+vi.mock("@anthropic-ai/sdk", () => ({
+  default: class MockAnthropic {
+    messages = { create: mockCreate };
+  },
+}));
+
+import generateRoutes from "../../src/routes/generate.js";
+
+function createApp() {
+  const app = express();
+  app.use(express.json());
+  app.use(generateRoutes);
+  return app;
+}
+
+const body = {
+  appId: "my-app",
+  type: "email",
+  variables: { leadFirstName: "Sarah", leadCompanyName: "Acme" },
+  keyMode: "byok",
+  runId: "run-1",
+};
+
+describe("POST /generate/preview", () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockVariantFindMany.mockResolvedValue([]);
+    mockPromptFindFirst.mockResolvedValue({
+      id: "prompt-1",
+      prompt: "Write to {{leadFirstName}} at {{leadCompanyName}}.",
+      variables: ["leadFirstName", "leadCompanyName"],
+      variableMode: "strict",
+      versionId: "version-3",
+    });
+    app = createApp();
+  });
+
+  it("returns the rendered prompts, output schema and estimates", async () => {
+    const res = await request(app).post("/generate/preview").send(body).expect(200);
+
+    expect(res.body.userPrompt).toBe("Write to Sarah at Acme.");
+    expect(res.body.systemPrompt).toContain("3-email cold outreach sequence");
+    expect(res.body.outputSchema.required).toEqual(["subject", "body", "followup1", "followup2"]);
+    expect(res.body.settings).toEqual({ model: "claude-sonnet-4-6", maxTokens: 3072 });
+    expect(res.body.promptId).toBe("prompt-1");
+    expect(res.body.versionId).toBe("version-3");
+    expect(res.body.variantId).toBeNull();
+    expect(res.body.estimatedTokensInput).toBeGreaterThan(0);
+    expect(res.body.maxTokensOutput).toBe(3072);
+    expect(res.body.estimatedCostUsd).toBeGreaterThan(0);
+  });
+
+  it("does not call Anthropic, resolve a key, create a run or store a row", async () => {
+    await request(app).post("/generate/preview").send(body).expect(200);
+
+    expect(mockCreate).not.toHaveBeenCalled();
+    expect(mockGetByokKey).not.toHaveBeenCalled();
+    expect(mockCreateRun).not.toHaveBeenCalled();
+    expect(mockAddCosts).not.toHaveBeenCalled();
+    expect(mockInsert).not.toHaveBeenCalled();
+  });
+
+  it("reports variable issues instead of rejecting, even in strict mode", async () => {
+    const res = await request(app)
+      .post("/generate/preview")
+      .send({ ...body, variables: { leadFirstName: "Sarah", leadCompany: "Acme" } })
+      .expect(200);
+
+    expect(res.body.variableIssues).toEqual({
+      missing: ["leadCompanyName"],
+      unexpected: ["leadCompany"],
+      empty: [],
+      invalid: [],
+    });
+    expect(res.body.userPrompt).toBe("Write to Sarah at {{leadCompanyName}}.");
+  });
+
+  it("renders the A/B variant the lead would get", async () => {
+    mockVariantFindMany.mockResolvedValue([
+      { id: "variant-a", name: "a", prompt: "Variant A for {{leadFirstName}} {{leadCompanyName}}", weight: 1 },
+    ]);
+
+    const res = await request(app).post("/generate/preview").send(body).expect(200);
+
+    expect(res.body.variantId).toBe("variant-a");
+    expect(res.body.userPrompt).toBe("Variant A for Sarah Acme");
+  });
+
+  it("returns 404 when no prompt is registered", async () => {
+    mockPromptFindFirst.mockResolvedValue(undefined);
+
+    await request(app).post("/generate/preview").send(body).expect(404);
+  });
+
+  it("returns 400 for an invalid body", async () => {
+    await request(app).post("/generate/preview").send({ appId: "my-app" }).expect(400);
+  });
+});
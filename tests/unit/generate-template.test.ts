@@ -25,6 +25,12 @@ vi.mock("../../src/middleware/auth.js", () => ({
 // Mock DB
 const mockPromptFindFirst = vi.fn();
 
+const mockVariantFindMany = vi.fn().mockResolvedValue([]);
+const mockPartialFindMany = vi.fn().mockResolvedValue([]);
+const mockVersionFindFirst = vi.fn();
+const mockStyleFindFirst = vi.fn();
+const mockPolicyFindFirst = vi.fn();
+
 vi.mock("../../src/db/index.js", () => ({
   db: {
     insert: vi.fn().mockReturnValue({
@@ -38,16 +44,36 @@ vi.mock("../../src/db/index.js", () => ({
       }),
     }),
     query: {
+      contentPolicies: {
+        findFirst: (...args: unknown[]) => mockPolicyFindFirst(...args),
+      },
+      promptVariants: {
+        findMany: (...args: unknown[]) => mockVariantFindMany(...args),
+      },
+      promptPartials: {
+        findMany: (...args: unknown[]) => mockPartialFindMany(...args),
+      },
       prompts: {
         findFirst: (...args: unknown[]) => mockPromptFindFirst(...args),
       },
+      promptVersions: {
+        findFirst: (...args: unknown[]) => mockVersionFindFirst(...args),
+      },
+      stylePresets: {
+        findFirst: (...args: unknown[]) => mockStyleFindFirst(...args),
+      },
     },
   },
 }));
 
 vi.mock("../../src/db/schema.js", () => ({
+  contentPolicies: { appId: { name: "app_id" } },
   emailGenerations: { id: { name: "id" } },
+  promptVariants: { promptId: { name: "prompt_id" }, name: { name: "name" } },
+  promptPartials: { appId: { name: "app_id" } },
   prompts: { appId: { name: "app_id" }, type: { name: "type" } },
+  promptVersions: { promptId: { name: "prompt_id" }, version: { name: "version" } },
+  stylePresets: { appId: { name: "app_id" }, name: { name: "name" } },
 }));
 
 const mockGetByokKey = vi.fn().mockResolvedValue("fake-anthropic-key");
@@ -73,8 +99,12 @@ const mockGenerateFromTemplate = vi.fn().mockResolvedValue({
   responseRaw: {},
 });
 
+const mockReviseGeneration = vi.fn();
+
 vi.mock("../../src/lib/anthropic-client.js", () => ({
   generateFromTemplate: (...args: unknown[]) => mockGenerateFromTemplate(...args),
+  reviseGeneration: (...args: unknown[]) => mockReviseGeneration(...args),
+  parsePromptRaw: (raw: string) => ({ system: "system", user: raw }),
 }));
 
 function createTestApp() {
@@ -128,6 +158,8 @@ describe("POST /generate (template-based)", () => {
       "fake-anthropic-key",
       {
         promptTemplate: "Write an email.\n\n## Recipient\n{{recipientInfo}}\n\n## Sender\n{{senderInfo}}",
+        settings: {},
+        style: null,
         variables: {
           recipientInfo: "Name: John Doe\nCompany: Acme Corp",
           senderInfo: "Name: MyBrand\nURL: https://mybrand.com",
@@ -136,6 +168,569 @@ describe("POST /generate (template-based)", () => {
     );
   });
 
+  it("passes the stored system prompt and checks its variables too", async () => {
+    mockPromptFindFirst.mockResolvedValue({
+      id: "prompt-1",
+      appId: "my-app",
+      type: "invite",
+      prompt: "Invite {{recipientInfo}}",
+      systemPrompt: "You write invites for {{eventName}}.",
+      variables: ["recipientInfo"],
+      variableMode: "strict",
+    });
+
+    const res = await request(app)
+      .post("/generate")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({
+        appId: "my-app",
+        type: "invite",
+        variables: { recipientInfo: "John" },
+        keyMode: "byok",
+        runId: "run-1",
+      })
+      .expect(422);
+    expect(res.body.missing).toEqual(["eventName"]);
+
+    await request(app)
+      .post("/generate")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({
+        appId: "my-app",
+        type: "invite",
+        variables: { recipientInfo: "John", eventName: "Demo Day" },
+        keyMode: "byok",
+        runId: "run-1",
+      })
+      .expect(200);
+
+    expect(mockGenerateFromTemplate).toHaveBeenCalledWith(
+      "fake-anthropic-key",
+      expect.objectContaining({ systemPromptTemplate: "You write invites for {{eventName}}." })
+    );
+  });
+
+  it("returns structured output for prompts with their own output schema", async () => {
+    const outputSchema = { type: "object", properties: { title: { type: "string" } }, required: ["title"] };
+    mockPromptFindFirst.mockResolvedValue({
+      id: "prompt-1",
+      appId: "my-app",
+      type: "calendar",
+      prompt: "Plan an event",
+      outputSchema,
+      variables: [],
+    });
+    mockGenerateFromTemplate.mockResolvedValueOnce({
+      subject: null,
+      sequence: null,
+      output: { title: "Demo Day" },
+      tokensInput: 100,
+      tokensOutput: 20,
+      costUsd: 0.001,
+      promptRaw: "resolved prompt",
+      responseRaw: {},
+    });
+
+    const res = await request(app)
+      .post("/generate")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({ appId: "my-app", type: "calendar", variables: {}, keyMode: "byok", runId: "run-1" })
+      .expect(200);
+
+    expect(mockGenerateFromTemplate).toHaveBeenCalledWith(
+      "fake-anthropic-key",
+      expect.objectContaining({ outputSchema })
+    );
+    expect(res.body.output).toEqual({ title: "Demo Day" });
+    expect(res.body.subject).toBe("");
+    expect(res.body.sequence).toEqual([]);
+  });
+
+  it("returns 502 when the output does not match the schema", async () => {
+    const { OutputValidationError } = await import("../../src/lib/output-schema.js");
+    mockGenerateFromTemplate.mockRejectedValueOnce(new OutputValidationError(["title: Invalid input"]));
+
+    const res = await request(app)
+      .post("/generate")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({
+        appId: "my-app",
+        type: "email",
+        variables: { recipientInfo: "x", senderInfo: "y" },
+        keyMode: "byok",
+        runId: "run-1",
+      })
+      .expect(502);
+
+    expect(res.body.issues).toEqual(["title: Invalid input"]);
+  });
+
+  it("tracks the tokens billed for output that does not match the schema", async () => {
+    const { OutputValidationError } = await import("../../src/lib/output-schema.js");
+    const error = new OutputValidationError(["title: Invalid input"]);
+    error.usage = { tokensInput: 400, tokensOutput: 80 };
+    mockGenerateFromTemplate.mockRejectedValueOnce(error);
+
+    await request(app)
+      .post("/generate")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({
+        appId: "my-app",
+        type: "email",
+        variables: { recipientInfo: "x", senderInfo: "y" },
+        keyMode: "byok",
+        runId: "run-1",
+      })
+      .expect(502);
+
+    expect(mockCreateRun).toHaveBeenCalledWith(expect.objectContaining({ parentRunId: "run-1" }));
+    expect(mockAddCosts).toHaveBeenCalledWith("run-456", [
+      { costName: "anthropic-sonnet-4.6-tokens-input", quantity: 400 },
+      { costName: "anthropic-sonnet-4.6-tokens-output", quantity: 80 },
+    ]);
+    expect(mockUpdateRun).toHaveBeenCalledWith("run-456", "failed");
+  });
+
+  it("merges request settings over the prompt's settings", async () => {
+    mockPromptFindFirst.mockResolvedValue({
+      id: "prompt-1",
+      appId: "my-app",
+      type: "email",
+      prompt: "Write to {{recipientInfo}} {{senderInfo}}",
+      variables: ["recipientInfo", "senderInfo"],
+      settings: { model: "claude-haiku-4-5", temperature: 0.2, maxTokens: 2000 },
+    });
+
+    await request(app)
+      .post("/generate")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({
+        appId: "my-app",
+        type: "email",
+        variables: { recipientInfo: "x", senderInfo: "y" },
+        keyMode: "byok",
+        runId: "run-1",
+        settings: { topP: 0.8 },
+      })
+      .expect(200);
+
+    expect(mockGenerateFromTemplate.mock.calls[0][1].settings).toEqual({
+      model: "claude-haiku-4-5",
+      maxTokens: 2000,
+      temperature: undefined,
+      topP: 0.8,
+    });
+  });
+
+  it("uses the prompt's sequence config unless the request overrides it", async () => {
+    const threeSteps = { steps: [{ daysSinceLastStep: 0 }, { daysSinceLastStep: 2 }, { daysSinceLastStep: 4 }] };
+    mockPromptFindFirst.mockResolvedValue({
+      id: "prompt-1",
+      appId: "my-app",
+      type: "email",
+      prompt: "Write to {{recipientInfo}} {{senderInfo}}",
+      variables: ["recipientInfo", "senderInfo"],
+      sequenceConfig: threeSteps,
+    });
+    const send = (extra: Record<string, unknown>) =>
+      request(app)
+        .post("/generate")
+        .set("X-Clerk-Org-Id", "org_test")
+        .send({
+          appId: "my-app",
+          type: "email",
+          variables: { recipientInfo: "x", senderInfo: "y" },
+          keyMode: "byok",
+          runId: "run-1",
+          ...extra,
+        });
+
+    await send({}).expect(200);
+    const oneStep = { steps: [{ daysSinceLastStep: 0 }] };
+    await send({ sequenceConfig: oneStep }).expect(200);
+
+    expect(mockGenerateFromTemplate.mock.calls[0][1].sequence).toEqual(threeSteps);
+    expect(mockGenerateFromTemplate.mock.calls[1][1].sequence).toEqual(oneStep);
+  });
+
+  it("returns 400 for an invalid sequence config", async () => {
+    const send = (sequenceConfig: Record<string, unknown>) =>
+      request(app)
+        .post("/generate")
+        .set("X-Clerk-Org-Id", "org_test")
+        .send({ appId: "my-app", type: "email", variables: {}, keyMode: "byok", runId: "run-1", sequenceConfig });
+
+    await send({ steps: [] }).expect(400);
+    await send({ steps: Array.from({ length: 7 }, (_, i) => ({ daysSinceLastStep: i })) }).expect(400);
+    const late = await send({ steps: [{ daysSinceLastStep: 2 }] }).expect(400);
+    expect(late.body.error).toBe("The first step must have daysSinceLastStep 0");
+    await send({ steps: [{ daysSinceLastStep: 0, threadMode: "reply" }] }).expect(400);
+    await send({ steps: [{ daysSinceLastStep: 0 }, { daysSinceLastStep: 3, threadMode: "forward" }] }).expect(400);
+
+    mockPromptFindFirst.mockResolvedValue({
+      id: "prompt-1",
+      appId: "my-app",
+      type: "calendar",
+      prompt: "Event",
+      variables: [],
+      outputSchema: { type: "object", properties: { title: { type: "string" } } },
+    });
+    const structured = await send({ steps: [{ daysSinceLastStep: 0 }] }).expect(400);
+    expect(structured.body.error).toContain("own output schema");
+    expect(mockGenerateFromTemplate).not.toHaveBeenCalled();
+  });
+
+  it("applies the requested style preset and records it on the generation", async () => {
+    const preset = { id: "style-1", appId: "my-app", name: "ultra-short", tone: "Blunt.", opener: null, maxWords: 50, rules: null };
+    mockStyleFindFirst.mockResolvedValue(preset);
+
+    await request(app)
+      .post("/generate")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({
+        appId: "my-app",
+        type: "email",
+        variables: { recipientInfo: "x", senderInfo: "y" },
+        keyMode: "byok",
+        runId: "run-1",
+        style: "ultra-short",
+      })
+      .expect(200);
+
+    expect(mockGenerateFromTemplate.mock.calls[0][1].style).toEqual(preset);
+    const { db } = await import("../../src/db/index.js");
+    const insertValues = (db.insert as unknown as ReturnType<typeof vi.fn>).mock.results[0].value.values;
+    expect(insertValues).toHaveBeenCalledWith(expect.objectContaining({ style: "ultra-short" }));
+  });
+
+  it("regenerates a sequence that breaks the content policy with the violations fed back", async () => {
+    mockPolicyFindFirst.mockResolvedValueOnce({ rules: [], includeDefaults: true, disabledRules: [], maxAttempts: 3 });
+    const leaky = {
+      subject: "Quick question",
+      sequence: [{ step: 1, bodyHtml: "", bodyText: "Acme Labs pays $500 per referral.", daysSinceLastStep: 0 }],
+      output: { subject: "Quick question", body: "Acme Labs pays $500 per referral." },
+      tokensInput: 500,
+      tokensOutput: 100,
+      costUsd: 0.003,
+      promptRaw: "resolved prompt",
+      responseRaw: {},
+    };
+    mockGenerateFromTemplate.mockResolvedValueOnce(leaky);
+    mockReviseGeneration.mockResolvedValueOnce({
+      ...leaky,
+      sequence: [{ step: 1, bodyHtml: "", bodyText: "A client of mine is hiring.", daysSinceLastStep: 0 }],
+      output: { subject: "Quick question", body: "A client of mine is hiring." },
+      tokensInput: 800,
+    });
+
+    const res = await request(app)
+      .post("/generate")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({
+        appId: "my-app",
+        type: "email",
+        variables: { recipientInfo: "x", senderInfo: "y", clientCompanyName: "Acme Labs" },
+        keyMode: "byok",
+        runId: "run-1",
+      })
+      .expect(200);
+
+    expect(mockPolicyFindFirst).toHaveBeenCalled();
+    const [, revise] = mockReviseGeneration.mock.calls[0];
+    expect(revise.history).toEqual([{ feedback: null, output: leaky.output }]);
+    expect(revise.feedback).toContain('body: Mentions a specific dollar amount ("$500")');
+    expect(revise.feedback).toContain('body: Names the client or links to its website ("Acme Labs")');
+    expect(res.body.policy).toEqual({ attempts: 2, violations: [] });
+    expect(res.body.tokensInput).toBe(1300);
+
+    const { db } = await import("../../src/db/index.js");
+    const insertValues = (db.insert as unknown as ReturnType<typeof vi.fn>).mock.results[0].value.values;
+    expect(insertValues).toHaveBeenCalledWith(
+      expect.objectContaining({ policyAttempts: 2, policyViolations: [], tokensInput: 1300 })
+    );
+  });
+
+  it("only records violations of the default rules without a stored policy", async () => {
+    mockGenerateFromTemplate.mockResolvedValueOnce({
+      subject: "Hi",
+      sequence: [{ step: 1, bodyHtml: "", bodyText: "Earn passive income.", daysSinceLastStep: 0 }],
+      output: { subject: "Hi", body: "Earn passive income." },
+      tokensInput: 500,
+      tokensOutput: 100,
+      costUsd: 0.003,
+      promptRaw: "resolved prompt",
+      responseRaw: {},
+    });
+
+    const res = await request(app)
+      .post("/generate")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({ appId: "my-app", type: "email", variables: { recipientInfo: "x", senderInfo: "y" }, keyMode: "byok", runId: "run-1" })
+      .expect(200);
+
+    expect(mockReviseGeneration).not.toHaveBeenCalled();
+    expect(res.body.policy.attempts).toBe(1);
+    expect(res.body.policy.violations.map((v: { ruleId: string }) => v.ruleId)).toEqual(["passive-income"]);
+  });
+
+  it("keeps the default rules away from prompts with their own system prompt", async () => {
+    mockPromptFindFirst.mockResolvedValue({
+      id: "prompt-1",
+      appId: "my-app",
+      type: "email",
+      prompt: "Write an email to {{recipientInfo}}",
+      systemPrompt: "You write newsletters about personal finance.",
+      variables: ["recipientInfo"],
+    });
+    mockPolicyFindFirst.mockResolvedValueOnce({ rules: [], includeDefaults: true, disabledRules: [], maxAttempts: 3 });
+    mockGenerateFromTemplate.mockResolvedValueOnce({
+      subject: "Hi",
+      sequence: [{ step: 1, bodyHtml: "", bodyText: "Earn passive income.", daysSinceLastStep: 0 }],
+      output: { subject: "Hi", body: "Earn passive income." },
+      tokensInput: 500,
+      tokensOutput: 100,
+      costUsd: 0.003,
+      promptRaw: "resolved prompt",
+      responseRaw: {},
+    });
+
+    const res = await request(app)
+      .post("/generate")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({ appId: "my-app", type: "email", variables: { recipientInfo: "x" }, keyMode: "byok", runId: "run-1" })
+      .expect(200);
+
+    expect(mockReviseGeneration).not.toHaveBeenCalled();
+    expect(res.body.policy).toEqual({ attempts: 1, violations: [] });
+  });
+
+  it("stores the violations left when the app's policy allows no retries", async () => {
+    mockPolicyFindFirst.mockResolvedValueOnce({ rules: [], includeDefaults: true, disabledRules: [], maxAttempts: 1 });
+    mockGenerateFromTemplate.mockResolvedValueOnce({
+      subject: "Hi",
+      sequence: [{ step: 1, bodyHtml: "", bodyText: "Earn passive income with Web3.", daysSinceLastStep: 0 }],
+      output: { subject: "Hi", body: "Earn passive income with Web3." },
+      tokensInput: 500,
+      tokensOutput: 100,
+      costUsd: 0.003,
+      promptRaw: "resolved prompt",
+      responseRaw: {},
+    });
+
+    const res = await request(app)
+      .post("/generate")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({ appId: "my-app", type: "email", variables: { recipientInfo: "x", senderInfo: "y" }, keyMode: "byok", runId: "run-1" })
+      .expect(200);
+
+    expect(mockReviseGeneration).not.toHaveBeenCalled();
+    expect(res.body.policy.attempts).toBe(1);
+    expect(res.body.policy.violations.map((v: { ruleId: string }) => v.ruleId)).toEqual(["crypto", "passive-income"]);
+  });
+
+  it("regenerates a sequence below the deliverability threshold with the findings fed back", async () => {
+    const spammy = {
+      subject: "FREE demo!!",
+      sequence: [{ step: 1, bodyHtml: "<p>Worth a chat?</p>", bodyText: "Worth a chat?", daysSinceLastStep: 0 }],
+      output: { subject: "FREE demo!!", body: "Worth a chat?" },
+      tokensInput: 500,
+      tokensOutput: 100,
+      costUsd: 0.003,
+      promptRaw: "resolved prompt",
+      responseRaw: {},
+    };
+    // Deliverability has its own attempts, whatever the policy allows
+    mockPolicyFindFirst.mockResolvedValueOnce({ rules: [], includeDefaults: true, disabledRules: [], maxAttempts: 1 });
+    mockGenerateFromTemplate.mockResolvedValueOnce(spammy);
+    mockReviseGeneration.mockResolvedValueOnce({
+      ...spammy,
+      subject: "Quick question",
+      output: { subject: "Quick question", body: "Worth a chat?" },
+    });
+
+    const res = await request(app)
+      .post("/generate")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({
+        appId: "my-app",
+        type: "email",
+        variables: { recipientInfo: "x", senderInfo: "y" },
+        keyMode: "byok",
+        runId: "run-1",
+        deliverabilityThreshold: 80,
+      })
+      .expect(200);
+
+    const [, revise] = mockReviseGeneration.mock.calls[0];
+    expect(revise.feedback).toContain("Email 1 subject: Spam trigger words in subject: free");
+    expect(res.body.subject).toBe("Quick question");
+    expect(res.body.policy.attempts).toBe(2);
+    expect(res.body.deliverability).toEqual({ score: 100, steps: [{ step: 1, score: 100, findings: [] }] });
+
+    const { db } = await import("../../src/db/index.js");
+    const insertValues = (db.insert as unknown as ReturnType<typeof vi.fn>).mock.results[0].value.values;
+    expect(insertValues).toHaveBeenCalledWith(
+      expect.objectContaining({ deliverabilityScore: 100, deliverability: res.body.deliverability })
+    );
+  });
+
+  describe("readability limits", () => {
+    const wordy = {
+      subject: "Quick question",
+      sequence: [
+        { step: 1, bodyHtml: "", bodyText: "Worth a chat?", daysSinceLastStep: 0, threadMode: "new" },
+        { step: 2, bodyHtml: "", bodyText: "One. Two. Three. Four.", daysSinceLastStep: 3, threadMode: "reply" },
+      ],
+      output: { subject: "Quick question", body: "Worth a chat?", followup1: "One. Two. Three. Four." },
+      tokensInput: 500,
+      tokensOutput: 100,
+      costUsd: 0.003,
+      promptRaw: "resolved prompt",
+      responseRaw: {},
+    };
+    const send = (onLimitViolation?: "rewrite" | "reject") =>
+      request(app)
+        .post("/generate")
+        .set("X-Clerk-Org-Id", "org_test")
+        .send({
+          appId: "my-app",
+          type: "email",
+          variables: { recipientInfo: "x", senderInfo: "y" },
+          keyMode: "byok",
+          runId: "run-1",
+          sequenceConfig: {
+            steps: [{ daysSinceLastStep: 0 }, { daysSinceLastStep: 3, limits: { maxSentences: 3 } }],
+            ...(onLimitViolation && { onLimitViolation }),
+          },
+        });
+
+    it("rewrites a step outside its limits with the violations fed back", async () => {
+      mockGenerateFromTemplate.mockResolvedValueOnce(wordy);
+      mockReviseGeneration.mockResolvedValueOnce({
+        ...wordy,
+        sequence: [wordy.sequence[0], { ...wordy.sequence[1], bodyText: "One. Two." }],
+        output: { ...wordy.output, followup1: "One. Two." },
+      });
+
+      const res = await send().expect(200);
+
+      const [, revise] = mockReviseGeneration.mock.calls[0];
+      expect(revise.feedback).toContain("- Email 2: 4 sentences; at most 3");
+      expect(res.body.sequence[1].bodyText).toBe("One. Two.");
+      expect(res.body.readability).toEqual({ violations: [] });
+      expect(res.body.policy.attempts).toBe(2);
+
+      // Kept so step regeneration can check the limits again
+      const { db } = await import("../../src/db/index.js");
+      const insertValues = (db.insert as unknown as ReturnType<typeof vi.fn>).mock.results[0].value.values;
+      expect(insertValues).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sequenceConfig: { steps: [{ daysSinceLastStep: 0 }, { daysSinceLastStep: 3, limits: { maxSentences: 3 } }] },
+        })
+      );
+    });
+
+    it("rejects a step outside its limits with 422 when configured to", async () => {
+      mockGenerateFromTemplate.mockResolvedValueOnce(wordy);
+
+      const res = await send("reject").expect(422);
+
+      expect(mockReviseGeneration).not.toHaveBeenCalled();
+      expect(res.body.violations).toEqual([
+        { step: 2, limit: "maxSentences", expected: 3, actual: 4, message: "4 sentences; at most 3" },
+      ]);
+      expect(res.body.id).toBeDefined();
+
+      // Stored and billed all the same, without using up the idempotency key
+      const { db } = await import("../../src/db/index.js");
+      const insertValues = (db.insert as unknown as ReturnType<typeof vi.fn>).mock.results[0].value.values;
+      expect(insertValues).toHaveBeenCalledWith(
+        expect.objectContaining({ rejected: true, readabilityViolations: res.body.violations, idempotencyKey: null })
+      );
+      expect(mockAddCosts).toHaveBeenCalledWith("run-456", expect.any(Array));
+      expect(mockUpdateRun).toHaveBeenCalledWith("run-456", "failed");
+    });
+  });
+
+  it("returns 404 for an unknown style preset", async () => {
+    mockStyleFindFirst.mockResolvedValue(undefined);
+
+    const res = await request(app)
+      .post("/generate")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({ appId: "my-app", type: "email", variables: {}, keyMode: "byok", runId: "run-1", style: "nope" })
+      .expect(404);
+
+    expect(res.body.error).toBe('No style preset "nope" found for appId=my-app');
+    expect(mockGenerateFromTemplate).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 for settings outside the allowed limits", async () => {
+    const send = (settings: Record<string, unknown>) =>
+      request(app)
+        .post("/generate")
+        .set("X-Clerk-Org-Id", "org_test")
+        .send({ appId: "my-app", type: "email", variables: {}, keyMode: "byok", runId: "run-1", settings });
+
+    await send({ model: "gpt-4" }).expect(400);
+    await send({ maxTokens: 100000 }).expect(400);
+    await send({ temperature: 1.5 }).expect(400);
+    const res = await send({ temperature: 0.5, topP: 0.9 }).expect(400);
+    expect(res.body.error).toContain("either temperature or topP");
+    expect(mockGenerateFromTemplate).not.toHaveBeenCalled();
+  });
+
+  it("inlines partials before validating and generating", async () => {
+    mockPromptFindFirst.mockResolvedValue({
+      id: "prompt-1",
+      appId: "my-app",
+      type: "email",
+      prompt: "Write to {{recipientInfo}}.\n{{> rules}}",
+      variables: ["recipientInfo"],
+      variableMode: "strict",
+    });
+    mockPartialFindMany.mockResolvedValue([
+      { name: "rules", content: "Sign as {{senderInfo}}. {{> scam-filter}}" },
+      { name: "scam-filter", content: "No crypto." },
+    ]);
+
+    await request(app)
+      .post("/generate")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({
+        appId: "my-app",
+        type: "email",
+        variables: { recipientInfo: "x", senderInfo: "y" },
+        keyMode: "byok",
+        runId: "run-1",
+      })
+      .expect(200);
+
+    expect(mockGenerateFromTemplate.mock.calls[0][1].promptTemplate).toBe(
+      "Write to {{recipientInfo}}.\nSign as {{senderInfo}}. No crypto."
+    );
+  });
+
+  it("returns 422 for an unknown partial", async () => {
+    mockPromptFindFirst.mockResolvedValue({
+      id: "prompt-1",
+      appId: "my-app",
+      type: "email",
+      prompt: "{{> missing}}",
+      variables: [],
+    });
+    mockPartialFindMany.mockResolvedValue([]);
+
+    const res = await request(app)
+      .post("/generate")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({ appId: "my-app", type: "email", variables: {}, keyMode: "byok", runId: "run-1" })
+      .expect(422);
+
+    expect(res.body.error).toContain('Unknown partial "missing"');
+    expect(mockGenerateFromTemplate).not.toHaveBeenCalled();
+  });
+
   it("returns 404 when no prompt found for app + type", async () => {
     mockPromptFindFirst.mockResolvedValue(null);
 
@@ -250,4 +845,246 @@ describe("POST /generate (template-based)", () => {
 
     expect(res.body.id).toBe("gen-789");
   });
+
+  describe("variable validation", () => {
+    it("rejects missing, unexpected and empty variables with 422 in strict mode", async () => {
+      mockPromptFindFirst.mockResolvedValue({
+        id: "prompt-1",
+        appId: "my-app",
+        type: "email",
+        prompt: "Hi {{leadFirstName}} from {{leadCompanyName}}",
+        variables: ["leadFirstName", "leadCompanyName", "leadTitle"],
+        variableMode: "strict",
+      });
+
+      const res = await request(app)
+        .post("/generate")
+        .set("X-Clerk-Org-Id", "org_test")
+        .send({
+          appId: "my-app",
+          type: "email",
+          variables: { leadFirstName: "", leadCompanyName: "Acme", extra: "x" },
+          keyMode: "byok",
+          runId: "run-1",
+        })
+        .expect(422);
+
+      expect(res.body.missing).toEqual(["leadTitle"]);
+      expect(res.body.unexpected).toEqual(["extra"]);
+      expect(res.body.empty).toEqual(["leadFirstName"]);
+      expect(mockGenerateFromTemplate).not.toHaveBeenCalled();
+    });
+
+    it("flags placeholders used in the template even if not declared", async () => {
+      mockPromptFindFirst.mockResolvedValue({
+        id: "prompt-1",
+        appId: "my-app",
+        type: "email",
+        prompt: "Hi {{leadFirstName}}",
+        variables: [],
+        variableMode: "strict",
+      });
+
+      const res = await request(app)
+        .post("/generate")
+        .set("X-Clerk-Org-Id", "org_test")
+        .send({ appId: "my-app", type: "email", variables: {}, keyMode: "byok", runId: "run-1" })
+        .expect(422);
+
+      expect(res.body.missing).toEqual(["leadFirstName"]);
+    });
+
+    it("still generates in lenient mode when variables do not match", async () => {
+      mockPromptFindFirst.mockResolvedValue({
+        id: "prompt-1",
+        appId: "my-app",
+        type: "email",
+        prompt: "Hi {{leadFirstName}}",
+        variables: ["leadFirstName"],
+        variableMode: "lenient",
+      });
+
+      await request(app)
+        .post("/generate")
+        .set("X-Clerk-Org-Id", "org_test")
+        .send({ appId: "my-app", type: "email", variables: { other: "x" }, keyMode: "byok", runId: "run-1" })
+        .expect(200);
+
+      expect(mockGenerateFromTemplate).toHaveBeenCalled();
+    });
+
+    it("coerces typed variables and fills defaults before generating", async () => {
+      mockPromptFindFirst.mockResolvedValue({
+        id: "prompt-1",
+        appId: "my-app",
+        type: "email",
+        prompt: "{{leadFirstName}} has {{employees}} staff. {{#each tags}}{{this}} {{/each}}{{tone}}",
+        variables: ["leadFirstName", "employees", "tags", "tone"],
+        variableSchema: [
+          { name: "leadFirstName" },
+          { name: "employees", type: "number" },
+          { name: "tags", type: "string[]" },
+          { name: "tone", default: "friendly" },
+        ],
+        variableMode: "strict",
+      });
+
+      await request(app)
+        .post("/generate")
+        .set("X-Clerk-Org-Id", "org_test")
+        .send({
+          appId: "my-app",
+          type: "email",
+          variables: { leadFirstName: "Sarah", employees: "42", tags: "saas" },
+          keyMode: "byok",
+          runId: "run-1",
+        })
+        .expect(200);
+
+      expect(mockGenerateFromTemplate).toHaveBeenCalledWith(
+        "fake-anthropic-key",
+        expect.objectContaining({
+          variables: { leadFirstName: "Sarah", employees: 42, tags: ["saas"], tone: "friendly" },
+        })
+      );
+    });
+
+    it("rejects values the variable schema does not accept with 422, even in lenient mode", async () => {
+      mockPromptFindFirst.mockResolvedValue({
+        id: "prompt-1",
+        appId: "my-app",
+        type: "email",
+        prompt: "{{leadFirstName}} has {{employees}} staff",
+        variables: ["leadFirstName", "employees"],
+        variableSchema: [
+          { name: "leadFirstName", maxLength: 5 },
+          { name: "employees", type: "number" },
+        ],
+        variableMode: "lenient",
+      });
+
+      const res = await request(app)
+        .post("/generate")
+        .set("X-Clerk-Org-Id", "org_test")
+        .send({
+          appId: "my-app",
+          type: "email",
+          variables: { leadFirstName: "Alexandra", employees: "many" },
+          keyMode: "byok",
+          runId: "run-1",
+        })
+        .expect(422);
+
+      expect(res.body.invalid).toEqual([
+        "leadFirstName: longer than 5 characters",
+        "employees: expected a number, got string",
+      ]);
+      expect(mockGenerateFromTemplate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("A/B variants", () => {
+    const variants = [
+      { id: "variant-a", name: "a", prompt: "Variant A for {{recipientInfo}} {{senderInfo}}", weight: 1 },
+      { id: "variant-b", name: "b", prompt: "Variant B for {{recipientInfo}} {{senderInfo}}", weight: 1 },
+    ];
+
+    it("serves a variant, returns its id and is stable per lead", async () => {
+      mockVariantFindMany.mockResolvedValue(variants);
+
+      const send = () =>
+        request(app)
+          .post("/generate")
+          .set("X-Clerk-Org-Id", "org_test")
+          .send({
+            appId: "my-app",
+            type: "email",
+            variables: { recipientInfo: "x", senderInfo: "y" },
+            keyMode: "byok",
+            runId: "run-1",
+            apolloEnrichmentId: "enrich-123",
+          })
+          .expect(200);
+
+      const first = await send();
+      const second = await send();
+
+      expect(["variant-a", "variant-b"]).toContain(first.body.variantId);
+      expect(second.body.variantId).toBe(first.body.variantId);
+
+      const served = variants.find((v) => v.id === first.body.variantId)!;
+      expect(mockGenerateFromTemplate.mock.calls[0][1].promptTemplate).toBe(served.prompt);
+    });
+
+    it("returns a null variantId when no experiment is running", async () => {
+      mockVariantFindMany.mockResolvedValue([]);
+
+      const res = await request(app)
+        .post("/generate")
+        .set("X-Clerk-Org-Id", "org_test")
+        .send({
+          appId: "my-app",
+          type: "email",
+          variables: { recipientInfo: "x", senderInfo: "y" },
+          keyMode: "byok",
+          runId: "run-1",
+        })
+        .expect(200);
+
+      expect(res.body.variantId).toBeNull();
+    });
+  });
+
+  describe("draft versions", () => {
+    const send = (draftVersion: number) =>
+      request(app)
+        .post("/generate")
+        .set("X-Clerk-Org-Id", "org_test")
+        .send({
+          appId: "my-app",
+          type: "email",
+          variables: { recipientInfo: "x", senderInfo: "y" },
+          keyMode: "byok",
+          runId: "run-1",
+          draftVersion,
+        });
+
+    it("generates from the requested draft instead of the live version, without variants", async () => {
+      mockVariantFindMany.mockResolvedValue([
+        { id: "variant-a", name: "a", prompt: "Variant A", weight: 1 },
+      ]);
+      mockVersionFindFirst.mockResolvedValue({
+        id: "version-5",
+        version: 5,
+        status: "in_review",
+        prompt: "Draft wording for {{recipientInfo}} {{senderInfo}}",
+        variables: ["recipientInfo", "senderInfo"],
+        variableMode: "lenient",
+      });
+
+      const res = await send(5).expect(200);
+
+      expect(res.body.variantId).toBeNull();
+      expect(mockGenerateFromTemplate.mock.calls[0][1].promptTemplate).toBe(
+        "Draft wording for {{recipientInfo}} {{senderInfo}}"
+      );
+      const { db } = await import("../../src/db/index.js");
+      const inserted = (db.insert as any).mock.results[0].value.values.mock.calls[0][0];
+      expect(inserted.promptVersionId).toBe("version-5");
+    });
+
+    it("returns 404 for an unknown version", async () => {
+      mockVersionFindFirst.mockResolvedValue(undefined);
+
+      await send(9).expect(404);
+      expect(mockGenerateFromTemplate).not.toHaveBeenCalled();
+    });
+
+    it("returns 400 for a published version", async () => {
+      mockVersionFindFirst.mockResolvedValue({ id: "version-1", version: 1, status: "published" });
+
+      const res = await send(1).expect(400);
+      expect(res.body.error).toContain("is published");
+    });
+  });
 });
@@ -0,0 +1,316 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import express from "express";
+import request from "supertest";
+
+const mockCreateRun = vi.fn();
+const mockUpdateRun = vi.fn();
+const mockAddCosts = vi.fn();
+
+vi.mock("../../src/lib/runs-client.js", () => ({
+  createRun: (...args: unknown[]) => mockCreateRun(...args),
+  updateRun: (...args: unknown[]) => mockUpdateRun(...args),
+  addCosts: (...args: unknown[]) => mockAddCosts(...args),
+}));
+
+vi.mock("../../src/middleware/auth.js", () => ({
+  serviceAuth: (req: any, _res: any, next: any) => {
+    req.orgId = "org-internal-123";
+    req.clerkOrgId = "org_test";
+    next();
+  },
+}));
+
+const mockGenerationFindFirst = vi.fn();
+const mockVersionFindFirst = vi.fn();
+const mockPolicyFindFirst = vi.fn();
+const mockInsertValues = vi.fn();
+const mockUpdateSet = vi.fn();
+
+vi.mock("../../src/db/index.js", () => ({
+  db: {
+    insert: () => ({
+      values: (values: Record<string, unknown>) => {
+        mockInsertValues(values);
+        return { returning: () => Promise.resolve([{ id: "gen-rev" }]) };
+      },
+    }),
+    update: () => ({
+      set: (values: Record<string, unknown>) => {
+        mockUpdateSet(values);
+        return { where: () => Promise.resolve(undefined) };
+      },
+    }),
+    query: {
+      contentPolicies: { findFirst: (...args: unknown[]) => mockPolicyFindFirst(...args) },
+      emailGenerations: { findFirst: (...args: unknown[]) => mockGenerationFindFirst(...args) },
+      promptVersions: { findFirst: (...args: unknown[]) => mockVersionFindFirst(...args) },
+    },
+  },
+}));
+
+vi.mock("../../src/db/schema.js", () => ({
+  contentPolicies: { appId: { name: "app_id" } },
+  emailGenerations: { id: { name: "id" }, orgId: { name: "org_id" } },
+  promptVersions: { id: { name: "id" } },
+}));
+
+vi.mock("../../src/lib/key-client.js", () => ({
+  getByokKey: vi.fn().mockResolvedValue("fake-byok-key"),
+  getAppKey: vi.fn().mockResolvedValue("fake-app-key"),
+}));
+
+const mockCreate = vi.fn();
+
+vi.mock("@anthropic-ai/sdk", () => ({
+  default: class MockAnthropic {
+    messages = { create: mockCreate };
+  },
+}));
+
+import revisionRoutes from "../../src/routes/generation-revisions.js";
+
+function createTestApp() {
+  const app = express();
+  app.use(express.json());
+  app.use(revisionRoutes);
+  return app;
+}
+
+const original = {
+  id: "gen-1",
+  orgId: "org-internal-123",
+  runId: "run-parent",
+  generationRunId: "run-gen",
+  apolloEnrichmentId: "enrich-1",
+  promptType: "email",
+  promptVersionId: "version-1",
+  promptVariantId: null,
+  appId: "my-app",
+  brandId: "brand-1",
+  campaignId: "campaign-1",
+  variablesRaw: { leadFirstName: "Sarah" },
+  subject: "Quick question",
+  sequence: [
+    { step: 1, bodyHtml: "<p>Hi Sarah</p>", bodyText: "Hi Sarah", daysSinceLastStep: 0, threadMode: "new" },
+    { step: 2, bodyHtml: "<p>Any thoughts?</p>", bodyText: "Any thoughts?", daysSinceLastStep: 4, threadMode: "reply" },
+  ],
+  output: { subject: "Quick question", body: "Hi Sarah", followup1: "Any thoughts?" },
+  settings: { model: "claude-haiku-4-5", maxTokens: 3072 },
+  locale: null,
+  style: "formal",
+  workflowName: "outreach",
+  parentGenerationId: null,
+  feedback: null,
+  promptRaw: "[SYSTEM]\nYou write emails.\n\n[USER]\nWrite to Sarah",
+};
+
+function respondWith(json: Record<string, unknown>) {
+  mockCreate.mockResolvedValueOnce({
+    content: [{ type: "text", text: JSON.stringify(json) }],
+    usage: { input_tokens: 700, output_tokens: 90 },
+  });
+}
+
+describe("POST /generations/:id/revise", () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGenerationFindFirst.mockResolvedValue(original);
+    mockCreateRun.mockResolvedValue({ id: "run-rev" });
+    mockUpdateRun.mockResolvedValue({});
+    mockAddCosts.mockResolvedValue({ costs: [] });
+    app = createTestApp();
+  });
+
+  it("replays the prompt and output as a conversation and stores the revision linked to the original", async () => {
+    respondWith({ subject: "Quick question", body: "Hi Sarah, short.", followup1: "Worth a chat?" });
+
+    const res = await request(app)
+      .post("/generations/gen-1/revise")
+      .send({ keyMode: "byok", feedback: "shorter, drop the question in email 2" })
+      .expect(200);
+
+    const call = mockCreate.mock.calls[0][0];
+    expect(call.model).toBe("claude-haiku-4-5");
+    expect(call.system).toBe("You write emails.");
+    expect(call.messages).toHaveLength(3);
+    expect(call.messages[0]).toEqual({ role: "user", content: "Write to Sarah" });
+    expect(call.messages[1]).toEqual({ role: "assistant", content: JSON.stringify(original.output) });
+    expect(call.messages[2].content).toContain("Feedback: shorter, drop the question in email 2");
+    expect(call.output_config.format.schema.required).toEqual(["subject", "body", "followup1"]);
+
+    expect(res.body).toMatchObject({
+      id: "gen-rev",
+      parentGenerationId: "gen-1",
+      subject: "Quick question",
+      generationRunId: "run-rev",
+      tokensInput: 700,
+      tokensOutput: 90,
+    });
+    expect(res.body.sequence.map((s: { bodyText: string; daysSinceLastStep: number }) => [s.bodyText, s.daysSinceLastStep]))
+      .toEqual([["Hi Sarah, short.", 0], ["Worth a chat?", 4]]);
+
+    expect(mockInsertValues.mock.calls[0][0]).toMatchObject({
+      runId: "run-parent",
+      apolloEnrichmentId: "enrich-1",
+      parentGenerationId: "gen-1",
+      feedback: "shorter, drop the question in email 2",
+      style: "formal",
+      leadFirstName: "Sarah",
+      promptRaw: original.promptRaw,
+    });
+    expect(mockInsertValues.mock.calls[0][0].idempotencyKey).toBeUndefined();
+  });
+
+  it("tracks the tokens as a child run of the generation's run", async () => {
+    respondWith({ subject: "S", body: "B", followup1: "F" });
+
+    await request(app).post("/generations/gen-1/revise").send({ keyMode: "app", feedback: "warmer" }).expect(200);
+
+    expect(mockCreateRun).toHaveBeenCalledWith(
+      expect.objectContaining({ taskName: "generation-revision", parentRunId: "run-gen", workflowName: "outreach" })
+    );
+    expect(mockUpdateSet).toHaveBeenCalledWith({ generationRunId: "run-rev" });
+    expect(mockAddCosts).toHaveBeenCalledWith("run-rev", [
+      { costName: "anthropic-haiku-4.5-tokens-input", quantity: 700 },
+      { costName: "anthropic-haiku-4.5-tokens-output", quantity: 90 },
+    ]);
+  });
+
+  it("replays earlier revisions and their feedback when revising a revision", async () => {
+    // The revision, then its parent
+    mockGenerationFindFirst.mockResolvedValueOnce({
+      ...original,
+      id: "gen-2",
+      parentGenerationId: "gen-1",
+      feedback: "shorter",
+      output: { subject: "Quick question", body: "Hi", followup1: "?" },
+    });
+    respondWith({ subject: "S", body: "B", followup1: "F" });
+
+    await request(app).post("/generations/gen-2/revise").send({ keyMode: "byok", feedback: "warmer" }).expect(200);
+
+    const messages = mockCreate.mock.calls[0][0].messages;
+    expect(messages.map((m: { role: string }) => m.role)).toEqual(["user", "assistant", "user", "assistant", "user"]);
+    expect(messages[1].content).toBe(JSON.stringify(original.output));
+    expect(messages[2].content).toContain("Feedback: shorter");
+    expect(messages[3].content).toBe(JSON.stringify({ subject: "Quick question", body: "Hi", followup1: "?" }));
+    expect(messages[4].content).toContain("Feedback: warmer");
+    expect(mockInsertValues.mock.calls[0][0].parentGenerationId).toBe("gen-2");
+  });
+
+  it("runs the content policy on the revision, keeping the reviewer's feedback in the history", async () => {
+    mockPolicyFindFirst.mockResolvedValueOnce({ rules: [], includeDefaults: true, disabledRules: [], maxAttempts: 3 });
+    respondWith({ subject: "Quick question", body: "We pay $500.", followup1: "F" });
+    respondWith({ subject: "Quick question", body: "Worth a chat?", followup1: "F" });
+
+    const res = await request(app).post("/generations/gen-1/revise").send({ keyMode: "byok", feedback: "punchier" }).expect(200);
+
+    const retry = mockCreate.mock.calls[1][0].messages;
+    expect(retry.map((m: { role: string }) => m.role)).toEqual(["user", "assistant", "user", "assistant", "user"]);
+    expect(retry[2].content).toContain("Feedback: punchier");
+    expect(retry[4].content).toContain('body: Mentions a specific dollar amount ("$500")');
+    expect(res.body).toMatchObject({ policy: { attempts: 2, violations: [] }, tokensInput: 1400 });
+    expect(mockInsertValues.mock.calls[0][0]).toMatchObject({ feedback: "punchier", policyAttempts: 2 });
+  });
+
+  it("rewrites a revision outside the limits the sequence was generated with", async () => {
+    const sequenceConfig = {
+      steps: [{ daysSinceLastStep: 0 }, { daysSinceLastStep: 4, threadMode: "reply" }],
+      limits: { maxWords: 4 },
+    };
+    mockGenerationFindFirst.mockResolvedValue({ ...original, sequenceConfig });
+    respondWith({ subject: "Quick question", body: "Hi Sarah, we help teams like yours ship faster.", followup1: "F" });
+    respondWith({ subject: "Quick question", body: "Hi Sarah, quick one.", followup1: "F" });
+
+    const res = await request(app).post("/generations/gen-1/revise").send({ keyMode: "byok", feedback: "warmer" }).expect(200);
+
+    expect(mockCreate.mock.calls[1][0].messages.at(-1).content).toContain("- Email 1:");
+    expect(res.body).toMatchObject({ policy: { attempts: 2 }, readability: { violations: [] }, tokensInput: 1400 });
+    expect(mockInsertValues.mock.calls[0][0]).toMatchObject({ sequenceConfig, readabilityViolations: [], rejected: false });
+  });
+
+  it("stores a revision outside its limits as rejected and returns 422 with onLimitViolation: reject", async () => {
+    const sequenceConfig = {
+      steps: [{ daysSinceLastStep: 0 }, { daysSinceLastStep: 4 }],
+      limits: { maxWords: 4 },
+      onLimitViolation: "reject",
+    };
+    mockGenerationFindFirst.mockResolvedValue({ ...original, sequenceConfig });
+    respondWith({ subject: "Quick question", body: "Hi Sarah, we help teams like yours ship faster.", followup1: "F" });
+
+    const res = await request(app).post("/generations/gen-1/revise").send({ keyMode: "byok", feedback: "warmer" }).expect(422);
+
+    expect(mockCreate).toHaveBeenCalledTimes(1);
+    expect(res.body).toMatchObject({ id: "gen-rev", violations: [{ step: 1, limit: "maxWords" }] });
+    expect(mockInsertValues.mock.calls[0][0]).toMatchObject({ rejected: true });
+    expect(mockUpdateRun).toHaveBeenCalledWith("run-rev", "failed");
+  });
+
+  it("tracks the tokens of earlier attempts when a retry fails", async () => {
+    mockPolicyFindFirst.mockResolvedValueOnce({ rules: [], includeDefaults: true, disabledRules: [], maxAttempts: 3 });
+    respondWith({ subject: "Quick question", body: "We pay $500.", followup1: "F" });
+    mockCreate.mockRejectedValueOnce(new Error("Overloaded"));
+
+    await request(app).post("/generations/gen-1/revise").send({ keyMode: "byok", feedback: "punchier" }).expect(500);
+
+    expect(mockInsertValues).not.toHaveBeenCalled();
+    expect(mockAddCosts).toHaveBeenCalledWith("run-rev", [
+      { costName: "anthropic-haiku-4.5-tokens-input", quantity: 700 },
+      { costName: "anthropic-haiku-4.5-tokens-output", quantity: 90 },
+    ]);
+    expect(mockUpdateRun).toHaveBeenCalledWith("run-rev", "failed");
+  });
+
+  it("keeps the output schema of prompts that have one", async () => {
+    const outputSchema = {
+      type: "object",
+      properties: { headline: { type: "string" } },
+      required: ["headline"],
+      additionalProperties: false,
+    };
+    mockGenerationFindFirst.mockResolvedValue({ ...original, subject: null, sequence: null, output: { headline: "Old" } });
+    mockVersionFindFirst.mockResolvedValue({ id: "version-1", outputSchema });
+    respondWith({ headline: "New" });
+
+    const res = await request(app).post("/generations/gen-1/revise").send({ keyMode: "byok", feedback: "punchier" }).expect(200);
+
+    expect(mockCreate.mock.calls[0][0].output_config.format.schema).toEqual(outputSchema);
+    expect(res.body).toMatchObject({ subject: "", sequence: [], output: { headline: "New" } });
+  });
+
+  it("tracks the tokens of output that does not match the schema before returning 502", async () => {
+    const outputSchema = {
+      type: "object",
+      properties: { headline: { type: "string" } },
+      required: ["headline"],
+      additionalProperties: false,
+    };
+    mockGenerationFindFirst.mockResolvedValue({ ...original, subject: null, sequence: null, output: { headline: "Old" } });
+    mockVersionFindFirst.mockResolvedValue({ id: "version-1", outputSchema });
+    respondWith({ title: "Wrong field" });
+
+    await request(app).post("/generations/gen-1/revise").send({ keyMode: "byok", feedback: "punchier" }).expect(502);
+
+    expect(mockInsertValues).not.toHaveBeenCalled();
+    expect(mockAddCosts).toHaveBeenCalledWith("run-rev", [
+      { costName: "anthropic-haiku-4.5-tokens-input", quantity: 700 },
+      { costName: "anthropic-haiku-4.5-tokens-output", quantity: 90 },
+    ]);
+    expect(mockUpdateRun).toHaveBeenCalledWith("run-rev", "failed");
+  });
+
+  it("returns 404 for an unknown generation and 409 without a stored prompt", async () => {
+    mockGenerationFindFirst.mockResolvedValueOnce(undefined);
+    await request(app).post("/generations/nope/revise").send({ keyMode: "byok", feedback: "x" }).expect(404);
+    mockGenerationFindFirst.mockResolvedValueOnce({ ...original, promptRaw: null });
+    await request(app).post("/generations/gen-1/revise").send({ keyMode: "byok", feedback: "x" }).expect(409);
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+
+  it("requires feedback", async () => {
+    await request(app).post("/generations/gen-1/revise").send({ keyMode: "byok" }).expect(400);
+    await request(app).post("/generations/gen-1/revise").send({ keyMode: "byok", feedback: "" }).expect(400);
+  });
+});
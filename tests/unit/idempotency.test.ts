@@ -31,6 +31,8 @@ const mockInsert = vi.fn().mockReturnValue({
   }),
 });
 
+const mockVariantFindMany = vi.fn().mockResolvedValue([]);
+
 vi.mock("../../src/db/index.js", () => ({
   db: {
     insert: (...args: unknown[]) => mockInsert(...args),
@@ -40,6 +42,10 @@ vi.mock("../../src/db/index.js", () => ({
       }),
     }),
     query: {
+      contentPolicies: { findFirst: () => Promise.resolve(undefined) },
+      promptVariants: {
+        findMany: (...args: unknown[]) => mockVariantFindMany(...args),
+      },
       prompts: {
         findFirst: (...args: unknown[]) => mockPromptFindFirst(...args),
       },
@@ -51,11 +57,13 @@ vi.mock("../../src/db/index.js", () => ({
 }));
 
 vi.mock("../../src/db/schema.js", () => ({
+  contentPolicies: { appId: { name: "app_id" } },
   emailGenerations: {
     id: { name: "id" },
     orgId: { name: "org_id" },
     idempotencyKey: { name: "idempotency_key" },
   },
+  promptVariants: { promptId: { name: "prompt_id" }, name: { name: "name" } },
   prompts: { appId: { name: "app_id" }, type: { name: "type" } },
 }));
 
@@ -143,6 +151,8 @@ describe("POST /generate idempotency", () => {
     expect(res.body.id).toBe("cached-gen-id");
     expect(res.body.subject).toBe("Cached subject");
     expect(res.body.tokensInput).toBe(400);
+    // Rows from before thread modes are read as one thread
+    expect(res.body.sequence.map((s: { threadMode: string }) => s.threadMode)).toEqual(["new", "reply", "reply"]);
 
     // Claude should NOT be called
     expect(mockGenerateFromTemplate).not.toHaveBeenCalled();
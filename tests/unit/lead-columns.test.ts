@@ -30,6 +30,8 @@ const mockInsert = vi.fn().mockReturnValue({ values: mockValues });
 const mockPromptFindFirst = vi.fn();
 const mockEmailGenFindFirst = vi.fn();
 
+const mockVariantFindMany = vi.fn().mockResolvedValue([]);
+
 vi.mock("../../src/db/index.js", () => ({
   db: {
     insert: (...args: unknown[]) => mockInsert(...args),
@@ -39,6 +41,10 @@ vi.mock("../../src/db/index.js", () => ({
       }),
     }),
     query: {
+      contentPolicies: { findFirst: () => Promise.resolve(undefined) },
+      promptVariants: {
+        findMany: (...args: unknown[]) => mockVariantFindMany(...args),
+      },
       prompts: {
         findFirst: (...args: unknown[]) => mockPromptFindFirst(...args),
       },
@@ -50,7 +56,9 @@ vi.mock("../../src/db/index.js", () => ({
 }));
 
 vi.mock("../../src/db/schema.js", () => ({
+  contentPolicies: { appId: { name: "app_id" } },
   emailGenerations: { id: { name: "id" }, orgId: { name: "org_id" }, idempotencyKey: { name: "idempotency_key" } },
+  promptVariants: { promptId: { name: "prompt_id" }, name: { name: "name" } },
   prompts: { appId: { name: "app_id" }, type: { name: "type" } },
 }));
 
@@ -94,6 +102,7 @@ describe("POST /generate — lead/client column population", () => {
       type: "email",
       prompt: "Write an email to {{leadFirstName}}",
       variables: ["leadFirstName"],
+      versionId: "prompt-version-7",
     });
 
     app = createTestApp();
@@ -220,4 +229,21 @@ describe("POST /generate — lead/client column population", () => {
     const insertedValues = mockValues.mock.calls[0][0];
     expect(insertedValues.variablesRaw).toEqual(variables);
   });
+
+  it("records the prompt version used", async () => {
+    await request(app)
+      .post("/generate")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({
+        appId: "my-app",
+        type: "email",
+        variables: { leadFirstName: "Ray" },
+        keyMode: "byok",
+        runId: "run-1",
+      })
+      .expect(200);
+
+    const insertedValues = mockValues.mock.calls[0][0];
+    expect(insertedValues.promptVersionId).toBe("prompt-version-7");
+  });
 });
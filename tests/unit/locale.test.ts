@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { canonicalLocale, isRtl, isValidLocale, localeInstructions, textToHtml } from "../../src/lib/locale";
+
+describe("locale", () => {
+  it("validates and canonicalizes BCP 47 tags", () => {
+    expect(isValidLocale("pt-BR")).toBe(true);
+    expect(isValidLocale("zh-Hant-TW")).toBe(true);
+    expect(isValidLocale("german please")).toBe(false);
+    expect(isValidLocale("")).toBe(false);
+    expect(canonicalLocale("EN-us")).toBe("en-US");
+  });
+
+  it("detects right-to-left locales by language or script", () => {
+    expect(isRtl("ar-EG")).toBe(true);
+    expect(isRtl("he")).toBe(true);
+    expect(isRtl("fa-IR")).toBe(true);
+    expect(isRtl("de-DE")).toBe(false);
+    expect(isRtl("az-Latn")).toBe(false);
+    expect(isRtl("pa-Arab")).toBe(true);
+  });
+
+  it("marks paragraphs right to left for RTL locales only", () => {
+    expect(textToHtml("Hello\n\nBye")).toBe("<p>Hello</p><p>Bye</p>");
+    expect(textToHtml("مرحبا\nسارة", "ar")).toBe('<p dir="rtl">مرحبا<br>سارة</p>');
+  });
+
+  it("names the language and keeps parser markers untranslated", () => {
+    const text = localeInstructions("fr-CA", ["the SUBJECT: label"]);
+
+    expect(text).toContain("natively in Canadian French (fr-CA)");
+    expect(text).toContain("Keep the SUBJECT: label exactly as shown in the output format");
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import {
+  costNames,
+  costUsd,
+  mergeSettings,
+  resolveSettings,
+  toMessageParams,
+} from "../../src/lib/models";
+
+describe("mergeSettings", () => {
+  it("lets later layers override earlier ones field by field", () => {
+    expect(
+      mergeSettings(
+        { model: "claude-haiku-4-5", maxTokens: 800, stopSequences: ["###"] },
+        { maxTokens: 1200 }
+      )
+    ).toEqual({ model: "claude-haiku-4-5", maxTokens: 1200, stopSequences: ["###"] });
+  });
+
+  it("replaces temperature and topP together", () => {
+    const merged = mergeSettings({ temperature: 0.2 }, { topP: 0.9 });
+    expect(merged.temperature).toBeUndefined();
+    expect(merged.topP).toBe(0.9);
+  });
+
+  it("skips null and undefined layers", () => {
+    expect(mergeSettings(null, undefined, { temperature: 0.5 })).toEqual({
+      temperature: 0.5,
+      topP: undefined,
+    });
+  });
+});
+
+describe("resolveSettings / toMessageParams", () => {
+  it("fills in the default model and max tokens", () => {
+    expect(resolveSettings(undefined, 3072)).toEqual({ model: "claude-sonnet-4-6", maxTokens: 3072 });
+  });
+
+  it("omits unset sampling options from the API request", () => {
+    expect(toMessageParams(resolveSettings({}, 1024))).toEqual({
+      model: "claude-sonnet-4-6",
+      max_tokens: 1024,
+    });
+  });
+
+  it("maps settings to Messages API parameter names", () => {
+    expect(
+      toMessageParams(resolveSettings({ temperature: 0.3, stopSequences: ["END"], maxTokens: 500 }, 1024))
+    ).toEqual({
+      model: "claude-sonnet-4-6",
+      max_tokens: 500,
+      temperature: 0.3,
+      stop_sequences: ["END"],
+    });
+  });
+});
+
+describe("pricing", () => {
+  it("uses the model's cost names", () => {
+    expect(costNames("claude-haiku-4-5")).toEqual({
+      input: "anthropic-haiku-4.5-tokens-input",
+      output: "anthropic-haiku-4.5-tokens-output",
+    });
+  });
+
+  it("prices tokens per model", () => {
+    expect(costUsd("claude-sonnet-4-6", 1_000_000, 1_000_000)).toBe(18);
+    expect(costUsd("claude-haiku-4-5", 1_000_000, 1_000_000)).toBe(6);
+  });
+});
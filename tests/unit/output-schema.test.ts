@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { generateFromTemplate } from "../../src/lib/anthropic-client";
+import { OutputValidationError, validateOutputSchema } from "../../src/lib/output-schema";
+
+const mockCreate = vi.fn();
+
+vi.mock("@anthropic-ai/sdk", () => ({
+  default: class MockAnthropic {
+    messages = { create: mockCreate };
+  },
+}));
+
+const calendarSchema = {
+  type: "object",
+  properties: {
+    title: { type: "string" },
+    durationMinutes: { type: "integer", minimum: 15 },
+  },
+  required: ["title", "durationMinutes"],
+  additionalProperties: false,
+};
+
+function respondWith(output: unknown) {
+  mockCreate.mockResolvedValue({
+    content: [{ type: "text" as const, text: JSON.stringify(output) }],
+    usage: { input_tokens: 100, output_tokens: 20 },
+  });
+}
+
+describe("per-prompt output schema", () => {
+  beforeEach(() => {
+    mockCreate.mockReset();
+  });
+
+  it("sends the prompt's schema and returns the structured output", async () => {
+    respondWith({ title: "Demo Day", durationMinutes: 30 });
+
+    const result = await generateFromTemplate("fake-key", {
+      promptTemplate: "Plan an event",
+      outputSchema: calendarSchema,
+      variables: {},
+    });
+
+    expect(mockCreate.mock.calls[0][0].output_config.format.schema).toEqual(calendarSchema);
+    expect(result.output).toEqual({ title: "Demo Day", durationMinutes: 30 });
+    expect(result.subject).toBeNull();
+    expect(result.sequence).toBeNull();
+  });
+
+  it("throws OutputValidationError when the output does not match", async () => {
+    respondWith({ title: "Demo Day", durationMinutes: 5 });
+
+    const err = await generateFromTemplate("fake-key", {
+      promptTemplate: "Plan an event",
+      outputSchema: calendarSchema,
+      variables: {},
+    }).catch((e) => e);
+
+    expect(err).toBeInstanceOf(OutputValidationError);
+    expect(err.issues[0]).toContain("durationMinutes");
+  });
+
+  it("keeps the email sequence and raw output without a schema", async () => {
+    respondWith({ subject: "Hi", body: "Body", followup1: "F1", followup2: "F2" });
+
+    const result = await generateFromTemplate("fake-key", {
+      promptTemplate: "Write an email",
+      variables: {},
+    });
+
+    expect(result.subject).toBe("Hi");
+    expect(result.sequence).toHaveLength(3);
+    expect(result.output).toEqual({ subject: "Hi", body: "Body", followup1: "F1", followup2: "F2" });
+  });
+});
+
+describe("validateOutputSchema", () => {
+  it("accepts an object schema", () => {
+    expect(validateOutputSchema(calendarSchema)).toBeNull();
+  });
+
+  it("rejects a non-object root", () => {
+    expect(validateOutputSchema({ type: "string" })).toContain("root type must be");
+  });
+
+  it("rejects an unsupported schema", () => {
+    expect(validateOutputSchema({ type: "object", properties: { a: { type: "bogus" } } })).toContain(
+      "Invalid output schema"
+    );
+  });
+});
@@ -0,0 +1,309 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import { parse as parseYaml } from "yaml";
+
+vi.mock("../../src/middleware/auth.js", () => ({
+  serviceAuth: (req: any, _res: any, next: any) => {
+    req.orgId = "org-internal-123";
+    req.clerkOrgId = "org_test";
+    req.clerkUserId = "user_1";
+    next();
+  },
+}));
+
+const NOW = new Date("2025-01-15T00:00:00Z");
+
+const mockPromptFindFirst = vi.fn();
+const mockPromptFindMany = vi.fn();
+const mockPartialFindFirst = vi.fn();
+const mockPartialFindMany = vi.fn();
+const mockInsert = vi.fn();
+const mockUpdate = vi.fn();
+const mockTransaction = vi.fn();
+
+vi.mock("../../src/db/index.js", () => {
+  const db = {
+    insert: (table: { _table: string }) => ({
+      values: (values: Record<string, unknown>) => {
+        mockInsert(table._table, values);
+        const returning = () => Promise.resolve([{ id: `${table._table}-new`, createdAt: NOW, updatedAt: NOW, ...values }]);
+        return { returning, onConflictDoNothing: () => ({ returning }), onConflictDoUpdate: () => Promise.resolve() };
+      },
+    }),
+    select: () => ({ from: () => ({ where: () => ({ for: () => Promise.resolve([]) }) }) }),
+    update: (table: { _table: string }) => ({
+      set: (values: Record<string, unknown>) => {
+        mockUpdate(table._table, values);
+        return {
+          where: () => ({
+            returning: () => Promise.resolve([{ id: `${table._table}-existing`, createdAt: NOW, ...values }]),
+          }),
+        };
+      },
+    }),
+    delete: () => ({ where: () => Promise.resolve() }),
+    transaction: (fn: (tx: unknown) => unknown) => {
+      mockTransaction();
+      return fn(db);
+    },
+    query: {
+      prompts: {
+        findFirst: (...args: unknown[]) => mockPromptFindFirst(...args),
+        findMany: (...args: unknown[]) => mockPromptFindMany(...args),
+      },
+      promptVersions: {
+        findFirst: () => Promise.resolve(undefined),
+      },
+      promptPartials: {
+        findFirst: (...args: unknown[]) => mockPartialFindFirst(...args),
+        findMany: (...args: unknown[]) => mockPartialFindMany(...args),
+      },
+    },
+  };
+  return { db };
+});
+
+vi.mock("../../src/db/schema.js", () => ({
+  prompts: { _table: "prompts", id: { name: "id" }, appId: { name: "app_id" }, type: { name: "type" } },
+  promptVersions: { _table: "prompt_versions", promptId: { name: "prompt_id" }, version: { name: "version" } },
+  promptPartials: { _table: "prompt_partials", id: { name: "id" }, appId: { name: "app_id" }, name: { name: "name" } },
+  promptVariants: { _table: "prompt_variants", promptId: { name: "prompt_id" }, name: { name: "name" } },
+}));
+
+import bundleRoutes from "../../src/routes/prompt-bundles.js";
+
+function createTestApp() {
+  const app = express();
+  app.use(express.json());
+  app.use(bundleRoutes);
+  return app;
+}
+
+function promptRow(type: string, prompt: string, extra: Record<string, unknown> = {}) {
+  return {
+    id: `prompt-${type}`,
+    appId: "my-app",
+    orgId: null,
+    type,
+    prompt,
+    variables: [],
+    variableMode: "lenient",
+    systemPrompt: null,
+    outputSchema: null,
+    settings: null,
+    version: 3,
+    versionId: `version-${type}`,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...extra,
+  };
+}
+
+function partialRow(name: string, content: string) {
+  return { id: `partial-${name}`, appId: "my-app", name, content, createdAt: NOW, updatedAt: NOW };
+}
+
+function bundle(overrides: Record<string, unknown> = {}) {
+  return {
+    bundleVersion: 1,
+    appId: "my-app",
+    prompts: [
+      { type: "cold-email", prompt: "Hi {{name}}. {{> rules}}", variables: ["name"] },
+      { type: "follow-up", prompt: "Following up", variables: [] },
+    ],
+    partials: [{ name: "rules", content: "Be brief." }],
+    ...overrides,
+  };
+}
+
+describe("prompt bundles", () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPromptFindFirst.mockResolvedValue(undefined);
+    mockPromptFindMany.mockResolvedValue([]);
+    mockPartialFindFirst.mockResolvedValue(undefined);
+    mockPartialFindMany.mockResolvedValue([]);
+    app = createTestApp();
+  });
+
+  describe("GET /prompts/export", () => {
+    beforeEach(() => {
+      mockPromptFindMany.mockResolvedValue([
+        promptRow("cold-email", "Hi {{name}}", { variables: ["name"], settings: { temperature: 0.4 } }),
+      ]);
+      mockPartialFindMany.mockResolvedValue([partialRow("rules", "Be brief.")]);
+    });
+
+    it("exports app defaults and partials as JSON", async () => {
+      const res = await request(app).get("/prompts/export?appId=my-app").expect(200);
+
+      expect(res.body).toMatchObject({
+        bundleVersion: 1,
+        appId: "my-app",
+        prompts: [
+          {
+            type: "cold-email",
+            prompt: "Hi {{name}}",
+            variables: ["name"],
+            variableMode: "lenient",
+            systemPrompt: null,
+            outputSchema: null,
+            settings: { temperature: 0.4 },
+            version: 3,
+          },
+        ],
+        partials: [{ name: "rules", content: "Be brief." }],
+      });
+      expect(res.body.prompts[0].id).toBeUndefined();
+    });
+
+    it("exports YAML", async () => {
+      const res = await request(app).get("/prompts/export?appId=my-app&format=yaml").expect(200);
+
+      expect(res.headers["content-type"]).toContain("application/yaml");
+      expect(parseYaml(res.text).prompts[0].type).toBe("cold-email");
+    });
+
+    it("rejects an unknown format", async () => {
+      await request(app).get("/prompts/export?appId=my-app&format=xml").expect(400);
+    });
+  });
+
+  describe("POST /prompts/import", () => {
+    it("reports created, updated and unchanged entries on a dry run without writing", async () => {
+      mockPromptFindMany.mockResolvedValue([
+        promptRow("follow-up", "Following up"),
+        promptRow("cold-email", "Hello {{name}}", { variables: ["name"] }),
+        promptRow("legacy", "Old"),
+      ]);
+      mockPartialFindMany.mockResolvedValue([partialRow("rules", "Be brief.")]);
+
+      const res = await request(app)
+        .post("/prompts/import")
+        .send({ bundle: bundle({ prompts: [...bundle().prompts, { type: "new-one", prompt: "New", variables: [] }] }), dryRun: true })
+        .expect(200);
+
+      expect(res.body).toMatchObject({
+        appId: "my-app",
+        dryRun: true,
+        applied: false,
+        prompts: [
+          { type: "cold-email", status: "updated", changes: ["prompt"] },
+          { type: "follow-up", status: "unchanged", changes: [] },
+          { type: "new-one", status: "created", changes: [] },
+        ],
+        partials: [{ name: "rules", status: "unchanged" }],
+        notInBundle: ["legacy"],
+        conflicts: [],
+      });
+      expect(mockInsert).not.toHaveBeenCalled();
+      expect(mockUpdate).not.toHaveBeenCalled();
+    });
+
+    it("accepts a YAML bundle and imports into another app", async () => {
+      const yamlText = [
+        "bundleVersion: 1",
+        "appId: staging-app",
+        "prompts:",
+        "  - type: follow-up",
+        "    prompt: Following up",
+        "    variables: []",
+      ].join("\n");
+
+      const res = await request(app)
+        .post("/prompts/import")
+        .send({ appId: "my-app", bundle: yamlText, dryRun: true })
+        .expect(200);
+
+      expect(res.body.appId).toBe("my-app");
+      expect(res.body.prompts).toEqual([{ type: "follow-up", status: "created", changes: [] }]);
+      expect(res.body.partials).toEqual([]);
+    });
+
+    it("applies partials and prompts as drafts in one transaction", async () => {
+      const res = await request(app).post("/prompts/import").send({ bundle: bundle() }).expect(200);
+
+      expect(res.body.applied).toBe(true);
+      expect(mockTransaction).toHaveBeenCalledTimes(1);
+      expect(mockInsert).toHaveBeenCalledWith(
+        "prompt_partials",
+        expect.objectContaining({ appId: "my-app", name: "rules", content: null, draftContent: "Be brief.", draftStatus: "draft" })
+      );
+      expect(mockInsert).toHaveBeenCalledWith(
+        "prompts",
+        expect.objectContaining({
+          appId: "my-app",
+          orgId: null,
+          type: "cold-email",
+          prompt: "Hi {{name}}. {{> rules}}",
+          version: 0,
+          versionId: null,
+        })
+      );
+      expect(mockInsert).toHaveBeenCalledWith(
+        "prompt_versions",
+        expect.objectContaining({ version: 1, status: "draft", authorClerkOrgId: "org_test", authorClerkUserId: "user_1" })
+      );
+      // Nothing goes live without review
+      expect(mockUpdate).not.toHaveBeenCalled();
+      // Partials are written before the prompts that include them
+      expect(mockInsert.mock.calls[0][0]).toBe("prompt_partials");
+    });
+
+    it("returns 409 and writes nothing when a prompt includes a missing partial", async () => {
+      const res = await request(app)
+        .post("/prompts/import")
+        .send({ bundle: bundle({ partials: [] }) })
+        .expect(409);
+
+      expect(res.body.applied).toBe(false);
+      expect(res.body.conflicts).toEqual([
+        { kind: "unresolved_partial", target: "prompt:cold-email", message: 'Includes unknown partial "rules"' },
+      ]);
+      expect(mockInsert).not.toHaveBeenCalled();
+      expect(mockUpdate).not.toHaveBeenCalled();
+    });
+
+    it("reports duplicates, invalid templates and partial cycles", async () => {
+      mockPartialFindMany.mockResolvedValue([partialRow("a", "A {{> b}}")]);
+
+      const res = await request(app)
+        .post("/prompts/import")
+        .send({
+          bundle: bundle({
+            prompts: [
+              { type: "x", prompt: "One", variables: [] },
+              { type: "x", prompt: "Two {{#if}}", variables: [] },
+            ],
+            partials: [{ name: "b", content: "B {{> a}}" }],
+          }),
+          dryRun: true,
+        })
+        .expect(200);
+
+      const kinds = res.body.conflicts.map((c: { kind: string; target: string }) => `${c.kind} ${c.target}`);
+      expect(kinds).toEqual(["duplicate prompt:x", "invalid prompt:x", "partial_cycle partial:a"]);
+    });
+
+    it("rejects an unsupported bundle version", async () => {
+      const res = await request(app)
+        .post("/prompts/import")
+        .send({ bundle: bundle({ bundleVersion: 2 }) })
+        .expect(400);
+
+      expect(res.body.error).toContain("bundle");
+    });
+
+    it("rejects malformed YAML", async () => {
+      const res = await request(app)
+        .post("/prompts/import")
+        .send({ bundle: "prompts: [unclosed" })
+        .expect(400);
+
+      expect(res.body.error).toMatch(/^Malformed bundle/);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { lintPrompt } from "../../src/lib/prompt-lint";
+
+describe("lintPrompt", () => {
+  it("passes a clean prompt and estimates its size", () => {
+    const result = lintPrompt({ prompt: "Write to {{leadFirstName}} at {{leadCompanyName}}.", variables: ["leadFirstName", "leadCompanyName"] }, {});
+
+    expect(result).toEqual({
+      valid: true,
+      issues: [],
+      placeholders: ["leadFirstName", "leadCompanyName"],
+      estimatedTokens: 13,
+    });
+  });
+
+  it("flags undeclared placeholders as errors and unused variables as warnings", () => {
+    const result = lintPrompt({ prompt: "Hi {{name}}", variables: ["nmae"] }, {});
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([
+      expect.objectContaining({ severity: "error", code: "undeclared_variable", variable: "name" }),
+      expect.objectContaining({ severity: "warning", code: "unused_variable", variable: "nmae" }),
+    ]);
+  });
+
+  it("counts placeholders of the system prompt and of included partials", () => {
+    const result = lintPrompt(
+      { prompt: "Hi {{name}}. {{> signoff}}", systemPrompt: "You write for {{brand}}.", variables: ["name", "brand", "sender"] },
+      { signoff: "Best, {{sender}}" }
+    );
+
+    expect(result.valid).toBe(true);
+    expect(result.placeholders).toEqual(["brand", "name", "sender"]);
+  });
+
+  it("counts loop body references as uses without requiring item fields to be declared", () => {
+    const result = lintPrompt(
+      { prompt: "{{#each pains}}{{label}} at {{company}}{{/each}}", variables: ["pains", "company"] },
+      {}
+    );
+
+    expect(result).toMatchObject({ valid: true, issues: [], placeholders: ["pains"] });
+  });
+
+  it("warns about else and closing tags outside of any block", () => {
+    const result = lintPrompt({ prompt: "Hi {{name}} {{/if}}", variables: ["name"] }, {});
+
+    expect(result.valid).toBe(true);
+    expect(result.issues).toEqual([expect.objectContaining({ severity: "warning", code: "unmatched_block", line: 1 })]);
+  });
+
+  it("reports unbalanced braces with the template and line", () => {
+    const result = lintPrompt({ prompt: "Hi {{name}\nBye", variables: ["name"] }, {});
+
+    expect(result.valid).toBe(false);
+    expect(result.issues[0]).toMatchObject({ severity: "error", code: "unbalanced_braces", field: "prompt", line: 1 });
+  });
+
+  it("reports templates that do not parse or include unknown partials", () => {
+    const result = lintPrompt({ prompt: "{{#if a}}x", systemPrompt: "{{> missing}}", variables: [] }, {});
+
+    expect(result.issues).toEqual([
+      expect.objectContaining({ code: "invalid_template", field: "systemPrompt", message: 'Unknown partial "missing"' }),
+      expect.objectContaining({ code: "invalid_template", field: "prompt", message: "Unclosed {{#if}} block" }),
+    ]);
+  });
+
+  it("warns about lead variable names /generate does not record", () => {
+    const result = lintPrompt(
+      { prompt: "{{leadIndustry}} {{leadCompany}} {{leadfirstname}}", variables: ["leadIndustry", "leadCompany", "leadfirstname"] },
+      {}
+    );
+
+    expect(result.valid).toBe(true);
+    expect(result.issues.map((i) => i.message)).toEqual([
+      '"leadIndustry" is not recorded on generations; /generate reads "leadCompanyIndustry"',
+      '"leadCompany" is not recorded on generations; /generate reads "leadCompanyName"',
+      '"leadfirstname" is not recorded on generations; /generate reads "leadFirstName"',
+    ]);
+  });
+});
@@ -0,0 +1,294 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import express from "express";
+import request from "supertest";
+
+vi.mock("../../src/middleware/auth.js", () => ({
+  serviceAuth: (req: any, _res: any, next: any) => {
+    req.orgId = "org-internal-123";
+    req.clerkOrgId = "org_test";
+    req.clerkUserId = req.headers["x-clerk-user-id"];
+    next();
+  },
+}));
+
+const NOW = new Date("2025-01-15T00:00:00Z");
+
+const mockPartialFindFirst = vi.fn();
+const mockPartialFindMany = vi.fn();
+const mockPromptFindMany = vi.fn();
+const mockVariantFindMany = vi.fn();
+const mockInsertValues = vi.fn();
+const mockUpdateSet = vi.fn();
+const mockDeleteReturning = vi.fn();
+const mockSelectFor = vi.fn();
+
+vi.mock("../../src/db/index.js", () => {
+  const db = {
+    insert: vi.fn().mockReturnValue({
+      values: (values: Record<string, unknown>) => {
+        mockInsertValues(values);
+        return { returning: () => Promise.resolve([{ id: "partial-1", createdAt: NOW, updatedAt: NOW, ...values }]) };
+      },
+    }),
+    update: vi.fn().mockReturnValue({
+      set: (values: Record<string, unknown>) => {
+        mockUpdateSet(values);
+        return {
+          where: () => ({
+            returning: () =>
+              Promise.resolve([{ id: "partial-1", appId: "my-app", name: "rules", createdAt: NOW, ...values }]),
+          }),
+        };
+      },
+    }),
+    delete: vi.fn().mockReturnValue({
+      where: () => ({ returning: (...args: unknown[]) => mockDeleteReturning(...args) }),
+    }),
+    select: () => ({ from: () => ({ where: () => ({ for: (...args: unknown[]) => mockSelectFor(...args) }) }) }),
+    transaction: (fn: (tx: unknown) => unknown) => fn(db),
+    query: {
+      promptPartials: {
+        findFirst: (...args: unknown[]) => mockPartialFindFirst(...args),
+        findMany: (...args: unknown[]) => mockPartialFindMany(...args),
+      },
+      prompts: {
+        findMany: (...args: unknown[]) => mockPromptFindMany(...args),
+      },
+      promptVariants: {
+        findMany: (...args: unknown[]) => mockVariantFindMany(...args),
+      },
+    },
+  };
+  return { db };
+});
+
+vi.mock("../../src/db/schema.js", () => ({
+  prompts: { appId: { name: "app_id" }, type: { name: "type" } },
+  promptVariants: { promptId: { name: "prompt_id" }, name: { name: "name" } },
+  promptPartials: { id: { name: "id" }, appId: { name: "app_id" }, name: { name: "name" } },
+}));
+
+import partialRoutes from "../../src/routes/prompt-partials.js";
+
+function createTestApp() {
+  const app = express();
+  app.use(express.json());
+  app.use(partialRoutes);
+  return app;
+}
+
+function partialRow(name: string, content: string | null) {
+  return {
+    id: `partial-${name}`,
+    appId: "my-app",
+    name,
+    content,
+    draftContent: null as string | null,
+    draftStatus: null as string | null,
+    draftAuthorClerkUserId: null as string | null,
+    draftSubmittedAt: null,
+    approvedByClerkUserId: null,
+    publishedAt: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+  };
+}
+
+describe("prompt partials", () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPartialFindMany.mockResolvedValue([]);
+    mockPromptFindMany.mockResolvedValue([]);
+    mockVariantFindMany.mockResolvedValue([]);
+    app = createTestApp();
+  });
+
+  describe("PUT /prompts/partials", () => {
+    it("creates a partial as an unpublished draft", async () => {
+      mockPartialFindFirst.mockResolvedValue(undefined);
+
+      const res = await request(app)
+        .put("/prompts/partials")
+        .set("X-Clerk-User-Id", "user_author")
+        .send({ appId: "my-app", name: "scam-filter", content: "Avoid crypto terms." })
+        .expect(200);
+
+      expect(res.body.name).toBe("scam-filter");
+      expect(res.body.content).toBeNull();
+      expect(mockInsertValues).toHaveBeenCalledWith({
+        appId: "my-app",
+        name: "scam-filter",
+        content: null,
+        draftContent: "Avoid crypto terms.",
+        draftStatus: "draft",
+        draftAuthorClerkUserId: "user_author",
+        draftSubmittedAt: null,
+      });
+    });
+
+    it("stores a change as a draft without touching the published content", async () => {
+      mockPartialFindFirst.mockResolvedValue(partialRow("rules", "old"));
+
+      const res = await request(app)
+        .put("/prompts/partials")
+        .set("X-Clerk-User-Id", "user_author")
+        .send({ appId: "my-app", name: "rules", content: "new" })
+        .expect(200);
+
+      expect(res.body.draftContent).toBe("new");
+      expect(res.body.draftStatus).toBe("draft");
+      expect(mockUpdateSet).toHaveBeenCalledWith(expect.not.objectContaining({ content: expect.anything() }));
+      expect(mockInsertValues).not.toHaveBeenCalled();
+    });
+
+    it("returns 400 without an author", async () => {
+      const res = await request(app)
+        .put("/prompts/partials")
+        .send({ appId: "my-app", name: "rules", content: "new" })
+        .expect(400);
+
+      expect(res.body.error).toBe("x-clerk-user-id header required to author a prompt change");
+      expect(mockPartialFindFirst).not.toHaveBeenCalled();
+    });
+
+    it("rejects a partial that would create a cycle", async () => {
+      mockPartialFindMany.mockResolvedValue([partialRow("a", "A then {{> b}}")]);
+
+      const res = await request(app)
+        .put("/prompts/partials")
+        .set("X-Clerk-User-Id", "user_author")
+        .send({ appId: "my-app", name: "b", content: "B then {{> a}}" })
+        .expect(400);
+
+      expect(res.body.error).toBe("Partial cycle: a > b > a");
+      expect(mockInsertValues).not.toHaveBeenCalled();
+    });
+
+    it("rejects an invalid name", async () => {
+      await request(app)
+        .put("/prompts/partials")
+        .send({ appId: "my-app", name: "has spaces", content: "x" })
+        .expect(400);
+    });
+  });
+
+  describe("POST /prompts/partials/submit and /prompts/partials/publish", () => {
+    const inReview = {
+      ...partialRow("rules", "old"),
+      draftContent: "new",
+      draftStatus: "in_review",
+      draftAuthorClerkUserId: "user_author",
+    };
+
+    it("moves a draft to review", async () => {
+      const draft = { ...inReview, draftStatus: "draft" };
+      mockPartialFindFirst.mockResolvedValue(draft);
+      mockSelectFor.mockResolvedValueOnce([draft]);
+
+      const res = await request(app)
+        .post("/prompts/partials/submit")
+        .send({ appId: "my-app", name: "rules" })
+        .expect(200);
+
+      expect(res.body.draftStatus).toBe("in_review");
+    });
+
+    it("publishes a draft in review, recording the approver", async () => {
+      mockPartialFindFirst.mockResolvedValue(inReview);
+      mockSelectFor.mockResolvedValueOnce([inReview]);
+
+      const res = await request(app)
+        .post("/prompts/partials/publish")
+        .set("X-Clerk-User-Id", "user_reviewer")
+        .send({ appId: "my-app", name: "rules" })
+        .expect(200);
+
+      expect(res.body.content).toBe("new");
+      expect(res.body.draftContent).toBeNull();
+      expect(res.body.approvedByClerkUserId).toBe("user_reviewer");
+    });
+
+    it("refuses self-approval", async () => {
+      mockPartialFindFirst.mockResolvedValue(inReview);
+      mockSelectFor.mockResolvedValueOnce([inReview]);
+
+      await request(app)
+        .post("/prompts/partials/publish")
+        .set("X-Clerk-User-Id", "user_author")
+        .send({ appId: "my-app", name: "rules" })
+        .expect(403);
+
+      expect(mockUpdateSet).not.toHaveBeenCalled();
+    });
+
+    it("refuses a draft that was not submitted", async () => {
+      const draft = { ...inReview, draftStatus: "draft" };
+      mockPartialFindFirst.mockResolvedValue(draft);
+      mockSelectFor.mockResolvedValueOnce([draft]);
+
+      await request(app)
+        .post("/prompts/partials/publish")
+        .set("X-Clerk-User-Id", "user_reviewer")
+        .send({ appId: "my-app", name: "rules" })
+        .expect(409);
+
+      expect(mockUpdateSet).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("GET /prompts/partials/usage", () => {
+    it("lists prompts and variants including the partial directly or indirectly", async () => {
+      mockPartialFindMany.mockResolvedValue([
+        partialRow("rules", "Rules"),
+        partialRow("persona", "Persona. {{> rules}}"),
+        partialRow("unrelated", "Other"),
+      ]);
+      mockPromptFindMany.mockResolvedValue([
+        { id: "p-email", type: "email", orgId: null, prompt: "Hi {{> persona}}", systemPrompt: null },
+        { id: "p-invite", type: "invite", orgId: null, prompt: "Hi", systemPrompt: "{{> rules}}" },
+        { id: "p-other", type: "other", orgId: null, prompt: "{{> unrelated}}", systemPrompt: null },
+      ]);
+      mockVariantFindMany.mockResolvedValue([
+        { id: "v-1", promptId: "p-other", name: "b", prompt: "{{> rules}}" },
+      ]);
+
+      const res = await request(app)
+        .get("/prompts/partials/usage")
+        .query({ appId: "my-app", name: "rules" })
+        .expect(200);
+
+      expect(res.body.partials).toEqual(["persona"]);
+      expect(res.body.prompts).toEqual([
+        { id: "p-email", type: "email", layer: "app" },
+        { id: "p-invite", type: "invite", layer: "app" },
+      ]);
+      expect(res.body.variants).toEqual([{ id: "v-1", promptId: "p-other", name: "b" }]);
+    });
+  });
+
+  describe("DELETE /prompts/partials", () => {
+    it("refuses to delete a partial that is still included", async () => {
+      mockPartialFindMany.mockResolvedValue([partialRow("rules", "Rules")]);
+      mockPromptFindMany.mockResolvedValue([
+        { id: "p-email", type: "email", orgId: null, prompt: "{{> rules}}", systemPrompt: null },
+      ]);
+
+      await request(app).delete("/prompts/partials").query({ appId: "my-app", name: "rules" }).expect(409);
+      expect(mockDeleteReturning).not.toHaveBeenCalled();
+    });
+
+    it("deletes an unused partial", async () => {
+      mockPartialFindMany.mockResolvedValue([partialRow("rules", "Rules")]);
+      mockDeleteReturning.mockResolvedValue([partialRow("rules", "Rules")]);
+
+      const res = await request(app)
+        .delete("/prompts/partials")
+        .query({ appId: "my-app", name: "rules" })
+        .expect(200);
+
+      expect(res.body).toEqual({ deleted: true, id: "partial-rules", appId: "my-app", name: "rules" });
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import express from "express";
+import request from "supertest";
+
+vi.mock("../../src/middleware/auth.js", () => ({
+  serviceAuth: (req: any, _res: any, next: any) => {
+    req.orgId = "org-internal-123";
+    req.clerkOrgId = "org_test";
+    req.clerkUserId = req.headers["x-clerk-user-id"];
+    next();
+  },
+}));
+
+const NOW = new Date("2025-01-15T00:00:00Z");
+
+const mockPromptFindFirst = vi.fn();
+const mockVersionFindFirst = vi.fn();
+const mockVariantFindMany = vi.fn();
+const mockInsert = vi.fn();
+const mockVariantUpsert = vi.fn();
+const mockUpdate = vi.fn();
+const mockDelete = vi.fn();
+
+vi.mock("../../src/db/index.js", () => {
+  const db = {
+    insert: (table: { _table: string }) => ({
+      values: (values: Record<string, unknown>) => {
+        mockInsert(table._table, values);
+        return {
+          returning: () => Promise.resolve([{ id: `${table._table}-new`, createdAt: NOW, ...values }]),
+          onConflictDoUpdate: (config: unknown) => {
+            mockVariantUpsert(values, config);
+            return Promise.resolve();
+          },
+        };
+      },
+    }),
+    update: (table: { _table: string }) => ({
+      set: (values: Record<string, unknown>) => {
+        mockUpdate(table._table, values);
+        return { where: () => ({ returning: () => Promise.resolve([{ id: "prompt-1", ...values }]) }) };
+      },
+    }),
+    delete: (table: { _table: string }) => ({
+      where: () => {
+        mockDelete(table._table);
+        return Promise.resolve();
+      },
+    }),
+    select: () => ({ from: () => ({ where: () => ({ for: () => Promise.resolve([]) }) }) }),
+    transaction: (fn: (tx: unknown) => unknown) => fn(db),
+    query: {
+      prompts: { findFirst: (...args: unknown[]) => mockPromptFindFirst(...args) },
+      promptVersions: { findFirst: (...args: unknown[]) => mockVersionFindFirst(...args) },
+      promptVariants: { findMany: (...args: unknown[]) => mockVariantFindMany(...args) },
+    },
+  };
+  return { db };
+});
+
+vi.mock("../../src/db/schema.js", () => ({
+  prompts: { _table: "prompts", id: { name: "id" }, appId: { name: "app_id" }, type: { name: "type" } },
+  promptVersions: { _table: "prompt_versions", id: { name: "id" }, promptId: { name: "prompt_id" }, version: { name: "version" } },
+  promptVariants: { _table: "prompt_variants", promptId: { name: "prompt_id" }, name: { name: "name" } },
+}));
+
+import variantRoutes from "../../src/routes/prompt-variants.js";
+
+function createTestApp() {
+  const app = express();
+  app.use(express.json());
+  app.use(variantRoutes);
+  return app;
+}
+
+const variant = (name: string, prompt: string, weight = 1) => ({ name, prompt, weight });
+
+function promptRow(variants: ReturnType<typeof variant>[] | null) {
+  return {
+    id: "prompt-1",
+    appId: "my-app",
+    orgId: null,
+    type: "email",
+    prompt: "Hi {{name}}",
+    variables: ["name"],
+    variableMode: "lenient",
+    variants,
+    version: 2,
+    versionId: "version-2",
+    createdAt: NOW,
+    updatedAt: NOW,
+  };
+}
+
+describe("PUT /prompts/variants", () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    app = createTestApp();
+    mockVersionFindFirst.mockResolvedValue({ id: "version-2", version: 2, status: "published" });
+    mockVariantFindMany.mockResolvedValue([
+      { id: "variant-a", promptId: "prompt-1", name: "a", prompt: "Hello {{name}}", weight: 1, createdAt: NOW },
+    ]);
+  });
+
+  it("stores the set as a draft version, leaving the live variants alone", async () => {
+    mockPromptFindFirst.mockResolvedValue(promptRow([variant("a", "Hi"), variant("b", "Yo")]));
+
+    const res = await request(app)
+      .put("/prompts/variants")
+      .set("X-Clerk-User-Id", "user_1")
+      .send({ appId: "my-app", type: "email", variants: [variant("a", "Hello {{name}}")] })
+      .expect(200);
+
+    expect(res.body.version).toBe(2);
+    expect(res.body.draftVersion).toBe(3);
+    expect(res.body.variants[0]).toMatchObject({ id: "variant-a", name: "a", trafficShare: 1 });
+    expect(mockInsert).toHaveBeenCalledWith(
+      "prompt_versions",
+      expect.objectContaining({
+        version: 3,
+        status: "draft",
+        prompt: "Hi {{name}}",
+        variants: [variant("a", "Hello {{name}}")],
+        authorClerkUserId: "user_1",
+      })
+    );
+    expect(mockDelete).not.toHaveBeenCalled();
+    expect(mockVariantUpsert).not.toHaveBeenCalled();
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it("builds the draft on a pending draft, keeping its other changes", async () => {
+    mockPromptFindFirst.mockResolvedValue(promptRow([variant("a", "Hi")]));
+    mockVersionFindFirst.mockResolvedValue({
+      ...promptRow([variant("a", "Hi")]),
+      id: "version-3",
+      version: 3,
+      status: "in_review",
+      prompt: "Hello there {{name}}",
+    });
+
+    const res = await request(app)
+      .put("/prompts/variants")
+      .set("X-Clerk-User-Id", "user_1")
+      .send({ appId: "my-app", type: "email", variants: [variant("a", "Hello {{name}}"), variant("b", "Yo {{name}}")] })
+      .expect(200);
+
+    expect(res.body.draftVersion).toBe(4);
+    expect(mockInsert).toHaveBeenCalledWith(
+      "prompt_versions",
+      expect.objectContaining({
+        version: 4,
+        prompt: "Hello there {{name}}",
+        variants: [variant("a", "Hello {{name}}"), variant("b", "Yo {{name}}")],
+      })
+    );
+  });
+
+  it("creates no version when the set is unchanged", async () => {
+    mockPromptFindFirst.mockResolvedValue(promptRow([variant("a", "Hello {{name}}")]));
+
+    const res = await request(app)
+      .put("/prompts/variants")
+      .set("X-Clerk-User-Id", "user_1")
+      .send({ appId: "my-app", type: "email", variants: [variant("a", "Hello {{name}}")] })
+      .expect(200);
+
+    expect(res.body.version).toBe(2);
+    expect(res.body.draftVersion).toBeNull();
+    expect(mockInsert).not.toHaveBeenCalled();
+    expect(mockDelete).not.toHaveBeenCalled();
+  });
+
+  it("rejects duplicate names", async () => {
+    await request(app)
+      .put("/prompts/variants")
+      .set("X-Clerk-User-Id", "user_1")
+      .send({ appId: "my-app", type: "email", variants: [variant("a", "x"), variant("a", "y")] })
+      .expect(400);
+
+    expect(mockPromptFindFirst).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 without an author", async () => {
+    await request(app)
+      .put("/prompts/variants")
+      .send({ appId: "my-app", type: "email", variants: [variant("a", "x")] })
+      .expect(400);
+
+    expect(mockPromptFindFirst).not.toHaveBeenCalled();
+  });
+});
@@ -7,6 +7,7 @@ vi.mock("../../src/middleware/auth.js", () => ({
   serviceAuth: (req: any, _res: any, next: any) => {
     req.orgId = "org-internal-123";
     req.clerkOrgId = req.headers["x-clerk-org-id"] || "org_test";
+    req.clerkUserId = req.headers["x-clerk-user-id"];
     next();
   },
 }));
@@ -15,14 +16,41 @@ const NOW = new Date("2025-01-15T00:00:00Z");
 
 // Mock the DB
 const mockFindFirst = vi.fn();
+const mockFindMany = vi.fn();
+const mockDeleteReturning = vi.fn();
 const mockInsertReturning = vi.fn();
 const mockUpdateReturning = vi.fn();
+const mockVersionFindFirst = vi.fn();
+const mockVersionFindMany = vi.fn();
+const mockVersionInsertValues = vi.fn();
+const mockSelectFor = vi.fn().mockResolvedValue([]);
+const mockGenerationFindFirst = vi.fn();
+const mockVariantUpsert = vi.fn();
+const mockPartialFindMany = vi.fn().mockResolvedValue([]);
 
-vi.mock("../../src/db/index.js", () => ({
-  db: {
-    insert: vi.fn().mockReturnValue({
-      values: vi.fn().mockReturnValue({
-        returning: (...args: unknown[]) => mockInsertReturning(...args),
+vi.mock("../../src/db/index.js", () => {
+  const db = {
+    insert: vi.fn().mockImplementation((table: { _table?: string }) => ({
+      values: vi.fn().mockImplementation((values: Record<string, unknown>) => {
+        if (table._table === "prompt_versions") {
+          mockVersionInsertValues(values);
+          return {
+            returning: () => Promise.resolve([{ id: `version-${values.version}`, ...values }]),
+          };
+        }
+        const returning = (...args: unknown[]) => mockInsertReturning(...args);
+        return {
+          returning,
+          onConflictDoNothing: () => ({ returning }),
+          onConflictDoUpdate: (...args: unknown[]) => mockVariantUpsert(values, ...args),
+        };
+      }),
+    })),
+    select: vi.fn().mockReturnValue({
+      from: vi.fn().mockReturnValue({
+        where: vi.fn().mockReturnValue({
+          for: (...args: unknown[]) => mockSelectFor(...args),
+        }),
       }),
     }),
     update: vi.fn().mockReturnValue({
@@ -32,16 +60,42 @@ vi.mock("../../src/db/index.js", () => ({
         }),
       }),
     }),
+    delete: vi.fn().mockReturnValue({
+      where: vi.fn().mockReturnValue({
+        returning: (...args: unknown[]) => mockDeleteReturning(...args),
+      }),
+    }),
+    transaction: (fn: (tx: unknown) => unknown) => fn(db),
     query: {
       prompts: {
         findFirst: (...args: unknown[]) => mockFindFirst(...args),
+        findMany: (...args: unknown[]) => mockFindMany(...args),
+      },
+      promptVersions: {
+        findFirst: (...args: unknown[]) => mockVersionFindFirst(...args),
+        findMany: (...args: unknown[]) => mockVersionFindMany(...args),
+      },
+      emailGenerations: {
+        findFirst: (...args: unknown[]) => mockGenerationFindFirst(...args),
+      },
+      promptPartials: {
+        findMany: (...args: unknown[]) => mockPartialFindMany(...args),
       },
     },
-  },
-}));
+  };
+  return { db };
+});
 
 vi.mock("../../src/db/schema.js", () => ({
-  prompts: { appId: { name: "app_id" }, type: { name: "type" } },
+  prompts: { _table: "prompts", id: { name: "id" }, appId: { name: "app_id" }, type: { name: "type" } },
+  promptVersions: {
+    _table: "prompt_versions",
+    promptId: { name: "prompt_id" },
+    version: { name: "version" },
+  },
+  emailGenerations: { _table: "email_generations", promptVersionId: { name: "prompt_version_id" } },
+  promptVariants: { _table: "prompt_variants", promptId: { name: "prompt_id" }, name: { name: "name" } },
+  promptPartials: { _table: "prompt_partials", appId: { name: "app_id" } },
 }));
 
 function createTestApp() {
@@ -60,21 +114,26 @@ describe("PUT /prompts", () => {
     app.use(promptRoutes);
   });
 
-  it("creates a new prompt when none exists", async () => {
-    mockFindFirst.mockResolvedValue(null);
-    mockInsertReturning.mockResolvedValue([{
+  it("creates a new prompt as a draft with no live version", async () => {
+    const row = {
       id: "prompt-1",
       appId: "my-app",
       type: "email",
       prompt: "Write an email to {{recipient}}",
       variables: ["recipient"],
+      version: 0,
+      versionId: null,
       createdAt: NOW,
       updatedAt: NOW,
-    }]);
+    };
+    mockFindFirst.mockResolvedValue(null);
+    mockVersionFindFirst.mockResolvedValue(null);
+    mockInsertReturning.mockResolvedValue([row]);
 
     const res = await request(app)
       .put("/prompts")
       .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_author")
       .send({
         appId: "my-app",
         type: "email",
@@ -87,44 +146,389 @@ describe("PUT /prompts", () => {
     expect(res.body.appId).toBe("my-app");
     expect(res.body.type).toBe("email");
     expect(res.body.variables).toEqual(["recipient"]);
+    expect(res.body.version).toBe(0);
+    expect(res.body.versionId).toBeNull();
+    expect(res.body.draftVersion).toBe(1);
+    expect(mockVersionInsertValues).toHaveBeenCalledWith(
+      expect.objectContaining({
+        promptId: "prompt-1",
+        version: 1,
+        prompt: "Write an email to {{recipient}}",
+        status: "draft",
+        authorClerkUserId: "user_author",
+      })
+    );
+    expect(mockUpdateReturning).not.toHaveBeenCalled();
+  });
+
+  it("publishes a new prompt registered without an author, as services do at startup", async () => {
+    const row = {
+      id: "prompt-1", appId: "my-app", type: "email", prompt: "Hi", variables: [], variableMode: "lenient",
+      version: 0, versionId: null, createdAt: NOW, updatedAt: NOW,
+    };
+    mockFindFirst.mockResolvedValue(null);
+    mockVersionFindFirst.mockResolvedValue(null);
+    mockInsertReturning.mockResolvedValue([row]);
+    mockUpdateReturning
+      .mockResolvedValueOnce([{ id: "version-1", promptId: "prompt-1", version: 1, prompt: "Hi", variables: [], variants: null, status: "published" }])
+      .mockResolvedValueOnce([{ ...row, version: 1, versionId: "version-1" }]);
+
+    const res = await request(app)
+      .put("/prompts")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({ appId: "my-app", type: "email", prompt: "Hi", variables: [] })
+      .expect(200);
+
+    expect(res.body).toMatchObject({ version: 1, versionId: "version-1", draftVersion: null });
+    expect(mockVersionInsertValues).toHaveBeenCalledWith(expect.objectContaining({ version: 1, authorClerkUserId: null }));
+    expect(mockUpdateReturning).toHaveBeenCalledTimes(2);
+  });
+
+  it("refuses a change to a live prompt without an author", async () => {
+    mockFindFirst.mockResolvedValue({
+      id: "prompt-1", appId: "my-app", type: "email", prompt: "old", variables: [], variableMode: "lenient",
+      version: 1, versionId: "version-1", createdAt: NOW, updatedAt: NOW,
+    });
+    mockVersionFindFirst.mockResolvedValue({ id: "version-1", version: 1, status: "published" });
+    const live = [{ appId: "my-app", version: 1, versionId: "version-1" }];
+    mockSelectFor.mockResolvedValueOnce(live).mockResolvedValueOnce(live);
+
+    const res = await request(app)
+      .put("/prompts")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({ appId: "my-app", type: "email", prompt: "Hi", variables: [] })
+      .expect(409);
+
+    expect(res.body.error).toContain("needs an x-clerk-user-id author and review");
+    expect(mockUpdateReturning).not.toHaveBeenCalled();
+  });
+
+  it("stores typed variable declarations as the variable schema", async () => {
+    const row = {
+      id: "prompt-1",
+      appId: "my-app",
+      type: "email",
+      prompt: "{{recipient}} has {{employees}} staff",
+      variables: ["recipient", "employees"],
+      createdAt: NOW,
+      updatedAt: NOW,
+    };
+    mockFindFirst.mockResolvedValue(null);
+    mockVersionFindFirst.mockResolvedValue(null);
+    mockInsertReturning.mockResolvedValue([row]);
+    mockUpdateReturning.mockResolvedValue([{ ...row, version: 1, versionId: "version-1" }]);
+
+    await request(app)
+      .put("/prompts")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_author")
+      .send({
+        appId: "my-app",
+        type: "email",
+        prompt: "{{recipient}} has {{employees}} staff",
+        variables: ["recipient", { name: "employees", type: "number", required: false }],
+      })
+      .expect(200);
+
+    expect(mockVersionInsertValues).toHaveBeenCalledWith(
+      expect.objectContaining({
+        variables: ["recipient", "employees"],
+        variableSchema: [{ name: "recipient" }, { name: "employees", type: "number", required: false }],
+      })
+    );
+  });
+
+  it("returns 400 for a variable default that does not match its type", async () => {
+    const res = await request(app)
+      .put("/prompts")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_author")
+      .send({
+        appId: "my-app",
+        type: "email",
+        prompt: "{{employees}}",
+        variables: [{ name: "employees", type: "number", default: "many" }],
+      })
+      .expect(400);
+
+    expect(res.body.error).toContain('Variable "employees": default is invalid');
+    expect(mockFindFirst).not.toHaveBeenCalled();
   });
 
-  it("updates an existing prompt", async () => {
+  it("returns 400 when the prompt includes a partial the app has not registered", async () => {
+    mockPartialFindMany.mockResolvedValueOnce([{ name: "signature", content: "{{> footer}}" }]);
+
+    const res = await request(app)
+      .put("/prompts")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_author")
+      .send({ appId: "my-app", type: "email", prompt: "Hi {{name}}\n{{> signature}}", variables: ["name"] })
+      .expect(400);
+
+    expect(res.body.error).toBe('prompt: Unknown partial "footer"');
+    expect(mockFindFirst).not.toHaveBeenCalled();
+  });
+
+  it("stores a change to an existing prompt as a draft without touching the live version", async () => {
     mockFindFirst.mockResolvedValue({
       id: "prompt-1",
       appId: "my-app",
       type: "email",
       prompt: "old prompt",
       variables: ["old"],
+      variableMode: "lenient",
+      version: 1,
+      versionId: "version-1",
+      createdAt: NOW,
+      updatedAt: NOW,
     });
-    mockUpdateReturning.mockResolvedValue([{
+    mockVersionFindFirst.mockResolvedValue({ id: "version-1", version: 1, status: "published" });
+
+    const res = await request(app)
+      .put("/prompts")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_author")
+      .send({
+        appId: "my-app",
+        type: "email",
+        prompt: "new prompt with {{newVar}}",
+        variables: ["newVar"],
+      })
+      .expect(200);
+
+    expect(res.body.variables).toEqual(["old"]);
+    expect(res.body.version).toBe(1);
+    expect(res.body.draftVersion).toBe(2);
+    expect(mockVersionInsertValues).toHaveBeenCalledWith(
+      expect.objectContaining({ promptId: "prompt-1", version: 2, status: "draft", authorClerkOrgId: "org_test" })
+    );
+    expect(mockUpdateReturning).not.toHaveBeenCalled();
+    expect(mockSelectFor).toHaveBeenCalledWith("update");
+  });
+
+  it("stores a draft when a concurrent request registered the prompt first", async () => {
+    const existing = {
+      id: "prompt-1", appId: "my-app", type: "email", prompt: "their prompt", variables: [], variableMode: "lenient",
+      version: 1, versionId: "version-1", createdAt: NOW, updatedAt: NOW,
+    };
+    mockFindFirst.mockResolvedValueOnce(null).mockResolvedValueOnce(existing);
+    mockInsertReturning.mockResolvedValue([]);
+    mockVersionFindFirst.mockResolvedValue({ id: "version-1", version: 1, status: "published" });
+
+    const res = await request(app)
+      .put("/prompts")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_author")
+      .send({ appId: "my-app", type: "email", prompt: "my prompt", variables: [] })
+      .expect(200);
+
+    expect(res.body.version).toBe(1);
+    expect(res.body.draftVersion).toBe(2);
+    expect(mockVersionInsertValues).toHaveBeenCalledWith(expect.objectContaining({ version: 2, status: "draft" }));
+  });
+
+  it("does not create another draft when the latest draft has the same content", async () => {
+    mockFindFirst.mockResolvedValue({
+      id: "prompt-1", appId: "my-app", type: "email", prompt: "old prompt", variables: [], variableMode: "lenient",
+      version: 1, versionId: "version-1", createdAt: NOW, updatedAt: NOW,
+    });
+    mockVersionFindFirst.mockResolvedValue({
+      id: "version-2", version: 2, status: "in_review", prompt: "new prompt", variables: [], variableMode: "lenient",
+    });
+
+    const res = await request(app)
+      .put("/prompts")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_author")
+      .send({ appId: "my-app", type: "email", prompt: "new prompt", variables: [] })
+      .expect(200);
+
+    expect(res.body.draftVersion).toBe(2);
+    expect(mockVersionInsertValues).not.toHaveBeenCalled();
+  });
+
+  it("records the author from the x-clerk-user-id header", async () => {
+    mockFindFirst.mockResolvedValue({
+      id: "prompt-1", appId: "my-app", type: "email", prompt: "old prompt", variables: [], createdAt: NOW, updatedAt: NOW,
+    });
+    mockVersionFindFirst.mockResolvedValue({ id: "version-1", version: 1, status: "published" });
+
+    await request(app)
+      .put("/prompts")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_42")
+      .send({ appId: "my-app", type: "email", prompt: "new prompt", variables: [] })
+      .expect(200);
+
+    expect(mockVersionInsertValues).toHaveBeenCalledWith(
+      expect.objectContaining({ authorClerkOrgId: "org_test", authorClerkUserId: "user_42" })
+    );
+  });
+
+  it("does not create a version when content is unchanged", async () => {
+    mockFindFirst.mockResolvedValue({
       id: "prompt-1",
       appId: "my-app",
       type: "email",
-      prompt: "new prompt with {{newVar}}",
-      variables: ["newVar"],
+      prompt: "same prompt",
+      variables: ["a"],
+      variableMode: "lenient",
+      version: 3,
+      versionId: "version-3",
       createdAt: NOW,
-      updatedAt: new Date("2025-01-16T00:00:00Z"),
-    }]);
+      updatedAt: NOW,
+    });
+
+    const res = await request(app)
+      .put("/prompts")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_author")
+      .send({ appId: "my-app", type: "email", prompt: "same prompt", variables: ["a"] })
+      .expect(200);
+
+    expect(res.body.version).toBe(3);
+    expect(mockVersionInsertValues).not.toHaveBeenCalled();
+  });
+
+  it("registers an org-scoped override for the calling org", async () => {
+    const row = {
+      id: "prompt-org",
+      appId: "my-app",
+      type: "email",
+      orgId: "org-internal-123",
+      prompt: "Org wording {{recipient}}",
+      variables: ["recipient"],
+      createdAt: NOW,
+      updatedAt: NOW,
+    };
+    mockFindFirst.mockResolvedValue(null);
+    mockVersionFindFirst.mockResolvedValue(null);
+    mockInsertReturning.mockResolvedValue([row]);
+    mockUpdateReturning.mockResolvedValue([{ ...row, version: 1, versionId: "version-1" }]);
 
     const res = await request(app)
       .put("/prompts")
       .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_author")
       .send({
         appId: "my-app",
         type: "email",
-        prompt: "new prompt with {{newVar}}",
-        variables: ["newVar"],
+        prompt: "Org wording {{recipient}}",
+        variables: ["recipient"],
+        scope: "org",
       })
       .expect(200);
 
-    expect(res.body.variables).toEqual(["newVar"]);
+    expect(res.body.layer).toBe("org");
+    const { db } = await import("../../src/db/index.js");
+    const insertedPrompt = (db.insert as any).mock.results[0].value.values.mock.calls[0][0];
+    expect(insertedPrompt.orgId).toBe("org-internal-123");
+  });
+
+  it("returns 400 for a template that does not parse", async () => {
+    const res = await request(app)
+      .put("/prompts")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_author")
+      .send({ appId: "my-app", type: "email", prompt: "{{#if a}}unclosed", variables: [] })
+      .expect(400);
+
+    expect(res.body.error).toContain("Invalid prompt template");
+    expect(mockFindFirst).not.toHaveBeenCalled();
+  });
+
+  it("versions the system prompt with the template", async () => {
+    const row = {
+      id: "prompt-1",
+      appId: "my-app",
+      type: "invite",
+      prompt: "Invite {{recipient}}",
+      systemPrompt: "You write event invites for {{eventName}}.",
+      variables: ["recipient", "eventName"],
+      createdAt: NOW,
+      updatedAt: NOW,
+    };
+    mockFindFirst.mockResolvedValue(null);
+    mockVersionFindFirst.mockResolvedValue(null);
+    mockInsertReturning.mockResolvedValue([row]);
+    mockUpdateReturning.mockResolvedValue([{ ...row, version: 1, versionId: "version-1" }]);
+
+    await request(app)
+      .put("/prompts")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_author")
+      .send({
+        appId: "my-app",
+        type: "invite",
+        prompt: "Invite {{recipient}}",
+        systemPrompt: "You write event invites for {{eventName}}.",
+        variables: ["recipient", "eventName"],
+      })
+      .expect(200);
+
+    expect(mockVersionInsertValues).toHaveBeenCalledWith(
+      expect.objectContaining({ systemPrompt: "You write event invites for {{eventName}}." })
+    );
+  });
+
+  it("returns 400 for a system prompt that does not parse", async () => {
+    const res = await request(app)
+      .put("/prompts")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_author")
+      .send({ appId: "my-app", type: "email", prompt: "Hi", systemPrompt: "{{#each a}}", variables: [] })
+      .expect(400);
+
+    expect(res.body.error).toContain("systemPrompt: Invalid prompt template");
+  });
+
+  it("returns 400 for an invalid output schema", async () => {
+    const res = await request(app)
+      .put("/prompts")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_author")
+      .send({ appId: "my-app", type: "calendar", prompt: "Hi", outputSchema: { type: "array" }, variables: [] })
+      .expect(400);
+
+    expect(res.body.error).toContain("Invalid output schema");
+  });
+
+  it("returns 400 for a sequence config on a prompt with its own output schema", async () => {
+    const res = await request(app)
+      .put("/prompts")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_author")
+      .send({
+        appId: "my-app",
+        type: "calendar",
+        prompt: "Hi",
+        variables: [],
+        outputSchema: { type: "object", properties: { title: { type: "string" } } },
+        sequenceConfig: { steps: [{ daysSinceLastStep: 0 }] },
+      })
+      .expect(400);
+
+    expect(res.body.error).toBe("sequenceConfig only applies to prompts without an output schema");
+  });
+
+  it("rejects a prompt with lint errors when lint is requested", async () => {
+    const res = await request(app)
+      .put("/prompts")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_author")
+      .send({ appId: "my-app", type: "email", prompt: "Hi {{name}} from {{brand}}", variables: ["name"], lint: true })
+      .expect(400);
+
+    expect(res.body.error).toBe("Prompt lint failed: {{brand}} is used but not declared in variables");
+    expect(res.body.issues[0].code).toBe("undeclared_variable");
+    expect(mockFindFirst).not.toHaveBeenCalled();
   });
 
   it("returns 400 for missing required fields", async () => {
     await request(app)
       .put("/prompts")
       .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_author")
       .send({ appId: "my-app" }) // missing type, prompt, variables
       .expect(400);
   });
@@ -160,6 +564,58 @@ describe("GET /prompts", () => {
     expect(res.body.variables).toEqual(["recipient"]);
   });
 
+  it("describes the complete variable schema", async () => {
+    mockFindFirst.mockResolvedValue({
+      id: "prompt-1",
+      appId: "my-app",
+      type: "email",
+      prompt: "{{recipient}}{{#if note}} {{note}}{{/if}} ({{employees}})",
+      variables: ["recipient", "note", "employees"],
+      variableSchema: [{ name: "recipient" }, { name: "note" }, { name: "employees", type: "number", default: 10 }],
+      createdAt: NOW,
+      updatedAt: NOW,
+    });
+
+    const res = await request(app)
+      .get("/prompts?appId=my-app&type=email")
+      .set("X-Clerk-Org-Id", "org_test")
+      .expect(200);
+
+    expect(res.body.variableSchema).toEqual([
+      { name: "recipient", type: "string", required: true },
+      { name: "note", type: "string", required: false },
+      { name: "employees", type: "number", default: 10, required: false },
+    ]);
+  });
+
+  it("reports which layer was resolved", async () => {
+    mockFindFirst.mockResolvedValue({
+      id: "prompt-org",
+      appId: "my-app",
+      type: "email",
+      orgId: "org-internal-123",
+      prompt: "Org wording",
+      variables: [],
+      createdAt: NOW,
+      updatedAt: NOW,
+    });
+
+    const res = await request(app)
+      .get("/prompts?appId=my-app&type=email")
+      .set("X-Clerk-Org-Id", "org_test")
+      .expect(200);
+
+    expect(res.body.layer).toBe("org");
+    expect(res.body.prompt).toBe("Org wording");
+  });
+
+  it("returns 400 for an invalid scope", async () => {
+    await request(app)
+      .get("/prompts?appId=my-app&type=email&scope=team")
+      .set("X-Clerk-Org-Id", "org_test")
+      .expect(400);
+  });
+
   it("returns 404 when prompt not found", async () => {
     mockFindFirst.mockResolvedValue(null);
 
@@ -169,10 +625,509 @@ describe("GET /prompts", () => {
       .expect(404);
   });
 
-  it("returns 400 when appId or type missing", async () => {
+  it("returns 400 when appId missing", async () => {
     await request(app)
+      .get("/prompts?type=email")
+      .set("X-Clerk-Org-Id", "org_test")
+      .expect(400);
+  });
+
+  it("lists the app's prompts with metadata when type is omitted", async () => {
+    mockFindMany.mockResolvedValue([
+      { id: "p-cal", appId: "my-app", type: "calendar", orgId: null, prompt: "cal", variables: [], variableMode: "lenient", version: 1, versionId: "v1", createdAt: NOW, updatedAt: NOW },
+      { id: "p-email", appId: "my-app", type: "email", orgId: null, prompt: "email", variables: ["a"], variableMode: "strict", version: 4, versionId: "v4", createdAt: NOW, updatedAt: NOW },
+      { id: "p-email-org", appId: "my-app", type: "email", orgId: "org-internal-123", prompt: "org email", variables: ["a"], variableMode: "lenient", version: 1, versionId: "v9", createdAt: NOW, updatedAt: NOW },
+    ]);
+
+    const res = await request(app)
       .get("/prompts?appId=my-app")
       .set("X-Clerk-Org-Id", "org_test")
+      .expect(200);
+
+    expect(res.body.prompts).toHaveLength(3);
+    expect(res.body.prompts.map((p: any) => [p.type, p.layer])).toEqual([
+      ["calendar", "app"],
+      ["email", "app"],
+      ["email", "org"],
+    ]);
+    expect(res.body.prompts[1].version).toBe(4);
+    expect(res.body.prompts[0].prompt).toBeUndefined();
+  });
+});
+
+describe("GET /prompts/versions", () => {
+  let app: express.Express;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    app = createTestApp();
+    const { default: promptRoutes } = await import("../../src/routes/prompts.js");
+    app.use(promptRoutes);
+  });
+
+  it("lists versions newest first with the live version", async () => {
+    mockFindFirst.mockResolvedValue({ id: "prompt-1", version: 2 });
+    mockVersionFindMany.mockResolvedValue([
+      { id: "v2", promptId: "prompt-1", version: 2, prompt: "new", variables: [], authorClerkOrgId: "org_b", authorClerkUserId: null, rolledBackFromVersion: null, createdAt: NOW },
+      { id: "v1", promptId: "prompt-1", version: 1, prompt: "old", variables: [], authorClerkOrgId: "org_a", authorClerkUserId: "user_1", rolledBackFromVersion: null, createdAt: NOW },
+    ]);
+
+    const res = await request(app)
+      .get("/prompts/versions?appId=my-app&type=email")
+      .set("X-Clerk-Org-Id", "org_test")
+      .expect(200);
+
+    expect(res.body.currentVersion).toBe(2);
+    expect(res.body.versions.map((v: any) => v.version)).toEqual([2, 1]);
+    expect(res.body.versions[1].authorClerkUserId).toBe("user_1");
+  });
+
+  it("returns 404 when prompt not found", async () => {
+    mockFindFirst.mockResolvedValue(null);
+
+    await request(app)
+      .get("/prompts/versions?appId=my-app&type=email")
+      .set("X-Clerk-Org-Id", "org_test")
+      .expect(404);
+  });
+});
+
+describe("POST /prompts/rollback", () => {
+  let app: express.Express;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    app = createTestApp();
+    const { default: promptRoutes } = await import("../../src/routes/prompts.js");
+    app.use(promptRoutes);
+  });
+
+  it("republishes an older version as a new version", async () => {
+    mockFindFirst.mockResolvedValue({ id: "prompt-1", version: 3 });
+    mockVersionFindFirst
+      .mockResolvedValueOnce({ id: "v1", promptId: "prompt-1", version: 1, status: "published", prompt: "original", variables: ["x"] })
+      .mockResolvedValueOnce({ id: "v3", version: 3 });
+    mockUpdateReturning.mockResolvedValue([{
+      id: "prompt-1", appId: "my-app", type: "email", variables: ["x"], version: 4, versionId: "version-4", createdAt: NOW, updatedAt: NOW,
+    }]);
+
+    const res = await request(app)
+      .post("/prompts/rollback")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_author")
+      .send({ appId: "my-app", type: "email", version: 1 })
+      .expect(200);
+
+    expect(res.body.version).toBe(4);
+    expect(mockVersionInsertValues).toHaveBeenCalledWith(
+      expect.objectContaining({ version: 4, prompt: "original", variables: ["x"], rolledBackFromVersion: 1 })
+    );
+  });
+
+  it("returns 404 when the version does not exist", async () => {
+    mockFindFirst.mockResolvedValue({ id: "prompt-1", version: 3 });
+    mockVersionFindFirst.mockResolvedValue(null);
+
+    await request(app)
+      .post("/prompts/rollback")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_author")
+      .send({ appId: "my-app", type: "email", version: 9 })
+      .expect(404);
+  });
+});
+
+describe("POST /prompts/submit and /prompts/publish", () => {
+  let app: express.Express;
+
+  const draft = {
+    id: "version-2",
+    promptId: "prompt-1",
+    version: 2,
+    prompt: "new wording",
+    variables: [],
+    variableMode: "lenient",
+    authorClerkOrgId: "org_test",
+    authorClerkUserId: "user_author",
+    createdAt: NOW,
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockFindFirst.mockResolvedValue({ id: "prompt-1", version: 1 });
+    app = createTestApp();
+    const { default: promptRoutes } = await import("../../src/routes/prompts.js");
+    app.use(promptRoutes);
+  });
+
+  it("moves a draft to review", async () => {
+    mockVersionFindFirst.mockResolvedValue({ ...draft, status: "draft" });
+    mockUpdateReturning.mockResolvedValue([
+      { ...draft, status: "in_review", submittedAt: NOW, submittedByClerkUserId: "user_author" },
+    ]);
+
+    const res = await request(app)
+      .post("/prompts/submit")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_author")
+      .send({ appId: "my-app", type: "email", version: 2 })
+      .expect(200);
+
+    expect(res.body.status).toBe("in_review");
+    expect(res.body.submittedByClerkUserId).toBe("user_author");
+  });
+
+  it("refuses to submit a version that is not a draft", async () => {
+    mockVersionFindFirst.mockResolvedValue({ ...draft, status: "published" });
+
+    await request(app)
+      .post("/prompts/submit")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_author")
+      .send({ appId: "my-app", type: "email", version: 2 })
+      .expect(409);
+  });
+
+  it("requires an identified submitter", async () => {
+    await request(app)
+      .post("/prompts/submit")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({ appId: "my-app", type: "email", version: 2 })
+      .expect(400);
+
+    expect(mockFindFirst).not.toHaveBeenCalled();
+  });
+
+  const liveRow = { appId: "my-app", version: 1, versionId: "version-1" };
+
+  it("publishes a version in review, recording the approver and making it live", async () => {
+    mockVersionFindFirst.mockResolvedValue({ ...draft, status: "in_review" });
+    mockSelectFor.mockResolvedValueOnce([liveRow]).mockResolvedValueOnce([{ ...draft, status: "in_review" }]);
+    mockUpdateReturning
+      .mockResolvedValueOnce([
+        { ...draft, status: "published", approvedByClerkOrgId: "org_test", approvedByClerkUserId: "user_reviewer", publishedAt: NOW },
+      ])
+      .mockResolvedValueOnce([{ id: "prompt-1", prompt: "new wording", version: 2, versionId: "version-2" }]);
+
+    const res = await request(app)
+      .post("/prompts/publish")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_reviewer")
+      .send({ appId: "my-app", type: "email", version: 2 })
+      .expect(200);
+
+    expect(res.body.status).toBe("published");
+    expect(res.body.approvedByClerkUserId).toBe("user_reviewer");
+    const { db } = await import("../../src/db/index.js");
+    const setCalls = (db.update as any).mock.results[0].value.set.mock.calls.map((c: unknown[]) => c[0]);
+    expect(setCalls[0]).toMatchObject({ status: "published", approvedByClerkUserId: "user_reviewer" });
+    expect(setCalls[1]).toMatchObject({ prompt: "new wording", version: 2, versionId: "version-2" });
+  });
+
+  it("refuses to publish a draft that was not submitted", async () => {
+    mockVersionFindFirst.mockResolvedValue({ ...draft, status: "draft" });
+    mockSelectFor.mockResolvedValueOnce([liveRow]).mockResolvedValueOnce([{ ...draft, status: "draft" }]);
+
+    await request(app)
+      .post("/prompts/publish")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_reviewer")
+      .send({ appId: "my-app", type: "email", version: 2 })
+      .expect(409);
+
+    expect(mockUpdateReturning).not.toHaveBeenCalled();
+  });
+
+  it("serves a published variant set, keeping variant ids by name", async () => {
+    const withVariants = { ...draft, status: "in_review", variants: [{ name: "a", prompt: "Hello", weight: 1 }] };
+    mockVersionFindFirst.mockResolvedValue(withVariants);
+    mockSelectFor.mockResolvedValueOnce([liveRow]).mockResolvedValueOnce([withVariants]);
+    mockUpdateReturning
+      .mockResolvedValueOnce([{ ...withVariants, status: "published", publishedAt: NOW }])
+      .mockResolvedValueOnce([{ id: "prompt-1", version: 2, versionId: "version-2" }]);
+
+    await request(app)
+      .post("/prompts/publish")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_reviewer")
+      .send({ appId: "my-app", type: "email", version: 2 })
+      .expect(200);
+
+    expect(mockVariantUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({ promptId: "prompt-1", name: "a", prompt: "Hello" }),
+      expect.objectContaining({ set: { prompt: "Hello", weight: 1 } })
+    );
+  });
+
+  it("re-checks the version under lock, so a concurrent approval does not publish it twice", async () => {
+    mockVersionFindFirst.mockResolvedValue({ ...draft, status: "in_review" });
+    mockSelectFor.mockResolvedValueOnce([liveRow]).mockResolvedValueOnce([{ ...draft, status: "published" }]);
+
+    const res = await request(app)
+      .post("/prompts/publish")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_reviewer")
+      .send({ appId: "my-app", type: "email", version: 2 })
+      .expect(409);
+
+    expect(res.body.error).toBe("Version 2 is published; only versions in review can be published");
+    expect(mockUpdateReturning).not.toHaveBeenCalled();
+  });
+
+  it("refuses self-approval", async () => {
+    mockVersionFindFirst.mockResolvedValue({ ...draft, status: "in_review" });
+    mockSelectFor.mockResolvedValueOnce([liveRow]).mockResolvedValueOnce([{ ...draft, status: "in_review" }]);
+
+    await request(app)
+      .post("/prompts/publish")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_author")
+      .send({ appId: "my-app", type: "email", version: 2 })
+      .expect(403);
+  });
+
+  it("refuses a version with no recorded author", async () => {
+    const anonymous = { ...draft, status: "in_review", authorClerkUserId: null };
+    mockVersionFindFirst.mockResolvedValue(anonymous);
+    mockSelectFor.mockResolvedValueOnce([liveRow]).mockResolvedValueOnce([anonymous]);
+
+    const res = await request(app)
+      .post("/prompts/publish")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_reviewer")
+      .send({ appId: "my-app", type: "email", version: 2 })
+      .expect(403);
+
+    expect(res.body.error).toContain("no recorded author");
+    expect(mockUpdateReturning).not.toHaveBeenCalled();
+  });
+
+  it("refuses a version older than the live one", async () => {
+    mockVersionFindFirst.mockResolvedValue({ ...draft, status: "in_review" });
+    mockSelectFor
+      .mockResolvedValueOnce([{ ...liveRow, version: 3, versionId: "version-3" }])
+      .mockResolvedValueOnce([{ ...draft, status: "in_review" }]);
+
+    const res = await request(app)
+      .post("/prompts/publish")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_reviewer")
+      .send({ appId: "my-app", type: "email", version: 2 })
+      .expect(409);
+
+    expect(res.body.error).toContain("older than live version 3");
+    expect(mockUpdateReturning).not.toHaveBeenCalled();
+  });
+
+  it("requires an identified approver", async () => {
+    await request(app)
+      .post("/prompts/publish")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({ appId: "my-app", type: "email", version: 2 })
+      .expect(400);
+
+    expect(mockFindFirst).not.toHaveBeenCalled();
+  });
+
+  it("does not roll back to a version that was never published", async () => {
+    mockVersionFindFirst.mockResolvedValue({ ...draft, status: "draft" });
+
+    await request(app)
+      .post("/prompts/rollback")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_author")
+      .send({ appId: "my-app", type: "email", version: 2 })
+      .expect(409);
+
+    expect(mockVersionInsertValues).not.toHaveBeenCalled();
+  });
+});
+
+describe("DELETE /prompts", () => {
+  let app: express.Express;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    app = createTestApp();
+    const { default: promptRoutes } = await import("../../src/routes/prompts.js");
+    app.use(promptRoutes);
+  });
+
+  it("deletes the prompt", async () => {
+    mockFindFirst.mockResolvedValue({ id: "prompt-1", orgId: null });
+    mockVersionFindMany.mockResolvedValue([{ id: "version-1" }]);
+    mockGenerationFindFirst.mockResolvedValue(undefined);
+    mockDeleteReturning.mockResolvedValue([{ id: "prompt-1", orgId: null }]);
+
+    const res = await request(app)
+      .delete("/prompts?appId=my-app&type=email")
+      .set("X-Clerk-Org-Id", "org_test")
+      .expect(200);
+
+    expect(res.body).toEqual({ deleted: true, id: "prompt-1", appId: "my-app", type: "email", layer: "app" });
+  });
+
+  it("refuses to delete a prompt generations were made with", async () => {
+    mockFindFirst.mockResolvedValue({ id: "prompt-1", orgId: null });
+    mockVersionFindMany.mockResolvedValue([{ id: "version-1" }]);
+    mockGenerationFindFirst.mockResolvedValue({ id: "gen-1" });
+
+    const res = await request(app)
+      .delete("/prompts?appId=my-app&type=email")
+      .set("X-Clerk-Org-Id", "org_test")
+      .expect(409);
+
+    expect(res.body.error).toContain("cannot be deleted");
+    expect(mockDeleteReturning).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 when the prompt does not exist", async () => {
+    mockFindFirst.mockResolvedValue(undefined);
+
+    await request(app)
+      .delete("/prompts?appId=my-app&type=gone")
+      .set("X-Clerk-Org-Id", "org_test")
+      .expect(404);
+  });
+
+  it("returns 400 when type missing", async () => {
+    await request(app)
+      .delete("/prompts?appId=my-app")
+      .set("X-Clerk-Org-Id", "org_test")
+      .expect(400);
+  });
+});
+
+describe("POST /prompts/lint", () => {
+  let app: express.Express;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    app = createTestApp();
+    const { default: promptRoutes } = await import("../../src/routes/prompts.js");
+    app.use(promptRoutes);
+  });
+
+  it("reports issues without storing anything", async () => {
+    const res = await request(app)
+      .post("/prompts/lint")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({ appId: "my-app", prompt: "Hi {{leadIndustry}} {{name}", variables: ["leadIndustry", "unused"] })
+      .expect(200);
+
+    expect(res.body.valid).toBe(false);
+    expect(res.body.issues.map((i: { code: string }) => i.code)).toEqual([
+      "unbalanced_braces",
+      "unused_variable",
+      "lead_variable_name",
+    ]);
+    expect(res.body.placeholders).toEqual(["leadIndustry"]);
+    expect(res.body.estimatedTokens).toBeGreaterThan(0);
+    expect(mockFindFirst).not.toHaveBeenCalled();
+    expect(mockVersionInsertValues).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 without a prompt", async () => {
+    await request(app)
+      .post("/prompts/lint")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({ appId: "my-app", variables: [] })
+      .expect(400);
+  });
+});
+
+describe("PUT /prompts/bulk", () => {
+  let app: express.Express;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    app = createTestApp();
+    const { default: promptRoutes } = await import("../../src/routes/prompts.js");
+    app.use(promptRoutes);
+  });
+
+  it("reports created, updated and unchanged prompts", async () => {
+    const row = (type: string, prompt: string) => ({
+      id: `prompt-${type}`, appId: "my-app", type, orgId: null, prompt, variables: [], variableMode: "lenient",
+      version: 1, versionId: "v1", createdAt: NOW, updatedAt: NOW,
+    });
+    mockFindFirst
+      .mockResolvedValueOnce(null) // email: new
+      .mockResolvedValueOnce(row("calendar", "old calendar")) // calendar: changed
+      .mockResolvedValueOnce(row("invite", "same invite")); // invite: identical
+    mockVersionFindFirst.mockResolvedValue(null);
+    mockInsertReturning.mockResolvedValue([{ ...row("email", "new email"), version: 0, versionId: null }]);
+
+    const res = await request(app)
+      .put("/prompts/bulk")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_author")
+      .send({
+        appId: "my-app",
+        prompts: [
+          { type: "email", prompt: "new email", variables: [] },
+          { type: "calendar", prompt: "new calendar", variables: [] },
+          { type: "invite", prompt: "same invite", variables: [] },
+        ],
+      })
+      .expect(200);
+
+    expect(res.body.created).toEqual(["email"]);
+    expect(res.body.updated).toEqual(["calendar"]);
+    expect(res.body.unchanged).toEqual(["invite"]);
+    expect(res.body.prompts).toHaveLength(3);
+    expect(res.body.prompts[0]).toMatchObject({ type: "email", version: 0, draftVersion: 1 });
+    expect(mockUpdateReturning).not.toHaveBeenCalled();
+  });
+
+  it("refuses the set without an author when it changes a live prompt", async () => {
+    mockFindFirst.mockResolvedValue({
+      id: "prompt-email", appId: "my-app", type: "email", orgId: null, prompt: "old email", variables: [],
+      variableMode: "lenient", version: 1, versionId: "v1", createdAt: NOW, updatedAt: NOW,
+    });
+    mockVersionFindFirst.mockResolvedValue({ id: "v1", version: 1, status: "published" });
+    const live = [{ appId: "my-app", version: 1, versionId: "v1" }];
+    mockSelectFor.mockResolvedValueOnce(live).mockResolvedValueOnce(live);
+
+    await request(app)
+      .put("/prompts/bulk")
+      .set("X-Clerk-Org-Id", "org_test")
+      .send({ appId: "my-app", prompts: [{ type: "email", prompt: "new email", variables: [] }] })
+      .expect(409);
+
+    expect(mockUpdateReturning).not.toHaveBeenCalled();
+  });
+
+  it("rejects the whole set when one template is invalid", async () => {
+    const res = await request(app)
+      .put("/prompts/bulk")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_author")
+      .send({
+        appId: "my-app",
+        prompts: [
+          { type: "email", prompt: "fine", variables: [] },
+          { type: "calendar", prompt: "{{#each x}}", variables: [] },
+        ],
+      })
+      .expect(400);
+
+    expect(res.body.error).toContain("type=calendar");
+    expect(mockFindFirst).not.toHaveBeenCalled();
+  });
+
+  it("rejects duplicate types", async () => {
+    await request(app)
+      .put("/prompts/bulk")
+      .set("X-Clerk-Org-Id", "org_test")
+      .set("X-Clerk-User-Id", "user_author")
+      .send({
+        appId: "my-app",
+        prompts: [
+          { type: "email", prompt: "a", variables: [] },
+          { type: "email", prompt: "b", variables: [] },
+        ],
+      })
       .expect(400);
   });
 });
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkReadability,
+  readabilityFeedback,
+  readabilityMetrics,
+  stepLimits,
+  summarizeReadability,
+} from "../../src/lib/readability.js";
+import { describeSequence, type SequenceConfig } from "../../src/lib/sequence.js";
+import type { SequenceStep } from "../../src/lib/anthropic-client.js";
+
+const step = (n: number, bodyText: string): SequenceStep => ({
+  step: n,
+  bodyText,
+  bodyHtml: `<p>${bodyText}</p>`,
+  daysSinceLastStep: n === 1 ? 0 : 3,
+  threadMode: n === 1 ? "new" : "reply",
+});
+
+describe("readabilityMetrics", () => {
+  it("leaves greetings and sign-offs out of the sentences", () => {
+    const metrics = readabilityMetrics("Hi Sarah,\n\nSaw Acme is hiring SDRs. Worth a chat next week?\n\nBest,\nKevin");
+    expect(metrics).toMatchObject({ words: 14, sentences: 2, avgSentenceLength: 5 });
+  });
+
+  it("scores plain words higher than jargon", () => {
+    const plain = readabilityMetrics("The cat sat on the mat. The dog ran.");
+    const jargon = readabilityMetrics(
+      "Organizational transformation necessitates comprehensive infrastructural modernization initiatives."
+    );
+    expect(plain.fleschReadingEase).toBe(100);
+    expect(jargon.fleschReadingEase).toBe(0);
+  });
+
+  it("counts a long line without final punctuation as a sentence", () => {
+    expect(readabilityMetrics("Quick thought on your hiring plans").sentences).toBe(1);
+  });
+
+  it("counts the syllables of accented words", () => {
+    expect(readabilityMetrics("Une vérité simple.").fleschReadingEase)
+      .toBe(readabilityMetrics("Une verite simple.").fleschReadingEase);
+  });
+
+  it("returns zeros for an empty body", () => {
+    expect(readabilityMetrics("")).toEqual({ words: 0, sentences: 0, avgSentenceLength: 0, fleschReadingEase: 0 });
+  });
+});
+
+describe("checkReadability", () => {
+  const config: SequenceConfig = {
+    steps: [{ daysSinceLastStep: 0 }, { daysSinceLastStep: 3, limits: { maxSentences: 3 } }],
+    limits: { maxWords: 20 },
+  };
+
+  it("merges the sequence's limits with the step's", () => {
+    expect(stepLimits(config, 0)).toEqual({ maxWords: 20 });
+    expect(stepLimits(config, 1)).toEqual({ maxWords: 20, maxSentences: 3 });
+  });
+
+  it("reports each step outside its limits", () => {
+    const violations = checkReadability(
+      [step(1, "One. Two. Three. Four."), step(2, "One. Two. Three. Four.")],
+      config
+    );
+    expect(violations).toEqual([
+      { step: 2, limit: "maxSentences", expected: 3, actual: 4, message: "4 sentences; at most 3" },
+    ]);
+    expect(readabilityFeedback(violations)).toContain("- Email 2: 4 sentences; at most 3");
+  });
+
+  it("checks sentence length and reading ease", () => {
+    const violations = checkReadability(
+      [step(1, "Organizational transformation necessitates comprehensive infrastructural modernization initiatives.")],
+      { steps: [{ daysSinceLastStep: 0 }], limits: { maxAvgSentenceLength: 5, minReadingEase: 60 } }
+    );
+    expect(violations.map((v) => v.limit)).toEqual(["maxAvgSentenceLength", "minReadingEase"]);
+  });
+
+  it("checks reading ease for English only", () => {
+    const config: SequenceConfig = { steps: [{ daysSinceLastStep: 0 }], limits: { maxWords: 5, minReadingEase: 90 } };
+    const sequence = [step(1, "Unsere Plattform beschleunigt die Einarbeitung neuer Vertriebsmitarbeiter erheblich.")];
+
+    expect(checkReadability(sequence, config, "de").map((v) => v.limit)).toEqual(["maxWords"]);
+    expect(checkReadability(sequence, config, "en-GB").map((v) => v.limit)).toEqual(["maxWords", "minReadingEase"]);
+  });
+});
+
+describe("describeSequence", () => {
+  it("states each step's limits in the sequence structure", () => {
+    const text = describeSequence({
+      steps: [{ daysSinceLastStep: 0 }, { daysSinceLastStep: 3, limits: { maxSentences: 3 } }],
+    });
+    expect(text).toContain("**Email 2 (followup1):**");
+    expect(text).toContain("Limits: at most 3 sentences.");
+    expect(text.split("\n")[0]).not.toContain("Limits");
+  });
+});
+
+describe("summarizeReadability", () => {
+  it("averages the metrics over every step", () => {
+    const stats = summarizeReadability({ steps: 2, words: 10, sentences: 3, avgSentenceLength: 8, fleschReadingEase: 150.25 });
+    expect(stats).toEqual({ steps: 2, avgWords: 5, avgSentences: 1.5, avgSentenceLength: 4, avgReadingEase: 75.1 });
+  });
+
+  it("returns zeros without steps", () => {
+    expect(summarizeReadability({ steps: 0, words: 0, sentences: 0, avgSentenceLength: 0, fleschReadingEase: 0 })).toEqual({
+      steps: 0,
+      avgWords: 0,
+      avgSentences: 0,
+      avgSentenceLength: 0,
+      avgReadingEase: 0,
+    });
+  });
+});
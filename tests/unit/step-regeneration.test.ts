@@ -0,0 +1,296 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import express from "express";
+import request from "supertest";
+
+const mockCreateRun = vi.fn();
+const mockUpdateRun = vi.fn();
+const mockAddCosts = vi.fn();
+
+vi.mock("../../src/lib/runs-client.js", () => ({
+  createRun: (...args: unknown[]) => mockCreateRun(...args),
+  updateRun: (...args: unknown[]) => mockUpdateRun(...args),
+  addCosts: (...args: unknown[]) => mockAddCosts(...args),
+}));
+
+vi.mock("../../src/middleware/auth.js", () => ({
+  serviceAuth: (req: any, _res: any, next: any) => {
+    req.orgId = "org-internal-123";
+    req.clerkOrgId = "org_test";
+    next();
+  },
+}));
+
+const mockGenerationFindFirst = vi.fn();
+const mockUpdateSet = vi.fn();
+const mockUpdateReturning = vi.fn();
+const mockVersionFindFirst = vi.fn();
+const mockPolicyFindFirst = vi.fn();
+
+vi.mock("../../src/db/index.js", () => ({
+  db: {
+    update: () => ({
+      set: (values: Record<string, unknown>) => {
+        mockUpdateSet(values);
+        return { where: () => ({ returning: () => mockUpdateReturning() }) };
+      },
+    }),
+    query: {
+      emailGenerations: {
+        findFirst: (...args: unknown[]) => mockGenerationFindFirst(...args),
+      },
+      promptVersions: { findFirst: (...args: unknown[]) => mockVersionFindFirst(...args) },
+      contentPolicies: { findFirst: (...args: unknown[]) => mockPolicyFindFirst(...args) },
+    },
+  },
+}));
+
+vi.mock("../../src/db/schema.js", () => ({
+  contentPolicies: { appId: { name: "app_id" } },
+  emailGenerations: { id: { name: "id" }, orgId: { name: "org_id" }, editCount: { name: "edit_count" } },
+  promptVersions: { id: { name: "id" } },
+}));
+
+vi.mock("../../src/lib/key-client.js", () => ({
+  getByokKey: vi.fn().mockResolvedValue("fake-byok-key"),
+  getAppKey: vi.fn().mockResolvedValue("fake-app-key"),
+}));
+
+const mockCreate = vi.fn();
+
+vi.mock("@anthropic-ai/sdk", () => ({
+  default: class MockAnthropic {
+    messages = { create: mockCreate };
+  },
+}));
+
+import stepRoutes from "../../src/routes/generation-steps.js";
+
+function createTestApp() {
+  const app = express();
+  app.use(express.json());
+  app.use(stepRoutes);
+  return app;
+}
+
+function step(n: number, text: string, extra: Record<string, unknown> = {}) {
+  return {
+    step: n,
+    bodyHtml: `<p>${text}</p>`,
+    bodyText: text,
+    daysSinceLastStep: [0, 3, 7][n - 1],
+    threadMode: n === 1 ? "new" : "reply",
+    ...extra,
+  };
+}
+
+function generationRow(extra: Record<string, unknown> = {}) {
+  return {
+    id: "gen-1",
+    orgId: "org-internal-123",
+    runId: "run-parent",
+    generationRunId: "run-gen",
+    appId: "my-app",
+    brandId: "brand-1",
+    campaignId: "",
+    workflowName: null,
+    subject: "Quick question",
+    sequence: [step(1, "Hi Sarah"), step(2, "Following up"), step(3, "Last try", { threadMode: "new", subject: "New idea" })],
+    output: { subject: "Quick question", body: "Hi Sarah", followup1: "Following up", followup2: "Last try", followup2Subject: "New idea" },
+    settings: { model: "claude-haiku-4-5", maxTokens: 3072 },
+    locale: null,
+    promptRaw: "[SYSTEM]\nYou write emails.\n\n[USER]\nWrite to Sarah",
+    promptVersionId: "version-1",
+    variablesRaw: { leadFirstName: "Sarah", clientCompanyName: "Acme Labs" },
+    sequenceConfig: null,
+    readabilityViolations: [],
+    editCount: 0,
+    ...extra,
+  };
+}
+
+function respondWith(json: Record<string, unknown>) {
+  mockCreate.mockResolvedValueOnce({
+    content: [{ type: "text", text: JSON.stringify(json) }],
+    usage: { input_tokens: 400, output_tokens: 60 },
+  });
+}
+
+describe("POST /generations/:id/steps/:step/regenerate", () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCreateRun.mockResolvedValue({ id: "run-regen" });
+    mockUpdateRun.mockResolvedValue({});
+    mockAddCosts.mockResolvedValue({ costs: [] });
+    mockGenerationFindFirst.mockResolvedValue(generationRow());
+    mockUpdateReturning.mockResolvedValue([{ id: "gen-1" }]);
+    mockVersionFindFirst.mockResolvedValue({ id: "version-1", systemPrompt: null });
+    mockPolicyFindFirst.mockResolvedValue(undefined);
+    app = createTestApp();
+  });
+
+  it("rewrites one step with the others as context and keeps the old text as a revision", async () => {
+    respondWith({ body: "Sarah, quick follow-up." });
+
+    const res = await request(app)
+      .post("/generations/gen-1/steps/2/regenerate")
+      .send({ keyMode: "byok", instructions: "Shorter" })
+      .expect(200);
+
+    const call = mockCreate.mock.calls[0][0];
+    expect(call.model).toBe("claude-haiku-4-5");
+    expect(call.system).toBe("You write emails.");
+    expect(call.messages[0]).toEqual({ role: "user", content: "Write to Sarah" });
+    expect(JSON.parse(call.messages[1].content)).toEqual(generationRow().output);
+    expect(call.messages[2].content).toContain("Rewrite email 2 (followup1) only");
+    expect(call.messages[2].content).toContain("Reviewer feedback: Shorter");
+    expect(call.output_config.format.schema.required).toEqual(["body"]);
+
+    expect(res.body.step).toMatchObject({
+      step: 2,
+      bodyText: "Sarah, quick follow-up.",
+      bodyHtml: "<p>Sarah, quick follow-up.</p>",
+      revision: 2,
+      revisions: [{ revision: 1, bodyText: "Following up", bodyHtml: "<p>Following up</p>" }],
+    });
+    expect(res.body.sequence[0].bodyText).toBe("Hi Sarah");
+    expect(res.body.sequence[2].bodyText).toBe("Last try");
+    expect(mockUpdateSet).toHaveBeenCalledWith({
+      sequence: res.body.sequence,
+      output: expect.objectContaining({ followup1: "Sarah, quick follow-up.", followup2: "Last try" }),
+      policyViolations: [],
+      deliverabilityScore: res.body.deliverability.score,
+      deliverability: res.body.deliverability,
+      readabilityViolations: [],
+      editCount: 1,
+    });
+    expect(res.body.deliverability.steps).toHaveLength(3);
+  });
+
+  it("discards the rewrite with 409 when the generation was edited meanwhile, still tracking its tokens", async () => {
+    respondWith({ body: "New" });
+    mockUpdateReturning.mockResolvedValue([]);
+
+    const res = await request(app).post("/generations/gen-1/steps/1/regenerate").send({ keyMode: "byok" }).expect(409);
+
+    expect(res.body.error).toContain("edited while the step was being regenerated");
+    expect(mockAddCosts).toHaveBeenCalledWith("run-regen", expect.any(Array));
+    expect(mockUpdateRun).toHaveBeenCalledWith("run-regen", "failed");
+  });
+
+  it("checks the revised sequence against the content policy and the limits it was generated with", async () => {
+    mockGenerationFindFirst.mockResolvedValue(
+      generationRow({
+        sequenceConfig: {
+          steps: [{ daysSinceLastStep: 0 }, { daysSinceLastStep: 3, limits: { maxSentences: 2 } }, { daysSinceLastStep: 7 }],
+        },
+      })
+    );
+    respondWith({ body: "Acme Labs is hiring. One. Two." });
+
+    const res = await request(app).post("/generations/gen-1/steps/2/regenerate").send({ keyMode: "byok" }).expect(200);
+
+    expect(res.body.policy.violations).toEqual([
+      { ruleId: "client-identity", message: "Names the client or links to its website", field: "followup1", match: "Acme Labs" },
+    ]);
+    expect(res.body.readability.violations).toEqual([
+      expect.objectContaining({ step: 2, limit: "maxSentences", expected: 2, actual: 3 }),
+    ]);
+    expect(mockUpdateSet).toHaveBeenCalledWith(
+      expect.objectContaining({
+        policyViolations: res.body.policy.violations,
+        readabilityViolations: res.body.readability.violations,
+      })
+    );
+  });
+
+  it("skips the default policy rules for prompts with their own system prompt", async () => {
+    mockVersionFindFirst.mockResolvedValue({ id: "version-1", systemPrompt: "You write emails." });
+    respondWith({ body: "Acme Labs is hiring." });
+
+    const res = await request(app).post("/generations/gen-1/steps/2/regenerate").send({ keyMode: "byok" }).expect(200);
+
+    expect(res.body.policy.violations).toEqual([]);
+  });
+
+  it("drops the rewritten step's readability violations when the limits are unknown", async () => {
+    mockGenerationFindFirst.mockResolvedValue(
+      generationRow({
+        readabilityViolations: [
+          { step: 1, limit: "maxWords", expected: 1, actual: 2, message: "2 words; at most 1" },
+          { step: 2, limit: "maxWords", expected: 1, actual: 2, message: "2 words; at most 1" },
+        ],
+      })
+    );
+    respondWith({ body: "New" });
+
+    const res = await request(app).post("/generations/gen-1/steps/2/regenerate").send({ keyMode: "byok" }).expect(200);
+
+    expect(res.body.readability.violations.map((v: { step: number }) => v.step)).toEqual([1]);
+  });
+
+  it("asks for a new subject when the step starts its own thread", async () => {
+    respondWith({ body: "Different angle.", subject: "Another idea" });
+
+    const res = await request(app).post("/generations/gen-1/steps/3/regenerate").send({ keyMode: "app" }).expect(200);
+
+    expect(mockCreate.mock.calls[0][0].output_config.format.schema.required).toEqual(["body", "subject"]);
+    expect(res.body.step).toMatchObject({
+      subject: "Another idea",
+      revisions: [{ revision: 1, subject: "New idea", bodyText: "Last try" }],
+    });
+  });
+
+  it("tracks the tokens as a child run of the generation's run", async () => {
+    respondWith({ body: "New" });
+
+    const res = await request(app).post("/generations/gen-1/steps/1/regenerate").send({ keyMode: "byok" }).expect(200);
+
+    expect(mockCreateRun).toHaveBeenCalledWith(
+      expect.objectContaining({ taskName: "step-regeneration", parentRunId: "run-gen", brandId: "brand-1", campaignId: undefined })
+    );
+    expect(mockAddCosts).toHaveBeenCalledWith("run-regen", [
+      { costName: "anthropic-haiku-4.5-tokens-input", quantity: 400 },
+      { costName: "anthropic-haiku-4.5-tokens-output", quantity: 60 },
+    ]);
+    expect(res.body).toMatchObject({ generationRunId: "run-regen", tokensInput: 400, tokensOutput: 60 });
+  });
+
+  it("stacks revisions on repeated regeneration", async () => {
+    mockGenerationFindFirst.mockResolvedValue(
+      generationRow({
+        sequence: [
+          step(1, "Hi Sarah", {
+            revision: 2,
+            revisions: [{ revision: 1, bodyText: "Hello", bodyHtml: "<p>Hello</p>", replacedAt: "2025-01-01T00:00:00.000Z" }],
+          }),
+        ],
+      })
+    );
+    respondWith({ body: "Hey Sarah" });
+
+    const res = await request(app).post("/generations/gen-1/steps/1/regenerate").send({ keyMode: "byok" }).expect(200);
+
+    expect(res.body.step.revision).toBe(3);
+    expect(res.body.step.revisions.map((r: { bodyText: string }) => r.bodyText)).toEqual(["Hello", "Hi Sarah"]);
+  });
+
+  it("returns 404 for an unknown generation or step", async () => {
+    await request(app).post("/generations/gen-1/steps/4/regenerate").send({ keyMode: "byok" }).expect(404);
+    mockGenerationFindFirst.mockResolvedValue(undefined);
+    await request(app).post("/generations/nope/steps/1/regenerate").send({ keyMode: "byok" }).expect(404);
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+
+  it("returns 409 for a generation without a sequence", async () => {
+    mockGenerationFindFirst.mockResolvedValue(generationRow({ sequence: null }));
+
+    await request(app).post("/generations/gen-1/steps/1/regenerate").send({ keyMode: "byok" }).expect(409);
+  });
+
+  it("returns 400 for an invalid step or keyMode", async () => {
+    await request(app).post("/generations/gen-1/steps/0/regenerate").send({ keyMode: "byok" }).expect(400);
+    await request(app).post("/generations/gen-1/steps/1/regenerate").send({ keyMode: "other" }).expect(400);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi } from "vitest";
-import { generateFromTemplate } from "../../src/lib/anthropic-client";
+import { generateFromTemplate, judgeCandidates } from "../../src/lib/anthropic-client";
+import { OutputValidationError } from "../../src/lib/output-schema";
 
 const mockCreate = vi.fn().mockResolvedValue({
   content: [
@@ -95,4 +96,165 @@ describe("structured JSON output", () => {
     const callArgs = mockCreate.mock.calls[0][0];
     expect(callArgs.system).toMatch(/Today is \d{4}-\d{2}-\d{2}/);
   });
+
+  it("follows a configured sequence length and cadence in schema, system prompt and steps", async () => {
+    mockCreate.mockResolvedValueOnce({
+      content: [{ type: "text", text: JSON.stringify({ subject: "Hi", body: "B", followup1: "F1" }) }],
+      usage: { input_tokens: 200, output_tokens: 80 },
+    });
+
+    const result = await generateFromTemplate("fake-key", {
+      promptTemplate: "Write an email to {{recipientName}}",
+      variables: { recipientName: "Sarah" },
+      sequence: { steps: [{ daysSinceLastStep: 0 }, { daysSinceLastStep: 5 }] },
+    });
+
+    const callArgs = mockCreate.mock.calls.at(-1)![0];
+    expect(callArgs.output_config.format.schema.required).toEqual(["subject", "body", "followup1"]);
+    expect(callArgs.system).toContain("a 2-email cold outreach sequence");
+    expect(callArgs.system).toContain("**Email 2 (followup1):** A final follow-up sent ~5 days after email 1.");
+    expect(callArgs.system).not.toContain("Email 3");
+    expect(result.sequence).toEqual([
+      {
+        step: 1,
+        bodyHtml: "<p>B</p>",
+        bodyText: "B",
+        daysSinceLastStep: 0,
+        threadMode: "new",
+        readability: expect.objectContaining({ words: 1 }),
+      },
+      {
+        step: 2,
+        bodyHtml: "<p>F1</p>",
+        bodyText: "F1",
+        daysSinceLastStep: 5,
+        threadMode: "reply",
+        readability: expect.objectContaining({ words: 1 }),
+      },
+    ]);
+  });
+
+  it("asks for and returns an own subject for follow-ups that start a new thread", async () => {
+    mockCreate.mockResolvedValueOnce({
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ subject: "Hi", body: "B", followup1: "F1", followup2: "F2", followup2Subject: "Closing the loop" }),
+        },
+      ],
+      usage: { input_tokens: 200, output_tokens: 80 },
+    });
+
+    const result = await generateFromTemplate("fake-key", {
+      promptTemplate: "Write an email",
+      variables: {},
+      sequence: {
+        steps: [{ daysSinceLastStep: 0 }, { daysSinceLastStep: 3 }, { daysSinceLastStep: 7, threadMode: "new" }],
+      },
+    });
+
+    const callArgs = mockCreate.mock.calls.at(-1)![0];
+    expect(callArgs.output_config.format.schema.required).toEqual([
+      "subject",
+      "body",
+      "followup1",
+      "followup2",
+      "followup2Subject",
+    ]);
+    expect(callArgs.system).toContain("New thread — give it its own subject line (followup2Subject)");
+    expect(result.subject).toBe("Hi");
+    expect(result.sequence!.map((s) => [s.threadMode, s.subject])).toEqual([
+      ["new", undefined],
+      ["reply", undefined],
+      ["new", "Closing the loop"],
+    ]);
+  });
+
+  it("writes a single email when the sequence has one step", async () => {
+    mockCreate.mockResolvedValueOnce({
+      content: [{ type: "text", text: JSON.stringify({ subject: "Hi", body: "B" }) }],
+      usage: { input_tokens: 200, output_tokens: 80 },
+    });
+
+    const result = await generateFromTemplate("fake-key", {
+      promptTemplate: "Write an email",
+      variables: {},
+      sequence: { steps: [{ daysSinceLastStep: 0 }] },
+    });
+
+    const callArgs = mockCreate.mock.calls.at(-1)![0];
+    expect(callArgs.system).toContain("You're writing a single cold outreach email");
+    expect(callArgs.system).toContain("Always respond with the email ready to send");
+    expect(result.sequence).toHaveLength(1);
+  });
+
+  it("has a judge score candidates side by side, normalized to 0-1", async () => {
+    mockCreate.mockResolvedValueOnce({
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            scores: [
+              { candidate: 2, score: 8, rationale: "Specific hook" },
+              { candidate: 1, score: 5, rationale: "Generic opener" },
+            ],
+          }),
+        },
+      ],
+      usage: { input_tokens: 900, output_tokens: 60 },
+    });
+
+    const result = await judgeCandidates("fake-key", {
+      userPrompt: "Write to Sarah",
+      candidates: [{ body: "One" }, { body: "Two" }, { body: "Three" }],
+      criteria: "Brevity",
+      settings: { model: "claude-haiku-4-5" },
+    });
+
+    const callArgs = mockCreate.mock.calls.at(-1)![0];
+    expect(callArgs.model).toBe("claude-haiku-4-5");
+    expect(callArgs.messages[0].content).toContain("## Criteria\nBrevity");
+    expect(callArgs.messages[0].content).toContain('<candidate number="3">');
+    expect(callArgs.output_config.format.schema.required).toEqual(["scores"]);
+    expect(result.scores).toEqual([
+      { score: 0.5, rationale: "Generic opener" },
+      { score: 0.8, rationale: "Specific hook" },
+      { score: 0, rationale: "Not scored by the judge" },
+    ]);
+    expect(result.tokensInput).toBe(900);
+  });
+
+  it("fails output cut off at maxTokens with the billed usage, leaving out stop sequences", async () => {
+    mockCreate.mockResolvedValueOnce({
+      content: [{ type: "text" as const, text: '{"subject": "Quick question", "body": "Hey Sar' }],
+      stop_reason: "max_tokens",
+      usage: { input_tokens: 200, output_tokens: 16 },
+    });
+
+    const error = await generateFromTemplate("fake-key", {
+      promptTemplate: "Write an email",
+      variables: {},
+      settings: { maxTokens: 16, stopSequences: ["---"] },
+    }).catch((err) => err);
+
+    expect(mockCreate.mock.calls.at(-1)![0].stop_sequences).toBeUndefined();
+    expect(error).toBeInstanceOf(OutputValidationError);
+    expect(error.issues[0]).toContain("cut off");
+    expect(error.usage).toEqual({ tokensInput: 200, tokensOutput: 16 });
+  });
+
+  it("fails a response that is not valid JSON with the billed usage", async () => {
+    mockCreate.mockResolvedValueOnce({
+      content: [{ type: "text" as const, text: "Sorry, I can't" }],
+      stop_reason: "end_turn",
+      usage: { input_tokens: 200, output_tokens: 5 },
+    });
+
+    const error = await generateFromTemplate("fake-key", { promptTemplate: "Write an email", variables: {} }).catch(
+      (err) => err
+    );
+
+    expect(error).toBeInstanceOf(OutputValidationError);
+    expect(error.usage).toEqual({ tokensInput: 200, tokensOutput: 5 });
+  });
 });
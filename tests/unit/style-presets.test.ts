@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import express from "express";
+import request from "supertest";
+
+vi.mock("../../src/middleware/auth.js", () => ({
+  serviceAuth: (req: any, _res: any, next: any) => {
+    req.orgId = "org-internal-123";
+    req.clerkOrgId = "org_test";
+    next();
+  },
+}));
+
+const NOW = new Date("2025-01-15T00:00:00Z");
+
+const mockPresetFindFirst = vi.fn();
+const mockPresetFindMany = vi.fn();
+const mockInsertValues = vi.fn();
+const mockUpdateSet = vi.fn();
+const mockDeleteReturning = vi.fn();
+
+vi.mock("../../src/db/index.js", () => ({
+  db: {
+    insert: vi.fn().mockReturnValue({
+      values: (values: Record<string, unknown>) => {
+        mockInsertValues(values);
+        return { returning: () => Promise.resolve([{ id: "style-1", createdAt: NOW, updatedAt: NOW, ...values }]) };
+      },
+    }),
+    update: vi.fn().mockReturnValue({
+      set: (values: Record<string, unknown>) => {
+        mockUpdateSet(values);
+        return {
+          where: () => ({
+            returning: () =>
+              Promise.resolve([{ id: "style-1", appId: "my-app", name: "formal-enterprise", createdAt: NOW, ...values }]),
+          }),
+        };
+      },
+    }),
+    delete: vi.fn().mockReturnValue({
+      where: () => ({ returning: (...args: unknown[]) => mockDeleteReturning(...args) }),
+    }),
+    query: {
+      stylePresets: {
+        findFirst: (...args: unknown[]) => mockPresetFindFirst(...args),
+        findMany: (...args: unknown[]) => mockPresetFindMany(...args),
+      },
+    },
+  },
+}));
+
+vi.mock("../../src/db/schema.js", () => ({
+  stylePresets: { id: { name: "id" }, appId: { name: "app_id" }, name: { name: "name" } },
+}));
+
+import stylePresetRoutes from "../../src/routes/style-presets.js";
+
+function createTestApp() {
+  const app = express();
+  app.use(express.json());
+  app.use(stylePresetRoutes);
+  return app;
+}
+
+function presetRow(name: string, fields: Record<string, unknown> = {}) {
+  return {
+    id: `style-${name}`,
+    appId: "my-app",
+    name,
+    description: null,
+    tone: null,
+    opener: null,
+    maxWords: null,
+    rules: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...fields,
+  };
+}
+
+describe("style presets", () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    app = createTestApp();
+  });
+
+  describe("PUT /style-presets", () => {
+    it("creates a preset", async () => {
+      mockPresetFindFirst.mockResolvedValue(undefined);
+
+      const res = await request(app)
+        .put("/style-presets")
+        .send({ appId: "my-app", name: "ultra-short", maxWords: 50, tone: "Blunt and brief." })
+        .expect(200);
+
+      expect(res.body).toMatchObject({ name: "ultra-short", maxWords: 50, status: "created" });
+      expect(mockInsertValues).toHaveBeenCalledWith({
+        appId: "my-app",
+        name: "ultra-short",
+        description: null,
+        tone: "Blunt and brief.",
+        opener: null,
+        maxWords: 50,
+        rules: null,
+      });
+    });
+
+    it("replaces every field of an existing preset", async () => {
+      mockPresetFindFirst.mockResolvedValue(presetRow("formal-enterprise", { tone: "Formal.", rules: "No slang." }));
+
+      const res = await request(app)
+        .put("/style-presets")
+        .send({ appId: "my-app", name: "formal-enterprise", tone: "Formal and precise." })
+        .expect(200);
+
+      expect(res.body.status).toBe("updated");
+      expect(mockUpdateSet).toHaveBeenCalledWith(expect.objectContaining({ tone: "Formal and precise.", rules: null }));
+    });
+
+    it("leaves an identical preset untouched", async () => {
+      mockPresetFindFirst.mockResolvedValue(presetRow("formal-enterprise", { tone: "Formal." }));
+
+      const res = await request(app)
+        .put("/style-presets")
+        .send({ appId: "my-app", name: "formal-enterprise", tone: "Formal." })
+        .expect(200);
+
+      expect(res.body.status).toBe("unchanged");
+      expect(mockUpdateSet).not.toHaveBeenCalled();
+    });
+
+    it("rejects invalid names and length targets", async () => {
+      await request(app).put("/style-presets").send({ appId: "my-app", name: "has space" }).expect(400);
+      await request(app).put("/style-presets").send({ appId: "my-app", name: "x", maxWords: 2 }).expect(400);
+      expect(mockPresetFindFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("GET /style-presets", () => {
+    it("lists the app's presets", async () => {
+      mockPresetFindMany.mockResolvedValue([presetRow("casual-founder"), presetRow("formal-enterprise")]);
+
+      const res = await request(app).get("/style-presets?appId=my-app").expect(200);
+
+      expect(res.body.presets.map((p: { name: string }) => p.name)).toEqual(["casual-founder", "formal-enterprise"]);
+    });
+
+    it("requires appId", async () => {
+      await request(app).get("/style-presets").expect(400);
+    });
+  });
+
+  describe("DELETE /style-presets", () => {
+    it("deletes a preset", async () => {
+      mockDeleteReturning.mockResolvedValue([presetRow("ultra-short")]);
+
+      const res = await request(app).delete("/style-presets?appId=my-app&name=ultra-short").expect(200);
+
+      expect(res.body).toEqual({ deleted: true, id: "style-ultra-short", appId: "my-app", name: "ultra-short" });
+    });
+
+    it("returns 404 for an unknown preset", async () => {
+      mockDeleteReturning.mockResolvedValue([]);
+
+      await request(app).delete("/style-presets?appId=my-app&name=nope").expect(404);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { generateFromTemplate } from "../../src/lib/anthropic-client";
+
+const mockCreate = vi.fn().mockResolvedValue({
+  content: [
+    {
+      type: "text" as const,
+      text: JSON.stringify({ subject: "Hi", body: "Body", followup1: "F1", followup2: "F2" }),
+    },
+  ],
+  usage: { input_tokens: 100, output_tokens: 50 },
+});
+
+vi.mock("@anthropic-ai/sdk", () => ({
+  default: class MockAnthropic {
+    messages = { create: mockCreate };
+  },
+}));
+
+describe("per-prompt system prompt", () => {
+  beforeEach(() => {
+    mockCreate.mockClear();
+  });
+
+  it("substitutes variables into a stored system prompt", async () => {
+    await generateFromTemplate("fake-key", {
+      promptTemplate: "Invite {{recipientName}}",
+      systemPromptTemplate: "You write warm invites for {{eventName}}.",
+      variables: { recipientName: "Sarah", eventName: "Demo Day" },
+    });
+
+    const callArgs = mockCreate.mock.calls[0][0];
+    expect(callArgs.system).toBe("You write warm invites for Demo Day.");
+    expect(callArgs.system).not.toContain("contrarian");
+  });
+
+  it("falls back to the built-in cold outreach persona", async () => {
+    await generateFromTemplate("fake-key", {
+      promptTemplate: "Write to {{recipientName}}",
+      systemPromptTemplate: null,
+      variables: { recipientName: "Sarah" },
+    });
+
+    expect(mockCreate.mock.calls[0][0].system).toContain("3-email cold outreach sequence");
+  });
+
+  it("asks for native output in the requested locale, with stored system prompts too", async () => {
+    await generateFromTemplate("fake-key", {
+      promptTemplate: "Invite {{recipientName}}",
+      systemPromptTemplate: "You write warm invites.",
+      locale: "de-DE",
+      variables: { recipientName: "Sarah" },
+    });
+
+    const system = mockCreate.mock.calls[0][0].system;
+    expect(system).toMatch(/^You write warm invites\.\n\n## Language\n/);
+    expect(system).toContain("natively in German (Germany) (de-DE)");
+    expect(system).toContain("Keep every {{placeholder}} token exactly as written");
+  });
+
+  it("swaps the built-in tone and opener for a style preset's", async () => {
+    await generateFromTemplate("fake-key", {
+      promptTemplate: "Write to {{recipientName}}",
+      style: { tone: "Formal and precise.", opener: "Open with the business problem.", maxWords: 90, rules: "No emojis." },
+      variables: { recipientName: "Sarah" },
+    });
+
+    const system = mockCreate.mock.calls[0][0].system;
+    expect(system).toContain("## Tone\nFormal and precise.");
+    expect(system).toContain("## Opening line (Email 1 only)\nOpen with the business problem.");
+    expect(system).toContain("**Email 1 (body):** The initial cold email. Open as described under Opening line.");
+    expect(system).toContain("## Length\nKeep each email under 90 words.");
+    expect(system).toMatch(/## House style\nNo emojis\.$/);
+    expect(system).not.toContain("contrarian");
+  });
+
+  it("appends a style preset to a stored system prompt", async () => {
+    await generateFromTemplate("fake-key", {
+      promptTemplate: "Invite {{recipientName}}",
+      systemPromptTemplate: "You write invites.",
+      style: { tone: "Casual.", maxWords: 40 },
+      variables: { recipientName: "Sarah" },
+    });
+
+    expect(mockCreate.mock.calls[0][0].system).toBe(
+      "You write invites.\n\n## Style\nTone: Casual.\nLength: Keep each email under 40 words. Cut anything that doesn't earn its place."
+    );
+  });
+
+  it("steers each candidate of a multi-candidate generation to its own angle", async () => {
+    await generateFromTemplate("fake-key", {
+      promptTemplate: "Invite {{recipientName}}",
+      systemPromptTemplate: "You write invites.",
+      candidate: { index: 2, count: 3 },
+      variables: { recipientName: "Sarah" },
+    });
+
+    const system = mockCreate.mock.calls[0][0].system;
+    expect(system).toMatch(/^You write invites\.\n\n## Candidate\nThis is candidate 2 of 3/);
+    expect(system).toContain("take angle number 2 of the 3 different angles");
+  });
+
+  it("records the resolved system and user prompt in promptRaw", async () => {
+    const result = await generateFromTemplate("fake-key", {
+      promptTemplate: "Invite {{recipientName}}",
+      systemPromptTemplate: "Rules for {{eventName}}",
+      variables: { recipientName: "Sarah", eventName: "Demo Day" },
+    });
+
+    expect(result.promptRaw).toBe("[SYSTEM]\nRules for Demo Day\n\n[USER]\nInvite Sarah");
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect } from "vitest";
+import {
+  renderTemplate,
+  parseTemplate,
+  collectReferences,
+  expandPartials,
+  findBraceIssues,
+  findPartialCycle,
+  listPartialReferences,
+  TemplateError,
+} from "../../src/lib/template-engine";
+
+describe("renderTemplate", () => {
+  it("renders plain {{var}} templates exactly like literal substitution", () => {
+    expect(renderTemplate("Hi {{name}}, {{tags}}", { name: "Ana", tags: ["a", "b"] })).toBe("Hi Ana, a, b");
+  });
+
+  it("leaves stray braces that are not expressions untouched", () => {
+    expect(renderTemplate("Use {{ some words }} here", {})).toBe("Use {{ some words }} here");
+  });
+
+  it("reads nested paths and flat keys containing dots", () => {
+    expect(renderTemplate("{{lead.company}} / {{a.b}}", { lead: { company: "Acme" }, "a.b": "flat" })).toBe("Acme / flat");
+  });
+
+  describe("conditionals", () => {
+    it("renders the then branch when truthy", () => {
+      expect(renderTemplate("{{#if title}}Title: {{title}}{{/if}}", { title: "CTO" })).toBe("Title: CTO");
+    });
+
+    it("renders the else branch when missing, blank or empty", () => {
+      const t = "{{#if title}}yes{{else}}no{{/if}}";
+      expect(renderTemplate(t, {})).toBe("no");
+      expect(renderTemplate(t, { title: "  " })).toBe("no");
+      expect(renderTemplate(t, { title: [] })).toBe("no");
+    });
+
+    it("supports unless", () => {
+      expect(renderTemplate("{{#unless vip}}standard{{/unless}}", { vip: false })).toBe("standard");
+    });
+  });
+
+  describe("loops", () => {
+    it("iterates arrays with this and @index", () => {
+      expect(renderTemplate("{{#each items}}{{@index}}:{{this}} {{/each}}", { items: ["a", "b"] })).toBe("0:a 1:b ");
+    });
+
+    it("resolves item properties before outer variables", () => {
+      const t = "{{#each people}}{{name}} at {{company}};{{/each}}";
+      expect(renderTemplate(t, { company: "Acme", people: [{ name: "Ana" }, { name: "Bo", company: "Other" }] }))
+        .toBe("Ana at Acme;Bo at Other;");
+    });
+
+    it("renders the else branch for empty lists", () => {
+      expect(renderTemplate("{{#each items}}x{{else}}none{{/each}}", { items: [] })).toBe("none");
+    });
+  });
+
+  describe("filters", () => {
+    it("applies defaults only for missing or blank values", () => {
+      const t = `Hi {{leadFirstName | default: "there"}}`;
+      expect(renderTemplate(t, {})).toBe("Hi there");
+      expect(renderTemplate(t, { leadFirstName: "" })).toBe("Hi there");
+      expect(renderTemplate(t, { leadFirstName: "Ana" })).toBe("Hi Ana");
+    });
+
+    it("chains upper, truncate and join", () => {
+      expect(renderTemplate("{{name | upper}}", { name: "acme" })).toBe("ACME");
+      expect(renderTemplate("{{text | truncate: 5}}", { text: "abcdefgh" })).toBe("abcde...");
+      expect(renderTemplate(`{{list | join: " / "}}`, { list: ["a", "b"] })).toBe("a / b");
+      expect(renderTemplate(`{{name | default: "x" | upper}}`, {})).toBe("X");
+    });
+
+    it("leaves the tag as-is when the variable is missing and there is no default", () => {
+      expect(renderTemplate("{{name | upper}}", {})).toBe("{{name | upper}}");
+    });
+  });
+
+  describe("sandboxing", () => {
+    it("does not read inherited properties", () => {
+      expect(renderTemplate("{{constructor}} {{name.length}}", { name: "abc" })).toBe("{{constructor}} {{name.length}}");
+    });
+
+    it("caps loop size", () => {
+      expect(() => renderTemplate("{{#each items}}x{{/each}}", { items: new Array(1000).fill("a") })).toThrow(TemplateError);
+    });
+
+    it("caps total iterations of nested loops", () => {
+      const rows = new Array(500).fill(0).map(() => ({ cells: new Array(500).fill("") }));
+      expect(() => renderTemplate("{{#each rows}}{{#each cells}}{{this}}{{/each}}{{/each}}", { rows })).toThrow(
+        /iterations in total/
+      );
+    });
+
+    it("caps output length while rendering", () => {
+      const rows = new Array(100).fill(0).map(() => ({ cells: new Array(50).fill("x".repeat(200)) }));
+      expect(() => renderTemplate("{{#each rows}}{{#each cells}}{{this}}{{/each}}{{/each}}", { rows })).toThrow(
+        /exceeds 500000 characters/
+      );
+    });
+  });
+});
+
+describe("parseTemplate", () => {
+  it("rejects unclosed and mismatched blocks", () => {
+    expect(() => parseTemplate("{{#if a}}x")).toThrow(/Unclosed/);
+    expect(() => parseTemplate("{{#if a}}x{{/each}}")).toThrow(TemplateError);
+    expect(() => parseTemplate("{{#if a}}x{{else}}y{{else}}z{{/if}}")).toThrow(/Second/);
+  });
+
+  it("leaves else and closing tags outside of any block as text", () => {
+    expect(renderTemplate("x{{/if}} {{else}} {{a}}", { a: "b" })).toBe("x{{/if}} {{else}} b");
+  });
+
+  it("rejects unknown filters", () => {
+    expect(() => parseTemplate("{{a | shout}}")).toThrow(/Unknown filter/);
+  });
+});
+
+describe("collectReferences", () => {
+  it("marks conditional and defaulted variables as optional", () => {
+    const refs = collectReferences(
+      `Hi {{first | default: "there"}} {{company}}{{#if title}} ({{title}}){{/if}}{{#each pains}}{{this}}{{/each}}`
+    );
+    expect(refs).toEqual([
+      { name: "first", optional: true },
+      { name: "company", optional: false },
+      { name: "title", optional: true },
+      { name: "pains", optional: true },
+    ]);
+  });
+
+  it("is required when any use is unconditional", () => {
+    expect(collectReferences("{{#if a}}{{a}}{{/if}} {{a}}")).toEqual([{ name: "a", optional: false }]);
+  });
+
+  it("reports references inside loop bodies as optional, marking those only used there", () => {
+    expect(collectReferences("{{#each leads}}{{name}} at {{company}}{{/each}} {{company}}")).toEqual([
+      { name: "leads", optional: true },
+      { name: "name", optional: true, inLoop: true },
+      { name: "company", optional: false },
+    ]);
+  });
+});
+
+describe("partials", () => {
+  const partials = {
+    greeting: "Hi {{name}}",
+    signoff: "{{> greeting}}, bye",
+  };
+
+  it("lists included partials", () => {
+    expect(listPartialReferences("{{> a}} {{>b}} {{> a}}")).toEqual(["a", "b"]);
+  });
+
+  it("inlines partials recursively before rendering", () => {
+    const expanded = expandPartials("{{> signoff}}!", partials);
+    expect(expanded).toBe("Hi {{name}}, bye!");
+    expect(renderTemplate(expanded, { name: "Sarah" })).toBe("Hi Sarah, bye!");
+  });
+
+  it("throws for unknown partials", () => {
+    expect(() => expandPartials("{{> missing}}", partials)).toThrow('Unknown partial "missing"');
+  });
+
+  it("throws for cycles while expanding", () => {
+    expect(() => expandPartials("{{> a}}", { a: "{{> b}}", b: "{{> a}}" })).toThrow("Partial cycle: a > b > a");
+  });
+
+  it("finds cycles in a partial set", () => {
+    expect(findPartialCycle(partials)).toBeNull();
+    expect(findPartialCycle({ a: "{{> b}}", b: "{{> c}}", c: "{{> a}}" })).toEqual(["a", "b", "c", "a"]);
+    expect(findPartialCycle({ self: "x {{> self}}" })).toEqual(["self", "self"]);
+  });
+});
+
+describe("findBraceIssues", () => {
+  it("accepts well-formed templates", () => {
+    expect(findBraceIssues('{{#if a}}{{a | default: "x"}}{{else}}{{> p}}{{/if}} {{@index}}')).toEqual([]);
+  });
+
+  it("reports unbalanced, non-expression and single-brace tags with their line", () => {
+    expect(findBraceIssues("Hi {{name}\n{{first name}}\nBye {company}} and {title}")).toEqual([
+      { kind: "not_an_expression", line: 1, text: "{{name}\n{{first name}}" },
+      { kind: "unbalanced", line: 3, text: "}}" },
+      { kind: "single_braces", line: 3, text: "{title}" },
+    ]);
+  });
+
+  it("reports else and closing tags outside of any block", () => {
+    expect(findBraceIssues("{{#if a}}x{{/if}}\n{{else}} {{/each}}")).toEqual([
+      { kind: "unmatched_block", line: 2, text: "{{else}}" },
+      { kind: "unmatched_block", line: 2, text: "{{/each}}" },
+    ]);
+  });
+
+  it("reports an opening {{ that is never closed", () => {
+    expect(findBraceIssues("Hello {{name")).toEqual([{ kind: "unbalanced", line: 1, text: "{{" }]);
+  });
+});
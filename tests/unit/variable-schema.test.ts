@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import {
+  coerceVariables,
+  describeVariables,
+  normalizeVariables,
+  validateVariableSchema,
+} from "../../src/lib/variable-schema";
+
+describe("normalizeVariables", () => {
+  it("keeps bare names without a schema", () => {
+    expect(normalizeVariables(["a", "b"])).toEqual({ variables: ["a", "b"], variableSchema: null });
+  });
+
+  it("builds a schema when any declaration is typed", () => {
+    expect(normalizeVariables(["a", { name: "b", type: "number" }])).toEqual({
+      variables: ["a", "b"],
+      variableSchema: [{ name: "a" }, { name: "b", type: "number" }],
+    });
+  });
+});
+
+describe("coerceVariables", () => {
+  it("passes variables through when there is no schema", () => {
+    const provided = { a: 1, b: ["x"] };
+    expect(coerceVariables(null, provided)).toEqual({ values: provided, invalid: [] });
+  });
+
+  it("converts values to the declared type and fills defaults", () => {
+    const { values, invalid } = coerceVariables(
+      [
+        { name: "count", type: "number" },
+        { name: "name" },
+        { name: "tags", type: "string[]" },
+        { name: "tone", default: "friendly" },
+      ],
+      { count: "12", name: 7, tags: "one", extra: true }
+    );
+
+    expect(invalid).toEqual([]);
+    expect(values).toEqual({ count: 12, name: "7", tags: ["one"], tone: "friendly", extra: true });
+  });
+
+  it("reports values of the wrong type or over maxLength", () => {
+    const { invalid } = coerceVariables(
+      [
+        { name: "count", type: "number" },
+        { name: "name", maxLength: 3 },
+        { name: "tags", type: "string[]", maxLength: 2 },
+        { name: "meta", type: "object" },
+      ],
+      { count: "twelve", name: "Sarah", tags: ["ok", "long"], meta: [1] }
+    );
+
+    expect(invalid).toEqual([
+      "count: expected a number, got string",
+      "name: longer than 3 characters",
+      "tags: has an item longer than 2 characters",
+      "meta: expected an object, got array",
+    ]);
+  });
+});
+
+describe("validateVariableSchema", () => {
+  it("accepts a valid schema", () => {
+    expect(validateVariableSchema([{ name: "a", type: "string[]", maxLength: 10, default: ["x"] }])).toBeNull();
+  });
+
+  it("rejects duplicates, misplaced maxLength and invalid defaults", () => {
+    expect(validateVariableSchema([{ name: "a" }, { name: "a" }])).toBe('Variable "a" is declared more than once');
+    expect(validateVariableSchema([{ name: "n", type: "number", maxLength: 3 }])).toContain("maxLength only applies");
+    expect(validateVariableSchema([{ name: "o", type: "object", default: "x" }])).toBe(
+      'Variable "o": default is invalid, expected an object, got string'
+    );
+  });
+});
+
+describe("describeVariables", () => {
+  it("lists declared and referenced variables with their resolved type and required flag", () => {
+    expect(
+      describeVariables({
+        prompt: "{{a}} {{#if b}}{{b}}{{/if}} {{c}}",
+        variables: ["a", "b"],
+        variableSchema: [{ name: "a", required: false }, { name: "b", type: "number" }],
+      })
+    ).toEqual([
+      { name: "a", type: "string", required: false },
+      { name: "b", type: "number", required: false },
+      { name: "c", type: "string", required: true },
+    ]);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { extractPlaceholders, validateVariables, hasVariableIssues } from "../../src/lib/template-variables";
+
+describe("extractPlaceholders", () => {
+  it("returns distinct placeholders in order of appearance", () => {
+    expect(extractPlaceholders("{{b}} and {{a}} then {{b}}")).toEqual(["b", "a"]);
+  });
+
+  it("returns an empty list for templates without placeholders", () => {
+    expect(extractPlaceholders("No variables here")).toEqual([]);
+  });
+});
+
+describe("validateVariables", () => {
+  it("checks several templates together", () => {
+    const result = validateVariables(
+      ["You write for {{brand}}.", "Hi {{name}}{{#if brand}} from {{brand}}{{/if}}"],
+      [],
+      { name: "Alice" }
+    );
+    expect(result.missing).toEqual(["brand"]);
+    expect(result.unexpected).toEqual([]);
+  });
+
+  it("reports nothing when input matches declaration and template", () => {
+    const result = validateVariables("Hi {{name}}", ["name"], { name: "Alice" });
+    expect(result).toEqual({ missing: [], unexpected: [], empty: [] });
+    expect(hasVariableIssues(result)).toBe(false);
+  });
+
+  it("treats declared-but-unused variables as expected", () => {
+    const result = validateVariables("Hi there", ["name"], {});
+    expect(result.missing).toEqual(["name"]);
+  });
+
+  it("treats placeholders as expected even when not declared", () => {
+    const result = validateVariables("Hi {{name}}", [], { name: "Alice" });
+    expect(result.unexpected).toEqual([]);
+  });
+
+  it("flags null, blank strings and empty arrays as empty", () => {
+    const result = validateVariables("{{a}} {{b}} {{c}} {{d}}", [], {
+      a: null,
+      b: "   ",
+      c: [],
+      d: 0,
+    });
+    expect(result.empty).toEqual(["a", "b", "c"]);
+    expect(hasVariableIssues(result)).toBe(true);
+  });
+
+  it("does not require variables the template only uses conditionally", () => {
+    const result = validateVariables(
+      `Hi {{leadFirstName | default: "there"}}{{#if leadTitle}}, {{leadTitle}}{{/if}}`,
+      [],
+      { leadTitle: "" }
+    );
+    expect(result).toEqual({ missing: [], unexpected: [], empty: [] });
+  });
+
+  it("expects variables used only inside a loop body", () => {
+    const result = validateVariables("{{#each pains}}{{this}} for {{company}}{{/each}}", [], {
+      pains: ["churn"],
+      company: "Acme",
+    });
+    expect(result).toEqual({ missing: [], unexpected: [], empty: [] });
+  });
+});
@@ -31,6 +31,8 @@ vi.mock("../../src/middleware/auth.js", () => ({
 const mockInsertValues: Array<Record<string, unknown>> = [];
 const mockDbSetCalls: Array<Record<string, unknown>> = [];
 
+const mockVariantFindMany = vi.fn().mockResolvedValue([]);
+
 vi.mock("../../src/db/index.js", () => ({
   db: {
     insert: vi.fn().mockReturnValue({
@@ -48,6 +50,10 @@ vi.mock("../../src/db/index.js", () => ({
       }),
     }),
     query: {
+      contentPolicies: { findFirst: () => Promise.resolve(undefined) },
+      promptVariants: {
+        findMany: (...args: unknown[]) => mockVariantFindMany(...args),
+      },
       prompts: {
         findFirst: vi.fn().mockResolvedValue({
           id: "prompt-1",
@@ -62,8 +68,10 @@ vi.mock("../../src/db/index.js", () => ({
 }));
 
 vi.mock("../../src/db/schema.js", () => ({
+  contentPolicies: { appId: { name: "app_id" } },
   emailGenerations: { id: { name: "id" }, orgId: { name: "org_id" }, idempotencyKey: { name: "idempotency_key" } },
   contentGenerations: { id: { name: "id" } },
+  promptVariants: { promptId: { name: "prompt_id" }, name: { name: "name" } },
   prompts: { appId: { name: "app_id" }, type: { name: "type" } },
 }));
 